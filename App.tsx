@@ -9,7 +9,11 @@ import { ThemeProvider } from './src/contexts/ThemeContext';
 import { useAppStore } from './src/store';
 import { useAuthStore } from './src/store/authStore';
 import { NotificationService } from './src/utils/notifications';
+import { parseSparkLink } from './src/utils/deepLinks';
 import { FeedbackNotificationService } from './src/services/FeedbackNotificationService';
+import { TodoReminderService } from './src/services/TodoReminderService';
+import { ComingUpReminderService } from './src/services/ComingUpReminderService';
+import { SharedShopListService } from './src/services/SharedShopListService';
 import { ServiceFactory } from './src/services/ServiceFactory';
 import AuthService from './src/services/AuthService';
 
@@ -159,12 +163,20 @@ function AppContent() {
       // Import navigation ref dynamically to avoid circular dependencies
       import('./src/navigation/AppNavigator').then(({ navigationRef }) => {
         if (navigationRef.isReady()) {
-          if (data?.type === 'spark-notification' && data?.sparkId) {
-            // Navigate to the specific spark
+          const link = typeof data?.url === 'string' ? parseSparkLink(data.url) : null;
+          if (link) {
+            // Notification carries a deep link to a specific item
+            (navigationRef as any).navigate('MySparks', {
+              screen: 'Spark',
+              params: link,
+            });
+            console.log(`✅ Navigated to ${data.url} from notification`);
+          } else if (data?.type === 'spark-notification' && data?.sparkId) {
+            // Navigate to the specific spark (and item, if the notification names one)
             // First navigate to MySparks stack, then to the Spark screen
             (navigationRef as any).navigate('MySparks', {
               screen: 'Spark',
-              params: { sparkId: data.sparkId },
+              params: { sparkId: data.sparkId, itemType: data.itemType, itemId: data.itemId },
             });
             console.log(`✅ Navigated to spark ${data.sparkId} from notification`);
           } else if (data?.type === 'activity-start' && data?.sparkId) {
@@ -211,8 +223,17 @@ function AppContent() {
       }
     }, 30000); // Update every 30 seconds
 
+    // Keep reminders and the shared shopping list in step with spark data,
+    // whichever screen or voice command wrote it
+    const stopTodoReminders = TodoReminderService.watchTodos();
+    const stopEventReminders = ComingUpReminderService.watchEvents();
+    const stopSharedShopSync = SharedShopListService.watchStoredItems();
+
     return () => {
       subscription?.remove();
+      stopTodoReminders();
+      stopEventReminders();
+      stopSharedShopSync();
       if (feedbackListenerCleanup) {
         feedbackListenerCleanup();
       }
@@ -0,0 +1,640 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, TextInput, ScrollView, Alert } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { HapticFeedback } from '../utils/haptics';
+import { useSparkData } from '../store';
+import { BetFormat, BetGame, BetPlayer, Course, GolfBrainData, Round, SkinsData } from '../types/sparkData';
+import { getHandicapIndex } from '../utils/handicap';
+import {
+    applyRoundScores,
+    BET_FORMAT_NAMES,
+    BET_POINT_NAMES,
+    describeNassauMatch,
+    formatStake,
+    getBetFormatError,
+    getBetSides,
+    getCurrentBetHole,
+    getRoundBetHoles,
+    getRoundBetPlayers,
+    getWolfId,
+    scoreBetGame,
+    setHoleWinners,
+    setWolfPartner,
+    settleUp,
+    undoLastHole,
+} from '../utils/golfBets';
+
+interface BettingGameProps {
+    sparkId: 'skins' | 'big-denny';
+}
+
+type PlayerCount = 2 | 3 | 4;
+
+const FORMATS: BetFormat[] = ['skins', 'nassau', 'wolf', 'best-ball'];
+
+// Golf Brain's owner shows up under this name
+const OWNER_NAME = 'You';
+
+interface LinkedRound {
+    round: Round;
+    course: Course;
+    ownerHandicapIndex?: number;
+}
+
+/**
+ * A Golf Brain round and its course: the given one, else the round in
+ * progress or the latest one played with partners
+ */
+const findGolfBrainRound = (golfBrain: Partial<GolfBrainData>, roundId?: string): LinkedRound | undefined => {
+    const rounds = golfBrain.rounds || [];
+    const courses = golfBrain.courses || [];
+    const candidates = [golfBrain.currentRound, ...[...rounds].reverse()].filter((r): r is Round => !!r);
+    const round = roundId
+        ? candidates.find(r => r.id === roundId)
+        : candidates.find(r => (r.players || []).length > 0);
+    const course = round && courses.find(c => c.id === round.courseId);
+    if (!round || !course) return undefined;
+    return {
+        round,
+        course,
+        ownerHandicapIndex: getHandicapIndex(rounds, courses) ?? golfBrain.settings?.handicap,
+    };
+};
+
+/**
+ * Skins, Nassau, wolf and best-ball for a group on the course, entered hole by
+ * hole or scored from a Golf Brain round, ending in a settle-up
+ */
+export const BettingGame: React.FC<BettingGameProps> = ({ sparkId }) => {
+    const { colors } = useTheme();
+    const [savedGame, setSavedGame] = useSparkData(sparkId);
+    const [golfBrain] = useSparkData('golf-brain');
+
+    // Game State
+    const [mode, setMode] = useState<SkinsData['mode']>(savedGame.mode || 'setup');
+    const [game, setGame] = useState<BetGame | undefined>(savedGame.game);
+
+    // Setup State
+    const [format, setFormat] = useState<BetFormat>('skins');
+    const [playerCount, setPlayerCount] = useState<PlayerCount>(2);
+    const [holeCount, setHoleCount] = useState(18);
+    const [names, setNames] = useState<string[]>(['', '', '', '']);
+    const [stake, setStake] = useState('1');
+    const [carryOvers, setCarryOvers] = useState(true);
+    const [validation, setValidation] = useState(false);
+    const [presses, setPresses] = useState(true);
+    const [useGolfBrain, setUseGolfBrain] = useState(false);
+
+    // Save state
+    useEffect(() => {
+        setSavedGame({ mode, game });
+    }, [mode, game]);
+
+    const availableRound = mode === 'setup' ? findGolfBrainRound(golfBrain) : undefined;
+    const linked = game?.roundId ? findGolfBrainRound(golfBrain, game.roundId) : undefined;
+
+    // Hole scores come fresh from Golf Brain every time the game is shown
+    const scoredGame = game && linked
+        ? applyRoundScores(game, getRoundBetHoles(linked.round, linked.course, linked.ownerHandicapIndex))
+        : game;
+    const result = scoredGame ? scoreBetGame(scoredGame) : undefined;
+    const currentHole = scoredGame && result ? getCurrentBetHole(scoredGame, result) : 1;
+
+    const handleStartGame = () => {
+        const source = useGolfBrain ? availableRound : undefined;
+        const players: BetPlayer[] = source
+            ? getRoundBetPlayers(source.round, OWNER_NAME)
+            : names.slice(0, playerCount).map((n, i) => ({ id: `p${i + 1}`, name: n.trim() || `Player ${i + 1}` }));
+        const holes = source ? source.course.holes.length : holeCount;
+
+        const error = getBetFormatError(format, players.length, holes);
+        if (error) {
+            Alert.alert('Can\'t Start Game', error);
+            return;
+        }
+
+        const stakeValue = stake.trim() ? parseFloat(stake) : 0;
+        if (isNaN(stakeValue) || stakeValue < 0) {
+            Alert.alert('Error', 'Please enter a valid stake');
+            return;
+        }
+
+        setGame({
+            format,
+            stake: stakeValue,
+            players,
+            holes: [],
+            holeCount: holes,
+            ...(format === 'skins' ? { carryOvers, validation } : {}),
+            ...(format === 'nassau' && presses ? { pressAt: 2 } : {}),
+            ...(source ? { roundId: source.round.id } : {}),
+        });
+        setMode('playing');
+        HapticFeedback.success();
+    };
+
+    const handleWinHole = (playerId: string | null) => {
+        if (!game) return;
+        HapticFeedback.light();
+        setGame(setHoleWinners(game, currentHole, playerId ? [playerId] : []));
+    };
+
+    const handlePickPartner = (partnerId: string | null) => {
+        if (!game) return;
+        HapticFeedback.light();
+        setGame(setWolfPartner(game, currentHole, partnerId));
+    };
+
+    const handleUndo = () => {
+        if (!game) return;
+        setGame(undoLastHole(game));
+        HapticFeedback.medium();
+    };
+
+    const handleReset = () => {
+        Alert.alert(
+            'Reset Game',
+            'Are you sure you want to start over?',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Reset',
+                    style: 'destructive',
+                    onPress: () => {
+                        setMode('setup');
+                        setGame(undefined);
+                    }
+                }
+            ]
+        );
+    };
+
+    const styles = StyleSheet.create({
+        container: {
+            flex: 1,
+            backgroundColor: colors.background,
+        },
+        content: {
+            padding: 20,
+            flexGrow: 1,
+        },
+        header: {
+            fontSize: 28,
+            fontWeight: 'bold',
+            color: colors.text,
+            marginBottom: 20,
+            textAlign: 'center',
+        },
+        sectionTitle: {
+            fontSize: 18,
+            fontWeight: '600',
+            color: colors.text,
+            marginTop: 20,
+            marginBottom: 10,
+        },
+        buttonGroup: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            gap: 10,
+            marginBottom: 10,
+        },
+        optionButton: {
+            flex: 1,
+            minWidth: 70,
+            padding: 15,
+            borderRadius: 10,
+            borderWidth: 2,
+            borderColor: colors.border,
+            alignItems: 'center',
+        },
+        selectedOption: {
+            borderColor: colors.primary,
+            backgroundColor: colors.primary + '20',
+        },
+        optionText: {
+            fontSize: 16,
+            fontWeight: '600',
+            color: colors.text,
+        },
+        hint: {
+            fontSize: 13,
+            color: colors.textSecondary,
+            marginBottom: 10,
+        },
+        input: {
+            backgroundColor: colors.surface,
+            padding: 15,
+            borderRadius: 10,
+            marginBottom: 10,
+            color: colors.text,
+            borderWidth: 1,
+            borderColor: colors.border,
+        },
+        primaryButton: {
+            backgroundColor: colors.primary,
+            padding: 18,
+            borderRadius: 12,
+            alignItems: 'center',
+            marginTop: 30,
+        },
+        primaryButtonText: {
+            color: '#fff',
+            fontSize: 18,
+            fontWeight: 'bold',
+        },
+        holeIndicator: {
+            fontSize: 24,
+            color: colors.textSecondary,
+            textAlign: 'center',
+            marginBottom: 8,
+        },
+        gameInfo: {
+            fontSize: 14,
+            color: colors.textSecondary,
+            textAlign: 'center',
+            marginBottom: 6,
+        },
+        wolfCard: {
+            backgroundColor: colors.surface,
+            padding: 15,
+            borderRadius: 15,
+            marginVertical: 10,
+            borderWidth: 1,
+            borderColor: colors.border,
+        },
+        playerCard: {
+            backgroundColor: colors.surface,
+            padding: 20,
+            borderRadius: 15,
+            marginBottom: 15,
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            borderWidth: 1,
+            borderColor: colors.border,
+        },
+        playerName: {
+            fontSize: 20,
+            fontWeight: '600',
+            color: colors.text,
+        },
+        playerMoney: {
+            fontSize: 14,
+            color: colors.textSecondary,
+            marginTop: 2,
+        },
+        scoreBadge: {
+            backgroundColor: colors.primary,
+            minWidth: 40,
+            height: 40,
+            paddingHorizontal: 8,
+            borderRadius: 20,
+            justifyContent: 'center',
+            alignItems: 'center',
+            marginLeft: 10,
+        },
+        scoreText: {
+            color: '#fff',
+            fontSize: 20,
+            fontWeight: 'bold',
+        },
+        winButton: {
+            backgroundColor: colors.primary + '20',
+            paddingHorizontal: 15,
+            paddingVertical: 8,
+            borderRadius: 20,
+            marginLeft: 10,
+        },
+        winButtonText: {
+            color: colors.primary,
+            fontWeight: '600',
+        },
+        tieButton: {
+            backgroundColor: colors.surface,
+            padding: 15,
+            borderRadius: 12,
+            alignItems: 'center',
+            marginTop: 10,
+            borderWidth: 1,
+            borderColor: colors.border,
+        },
+        resultRow: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            paddingVertical: 6,
+        },
+        resultText: {
+            fontSize: 15,
+            color: colors.text,
+        },
+        controls: {
+            flexDirection: 'row',
+            gap: 10,
+            marginTop: 'auto',
+            paddingTop: 20,
+        },
+        controlButton: {
+            flex: 1,
+            padding: 15,
+            borderRadius: 10,
+            backgroundColor: colors.surface,
+            alignItems: 'center',
+            borderWidth: 1,
+            borderColor: colors.border,
+        },
+    });
+
+    const renderOption = (label: string, selected: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={label}
+            style={[styles.optionButton, selected && styles.selectedOption]}
+            onPress={() => {
+                onPress();
+                HapticFeedback.light();
+            }}
+        >
+            <Text style={styles.optionText}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    if (mode === 'setup' || !game || !scoredGame || !result) {
+        const isTeamGame = (format === 'nassau' || format === 'best-ball') && playerCount === 4;
+
+        return (
+            <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+                <Text style={styles.header}>{BET_FORMAT_NAMES[format]} Setup 🏌️</Text>
+
+                <Text style={styles.sectionTitle}>Game</Text>
+                <View style={styles.buttonGroup}>
+                    {FORMATS.map(f => renderOption(BET_FORMAT_NAMES[f], format === f, () => setFormat(f)))}
+                </View>
+
+                <Text style={styles.sectionTitle}>Stake per {BET_POINT_NAMES[format].replace(/s$/, '')}</Text>
+                <TextInput
+                    style={styles.input}
+                    placeholder="0"
+                    placeholderTextColor={colors.textSecondary}
+                    value={stake}
+                    onChangeText={setStake}
+                    keyboardType="decimal-pad"
+                />
+
+                {format === 'skins' && (
+                    <View style={styles.buttonGroup}>
+                        {renderOption('Carry-overs', carryOvers, () => setCarryOvers(!carryOvers))}
+                        {renderOption('Validation', validation, () => setValidation(!validation))}
+                    </View>
+                )}
+                {format === 'skins' && validation && (
+                    <Text style={styles.hint}>A skin only counts once its winner ties or wins the next hole</Text>
+                )}
+                {format === 'nassau' && (
+                    <View style={styles.buttonGroup}>
+                        {renderOption('Press at 2 down', presses, () => setPresses(!presses))}
+                    </View>
+                )}
+                {format === 'wolf' && (
+                    <Text style={styles.hint}>Players take turns as wolf in the order entered. Lone wolves play for double.</Text>
+                )}
+
+                {availableRound && (
+                    <>
+                        <Text style={styles.sectionTitle}>Scores</Text>
+                        <View style={styles.buttonGroup}>
+                            {renderOption('Enter winners', !useGolfBrain, () => setUseGolfBrain(false))}
+                            {renderOption('Golf Brain', useGolfBrain, () => setUseGolfBrain(true))}
+                        </View>
+                        {useGolfBrain && (
+                            <Text style={styles.hint}>
+                                Net scores from your round at {availableRound.course.name}:{' '}
+                                {getRoundBetPlayers(availableRound.round, OWNER_NAME).map(p => p.name).join(', ')}
+                            </Text>
+                        )}
+                    </>
+                )}
+
+                {!(useGolfBrain && availableRound) && (
+                    <>
+                        <Text style={styles.sectionTitle}>Holes</Text>
+                        <View style={styles.buttonGroup}>
+                            {[9, 18].map(count => renderOption(`${count}`, holeCount === count, () => setHoleCount(count)))}
+                        </View>
+
+                        <Text style={styles.sectionTitle}>Number of Players</Text>
+                        <View style={styles.buttonGroup}>
+                            {[2, 3, 4].map(num => renderOption(`${num}`, playerCount === num, () => setPlayerCount(num as PlayerCount)))}
+                        </View>
+
+                        <Text style={styles.sectionTitle}>Enter Player Names</Text>
+                        {Array.from({ length: playerCount }).map((_, i) => (
+                            <TextInput
+                                key={i}
+                                style={styles.input}
+                                placeholder={isTeamGame ? `Player ${i + 1} (${i < 2 ? 'Team 1' : 'Team 2'})` : `Player ${i + 1}`}
+                                placeholderTextColor={colors.textSecondary}
+                                value={names[i]}
+                                onChangeText={(text) => {
+                                    const newNames = [...names];
+                                    newNames[i] = text;
+                                    setNames(newNames);
+                                }}
+                            />
+                        ))}
+                    </>
+                )}
+
+                <TouchableOpacity style={styles.primaryButton} onPress={handleStartGame}>
+                    <Text style={styles.primaryButtonText}>Start Round</Text>
+                </TouchableOpacity>
+            </ScrollView>
+        );
+    }
+
+    const nameOf = (id: string) => game.players.find(p => p.id === id)?.name ?? id;
+    const sides = getBetSides(game);
+    const sideNames = sides.map(side => side.map(nameOf).join(' & '));
+    const pointName = BET_POINT_NAMES[game.format];
+    const hasStake = game.stake > 0;
+
+    if (mode === 'finished') {
+        const payments = settleUp(result.winnings);
+        const standings = [...game.players].sort((a, b) =>
+            result.winnings[b.id] - result.winnings[a.id] || result.points[b.id] - result.points[a.id]);
+
+        return (
+            <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+                <Text style={styles.header}>Settle Up 💰</Text>
+
+                {standings.map(player => (
+                    <View key={player.id} style={styles.playerCard}>
+                        <View>
+                            <Text style={styles.playerName}>{player.name}</Text>
+                            <Text style={styles.playerMoney}>{result.points[player.id]} {pointName}</Text>
+                        </View>
+                        {hasStake && (
+                            <Text style={styles.playerName}>
+                                {result.winnings[player.id] > 0 ? '+' : ''}{formatStake(result.winnings[player.id])}
+                            </Text>
+                        )}
+                    </View>
+                ))}
+
+                <Text style={styles.sectionTitle}>Who Owes Whom</Text>
+                {!hasStake ? (
+                    <Text style={styles.hint}>No stake was set for this game</Text>
+                ) : payments.length === 0 ? (
+                    <Text style={styles.hint}>All square, nobody owes anything</Text>
+                ) : (
+                    payments.map(payment => (
+                        <View key={`${payment.fromId}-${payment.toId}`} style={styles.resultRow}>
+                            <Text style={styles.resultText}>{nameOf(payment.fromId)} pays {nameOf(payment.toId)}</Text>
+                            <Text style={[styles.resultText, { fontWeight: 'bold' }]}>{formatStake(payment.amount)}</Text>
+                        </View>
+                    ))
+                )}
+
+                <View style={styles.controls}>
+                    <TouchableOpacity style={styles.controlButton} onPress={() => setMode('playing')}>
+                        <Text style={styles.optionText}>Back to Game</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.controlButton} onPress={handleReset}>
+                        <Text style={[styles.optionText, { color: '#e74c3c' }]}>New Game</Text>
+                    </TouchableOpacity>
+                </View>
+            </ScrollView>
+        );
+    }
+
+    const isOver = currentHole > game.holeCount;
+    const wolfId = game.format === 'wolf' && !isOver ? getWolfId(game, currentHole) : undefined;
+    const wolfPick = scoredGame.holes.find(h => h.holeNumber === currentHole)?.partnerId;
+    const needsWolfPick = !!wolfId && wolfPick === undefined;
+    const canEnterWinner = !game.roundId && !isOver && !needsWolfPick;
+
+    return (
+        <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+            <Text style={styles.header}>{BET_FORMAT_NAMES[game.format]} 🏌️</Text>
+            <Text style={styles.holeIndicator}>
+                {isOver ? 'Round complete' : `Hole ${currentHole} of ${game.holeCount}`}
+            </Text>
+            {hasStake && (
+                <Text style={styles.gameInfo}>{formatStake(game.stake)} per {pointName.replace(/s$/, '')}</Text>
+            )}
+            {game.roundId && (
+                <Text style={styles.gameInfo}>
+                    {linked ? `Net scores from Golf Brain at ${linked.course.name}` : 'The Golf Brain round for this game is gone'}
+                </Text>
+            )}
+            {result.carry > 1 && (
+                <Text style={styles.gameInfo}>{result.carry} skins riding on this hole</Text>
+            )}
+            {result.pendingSkin && (
+                <Text style={styles.gameInfo}>
+                    {nameOf(result.pendingSkin.playerId)} must tie or win this hole to keep the skin from hole {result.pendingSkin.holeNumber}
+                </Text>
+            )}
+
+            {wolfId && (
+                <View style={styles.wolfCard}>
+                    <Text style={styles.optionText}>🐺 {nameOf(wolfId)} is the wolf</Text>
+                    {needsWolfPick ? (
+                        <View style={[styles.buttonGroup, { marginTop: 10 }]}>
+                            {game.players
+                                .filter(p => p.id !== wolfId)
+                                .map(p => renderOption(p.name, false, () => handlePickPartner(p.id)))}
+                            {renderOption('Lone Wolf', false, () => handlePickPartner(null))}
+                        </View>
+                    ) : (
+                        <Text style={styles.hint}>
+                            {wolfPick ? `${nameOf(wolfId)} & ${nameOf(wolfPick)} vs the rest` : 'Going alone for double'}
+                        </Text>
+                    )}
+                </View>
+            )}
+
+            <View style={{ marginTop: 10 }}>
+                {game.players.map(player => (
+                    <TouchableOpacity
+                        key={player.id}
+                        style={styles.playerCard}
+                        onPress={() => handleWinHole(player.id)}
+                        disabled={!canEnterWinner}
+                    >
+                        <View style={{ flex: 1 }}>
+                            <Text style={styles.playerName}>{player.name}</Text>
+                            {hasStake && (
+                                <Text style={styles.playerMoney}>
+                                    {result.winnings[player.id] > 0 ? '+' : ''}{formatStake(result.winnings[player.id])}
+                                </Text>
+                            )}
+                        </View>
+                        <View style={styles.scoreBadge}>
+                            <Text style={styles.scoreText}>{result.points[player.id]}</Text>
+                        </View>
+                        {canEnterWinner && (
+                            <View style={styles.winButton}>
+                                <Text style={styles.winButtonText}>+ WIN</Text>
+                            </View>
+                        )}
+                    </TouchableOpacity>
+                ))}
+
+                {canEnterWinner && (
+                    <TouchableOpacity
+                        style={styles.tieButton}
+                        onPress={() => handleWinHole(null)}
+                    >
+                        <Text style={[styles.optionText, { color: colors.textSecondary }]}>
+                            Tie / Halve Hole
+                        </Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+
+            {game.format === 'nassau' && (
+                <>
+                    <Text style={styles.sectionTitle}>{sideNames[0]} vs {sideNames[1]}</Text>
+                    {result.matches.map(match => (
+                        <View key={match.name} style={styles.resultRow}>
+                            <Text style={styles.resultText}>{match.name}</Text>
+                            <Text style={styles.resultText}>{describeNassauMatch(match, sideNames)}</Text>
+                        </View>
+                    ))}
+                </>
+            )}
+
+            {result.holes.length > 0 && (
+                <>
+                    <Text style={styles.sectionTitle}>Holes</Text>
+                    {result.holes.map(hole => (
+                        <View key={hole.holeNumber} style={styles.resultRow}>
+                            <Text style={styles.resultText}>
+                                {hole.holeNumber}. {hole.winnerIds.length > 0 ? hole.winnerIds.map(nameOf).join(' & ') : 'Halved'}
+                                {hole.loneWolf ? ' 🐺' : ''}
+                            </Text>
+                            <Text style={styles.hint}>
+                                {hole.skins !== undefined && hole.skins > 1 ? `${hole.skins} skins` : ''}
+                                {hole.carried ? ' carried' : ''}
+                                {hole.validated === false ? ' not validated' : ''}
+                            </Text>
+                        </View>
+                    ))}
+                </>
+            )}
+
+            <View style={styles.controls}>
+                {!game.roundId && (
+                    <TouchableOpacity style={styles.controlButton} onPress={handleUndo}>
+                        <Text style={styles.optionText}>Undo</Text>
+                    </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.controlButton} onPress={() => setMode('finished')}>
+                    <Text style={styles.optionText}>Settle Up</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.controlButton} onPress={handleReset}>
+                    <Text style={[styles.optionText, { color: '#e74c3c' }]}>End Game</Text>
+                </TouchableOpacity>
+            </View>
+        </ScrollView>
+    );
+};
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -13,12 +13,15 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTheme } from '../contexts/ThemeContext';
 import { getSparkById } from './SparkRegistry';
 import { HapticFeedback } from '../utils/haptics';
+import { SparkSearchBar, SparkSearchResults } from './SparkSearch';
+import { SearchResult } from '../types/search';
+import { SparkItemTarget } from '../types/spark';
 
 interface QuickSwitchModalProps {
   visible: boolean;
   onClose: () => void;
   recentSparks: string[];
-  onSelectSpark: (sparkId: string) => void;
+  onSelectSpark: (sparkId: string, target?: SparkItemTarget) => void;
   navigation?: any; // Navigation prop for navigating to My Sparks
 }
 
@@ -33,6 +36,7 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
 }) => {
   const { colors } = useTheme();
   const slideAnim = useRef(new Animated.Value(height)).current;
+  const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
     if (visible) {
@@ -49,6 +53,7 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
         duration: 200,
         useNativeDriver: true,
       }).start();
+      setSearchQuery('');
     }
   }, [visible, slideAnim]);
 
@@ -66,6 +71,12 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
     onClose();
   };
 
+  const handleSelectResult = (result: SearchResult) => {
+    HapticFeedback.light();
+    onSelectSpark(result.sparkId, { itemType: result.itemType, itemId: result.itemId });
+    onClose();
+  };
+
   const handleMySparks = () => {
     HapticFeedback.light();
     onClose();
@@ -123,7 +134,11 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
       fontWeight: 'bold',
       color: colors.text,
       textAlign: 'center',
-      marginBottom: 20,
+      marginBottom: 16,
+    },
+    searchContainer: {
+      alignSelf: 'stretch',
+      marginBottom: 16,
     },
     sparkList: {
       paddingHorizontal: 20,
@@ -250,9 +265,16 @@ export const QuickSwitchModal: React.FC<QuickSwitchModalProps> = ({
           <View style={styles.card}>
             <View style={styles.headerContainer}>
               <Text style={styles.title}>∞ Quick Switch</Text>
+              <View style={styles.searchContainer}>
+                <SparkSearchBar query={searchQuery} onChangeQuery={setSearchQuery} />
+              </View>
             </View>
 
-            {availableSparks.length > 0 ? (
+            {searchQuery.trim() ? (
+              <ScrollView style={styles.sparkList} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                <SparkSearchResults query={searchQuery} onSelectResult={handleSelectResult} />
+              </ScrollView>
+            ) : availableSparks.length > 0 ? (
               <ScrollView style={styles.sparkList} showsVerticalScrollIndicator={false}>
                 {availableSparks.map((spark, index) => {
                   if (!spark || !spark.metadata) return null;
@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { useSparkStore } from '../store';
+import { SearchService } from '../services/SearchService';
+import { SearchResult } from '../types/search';
+import { getSparkById } from './SparkRegistry';
+
+interface SparkSearchBarProps {
+  query: string;
+  onChangeQuery: (query: string) => void;
+  placeholder?: string;
+}
+
+export const SparkSearchBar: React.FC<SparkSearchBarProps> = ({
+  query,
+  onChangeQuery,
+  placeholder = 'Search todos, recipes, trips...',
+}) => {
+  const { colors } = useTheme();
+
+  return (
+    <View style={[styles.searchBar, { backgroundColor: colors.background, borderColor: colors.border }]}>
+      <Text style={styles.searchIcon}>🔍</Text>
+      <TextInput
+        style={[styles.searchInput, { color: colors.text }]}
+        value={query}
+        onChangeText={onChangeQuery}
+        placeholder={placeholder}
+        placeholderTextColor={colors.textSecondary}
+        autoCorrect={false}
+        returnKeyType="search"
+        clearButtonMode="never"
+      />
+      {query.length > 0 && (
+        <TouchableOpacity onPress={() => onChangeQuery('')} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Text style={[styles.clearIcon, { color: colors.textSecondary }]}>✕</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+interface SparkSearchResultsProps {
+  query: string;
+  onSelectResult: (result: SearchResult) => void;
+  limit?: number;
+}
+
+/**
+ * Matches for the query across every spark's saved data
+ */
+export const SparkSearchResults: React.FC<SparkSearchResultsProps> = ({ query, onSelectResult, limit }) => {
+  const { colors } = useTheme();
+  const { sparkData } = useSparkStore();
+
+  const results = useMemo(
+    () => SearchService.search(query, sparkData, { limit }),
+    [query, sparkData, limit]
+  );
+
+  if (results.length === 0) {
+    return (
+      <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+        No matches for "{query.trim()}"
+      </Text>
+    );
+  }
+
+  return (
+    <View>
+      {results.map(result => {
+        const spark = getSparkById(result.sparkId);
+        return (
+          <TouchableOpacity
+            key={`${result.sparkId}:${result.itemType}:${result.itemId}`}
+            style={[styles.resultItem, { backgroundColor: colors.surface, borderColor: colors.border }]}
+            onPress={() => onSelectResult(result)}
+          >
+            <Text style={styles.resultIcon}>{spark?.metadata.icon || '⚡️'}</Text>
+            <View style={styles.resultInfo}>
+              <Text style={[styles.resultTitle, { color: colors.text }]} numberOfLines={2}>
+                {result.title}
+              </Text>
+              <Text style={[styles.resultSubtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                {[spark?.metadata.title || result.sparkId, result.subtitle].filter(Boolean).join(' · ')}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    height: 40,
+  },
+  searchIcon: {
+    fontSize: 14,
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 0,
+  },
+  clearIcon: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  resultIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  resultSubtitle: {
+    fontSize: 13,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    padding: 24,
+  },
+});
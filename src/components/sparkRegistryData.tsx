@@ -388,7 +388,7 @@ export const sparkRegistry: Record<string, BaseSpark> = {
         metadata: {
             id: 'big-denny',
             title: 'Skins',
-            description: 'Track who wins holes on the course',
+            description: 'Skins, Nassau, wolf and best-ball bets with a settle-up',
             icon: '⛳',
             category: 'golf',
             createdAt: '2025-12-08T00:00:00.000Z',
@@ -412,7 +412,7 @@ export const sparkRegistry: Record<string, BaseSpark> = {
         metadata: {
             id: 'shop',
             title: 'Shop',
-            description: 'Simple shopping list with editable items and local persistence',
+            description: 'Shopping list grouped by aisle, with quantities and live sharing with friends',
             icon: '🛒',
             category: 'productivity',
             createdAt: '2025-12-14T00:00:00.000Z',
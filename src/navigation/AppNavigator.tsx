@@ -5,6 +5,7 @@ import { createBottomTabNavigator, BottomTabBarProps } from '@react-navigation/b
 import { createStackNavigator, TransitionPresets } from '@react-navigation/stack';
 import { useTheme } from '../contexts/ThemeContext';
 import { RootTabParamList, MySparkStackParamList, MarketplaceStackParamList } from '../types/navigation';
+import { SparkItemTarget } from '../types/spark';
 import { SparkSelectionScreen } from '../screens/SparkSelectionScreen';
 import { MarketplaceScreen } from '../screens/MarketplaceScreen';
 import { SettingsScreen } from '../screens/SettingsScreen';
@@ -13,6 +14,7 @@ import { useAppStore } from '../store';
 import { QuickSwitchModal } from '../components/QuickSwitchModal';
 import { getSparkById } from '../components/SparkRegistry';
 import { HapticFeedback } from '../utils/haptics';
+import { linking } from './linking';
 
 const Tab = createBottomTabNavigator<RootTabParamList>();
 const MySparksStack = createStackNavigator<MySparkStackParamList>();
@@ -216,13 +218,13 @@ const CustomTabBar: React.FC<BottomTabBarProps & { tabBarVisible: boolean }> = (
     setShowQuickSwitch(true);
   };
 
-  const handleSelectSpark = (sparkId: string) => {
+  const handleSelectSpark = (sparkId: string, target?: SparkItemTarget) => {
     const targetSpark = getSparkById(sparkId);
     if (targetSpark) {
       // Navigate to the spark
       navigation.navigate('MySparks', {
         screen: 'Spark',
-        params: { sparkId },
+        params: { sparkId, ...target },
       });
     }
     setShowQuickSwitch(false);
@@ -528,7 +530,7 @@ export const AppNavigator: React.FC = () => {
   const [tabBarVisible, setTabBarVisible] = React.useState(true);
 
   return (
-    <NavigationContainer ref={navigationRef}>
+    <NavigationContainer ref={navigationRef} linking={linking}>
       <Tab.Navigator
         initialRouteName="MySparks"
         screenOptions={{
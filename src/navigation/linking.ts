@@ -0,0 +1,26 @@
+import { LinkingOptions } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
+import { RootTabParamList } from '../types/navigation';
+import { SPARK_LINK_SCHEME, SPARK_WEB_URL } from '../utils/deepLinks';
+
+// Maps sparks://spark/<sparkId>/<itemType>/<itemId> onto the Spark screen's params.
+// On web the same paths are read from the browser URL, e.g. /spark/recaipe/recipe/abc
+export const linking: LinkingOptions<RootTabParamList> = {
+  prefixes: [Linking.createURL('/'), `${SPARK_LINK_SCHEME}://`, SPARK_WEB_URL],
+  config: {
+    screens: {
+      MySparks: {
+        screens: {
+          MySparksList: '',
+          Spark: 'spark/:sparkId/:itemType?/:itemId?',
+        },
+      },
+      Marketplace: {
+        screens: {
+          MarketplaceList: 'marketplace',
+        },
+      },
+      Settings: 'settings',
+    },
+  },
+};
@@ -1,7 +1,11 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Switch, RefreshControl, Linking, Platform, Clipboard } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
 import { useSparkStore, useAppStore } from '../store';
+import { pickSettingsValues, useSettingsStore } from '../store/settingsStore';
 import { useTheme } from '../contexts/ThemeContext';
 import { HapticFeedback } from '../utils/haptics';
 import { NotificationService } from '../utils/notifications';
@@ -15,6 +19,7 @@ import { FeedbackNotificationService } from '../services/FeedbackNotificationSer
 import { ServiceFactory } from '../services/ServiceFactory';
 import { FeedbackService } from '../services/FeedbackService';
 import { getSparkById } from '../components/SparkRegistry';
+import { BackupService, BackupState, BackupConflictStrategy, SparksBackup } from '../services/BackupService';
 
 export const SettingsScreen: React.FC = () => {
   const { colors } = useTheme();
@@ -172,6 +177,96 @@ export const SettingsScreen: React.FC = () => {
     );
   };
 
+  // Backup and restore
+  const getBackupState = (): BackupState => {
+    const sparkState = useSparkStore.getState();
+    return {
+      sparkData: sparkState.sparkData,
+      sparkDataVersions: sparkState.sparkDataVersions,
+      sparkProgress: sparkState.sparkProgress,
+      userSparkIds: sparkState.userSparkIds,
+      favoriteSparkIds: sparkState.favoriteSparkIds,
+      preferences: useAppStore.getState().preferences,
+      settings: pickSettingsValues(useSettingsStore.getState()),
+    };
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      const backup = await BackupService.createBackup(getBackupState());
+      const fileName = `sparks-backup-${new Date().toISOString().split('T')[0]}.json`;
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      await FileSystem.writeAsStringAsync(uri, JSON.stringify(backup), { encoding: 'utf8' });
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, { mimeType: 'application/json', dialogTitle: 'Save Sparks Backup' });
+      } else {
+        Alert.alert('Backup Created', `Backup saved to ${uri}`);
+      }
+      HapticFeedback.success();
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      Alert.alert('Error', 'Failed to create backup.');
+    }
+  };
+
+  const restoreBackup = async (backup: SparksBackup, strategy: BackupConflictStrategy) => {
+    try {
+      const result = await BackupService.restoreBackup(backup, getBackupState(), strategy);
+      const { preferences: restoredPreferences, settings, ...sparkState } = result.state;
+
+      useSparkStore.setState(state => ({
+        ...sparkState,
+        sparkDataBackups: { ...state.sparkDataBackups, ...result.sparkDataBackups },
+      }));
+      setPreferences(restoredPreferences);
+      useSettingsStore.setState(pickSettingsValues(settings));
+
+      const skipped = result.skippedSparkIds.length > 0
+        ? `\n${result.skippedSparkIds.length} spark(s) kept their existing data.`
+        : '';
+      Alert.alert(
+        'Restore Complete',
+        `Restored ${result.restoredSparkIds.length} spark(s) and ${result.restoredMediaCount} media file(s).${skipped}`
+      );
+      HapticFeedback.success();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert('Error', 'Failed to restore backup.');
+    }
+  };
+
+  const handleImportBackup = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({ type: 'application/json', multiple: false, copyToCacheDirectory: true });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      const contents = await FileSystem.readAsStringAsync(picked.assets[0].uri, { encoding: 'utf8' });
+      const backup = BackupService.parseBackup(contents);
+      const conflicts = BackupService.getConflicts(backup, getBackupState());
+
+      if (conflicts.length === 0) {
+        await restoreBackup(backup, 'replace');
+        return;
+      }
+
+      const conflictNames = conflicts
+        .map(sparkId => getSparkById(sparkId)?.metadata.title || sparkId)
+        .join(', ');
+      Alert.alert(
+        'Existing Data Found',
+        `These sparks already have data on this device: ${conflictNames}.\n\nReplace it with the backup, or keep what is here?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Keep Existing', onPress: () => restoreBackup(backup, 'keep-existing') },
+          { text: 'Replace', style: 'destructive', onPress: () => restoreBackup(backup, 'replace') },
+        ]
+      );
+    } catch (error) {
+      console.error('Error importing backup:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read backup file.');
+    }
+  };
 
   // Spark management functions
   const handleMoveUp = (index: number) => {
@@ -650,6 +745,23 @@ export const SettingsScreen: React.FC = () => {
         )}
       </View>
 
+      {/* Backup & Restore Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Backup & Restore</Text>
+
+        <TouchableOpacity style={styles.actionButton} onPress={handleExportBackup}>
+          <Text style={styles.actionButtonText}>📦 Export Backup</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.actionButton} onPress={handleImportBackup}>
+          <Text style={styles.actionButtonText}>📥 Import Backup</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.settingDescription}>
+          Exports all spark data, settings, photos and recordings to a single file you can restore on another device.
+        </Text>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Danger Zone</Text>
         
@@ -4,6 +4,7 @@ import { RouteProp } from '@react-navigation/native';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MySparkStackParamList, MarketplaceStackParamList } from '../types/navigation';
+import { SparkItemTarget } from '../types/spark';
 import { getSparkById } from '../components/SparkRegistry';
 import { useSparkStore, useAppStore } from '../store';
 import { HapticFeedback } from '../utils/haptics';
@@ -201,18 +202,19 @@ export const SparkScreen: React.FC<Props> = ({ navigation, route }) => {
     setShowQuickSwitch(true);
   };
 
-  const handleSelectSpark = (selectedSparkId: string) => {
+  const handleSelectSpark = (selectedSparkId: string, target?: SparkItemTarget) => {
     console.log('QuickSwitch: Selected spark ID:', selectedSparkId);
     console.log('QuickSwitch: Current spark ID:', sparkId);
     console.log('QuickSwitch: Available sparks:', recentSparks);
 
-    if (selectedSparkId !== sparkId) {
+    // Search results may point at an item in the spark that's already open
+    if (selectedSparkId !== sparkId || target?.itemId) {
       // Verify the spark exists before navigating
       const targetSpark = getSparkById(selectedSparkId);
       console.log('QuickSwitch: Target spark found:', targetSpark);
 
       if (targetSpark) {
-        (navigation as any).replace('Spark', { sparkId: selectedSparkId });
+        (navigation as any).replace('Spark', { sparkId: selectedSparkId, ...target });
       } else {
         console.error('QuickSwitch: Spark not found:', selectedSparkId);
       }
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ScrollView, View, Text, TouchableOpacity, StyleSheet, Image } from 'react-native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { MySparkStackParamList } from '../types/navigation';
@@ -7,6 +7,8 @@ import { useSparkStore } from '../store';
 import { useTheme } from '../contexts/ThemeContext';
 import { HapticFeedback } from '../utils/haptics';
 import { NotificationBadge } from '../components/NotificationBadge';
+import { SparkSearchBar, SparkSearchResults } from '../components/SparkSearch';
+import { SearchResult } from '../types/search';
 
 type SparkSelectionNavigationProp = StackNavigationProp<MySparkStackParamList, 'MySparksList'>;
 
@@ -20,6 +22,7 @@ export const SparkSelectionScreen: React.FC<Props> = ({ navigation }) => {
   const { getUserSparks } = useSparkStore();
   const { colors } = useTheme();
   const userSparkIds = getUserSparks();
+  const [searchQuery, setSearchQuery] = useState('');
 
   // Filter to only show user's sparks
   const userSparks = userSparkIds.map(sparkId => getSparkById(sparkId)).filter(Boolean);
@@ -119,8 +122,24 @@ export const SparkSelectionScreen: React.FC<Props> = ({ navigation }) => {
       fontSize: 18,
       fontWeight: '600',
     },
+    searchContainer: {
+      marginTop: 16,
+    },
+    searchResults: {
+      padding: 24,
+    },
   });
 
+  const handleSelectResult = (result: SearchResult) => {
+    HapticFeedback.light();
+    setSearchQuery('');
+    navigation.navigate('Spark', {
+      sparkId: result.sparkId,
+      itemType: result.itemType,
+      itemId: result.itemId,
+    });
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -144,9 +163,18 @@ export const SparkSelectionScreen: React.FC<Props> = ({ navigation }) => {
             : `${userSparks.length} spark${userSparks.length !== 1 ? 's' : ''} in your collection`
           }
         </Text>
+        {userSparks.length > 0 && (
+          <View style={styles.searchContainer}>
+            <SparkSearchBar query={searchQuery} onChangeQuery={setSearchQuery} />
+          </View>
+        )}
       </View>
 
-      {userSparks.length === 0 ? (
+      {searchQuery.trim() ? (
+        <ScrollView contentContainerStyle={styles.searchResults} keyboardShouldPersistTaps="handled">
+          <SparkSearchResults query={searchQuery} onSelectResult={handleSelectResult} />
+        </ScrollView>
+      ) : userSparks.length === 0 ? (
         <View style={styles.emptyState}>
           <Text style={styles.emptyIcon}>✨</Text>
           <Text style={styles.emptyTitle}>Your collection is empty</Text>
@@ -0,0 +1,293 @@
+import * as LegacyFileSystem from 'expo-file-system/legacy';
+import { SparkDataBackup, migrateSparkData } from '../store/sparkMigrations';
+import type { SettingsValues } from '../store/settingsStore';
+
+/**
+ * Full backup and restore of spark data.
+ *
+ * A backup is a single JSON archive holding the spark store, settings and
+ * every media file under documentDirectory that spark data points at
+ * (FoodCam photos, Soundboard recordings, TripStory photos), base64 encoded.
+ */
+
+export const BACKUP_FORMAT = 'sparks-backup';
+export const BACKUP_VERSION = 1;
+
+// Absolute paths inside documentDirectory are stored relative to this token so
+// they can be rewritten for the device the backup is restored on
+const DOCUMENT_DIR_TOKEN = '{{documentDirectory}}';
+
+// Sparks that store media paths relative to documentDirectory
+const RELATIVE_MEDIA_DIRS = ['foodcam/', 'soundboard/'];
+
+/**
+ * The subset of expo-file-system used by backups, so tests can pass a fake
+ */
+export interface BackupFileSystem {
+    documentDirectory: string | null;
+    getInfoAsync: (uri: string) => Promise<{ exists: boolean }>;
+    readAsStringAsync: (uri: string, options: { encoding: 'base64' | 'utf8' }) => Promise<string>;
+    writeAsStringAsync: (uri: string, contents: string, options: { encoding: 'base64' | 'utf8' }) => Promise<void>;
+    makeDirectoryAsync: (uri: string, options: { intermediates: boolean }) => Promise<void>;
+}
+
+export interface BackupState {
+    sparkData: Record<string, Record<string, any>>;
+    sparkDataVersions: Record<string, number>;
+    sparkProgress: Record<string, any>;
+    userSparkIds: string[];
+    favoriteSparkIds: string[];
+    preferences: Record<string, any>;
+    settings: Partial<SettingsValues>;
+}
+
+export interface BackupMediaFile {
+    path: string; // relative to documentDirectory
+    data: string; // base64
+}
+
+export interface SparksBackup extends BackupState {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: string;
+    media: BackupMediaFile[];
+}
+
+export type BackupConflictStrategy = 'replace' | 'keep-existing';
+
+export interface RestoreResult {
+    state: BackupState;
+    restoredSparkIds: string[];
+    skippedSparkIds: string[];
+    sparkDataBackups: Record<string, SparkDataBackup>; // Restored data whose migration failed, kept at its old version
+    restoredMediaCount: number;
+    skippedMediaCount: number;
+}
+
+const defaultFileSystem: BackupFileSystem = {
+    documentDirectory: LegacyFileSystem.documentDirectory,
+    getInfoAsync: (uri) => LegacyFileSystem.getInfoAsync(uri),
+    readAsStringAsync: (uri, options) => LegacyFileSystem.readAsStringAsync(uri, options),
+    writeAsStringAsync: (uri, contents, options) => LegacyFileSystem.writeAsStringAsync(uri, contents, options),
+    makeDirectoryAsync: (uri, options) => LegacyFileSystem.makeDirectoryAsync(uri, options),
+};
+
+const hasData = (data: Record<string, any> | undefined): boolean =>
+    !!data && Object.keys(data).length > 0;
+
+/**
+ * Walk a JSON value, replacing every string with the result of `fn`
+ */
+const mapStrings = (value: any, fn: (str: string) => string): any => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(item => mapStrings(item, fn));
+    if (value && typeof value === 'object') {
+        const result: Record<string, any> = {};
+        Object.keys(value).forEach(key => {
+            result[key] = mapStrings(value[key], fn);
+        });
+        return result;
+    }
+    return value;
+};
+
+/**
+ * Get the documentDirectory-relative media path a string points at, if any
+ */
+const toMediaPath = (str: string, documentDirectory: string): string | null => {
+    if (documentDirectory && str.startsWith(documentDirectory)) {
+        return str.substring(documentDirectory.length);
+    }
+    if (str.startsWith(DOCUMENT_DIR_TOKEN)) {
+        return str.substring(DOCUMENT_DIR_TOKEN.length);
+    }
+    if (RELATIVE_MEDIA_DIRS.some(dir => str.startsWith(dir))) {
+        return str;
+    }
+    return null;
+};
+
+const getParentDirectory = (uri: string): string => uri.substring(0, uri.lastIndexOf('/') + 1);
+
+/**
+ * Normalise a media path from a backup archive, or null if it could point
+ * outside documentDirectory (parent segments, absolute paths, URL schemes)
+ */
+const toSafeMediaPath = (path: unknown): string | null => {
+    if (typeof path !== 'string') return null;
+    const normalised = path.replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+    if (!normalised || normalised.startsWith('/') || /^[a-z][a-z0-9+.-]*:/i.test(normalised)) return null;
+    if (normalised.split('/').some(segment => segment === '..' || segment === '.')) return null;
+    if (normalised.endsWith('/') || normalised.includes('\0')) return null;
+    return normalised;
+};
+
+export const BackupService = {
+    /**
+     * Build a backup archive from the current app state
+     */
+    createBackup: async (
+        state: BackupState,
+        fs: BackupFileSystem = defaultFileSystem
+    ): Promise<SparksBackup> => {
+        const documentDirectory = fs.documentDirectory || '';
+        const mediaPaths = new Set<string>();
+
+        const sparkData = mapStrings(state.sparkData, (str) => {
+            const mediaPath = toMediaPath(str, documentDirectory);
+            if (mediaPath === null) return str;
+            mediaPaths.add(mediaPath);
+            return str.startsWith(documentDirectory) && documentDirectory
+                ? `${DOCUMENT_DIR_TOKEN}${mediaPath}`
+                : str;
+        });
+
+        const media: BackupMediaFile[] = [];
+        for (const path of mediaPaths) {
+            const uri = `${documentDirectory}${path}`;
+            try {
+                const info = await fs.getInfoAsync(uri);
+                if (!info.exists) continue;
+                const data = await fs.readAsStringAsync(uri, { encoding: 'base64' });
+                media.push({ path, data });
+            } catch (error) {
+                console.error(`Error reading media for backup: ${path}`, error);
+            }
+        }
+
+        return {
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            createdAt: new Date().toISOString(),
+            ...state,
+            sparkData,
+            media,
+        };
+    },
+
+    /**
+     * Parse and validate a backup archive
+     * @throws Error if the contents are not a supported backup
+     */
+    parseBackup: (contents: string): SparksBackup => {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(contents);
+        } catch {
+            throw new Error('Backup file is not valid JSON');
+        }
+
+        if (!parsed || parsed.format !== BACKUP_FORMAT) {
+            throw new Error('File is not a Sparks backup');
+        }
+        if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+            throw new Error('Backup was created by a newer version of Sparks');
+        }
+        if (!parsed.sparkData || typeof parsed.sparkData !== 'object') {
+            throw new Error('Backup is missing spark data');
+        }
+
+        return {
+            ...parsed,
+            sparkDataVersions: parsed.sparkDataVersions || {},
+            sparkProgress: parsed.sparkProgress || {},
+            userSparkIds: parsed.userSparkIds || [],
+            favoriteSparkIds: parsed.favoriteSparkIds || [],
+            preferences: parsed.preferences || {},
+            settings: parsed.settings || {},
+            media: parsed.media || [],
+        };
+    },
+
+    /**
+     * Spark ids that have data both on this device and in the backup
+     */
+    getConflicts: (backup: SparksBackup, current: BackupState): string[] => {
+        return Object.keys(backup.sparkData).filter(sparkId =>
+            hasData(backup.sparkData[sparkId]) && hasData(current.sparkData[sparkId])
+        );
+    },
+
+    /**
+     * Restore a backup on top of the current state.
+     * Writes media files and returns the merged state for the caller to apply.
+     * @param strategy - 'replace' overwrites conflicting sparks, 'keep-existing' leaves them alone
+     */
+    restoreBackup: async (
+        backup: SparksBackup,
+        current: BackupState,
+        strategy: BackupConflictStrategy,
+        fs: BackupFileSystem = defaultFileSystem
+    ): Promise<RestoreResult> => {
+        const documentDirectory = fs.documentDirectory || '';
+        const conflicts = new Set(BackupService.getConflicts(backup, current));
+
+        const restoredData: Record<string, Record<string, any>> = {};
+        const restoredVersions: Record<string, number> = {};
+        const sparkProgress = { ...current.sparkProgress };
+        const restoredSparkIds: string[] = [];
+        const skippedSparkIds: string[] = [];
+
+        Object.keys(backup.sparkData).forEach(sparkId => {
+            if (conflicts.has(sparkId) && strategy === 'keep-existing') {
+                skippedSparkIds.push(sparkId);
+                return;
+            }
+
+            restoredData[sparkId] = mapStrings(backup.sparkData[sparkId], (str) =>
+                str.startsWith(DOCUMENT_DIR_TOKEN)
+                    ? `${documentDirectory}${str.substring(DOCUMENT_DIR_TOKEN.length)}`
+                    : str
+            );
+            restoredVersions[sparkId] = backup.sparkDataVersions[sparkId] ?? 0;
+            if (backup.sparkProgress[sparkId]) {
+                sparkProgress[sparkId] = backup.sparkProgress[sparkId];
+            }
+            restoredSparkIds.push(sparkId);
+        });
+
+        // Bring data from an older backup up to the current schema, as on hydrate
+        const migrated = migrateSparkData(restoredData, restoredVersions);
+        const sparkData = { ...current.sparkData, ...migrated.sparkData };
+        const sparkDataVersions = { ...current.sparkDataVersions, ...migrated.sparkDataVersions };
+
+        let restoredMediaCount = 0;
+        let skippedMediaCount = 0;
+        for (const file of backup.media) {
+            const path = toSafeMediaPath(file.path);
+            if (path === null) {
+                console.warn(`Skipping backup media with an unsafe path: ${file.path}`);
+                skippedMediaCount++;
+                continue;
+            }
+            const uri = `${documentDirectory}${path}`;
+            const info = await fs.getInfoAsync(uri);
+            if (info.exists && strategy === 'keep-existing') {
+                skippedMediaCount++;
+                continue;
+            }
+            await fs.makeDirectoryAsync(getParentDirectory(uri), { intermediates: true });
+            await fs.writeAsStringAsync(uri, file.data, { encoding: 'base64' });
+            restoredMediaCount++;
+        }
+
+        const replaceSettings = strategy === 'replace';
+
+        return {
+            state: {
+                sparkData,
+                sparkDataVersions,
+                sparkProgress,
+                userSparkIds: [...new Set([...current.userSparkIds, ...backup.userSparkIds])],
+                favoriteSparkIds: [...new Set([...current.favoriteSparkIds, ...backup.favoriteSparkIds])],
+                preferences: replaceSettings ? { ...current.preferences, ...backup.preferences } : current.preferences,
+                settings: replaceSettings ? { ...current.settings, ...backup.settings } : current.settings,
+            },
+            restoredSparkIds,
+            skippedSparkIds,
+            sparkDataBackups: migrated.sparkDataBackups,
+            restoredMediaCount,
+            skippedMediaCount,
+        };
+    },
+};
@@ -0,0 +1,177 @@
+import { ComingUpData, ComingUpEvent } from '../types/sparkData';
+import { NotificationService } from '../utils/notifications';
+import { hashString } from '../utils/jsonSchema';
+import { getNextEventOccurrence, getEventCategoryEmoji, isRecurringEvent } from '../utils/comingUpEvents';
+import { useSparkStore, readSparkData, watchSparkData } from '../store';
+
+// Identifiers carry the fire time and a content hash, so syncing only touches
+// notifications whose event changed: e.g. "event-reminder-1700000000000-1750000000000-1a2b3c4d"
+const REMINDER_PREFIX = 'event-reminder-';
+
+// Older versions scheduled fixed day-before and day-of reminders under these ids
+const LEGACY_PREFIX = 'activity-event-';
+
+// Events without their own reminder settings: the day before and the day itself
+export const DEFAULT_REMINDER_DAYS = [1, 0];
+
+// Lead times offered when editing an event, in days before it
+export const REMINDER_DAY_OPTIONS = [0, 1, 2, 7, 14, 30];
+
+// Reminders go out in the morning
+const REMINDER_HOUR = 8;
+
+// iOS keeps at most 64 pending notifications across the whole app, so only
+// the soonest reminders are scheduled; later ones follow on the next sync
+const MAX_SCHEDULED_REMINDERS = 32;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Event data writes within this window sync once
+const SYNC_DEBOUNCE_MS = 1000;
+
+// Syncs run one at a time so overlapping calls can't double-schedule
+let syncQueue: Promise<void> = Promise.resolve();
+
+export interface PlannedEventReminder {
+  identifier: string;
+  title: string;
+  body: string;
+  fireAt: Date;
+  eventId: string;
+  icon: string;
+}
+
+/**
+ * Short label for a reminder lead time, e.g. "Day of", "1 day before", "1 week before"
+ */
+export const describeReminderDays = (days: number): string => {
+  if (days === 0) return 'Day of';
+  if (days % 7 === 0) {
+    const weeks = days / 7;
+    return `${weeks} week${weeks === 1 ? '' : 's'} before`;
+  }
+  return `${days} day${days === 1 ? '' : 's'} before`;
+};
+
+const getReminderDays = (event: ComingUpEvent): number[] => event.reminderDays ?? DEFAULT_REMINDER_DAYS;
+
+const describeWhen = (days: number): string => {
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days % 7 === 0) {
+    const weeks = days / 7;
+    return `In ${weeks} week${weeks === 1 ? '' : 's'}`;
+  }
+  return `In ${days} days`;
+};
+
+const planEventReminders = (event: ComingUpEvent, now: Date): PlannedEventReminder[] => {
+  // Reminders for an annual event may already be past for this year's date,
+  // so the following occurrence is planned too
+  const next = getNextEventOccurrence(event, now);
+  const occurrences = [next];
+  if (isRecurringEvent(event)) {
+    occurrences.push(getNextEventOccurrence(event, new Date(next.getTime() + DAY_MS)));
+  }
+
+  const category = event.category.charAt(0).toUpperCase() + event.category.slice(1);
+  const planned: PlannedEventReminder[] = [];
+
+  for (const occurrence of occurrences) {
+    for (const days of getReminderDays(event)) {
+      const fireAt = new Date(occurrence.getFullYear(), occurrence.getMonth(), occurrence.getDate() - days, REMINDER_HOUR);
+      if (fireAt <= now) continue;
+
+      const body = `${describeWhen(days)} · ${category}`;
+      planned.push({
+        identifier: `${REMINDER_PREFIX}${event.id}-${fireAt.getTime()}-${hashString(event.title + body)}`,
+        title: event.title,
+        body,
+        fireAt,
+        eventId: event.id,
+        icon: getEventCategoryEmoji(event.category),
+      });
+    }
+  }
+
+  return planned;
+};
+
+/**
+ * Work out which event reminders should be pending right now, soonest first
+ */
+const planNotifications = (events: ComingUpEvent[], now: Date = new Date()): PlannedEventReminder[] =>
+  events
+    .flatMap(event => planEventReminders(event, now))
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, MAX_SCHEDULED_REMINDERS);
+
+const syncNow = async (events: ComingUpEvent[]): Promise<void> => {
+  const now = new Date();
+  const planned = planNotifications(events, now);
+  const plannedIds = new Set(planned.map(reminder => reminder.identifier));
+  const scheduledIds = await NotificationService.getScheduledNotificationIds(REMINDER_PREFIX);
+  const legacyIds = await NotificationService.getScheduledNotificationIds(LEGACY_PREFIX);
+
+  for (const identifier of [...scheduledIds, ...legacyIds]) {
+    if (!plannedIds.has(identifier)) {
+      await NotificationService.cancelNotification(identifier);
+    }
+  }
+
+  for (const reminder of planned) {
+    if (scheduledIds.includes(reminder.identifier)) continue;
+
+    await NotificationService.scheduleNotification(
+      reminder.title,
+      reminder.body,
+      Math.floor((reminder.fireAt.getTime() - now.getTime()) / 1000),
+      'coming-up',
+      reminder.identifier,
+      reminder.icon,
+      { itemType: 'event', itemId: reminder.eventId }
+    );
+  }
+};
+
+export const ComingUpReminderService = {
+  planNotifications,
+
+  /**
+   * Bring scheduled reminders in line with the events: schedules new and
+   * edited reminders, and cancels ones for deleted or changed events
+   */
+  syncNotifications: (events: ComingUpEvent[]): Promise<void> => {
+    syncQueue = syncQueue
+      .then(() => syncNow(events))
+      .catch(error => console.error('Error syncing event reminders:', error));
+    return syncQueue;
+  },
+
+  /**
+   * Re-sync whenever the event data is written, so events added by voice get
+   * reminders without the Coming Up spark being opened. Debounced so a burst
+   * of edits or an import syncs once.
+   * @returns A function that stops watching
+   */
+  watchEvents: (): (() => void) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleSync = (data: Partial<ComingUpData>) => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        ComingUpReminderService.syncNotifications(data.events || []);
+      }, SYNC_DEBOUNCE_MS);
+    };
+
+    // Before hydration the store is empty; hydrating counts as a write
+    if (useSparkStore.persist.hasHydrated()) {
+      scheduleSync(readSparkData('coming-up'));
+    }
+    const stopWatching = watchSparkData('coming-up', scheduleSync);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      stopWatching();
+    };
+  },
+};
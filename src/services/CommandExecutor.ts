@@ -1,166 +1,84 @@
-import { useSparkStore } from '../store';
-import { ParsedCommand } from './GeminiCommandParser';
+import { snapshotSparkData, restoreSparkDataSnapshot, SparkDataSnapshot } from '../store';
+import { CommandResult, ParsedCommand } from '../types/commands';
+import { CommandIntentRegistry } from './CommandIntentRegistry';
+
+export interface CommandBatchResult {
+  success: boolean; // True only if every command succeeded
+  message: string;
+  results: CommandResult[];
+  // Spark data from before the batch ran, for undo
+  snapshot: SparkDataSnapshot;
+  // Spark data right after the batch ran, so undo can tell if it has changed since
+  applied: SparkDataSnapshot;
+}
 
 export const CommandExecutor = {
-  execute: async (command: ParsedCommand): Promise<{ success: boolean; message: string }> => {
-    const { getSparkData, setSparkData } = useSparkStore.getState();
-
+  execute: async (command: ParsedCommand): Promise<CommandResult> => {
     try {
-      switch (command.targetSpark) {
-        case 'todo':
-          return handleTodoCommand(command, getSparkData, setSparkData);
-        case 'weight-tracker':
-          return handleWeightCommand(command, getSparkData, setSparkData);
-        case 'toview':
-          return handleToviewCommand(command, getSparkData, setSparkData);
-        // Add other cases as implemented
-        default:
-          if (command.targetSpark === 'unknown') {
-            const errorMsg = command.params?.error ? ` (${command.params.error})` : '';
-            return { success: false, message: `I didn't understand that command${errorMsg}.` };
-          }
-          return { success: false, message: `Spark '${command.targetSpark}' not supported yet.` };
+      if (command.targetSpark === 'unknown') {
+        const errorMsg = command.params?.error ? ` (${command.params.error})` : '';
+        return { success: false, message: `I didn't understand that command${errorMsg}.` };
       }
-    } catch (error: any) {
-      console.error('Command execution error:', error);
-      return { success: false, message: `Execution failed: ${error.message}` };
-    }
-  }
-};
-
-function handleTodoCommand(
-  command: ParsedCommand,
-  getSparkData: (id: string) => any,
-  setSparkData: (id: string, data: any) => void
-) {
-  if (command.action !== 'create') {
-    return { success: false, message: 'Only "create" action is supported for Todo List.' };
-  }
-
-  const { text, category, dueDate } = command.params;
-
-  if (!text) {
-    return { success: false, message: 'Missing todo text.' };
-  }
-
-  const currentData = getSparkData('todo') || {};
-  const todos = currentData.todos || [];
-
-  const newId = Math.max(...(todos as any[]).map((t: any) => t.id), 0) + 1;
-  const today = new Date().toISOString().split('T')[0];
-
-  // Calculate due date
-  let finalDueDate = today;
-  if (dueDate === 'tomorrow') {
-    const tmr = new Date();
-    tmr.setDate(tmr.getDate() + 1);
-    finalDueDate = tmr.toISOString().split('T')[0];
-  } else if (dueDate && /^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
-    finalDueDate = dueDate;
-  }
-
-  const newTodo = {
-    id: newId,
-    text: text, // Raw text
-    displayText: text, // Assuming parser separates properly, or we just use raw
-    category: category,
-    completed: false,
-    dueDate: finalDueDate,
-    createdDate: new Date().toISOString(),
-    sortTimeMs: Date.now(),
-  };
-
-  setSparkData('todo', {
-    ...currentData,
-    todos: [...todos, newTodo],
-    lastUpdated: new Date().toISOString(),
-  });
-
-  return { success: true, message: `Added todo: "${text}"` };
-};
-
-function handleWeightCommand(
-  command: ParsedCommand,
-  getSparkData: (id: string) => any,
-  setSparkData: (id: string, data: any) => void
-) {
-  if (command.action !== 'add') {
-    return { success: false, message: 'Only "add" action is supported for Weight Tracker.' };
-  }
-
-  const { weight, unit } = command.params;
-
-  if (!weight) {
-    return { success: false, message: 'Missing weight value.' };
-  }
 
-  const currentData = getSparkData('weight-tracker') || {};
-  const entries = currentData.entries || [];
-
-  const newEntry = {
-    id: Date.now().toString(),
-    date: new Date().toISOString(),
-    weight: parseFloat(weight),
-  };
-
-  const updatedData = {
-    ...currentData,
-    entries: [...entries, newEntry]
-  };
-
-  if (unit && (unit === 'kg' || unit === 'lbs')) {
-    updatedData.unit = unit;
-  }
-
-  setSparkData('weight-tracker', updatedData);
-
-  return { success: true, message: `Recorded weight: ${weight} ${unit || ''}` };
-};
-
-function handleToviewCommand(
-  command: ParsedCommand,
-  getSparkData: (id: string) => any,
-  setSparkData: (id: string, data: any) => void
-) {
-  if (command.action !== 'add') {
-    return { success: false, message: 'Only "add" action is supported for ToView.' };
-  }
-
-  const { title, type, provider, watchWith } = command.params;
-
-  if (!title) {
-    return { success: false, message: 'Missing title.' };
-  }
-
-  const category = type || 'Movie';
-  // Construct text like "Movie: Title (Person)" so regex in ToviewSpark works if needed, 
-  // but we are creating the object directly so it's less critical, 
-  // however maintaining the formatting in `text` field is good for UI consistency if it uses text.
-  let formattedText = `${category}: ${title}`;
-  if (watchWith && watchWith.length > 0) {
-    formattedText += ` (${watchWith.join(', ')})`;
-  }
+      const sparkIntents = CommandIntentRegistry.getIntentsForSpark(command.targetSpark);
+      if (sparkIntents.length === 0) {
+        return { success: false, message: `Spark '${command.targetSpark}' not supported yet.` };
+      }
 
-  const currentData = getSparkData('toview') || {};
-  const toviews = currentData.toviews || [];
+      const intent = CommandIntentRegistry.find(command.targetSpark, command.action);
+      if (!intent) {
+        const actions = sparkIntents.map(i => `"${i.action}"`).join(', ');
+        return { success: false, message: `Only ${actions} supported for ${sparkIntents[0].sparkName}.` };
+      }
 
-  const newToview = {
-    id: Date.now(),
-    text: formattedText,
-    completed: false,
-    viewDate: new Date().toISOString().split('T')[0],
-    createdDate: new Date().toISOString().split('T')[0],
-    category: category,
-    displayText: title,
-    provider: provider,
-    watchWith: watchWith,
-    sortTimeMs: Date.now()
-  };
+      const { params, error } = CommandIntentRegistry.validateParams(intent, command.params);
+      if (error) {
+        return { success: false, message: error };
+      }
 
-  setSparkData('toview', {
-    ...currentData,
-    toviews: [...toviews, newToview]
-  });
+      return intent.handler(params, command);
+    } catch (error: any) {
+      console.error('Command execution error:', error);
+      return { success: false, message: `Execution failed: ${error.message}` };
+    }
+  },
+
+  /**
+   * Run several commands in order, capturing the touched sparks' data first
+   * so the whole batch can be undone with undo()
+   */
+  executeBatch: async (commands: ParsedCommand[]): Promise<CommandBatchResult> => {
+    const sparkIds = [...new Set(
+      commands.map(c => c.targetSpark).filter(sparkId => sparkId !== 'unknown')
+    )];
+    const snapshot = snapshotSparkData(sparkIds);
+
+    const results: CommandResult[] = [];
+    for (const command of commands) {
+      results.push(await CommandExecutor.execute(command));
+    }
 
-  return { success: true, message: `Added to list: "${title}"` };
+    return {
+      success: results.length > 0 && results.every(r => r.success),
+      message: results.map(r => r.message).join('\n'),
+      results,
+      snapshot,
+      applied: snapshotSparkData(sparkIds),
+    };
+  },
+
+  /**
+   * Restore spark data captured by executeBatch. Refuses if any of the
+   * touched sparks has changed since, rather than losing those changes.
+   * @returns Whether the batch was undone
+   */
+  undo: (batch: Pick<CommandBatchResult, 'snapshot' | 'applied'>): boolean => {
+    const sparkIds = Object.keys(batch.applied);
+    const current = snapshotSparkData(sparkIds);
+    if (sparkIds.some(sparkId => current[sparkId] !== batch.applied[sparkId])) {
+      return false;
+    }
+    restoreSparkDataSnapshot(batch.snapshot);
+    return true;
+  },
 };
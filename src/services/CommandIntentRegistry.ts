@@ -0,0 +1,146 @@
+import { CommandIntent, CommandParamSpec, ParsedCommand } from '../types/commands';
+
+// Sparks register their intents at module load, next to their search indexers
+const intents: CommandIntent[] = [];
+
+const describeParam = (name: string, spec: CommandParamSpec): string => {
+  const type = spec.options ? spec.options.map(o => `'${o}'`).join('|') : spec.type;
+  const required = spec.required ? ' (required)' : ' (optional)';
+  return `${name}: ${type}${required} - ${spec.description}`;
+};
+
+/**
+ * Coerce a raw param from the parser to its declared type
+ * @returns The coerced value, or undefined if it can't be converted
+ */
+const coerceParam = (value: any, spec: CommandParamSpec): any => {
+  switch (spec.type) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : parseFloat(value);
+      return isNaN(num) ? undefined : num;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      return undefined;
+    case 'string[]':
+      if (Array.isArray(value)) return value.map(String);
+      return typeof value === 'string' ? value.split(',').map(v => v.trim()).filter(Boolean) : undefined;
+    default: {
+      if (value === null || value === undefined || typeof value === 'object') return undefined;
+      const str = String(value).trim();
+      if (spec.options && !spec.options.includes(str)) return undefined;
+      return str;
+    }
+  }
+};
+
+export const CommandIntentRegistry = {
+  /**
+   * Add an intent, replacing any existing intent for the same spark and action
+   */
+  register: (intent: CommandIntent): void => {
+    const index = intents.findIndex(i => i.sparkId === intent.sparkId && i.action === intent.action);
+    if (index !== -1) {
+      intents[index] = intent;
+    } else {
+      intents.push(intent);
+    }
+  },
+
+  getIntents: (): CommandIntent[] => [...intents],
+
+  getIntentsForSpark: (sparkId: string): CommandIntent[] => intents.filter(i => i.sparkId === sparkId),
+
+  find: (sparkId: string, action: string): CommandIntent | undefined =>
+    intents.find(i => i.sparkId === sparkId && i.action === action),
+
+  /**
+   * Check parsed params against an intent's schema, coercing types where possible
+   */
+  validateParams: (
+    intent: CommandIntent,
+    params: Record<string, any> = {}
+  ): { params: Record<string, any>; error?: string } => {
+    const result: Record<string, any> = {};
+
+    for (const name of Object.keys(intent.params)) {
+      const spec = intent.params[name];
+      const raw = params[name];
+      const isEmpty = raw === undefined || raw === null || raw === '';
+
+      if (isEmpty) {
+        if (spec.required) {
+          return { params: result, error: `Missing ${name} for ${intent.sparkName}.` };
+        }
+        continue;
+      }
+
+      const value = coerceParam(raw, spec);
+      if (value === undefined) {
+        if (spec.required) {
+          return { params: result, error: `Invalid ${name} for ${intent.sparkName}: "${raw}".` };
+        }
+        continue;
+      }
+      result[name] = value;
+    }
+
+    return { params: result };
+  },
+
+  /**
+   * Human readable summary of a parsed command, for confirming before running it
+   */
+  describe: (command: ParsedCommand): string => {
+    const intent = CommandIntentRegistry.find(command.targetSpark, command.action);
+    if (!intent) {
+      return command.targetSpark === 'unknown'
+        ? `Not understood: "${command.originalText}"`
+        : `${command.targetSpark}: ${command.action}`;
+    }
+
+    const values = Object.keys(intent.params)
+      .filter(name => command.params?.[name] !== undefined && command.params[name] !== '')
+      .map(name => {
+        const value = command.params[name];
+        return Array.isArray(value) ? value.join(', ') : String(value);
+      });
+
+    return `${intent.sparkName}: ${intent.action} ${values.join(' · ')}`.trim();
+  },
+
+  /**
+   * Describe every intent for the command parser's system prompt
+   */
+  buildPromptSection: (): string => {
+    const sparkIds = [...new Set(intents.map(i => i.sparkId))];
+
+    const sparks = sparkIds.map((sparkId, index) => {
+      const sparkIntents = intents.filter(i => i.sparkId === sparkId);
+      const actions = sparkIntents.map(intent => {
+        const params = Object.keys(intent.params).map(name => describeParam(name, intent.params[name]));
+        return [
+          `   - action "${intent.action}": ${intent.description}`,
+          `     Keywords: ${intent.keywords.map(k => `"${k}"`).join(', ')}`,
+          `     Params: { ${params.join('; ')} }`,
+        ].join('\n');
+      });
+      return `${index + 1}. "${sparkId}" (${sparkIntents[0].sparkName}):\n${actions.join('\n')}`;
+    });
+
+    const examples = intents.flatMap(intent =>
+      intent.examples.map(example => {
+        const json = JSON.stringify({
+          targetSpark: intent.sparkId,
+          action: intent.action,
+          params: example.params,
+          confidence: 0.9,
+        });
+        return `"${example.text}" -> ${json}`;
+      })
+    );
+
+    return `Supported Sparks:\n${sparks.join('\n\n')}\n\nExamples:\n${examples.join('\n')}`;
+  },
+};
@@ -0,0 +1,45 @@
+import { ParsedCommand } from '../types/commands';
+import { LocalCommandParser } from './LocalCommandParser';
+import { GeminiCommandParser } from './GeminiCommandParser';
+
+// Local matches at or above this confidence skip the network entirely
+const LOCAL_CONFIDENCE_THRESHOLD = 0.8;
+
+export const CommandParser = {
+  /**
+   * Parse a transcript with the offline grammar first, falling back to Gemini
+   * for anything it isn't sure about. If Gemini is unavailable (no network or
+   * API key) a low-confidence local match is still better than nothing.
+   */
+  parseCommand: async (transcript: string): Promise<ParsedCommand> => {
+    const local = LocalCommandParser.parseCommand(transcript);
+    if (local.confidence >= LOCAL_CONFIDENCE_THRESHOLD) {
+      return local;
+    }
+
+    const remote = await GeminiCommandParser.parseCommand(transcript);
+    if (remote.targetSpark !== 'unknown') {
+      return remote;
+    }
+
+    return local.targetSpark !== 'unknown' ? local : remote;
+  },
+
+  /**
+   * Parse a transcript that may contain several commands.
+   * Gemini is only asked when some local segment isn't confidently understood.
+   */
+  parseCommands: async (transcript: string): Promise<ParsedCommand[]> => {
+    const local = LocalCommandParser.parseCommands(transcript);
+    if (local.every(command => command.confidence >= LOCAL_CONFIDENCE_THRESHOLD)) {
+      return local;
+    }
+
+    const remote = await GeminiCommandParser.parseCommands(transcript);
+    if (remote.some(command => command.targetSpark !== 'unknown')) {
+      return remote;
+    }
+
+    return local.some(command => command.targetSpark !== 'unknown') ? local : remote;
+  },
+};
@@ -1,62 +1,86 @@
 import { GeminiService } from './GeminiService';
+import { CommandIntentRegistry } from './CommandIntentRegistry';
+import { ParsedCommand } from '../types/commands';
+import { JSONSchema } from '../types/llm';
 
-export interface ParsedCommand {
-  targetSpark: 'todo' | 'weight-tracker' | 'toview' | 'spanish-flashcards' | 'unknown';
-  action: 'create' | 'add' | 'open' | 'unknown';
-  params: Record<string, any>;
-  confidence: number;
-  originalText: string;
-}
+export type { ParsedCommand };
 
-const SYSTEM_PROMPT = `
+// Built lazily so intents registered after import are included
+const buildSystemPrompt = (): string => `
 You are a voice command parser for the Sparks app. 
 Analyze the user's spoken command and extract intent.
 Return ONLY a JSON object.
 
-Supported Sparks:
-1. "todo" (Todo List): creating tasks. 
-   - Keywords: "add todo", "remind me", "buy", "task".
-   - Params: { text: string (required), category: string (optional), dueDate: string (YYYY-MM-DD or 'today'/'tomorrow') }
-
-2. "weight-tracker" (Weight Tracker): logging weight.
-   - Keywords: "weight is", "weighed", "add weight".
-   - Params: { weight: number, unit: 'lbs'|'kg' }
-
-3. "toview" (ToView List): tracking movies/shows.
-   - Keywords: "to view", "watch", "movie", "show".
-   - Params: { title: string, type: 'Movie'|'Show'|'Book', provider?: string, watchWith?: string[] }
-
-Examples:
-"Add a todo to buy milk" -> { "targetSpark": "todo", "action": "create", "params": { "text": "Buy milk" }, "confidence": 0.9 }
-"Weight is 150" -> { "targetSpark": "weight-tracker", "action": "add", "params": { "weight": 150, "unit": "lbs" }, "confidence": 0.9 }
-"Watch Gladiator with Bob on Netflix" -> { "targetSpark": "toview", "action": "add", "params": { "title": "Gladiator", "type": "Movie", "provider": "Netflix", "watchWith": ["Bob"] }, "confidence": 0.9 }
+${CommandIntentRegistry.buildPromptSection()}
 "Open Spanish" -> { "targetSpark": "unknown", "confidence": 0.0 } (if not supported yet)
 
+If the user asks for more than one thing, return { "commands": [ ...one object per command, in the order spoken ] }.
+"Add milk and eggs to the shopping list and remind me tomorrow to call mom" -> { "commands": [ { "targetSpark": "shop", "action": "add", "params": { "items": ["Milk", "Eggs"] }, "confidence": 0.9 }, { "targetSpark": "todo", "action": "create", "params": { "text": "Call mom", "dueDate": "tomorrow" }, "confidence": 0.9 } ] }
+
 Return { "targetSpark": "unknown", "confidence": 0.0 } if unclear.
 `;
 
+const COMMAND_PROPERTIES: Record<string, JSONSchema> = {
+  targetSpark: { type: 'string' },
+  action: { type: 'string' },
+  params: { type: 'object' },
+  confidence: { type: 'number', minimum: 0, maximum: 1 },
+};
+
+// Either a single command or { commands: [...] }
+const RESPONSE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    ...COMMAND_PROPERTIES,
+    commands: {
+      type: 'array',
+      items: { type: 'object', properties: COMMAND_PROPERTIES, required: ['targetSpark'] },
+    },
+  },
+};
+
+const unknownCommand = (transcript: string, error: string): ParsedCommand => ({
+  targetSpark: 'unknown',
+  action: 'unknown',
+  params: { error },
+  confidence: 0,
+  originalText: transcript
+});
+
 export const GeminiCommandParser = {
   parseCommand: async (transcript: string): Promise<ParsedCommand> => {
+    const [first] = await GeminiCommandParser.parseCommands(transcript);
+    return first;
+  },
+
+  /**
+   * Parse a transcript into one or more commands
+   */
+  parseCommands: async (transcript: string): Promise<ParsedCommand[]> => {
     try {
       console.log('Sending to Gemini:', transcript);
 
-      const parsed = await GeminiService.generateJSON<any>(`${SYSTEM_PROMPT}\n\nCommand: "${transcript}"`);
+      const parsed = await GeminiService.generateJSON<any>(
+        `${buildSystemPrompt()}\n\nCommand: "${transcript}"`,
+        [],
+        { schema: RESPONSE_SCHEMA, cache: true }
+      );
 
       console.log('Gemini Parsed:', parsed);
-      return {
-        ...parsed,
+      const commands: any[] = Array.isArray(parsed?.commands) ? parsed.commands : [parsed];
+      if (commands.length === 0) {
+        return [unknownCommand(transcript, 'No commands found')];
+      }
+
+      return commands.map(command => ({
+        ...command,
+        params: command.params || {},
         originalText: transcript
-      };
+      }));
 
     } catch (error: any) {
       console.error('Gemini parsing error:', error);
-      return {
-        targetSpark: 'unknown',
-        action: 'unknown',
-        params: { error: error.message },
-        confidence: 0,
-        originalText: transcript
-      };
+      return [unknownCommand(transcript, error.message)];
     }
   }
 };
@@ -0,0 +1,55 @@
+import { LLMProvider, LLMRequest } from '../types/llm';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const GeminiProvider: LLMProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+
+    isConfigured: () => !!process.env.EXPO_PUBLIC_GEMINI_API_KEY,
+
+    generateText: async ({ prompt, images = [] }: LLMRequest): Promise<string> => {
+        const apiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY;
+        if (!apiKey) {
+            throw new Error('Missing EXPO_PUBLIC_GEMINI_API_KEY');
+        }
+
+        // API Version: v1 (confirmed working with gemini-2.5-flash)
+        const contents: any[] = [{
+            parts: [{ text: prompt }]
+        }];
+
+        images.forEach(base64Image => {
+            contents[0].parts.push({
+                inline_data: {
+                    mime_type: "image/jpeg",
+                    data: base64Image
+                }
+            });
+        });
+
+        const response = await fetch(
+            `https://generativelanguage.googleapis.com/v1/models/${GEMINI_MODEL}:generateContent?key=${apiKey}`,
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ contents })
+            }
+        );
+
+        const data = await response.json();
+
+        if (!response.ok) {
+            const errorMsg = data.error?.message || 'API request failed';
+            console.error('Gemini API Error:', errorMsg);
+            throw new Error(errorMsg);
+        }
+
+        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (!text) {
+            throw new Error('No content generated');
+        }
+
+        return text;
+    },
+};
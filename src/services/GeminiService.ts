@@ -1,66 +1,119 @@
+import { GenerateJSONOptions, LLMProvider } from '../types/llm';
+import { hashString, parseModelJSON, validateJSONSchema } from '../utils/jsonSchema';
+import { GeminiProvider } from './GeminiProvider';
+import { createOpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+/**
+ * Pick the provider from the environment. Set EXPO_PUBLIC_LLM_PROVIDER=openai
+ * with EXPO_PUBLIC_LLM_BASE_URL and EXPO_PUBLIC_LLM_MODEL to use a local server.
+ */
+const getDefaultProvider = (): LLMProvider => {
+    if (process.env.EXPO_PUBLIC_LLM_PROVIDER === 'openai') {
+        return createOpenAICompatibleProvider({
+            baseUrl: process.env.EXPO_PUBLIC_LLM_BASE_URL || 'http://localhost:11434/v1',
+            model: process.env.EXPO_PUBLIC_LLM_MODEL || '',
+            apiKey: process.env.EXPO_PUBLIC_LLM_API_KEY,
+            jsonMode: process.env.EXPO_PUBLIC_LLM_JSON_MODE === 'true',
+        });
+    }
+    return GeminiProvider;
+};
+
+let provider: LLMProvider = getDefaultProvider();
+
+const DEFAULT_JSON_RETRIES = 2;
+const MAX_CACHE_ENTRIES = 50;
+const jsonCache = new Map<string, any>();
+
+/**
+ * Thrown when the model can't produce JSON matching the requested schema
+ */
+export class GeminiJSONError extends Error {
+    attempts: number;
+    rawText: string;
+
+    constructor(message: string, attempts: number, rawText: string) {
+        super(message);
+        this.name = 'GeminiJSONError';
+        this.attempts = attempts;
+        this.rawText = rawText;
+    }
+}
+
 export const GeminiService = {
+    /**
+     * Swap the backend all AI features use, e.g. a mock provider in tests
+     */
+    setProvider: (next: LLMProvider) => {
+        provider = next;
+    },
+
+    resetProvider: () => {
+        provider = getDefaultProvider();
+    },
+
+    getProvider: (): LLMProvider => provider,
+
+    isConfigured: (): boolean => provider.isConfigured(),
+
+    /**
+     * What to put in .env to configure the current provider
+     */
+    getSetupHint: (): string => provider.id === 'openai-compatible'
+        ? 'Set EXPO_PUBLIC_LLM_MODEL, and EXPO_PUBLIC_LLM_BASE_URL if the server is not local, in your .env file.'
+        : 'Add EXPO_PUBLIC_GEMINI_API_KEY to your .env file.',
+
     generateContent: async (prompt: string, images: string[] = []): Promise<string> => {
-        const apiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY;
-        if (!apiKey) {
-            throw new Error('Missing EXPO_PUBLIC_GEMINI_API_KEY');
-        }
+        return provider.generateText({ prompt, images });
+    },
 
-        // Using configuration from RecAIpeSpark which is confirmed working
-        // Model: gemini-2.5-flash (as seen in working code)
-        // API Version: v1
-        const contents: any[] = [{
-            parts: [{ text: prompt }]
-        }];
-
-        // Add images if provided
-        if (images && images.length > 0) {
-            images.forEach(base64Image => {
-                contents[0].parts.push({
-                    inline_data: {
-                        mime_type: "image/jpeg",
-                        data: base64Image
-                    }
-                });
-            });
+    /**
+     * Generate JSON, validating it against options.schema. Invalid output is
+     * repaired where possible, otherwise the model is re-prompted with the
+     * validation error up to options.maxRetries times.
+     * @throws GeminiJSONError if no attempt produced valid JSON
+     */
+    generateJSON: async <T>(prompt: string, images: string[] = [], options: GenerateJSONOptions = {}): Promise<T> => {
+        const { schema, maxRetries = DEFAULT_JSON_RETRIES, cache = false } = options;
+        const cacheKey = hashString(`${provider.id}\n${JSON.stringify(schema)}\n${prompt}\n${images.join(',')}`);
+        if (cache && jsonCache.has(cacheKey)) {
+            return jsonCache.get(cacheKey) as T;
         }
 
-        const response = await fetch(
-            `https://generativelanguage.googleapis.com/v1/models/gemini-2.5-flash:generateContent?key=${apiKey}`,
-            {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ contents })
-            }
-        );
+        // Append JSON instruction
+        const jsonPrompt = `${prompt}\n\nOutput strictly valid JSON.`;
+        let attemptPrompt = jsonPrompt;
+        let text = '';
+        let error = '';
 
-        const data = await response.json();
+        for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+            text = await provider.generateText({ prompt: attemptPrompt, images, json: true });
 
-        if (!response.ok) {
-            const errorMsg = data.error?.message || 'API request failed';
-            console.error('Gemini API Error:', errorMsg);
-            throw new Error(errorMsg);
-        }
+            try {
+                const parsed = parseModelJSON(text);
+                const validationError = schema ? validateJSONSchema(parsed, schema) : null;
+                if (!validationError) {
+                    if (cache) {
+                        if (jsonCache.size >= MAX_CACHE_ENTRIES) {
+                            jsonCache.delete(jsonCache.keys().next().value as string);
+                        }
+                        jsonCache.set(cacheKey, parsed);
+                    }
+                    return parsed as T;
+                }
+                error = validationError;
+            } catch (e: any) {
+                error = `Invalid JSON: ${e.message}`;
+            }
 
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (!text) {
-            throw new Error('No content generated');
+            console.warn(`generateJSON attempt ${attempt} failed:`, error);
+            attemptPrompt = `${jsonPrompt}\n\nYour previous response was rejected (${error}):\n${text}\n\nRespond again with only the corrected JSON.`;
         }
 
-        return text;
+        throw new GeminiJSONError(`Failed to parse (JSON): ${error}`, maxRetries + 1, text);
     },
 
-    generateJSON: async <T>(prompt: string, images: string[] = []): Promise<T> => {
-        // Append JSON instruction
-        const jsonPrompt = `${prompt}\n\nOutput strictly valid JSON.`;
-        const text = await GeminiService.generateContent(jsonPrompt, images);
-
-        try {
-            // Clean markdown code blocks if present
-            const cleanText = text.replace(/```json\n?|\n?```/g, '').trim();
-            return JSON.parse(cleanText) as T;
-        } catch (e) {
-            console.error('JSON Parse Error', e);
-            throw new Error('Failed to parse (JSON)');
-        }
-    }
+    clearJSONCache: () => {
+        jsonCache.clear();
+    },
 };
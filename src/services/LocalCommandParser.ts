@@ -0,0 +1,396 @@
+import { ParsedCommand } from '../types/commands';
+import { parseRepeatPhrase } from '../utils/recurrence';
+import { extractNaturalDate, toLocalDateString } from '../utils/dateUtils';
+
+// Deterministic grammar for common voice commands, so SpeakSpark works
+// without network access or a Gemini API key.
+
+type RuleMatch = Omit<ParsedCommand, 'originalText'>;
+type Rule = (text: string, now: Date) => RuleMatch | null;
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const PROVIDERS: Record<string, string> = {
+  'netflix': 'Netflix',
+  'hulu': 'Hulu',
+  'peacock': 'Peacock',
+  'disney+': 'Disney+',
+  'disney plus': 'Disney+',
+  'disney': 'Disney+',
+  'hbo max': 'HBO Max',
+  'max': 'HBO Max',
+  'hbo': 'HBO Max',
+  'amazon prime': 'Amazon Prime',
+  'prime video': 'Amazon Prime',
+  'prime': 'Amazon Prime',
+  'amazon': 'Amazon Prime',
+  'apple tv+': 'Apple TV+',
+  'apple tv plus': 'Apple TV+',
+  'apple tv': 'Apple TV+',
+  'paramount+': 'Paramount+',
+  'paramount plus': 'Paramount+',
+  'paramount': 'Paramount+',
+  'youtube tv': 'YouTube TV',
+  'youtube': 'YouTube TV',
+  'crunchyroll': 'Crunchyroll',
+};
+
+const CLUBS: Record<string, string> = {
+  'driver': 'Driver',
+  '3 wood': '3-Wood',
+  '5 wood': '5-Wood',
+  'pitching wedge': 'Pitching Wedge',
+  'gap wedge': 'Gap Wedge',
+  'sand wedge': 'Sand Wedge',
+  'lob wedge': 'Lob Wedge',
+  'putter': 'Putter',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  'a': 1, 'an': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5,
+  'six': 6, 'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10,
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const parseCount = (word: string): number | undefined => {
+  const num = parseInt(word, 10);
+  return isNaN(num) ? NUMBER_WORDS[word] : num;
+};
+
+/**
+ * Split "milk, eggs and bread" into ["Milk", "Eggs", "Bread"]
+ */
+const splitList = (text: string): string[] =>
+  text
+    .split(/\s*(?:,|\band\b|&)\s*/)
+    .map(item => item.replace(/^(?:some|a|an)\s+/, '').trim())
+    .filter(Boolean)
+    .map(capitalize);
+
+/**
+ * Pull a "high priority" style marker off a todo phrase
+ */
+const extractPriority = (text: string): { text: string; priority?: string } => {
+  const match = text.match(/,?\s*\b(?:with |as )?(?:a )?(high|medium|low) priority\b/);
+  if (!match) return { text };
+  const stripped = (text.slice(0, match.index) + text.slice(match.index! + match[0].length)).replace(/\s{2,}/g, ' ').trim();
+  return { text: stripped, priority: match[1] };
+};
+
+const todoRule: Rule = (text, now) => {
+  const explicit = text.match(/^(?:add (?:a )?(?:todo|task)(?: to)?|(?:todo|task):?|remind me(?: to)?)\s+(.+)$/);
+  const implicit = !explicit && text.match(/^((?:buy|call|email|pay|schedule|book)\s+.+)$/);
+  const body = explicit?.[1] || (implicit && implicit[1]);
+  if (!body) return null;
+
+  let rest = body;
+  let leadingDueDate: string | undefined;
+  const leadingDate = rest.match(/^(today|tomorrow)\s+(?:to\s+)?(.+)$/);
+  if (leadingDate) {
+    leadingDueDate = leadingDate[1];
+    rest = leadingDate[2];
+  }
+
+  let category: string | undefined;
+  const categoryMatch = rest.match(/^(?:the )?(\w+) category(?: to)?\s+(.+)$/);
+  if (categoryMatch) {
+    category = categoryMatch[1];
+    rest = categoryMatch[2];
+  }
+
+  const { text: withoutPriority, priority } = extractPriority(rest);
+  const { text: withoutRepeat, phrase: repeat } = parseRepeatPhrase(withoutPriority);
+  // Relative phrases like "next friday" are resolved when the command runs
+  const { text: todoText, phrase: dueDate = leadingDueDate } = extractNaturalDate(withoutRepeat, now);
+  if (!todoText) return null;
+
+  const params: Record<string, any> = { text: capitalize(todoText) };
+  if (category) params.category = category;
+  if (dueDate) params.dueDate = dueDate;
+  if (repeat) params.repeat = repeat;
+  if (priority) params.priority = priority;
+
+  return {
+    targetSpark: 'todo',
+    action: 'create',
+    params,
+    confidence: explicit ? 0.9 : 0.6,
+  };
+};
+
+const weightRule: Rule = (text) => {
+  const match = text.match(
+    /^(?:(?:my )?weight(?: is)?|i weigh(?:ed)?(?: in at)?|weighed(?: in at)?|add weight|log weight)\s+(\d+(?:\.\d+)?)\s*(lbs?|pounds?|kgs?|kilos?|kilograms?)?$/
+  );
+  if (!match) return null;
+
+  const params: Record<string, any> = { weight: parseFloat(match[1]) };
+  if (match[2]) {
+    params.unit = match[2].startsWith('k') ? 'kg' : 'lbs';
+  }
+
+  return {
+    targetSpark: 'weight-tracker',
+    action: 'add',
+    params,
+    confidence: match[2] ? 0.95 : 0.9,
+  };
+};
+
+const toviewRule: Rule = (text) => {
+  const match = text.match(
+    /^(?:add (?:a )?(?:toview|to view)(?: for)?|i want to watch|watch|read)\s+(?:(?:a|the) )?(?:(movie|show|series|book) )?(?:called )?(.+)$/
+  );
+  if (!match) return null;
+
+  let rest = match[2];
+  const params: Record<string, any> = {};
+
+  const withMatch = rest.match(/\s+(?:to watch )?with\s+(.+?)(?=\s+on\s+|$)/);
+  if (withMatch) {
+    params.watchWith = splitList(withMatch[1]);
+    rest = rest.replace(withMatch[0], '');
+  }
+
+  const onMatch = rest.match(/\s+on\s+(.+?)(?=\s+(?:to watch )?with\s+|$)/);
+  if (onMatch && PROVIDERS[onMatch[1]]) {
+    params.provider = PROVIDERS[onMatch[1]];
+    rest = rest.replace(onMatch[0], '');
+  }
+
+  const title = rest.trim();
+  if (!title) return null;
+
+  const kind = match[1];
+  params.title = title.split(' ').map(capitalize).join(' ');
+  params.type = text.startsWith('read') || kind === 'book'
+    ? 'Book'
+    : kind === 'show' || kind === 'series' ? 'Show' : 'Movie';
+
+  return {
+    targetSpark: 'toview',
+    action: 'add',
+    params,
+    confidence: text.startsWith('watch') && !kind ? 0.8 : 0.85,
+  };
+};
+
+const shopRule: Rule = (text) => {
+  const match = text.match(/^(?:add|put)\s+(.+?)\s+(?:to|on)\s+(?:the |my )?(?:shopping|grocery|shop)(?: list)?$/)
+    || text.match(/^(?:we need|we're out of|pick up)\s+(.+)$/);
+  if (!match) return null;
+
+  return {
+    targetSpark: 'shop',
+    action: 'add',
+    params: { items: splitList(match[1]) },
+    confidence: text.startsWith('add') || text.startsWith('put') ? 0.9 : 0.75,
+  };
+};
+
+const packingRule: Rule = (text) => {
+  const listMatch = text.match(/^(?:add\s+)?(.+?)\s+to\s+(?:the |my )?packing list$/);
+  const packMatch = !listMatch && text.match(/^(?:pack|bring)\s+(.+)$/);
+  const body = listMatch?.[1] || (packMatch && packMatch[1]);
+  if (!body) return null;
+
+  const params: Record<string, any> = {};
+  const countMatch = body.match(/^(\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten)\s+(.+)$/);
+  if (countMatch) {
+    params.count = parseCount(countMatch[1]);
+    params.item = capitalize(countMatch[2]);
+  } else {
+    params.item = capitalize(body);
+  }
+
+  return {
+    targetSpark: 'packing-list',
+    action: 'add',
+    params,
+    confidence: listMatch ? 0.9 : 0.85,
+  };
+};
+
+const ideaRule: Rule = (text) => {
+  // "idea: grow basil, tagged garden and cooking"; "hashtag garden" is left in the content
+  const match = text.match(/^(?:new idea|idea|note to self)[:,]?\s+(.+?)(?:,?\s+tagged\s+(.+))?$/);
+  if (!match) return null;
+
+  const params: Record<string, any> = { content: capitalize(match[1]) };
+  if (match[2]) params.tags = splitList(match[2]).map(tag => tag.toLowerCase());
+
+  return {
+    targetSpark: 'ideas',
+    action: 'add',
+    params,
+    confidence: 0.9,
+  };
+};
+
+const comingUpRule: Rule = (text, now) => {
+  const match = text.match(
+    new RegExp(`^(.+?(birthday|anniversary)|.+?)\\s+is\\s+(?:on\\s+)?(${MONTHS.join('|')})\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?$`)
+  );
+  if (!match) return null;
+
+  const category = match[2] || 'other';
+  const isAnnual = category === 'birthday' || category === 'anniversary';
+  const month = MONTHS.indexOf(match[3]);
+  const day = parseInt(match[4], 10);
+
+  let year = match[5] ? parseInt(match[5], 10) : now.getFullYear();
+  if (!match[5] && !isAnnual) {
+    // One-time events without a year are the next time that date comes around
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (new Date(year, month, day) < today) year++;
+  }
+
+  return {
+    targetSpark: 'coming-up',
+    action: 'add',
+    params: {
+      title: capitalize(match[1]),
+      date: toLocalDateString(new Date(year, month, day)),
+      type: isAnnual ? 'annual' : 'one-time',
+      category,
+    },
+    confidence: isAnnual ? 0.85 : 0.7,
+  };
+};
+
+const foodCamRule: Rule = (text) => {
+  const match = text.match(
+    /^(?:that|this|the|my)?\s*(?:meal|lunch|dinner|breakfast|snack) was\s+(?:a |an |some )?(.+?)(?:,?\s+(?:about|around|roughly)?\s*(\d+)\s+calories)?$/
+  );
+  if (!match) return null;
+
+  const params: Record<string, any> = { name: capitalize(match[1]) };
+  if (match[2]) params.calories = parseInt(match[2], 10);
+
+  return {
+    targetSpark: 'food-cam',
+    action: 'name',
+    params,
+    confidence: 0.85,
+  };
+};
+
+const golfShotRule: Rule = (text) => {
+  const holeMatch = text.match(/\bon hole (\d{1,2})\b/);
+  if (!holeMatch) return null;
+
+  const isPutt = /\bputt/.test(text);
+  const params: Record<string, any> = {
+    holeNumber: parseInt(holeMatch[1], 10),
+    type: isPutt ? 'putt' : 'shot',
+  };
+
+  if (isPutt) {
+    const feet = text.match(/(\d+)\s*(?:ft|feet|foot)/);
+    if (feet) {
+      const distance = parseInt(feet[1], 10);
+      params.puttDistance = distance < 5 ? '<4ft' : distance <= 10 ? '5-10ft' : '10+ft';
+    }
+  } else {
+    const iron = text.match(/\b(\d)[- ]?iron\b/);
+    const hybrid = text.match(/\b(\d)[- ]?hybrid\b/);
+    const club = Object.keys(CLUBS).find(name => text.includes(name));
+    if (iron) params.club = `${iron[1]}-Iron`;
+    else if (hybrid) params.club = `${hybrid[1]}-Hybrid`;
+    else if (club) params.club = CLUBS[club];
+
+    const vertical = text.match(/\b(long|short)\b/)?.[1];
+    const horizontal = text.match(/\b(left|right)\b/)?.[1];
+    if (/\bpenalty\b/.test(text)) params.direction = 'penalty';
+    else if (horizontal && vertical) params.direction = `${horizontal} and ${vertical}`;
+    else if (horizontal || vertical) params.direction = horizontal || vertical;
+    else if (/\b(good|straight|pure|flush)\b/.test(text)) params.direction = 'good';
+
+    const lie = text.match(/\b(fairway|rough|sand|bunker|green|water|out of bounds|ob)\b/)?.[1];
+    if (lie) {
+      params.lie = lie === 'bunker' ? 'sand' : lie === 'out of bounds' ? 'ob' : lie;
+    }
+  }
+
+  return {
+    targetSpark: 'golf-brain',
+    action: 'log-shot',
+    params,
+    confidence: params.club || params.direction || isPutt ? 0.8 : 0.6,
+  };
+};
+
+// Most specific rules first: the first rule that matches wins
+const RULES: Rule[] = [
+  weightRule,
+  ideaRule,
+  shopRule,
+  packingRule,
+  foodCamRule,
+  golfShotRule,
+  todoRule,
+  comingUpRule,
+  toviewRule,
+];
+
+// Where one spoken command ends and the next begins: "then", ";", a sentence
+// break, or "and" directly followed by a command verb
+const COMMAND_SEPARATOR = new RegExp(
+  '\\s*;\\s*|\\.\\s+|,?\\s+(?:and\\s+)?then\\s+|,?\\s+and\\s+(?=(?:' + [
+    'remind me', 'add', 'put', 'pack', 'bring', 'watch', 'read', 'log', 'idea', 'note to self',
+    'todo', 'task', 'my weight', 'weight', 'i weigh', 'hit', 'putt', 'we need', 'pick up',
+  ].join('|') + ')\\b)',
+  'i'
+);
+
+const normalize = (transcript: string): string =>
+  transcript
+    .toLowerCase()
+    .replace(/[.!?]+$/, '')
+    .replace(/^(?:please|hey sparks|ok sparks),?\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const LocalCommandParser = {
+  /**
+   * Parse a transcript without calling any external service
+   * @param now - Reference date for relative dates (defaults to today)
+   * @returns ParsedCommand with targetSpark 'unknown' and confidence 0 if nothing matched
+   */
+  parseCommand: (transcript: string, now: Date = new Date()): ParsedCommand => {
+    const text = normalize(transcript);
+
+    for (const rule of RULES) {
+      const match = rule(text, now);
+      if (match) {
+        return { ...match, originalText: transcript };
+      }
+    }
+
+    return {
+      targetSpark: 'unknown',
+      action: 'unknown',
+      params: {},
+      confidence: 0,
+      originalText: transcript,
+    };
+  },
+
+  /**
+   * Parse a transcript that may hold several commands, e.g.
+   * "add milk and eggs to shopping and remind me tomorrow to call mom"
+   */
+  parseCommands: (transcript: string, now: Date = new Date()): ParsedCommand[] => {
+    const segments = transcript
+      .split(COMMAND_SEPARATOR)
+      .map(segment => segment.trim())
+      .filter(Boolean);
+
+    if (segments.length <= 1) {
+      return [LocalCommandParser.parseCommand(transcript, now)];
+    }
+
+    return segments.map(segment => LocalCommandParser.parseCommand(segment, now));
+  },
+};
@@ -0,0 +1,41 @@
+import { LLMProvider, LLMRequest, MockLLMFixture } from '../types/llm';
+
+export interface MockLLMProvider extends LLMProvider {
+    calls: LLMRequest[];
+}
+
+/**
+ * Offline provider that answers from fixtures, for tests and demos.
+ * The first fixture whose match is found in the prompt wins.
+ */
+export const createMockLLMProvider = (
+    fixtures: MockLLMFixture[] = [],
+    fallback?: string
+): MockLLMProvider => {
+    const calls: LLMRequest[] = [];
+
+    return {
+        id: 'mock',
+        name: 'Mock',
+        calls,
+
+        isConfigured: () => true,
+
+        generateText: async (request: LLMRequest): Promise<string> => {
+            calls.push(request);
+
+            const fixture = fixtures.find(f =>
+                typeof f.match === 'string' ? request.prompt.includes(f.match) : f.match.test(request.prompt)
+            );
+
+            if (!fixture) {
+                if (fallback !== undefined) return fallback;
+                throw new Error('No mock response for prompt');
+            }
+
+            if (typeof fixture.response === 'function') return fixture.response(request);
+            if (typeof fixture.response === 'string') return fixture.response;
+            return JSON.stringify(fixture.response);
+        },
+    };
+};
@@ -0,0 +1,58 @@
+import { LLMProvider, LLMRequest, OpenAICompatibleConfig } from '../types/llm';
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API,
+ * e.g. OpenAI itself or a local Ollama / llama.cpp / LM Studio server
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => ({
+    id: 'openai-compatible',
+    name: config.model,
+
+    isConfigured: () => !!config.baseUrl && !!config.model,
+
+    generateText: async ({ prompt, images = [], json }: LLMRequest): Promise<string> => {
+        const content = images.length > 0
+            ? [
+                { type: 'text', text: prompt },
+                ...images.map(base64Image => ({
+                    type: 'image_url',
+                    image_url: { url: `data:image/jpeg;base64,${base64Image}` }
+                })),
+            ]
+            : prompt;
+
+        const body: Record<string, any> = {
+            model: config.model,
+            messages: [{ role: 'user', content }],
+        };
+        if (json && config.jsonMode) {
+            body.response_format = { type: 'json_object' };
+        }
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey) {
+            headers.Authorization = `Bearer ${config.apiKey}`;
+        }
+
+        const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+            const errorMsg = data.error?.message || 'API request failed';
+            console.error('LLM API Error:', errorMsg);
+            throw new Error(errorMsg);
+        }
+
+        const text = data.choices?.[0]?.message?.content;
+        if (!text) {
+            throw new Error('No content generated');
+        }
+
+        return text;
+    },
+});
@@ -0,0 +1,111 @@
+import { SearchDocument, SearchResult, SparkIndexer } from '../types/search';
+
+const indexers: Record<string, SparkIndexer> = {};
+
+// Documents are cached per data object; setSparkData replaces a spark's data
+// object on every write, so a stale entry is never reused
+const documentCache = new WeakMap<object, SearchDocument[]>();
+
+const TITLE_WEIGHT = 3;
+const SUBTITLE_WEIGHT = 2;
+const BODY_WEIGHT = 1;
+const DEFAULT_LIMIT = 50;
+
+/**
+ * Lowercase and strip accents so "cafe" finds "Café"
+ */
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const tokenize = (text: string): string[] =>
+  normalize(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Score how well a field matches one query token
+ * @returns 2 for a whole word match, 1 for a word prefix match, 0 otherwise
+ */
+const matchToken = (words: string[], token: string): number => {
+  if (words.includes(token)) return 2;
+  return words.some(word => word.startsWith(token)) ? 1 : 0;
+};
+
+const scoreDocument = (doc: SearchDocument, tokens: string[]): number => {
+  const fields: [string[], number][] = [
+    [tokenize(doc.title), TITLE_WEIGHT],
+    [tokenize(doc.subtitle || ''), SUBTITLE_WEIGHT],
+    [tokenize(doc.body || ''), BODY_WEIGHT],
+  ];
+
+  let score = 0;
+  for (const token of tokens) {
+    // Every query word has to appear somewhere in the document
+    const best = Math.max(...fields.map(([words, weight]) => matchToken(words, token) * weight));
+    if (best === 0) return 0;
+    score += best;
+  }
+  return score;
+};
+
+export const SearchService = {
+  /**
+   * Register how a spark's stored data is turned into search documents.
+   * Sparks call this at module load, next to their data types.
+   */
+  registerIndexer: (sparkId: string, indexer: SparkIndexer): void => {
+    indexers[sparkId] = indexer;
+  },
+
+  getIndexedSparkIds: (): string[] => Object.keys(indexers),
+
+  /**
+   * Build (or reuse) the documents for one spark's data
+   */
+  getDocuments: (sparkId: string, data: any): SearchDocument[] => {
+    const indexer = indexers[sparkId];
+    if (!indexer || !data || typeof data !== 'object') return [];
+
+    const cached = documentCache.get(data);
+    if (cached) return cached;
+
+    let documents: SearchDocument[] = [];
+    try {
+      documents = indexer(data)
+        .filter(doc => doc.title)
+        .map(doc => ({ ...doc, sparkId, itemId: String(doc.itemId) }));
+    } catch (error) {
+      console.error(`Failed to index ${sparkId}:`, error);
+    }
+    documentCache.set(data, documents);
+    return documents;
+  },
+
+  /**
+   * Search every indexed spark's data
+   * @param sparkData - All spark data, as held by useSparkStore
+   * @returns Matches, best first
+   */
+  search: (
+    query: string,
+    sparkData: Record<string, any>,
+    options: { sparkIds?: string[]; limit?: number } = {}
+  ): SearchResult[] => {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return [];
+
+    const sparkIds = (options.sparkIds || Object.keys(indexers)).filter(id => indexers[id]);
+    const results: SearchResult[] = [];
+
+    for (const sparkId of sparkIds) {
+      for (const doc of SearchService.getDocuments(sparkId, sparkData[sparkId])) {
+        const score = scoreDocument(doc, tokens);
+        if (score > 0) {
+          results.push({ ...doc, score });
+        }
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  },
+};
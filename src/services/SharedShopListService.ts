@@ -0,0 +1,277 @@
+import { collection, addDoc, doc, getDocs, query, where, updateDoc, deleteDoc, deleteField, onSnapshot, runTransaction, arrayRemove, Timestamp } from 'firebase/firestore';
+import AuthService, { User } from './AuthService';
+import { Friend } from './FriendService';
+import { ShopItem, ShopSharedList } from '../types/sparkData';
+import { isSameShopList, mergeShopItems, pruneDeletedShopItems } from '../utils/shopList';
+import { readSparkData, watchSparkData, writeSparkData } from '../store';
+
+const SHARED_SHOP_LISTS_COLLECTION = 'sharedShopLists';
+
+// Shop data writes within this window are pushed once
+const SYNC_DEBOUNCE_MS = 1000;
+
+// Listeners per list. While the Shop spark listens to a list it pushes its
+// own changes, including ones taken in from elsewhere.
+const liveListeners = new Map<string, number>();
+
+export interface SharedShopListDoc {
+    id: string;
+    ownerId: string;
+    memberIds: string[];
+    memberNames: Record<string, string>; // userId -> display name
+    items: ShopItem[];
+    updatedAt: Timestamp;
+}
+
+export class SharedShopListService {
+    /**
+     * Get Firebase app instance
+     */
+    private static async getFirebaseApp() {
+        const { initializeApp, getApps } = require('firebase/app');
+        const firebaseConfig = {
+            apiKey: process.env.EXPO_PUBLIC_FIREBASE_API_KEY,
+            authDomain: process.env.EXPO_PUBLIC_FIREBASE_AUTH_DOMAIN,
+            projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID,
+            storageBucket: process.env.EXPO_PUBLIC_FIREBASE_STORAGE_BUCKET,
+            messagingSenderId: process.env.EXPO_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
+            appId: process.env.EXPO_PUBLIC_FIREBASE_APP_ID,
+            measurementId: process.env.EXPO_PUBLIC_FIREBASE_MEASUREMENT_ID,
+        };
+
+        if (getApps().length === 0) {
+            return initializeApp(firebaseConfig);
+        }
+        return getApps()[0];
+    }
+
+    /**
+     * Get Firestore instance
+     */
+    private static async getFirestore() {
+        const { getFirestore } = require('firebase/firestore');
+        const app = await this.getFirebaseApp();
+        return getFirestore(app);
+    }
+
+    /**
+     * Ensure user is authenticated
+     */
+    private static ensureAuthenticated(): User {
+        const user = AuthService.getCurrentUser();
+        if (!user) {
+            throw new Error('You must be signed in to share a shopping list');
+        }
+        return user;
+    }
+
+    /**
+     * Firestore rejects undefined fields, so drop them before writing
+     */
+    private static toFirestoreItems(items: ShopItem[]): ShopItem[] {
+        return items.map(item => JSON.parse(JSON.stringify(item)));
+    }
+
+    /**
+     * Summary of a list for storing alongside the local copy
+     */
+    static toSharedList(list: Pick<SharedShopListDoc, 'id' | 'memberNames'>): ShopSharedList {
+        return { id: list.id, memberNames: Object.values(list.memberNames).sort() };
+    }
+
+    /**
+     * Start sharing a list with a friend. The friend sees it under their
+     * shared lists and can join it from Shop settings.
+     */
+    static async createSharedList(friend: Friend, items: ShopItem[]): Promise<ShopSharedList> {
+        const user = this.ensureAuthenticated();
+        const db = await this.getFirestore();
+
+        const memberNames = {
+            [user.uid]: user.displayName || 'Me',
+            [friend.userId]: friend.displayName,
+        };
+        const docRef = await addDoc(collection(db, SHARED_SHOP_LISTS_COLLECTION), {
+            ownerId: user.uid,
+            memberIds: [user.uid, friend.userId],
+            memberNames,
+            items: this.toFirestoreItems(pruneDeletedShopItems(items)),
+            updatedAt: Timestamp.now(),
+        });
+        console.log(`✅ Created shared shopping list ${docRef.id} with ${friend.userId}`);
+
+        return this.toSharedList({ id: docRef.id, memberNames });
+    }
+
+    /**
+     * Get the shared lists the current user belongs to
+     */
+    static async getSharedLists(): Promise<SharedShopListDoc[]> {
+        const user = this.ensureAuthenticated();
+        const db = await this.getFirestore();
+
+        const q = query(
+            collection(db, SHARED_SHOP_LISTS_COLLECTION),
+            where('memberIds', 'array-contains', user.uid)
+        );
+
+        const snapshot = await getDocs(q);
+        const lists: SharedShopListDoc[] = [];
+
+        snapshot.forEach((doc) => {
+            lists.push({
+                id: doc.id,
+                ...doc.data(),
+            } as SharedShopListDoc);
+        });
+
+        // Most recently used first
+        lists.sort((a, b) => (b.updatedAt?.toMillis?.() || 0) - (a.updatedAt?.toMillis?.() || 0));
+
+        return lists;
+    }
+
+    /**
+     * Merge a local copy into the shared list. Runs in a transaction, so
+     * two people checking items off at once don't overwrite each other.
+     * @returns The merged items now stored in the shared list
+     */
+    static async syncItems(listId: string, items: ShopItem[]): Promise<ShopItem[]> {
+        this.ensureAuthenticated();
+        const db = await this.getFirestore();
+        const listRef = doc(db, SHARED_SHOP_LISTS_COLLECTION, listId);
+
+        return runTransaction(db, async (transaction) => {
+            const listDoc = await transaction.get(listRef);
+            if (!listDoc.exists()) {
+                throw new Error('Shared list not found');
+            }
+
+            const remote = (listDoc.data().items || []) as ShopItem[];
+            const merged = pruneDeletedShopItems(mergeShopItems(remote, items));
+            transaction.update(listRef, {
+                items: this.toFirestoreItems(merged),
+                updatedAt: Timestamp.now(),
+            });
+            return merged;
+        });
+    }
+
+    /**
+     * Listen for changes to a shared list, including your own writes
+     * @returns Unsubscribe function
+     */
+    static subscribe(
+        listId: string,
+        onChange: (list: SharedShopListDoc) => void,
+        onRemoved: () => void
+    ): () => void {
+        let unsubscribe = () => { };
+        let cancelled = false;
+        liveListeners.set(listId, (liveListeners.get(listId) || 0) + 1);
+
+        this.getFirestore().then((db) => {
+            if (cancelled) return;
+            unsubscribe = onSnapshot(
+                doc(db, SHARED_SHOP_LISTS_COLLECTION, listId),
+                (snapshot) => {
+                    if (!snapshot.exists()) {
+                        onRemoved();
+                        return;
+                    }
+                    onChange({ id: snapshot.id, ...snapshot.data() } as SharedShopListDoc);
+                },
+                (error) => {
+                    console.error('❌ Error in shared shopping list listener:', error);
+                }
+            );
+        }).catch(error => console.error('❌ Error setting up shared shopping list listener:', error));
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+            liveListeners.set(listId, (liveListeners.get(listId) || 1) - 1);
+        };
+    }
+
+    /**
+     * Push shop items changed while no one is listening to their shared list,
+     * e.g. added by voice with the Shop spark closed. Merged items that come
+     * back are written to the local copy.
+     * @returns A function that stops watching
+     */
+    static watchStoredItems(): () => void {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let lastSyncedItems: ShopItem[] | undefined;
+
+        const push = async (listId: string) => {
+            try {
+                const merged = await this.syncItems(listId, readSparkData('shop').items || []);
+                // Keep changes made while the push was in flight
+                const current = readSparkData('shop');
+                const local = current.items || [];
+                const items = mergeShopItems(local, merged);
+                if (current.sharedList?.id !== listId || isSameShopList(items, local)) return;
+                lastSyncedItems = items;
+                writeSparkData('shop', { items });
+            } catch (error) {
+                console.error('Error syncing shared shopping list:', error);
+            }
+        };
+
+        const stopWatching = watchSparkData('shop', (data) => {
+            const listId = data.sharedList?.id;
+            if (!listId || data.items === lastSyncedItems || liveListeners.get(listId)) return;
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => push(listId), SYNC_DEBOUNCE_MS);
+        });
+
+        return () => {
+            if (timer) clearTimeout(timer);
+            stopWatching();
+        };
+    }
+
+    /**
+     * Join a list shared with you, adding your own items to it
+     */
+    static async joinSharedList(list: SharedShopListDoc, items: ShopItem[]): Promise<ShopItem[]> {
+        const user = this.ensureAuthenticated();
+        const db = await this.getFirestore();
+
+        if (!list.memberNames[user.uid] && user.displayName) {
+            await updateDoc(doc(db, SHARED_SHOP_LISTS_COLLECTION, list.id), {
+                [`memberNames.${user.uid}`]: user.displayName,
+            });
+        }
+        return this.syncItems(list.id, items);
+    }
+
+    /**
+     * Stop sharing a list. The last member to leave deletes it.
+     */
+    static async leaveSharedList(listId: string): Promise<void> {
+        const user = this.ensureAuthenticated();
+        const db = await this.getFirestore();
+        const listRef = doc(db, SHARED_SHOP_LISTS_COLLECTION, listId);
+
+        const lists = await this.getSharedLists();
+        const list = lists.find(l => l.id === listId);
+        if (!list) {
+            return;
+        }
+
+        if (list.memberIds.length <= 1) {
+            await deleteDoc(listRef);
+        } else {
+            await updateDoc(listRef, {
+                memberIds: arrayRemove(user.uid),
+                [`memberNames.${user.uid}`]: deleteField(),
+            });
+        }
+
+        console.log(`✅ Left shared shopping list ${listId}`);
+    }
+}
+
+export default SharedShopListService;
@@ -0,0 +1,176 @@
+import { TodoData, TodoItem } from '../types/sparkData';
+import { NotificationService } from '../utils/notifications';
+import { hashString } from '../utils/jsonSchema';
+import { toLocalDateString } from '../utils/dateUtils';
+import { useSparkStore, readSparkData, watchSparkData } from '../store';
+
+// Identifiers carry the fire time and a content hash, so syncing only touches
+// notifications whose todo changed: e.g. "todo-reminder-12-1750000000000-1a2b3c4d"
+const REMINDER_PREFIX = 'todo-reminder-';
+const DIGEST_PREFIX = 'todo-digest-';
+const TODO_PREFIX = 'todo-';
+
+// Digests are planned a week ahead so they keep coming if the app isn't opened
+const DIGEST_DAYS_AHEAD = 7;
+const DIGEST_PREVIEW_COUNT = 3;
+
+// Todo data writes within this window sync once
+const SYNC_DEBOUNCE_MS = 1000;
+
+// Syncs run one at a time so overlapping calls can't double-schedule
+let syncQueue: Promise<void> = Promise.resolve();
+
+export interface PlannedTodoNotification {
+  identifier: string;
+  title: string;
+  body: string;
+  fireAt: Date;
+  todoId?: number; // Tapping opens this todo; digests just open the list
+}
+
+/**
+ * Local Date for a YYYY-MM-DD day at an HH:MM time
+ */
+const atTime = (dateString: string, time: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+const isValidTime = (time?: string | null): time is string =>
+  !!time && /^([01]?\d|2[0-3]):[0-5]\d$/.test(time);
+
+const planReminder = (todo: TodoItem, now: Date): PlannedTodoNotification | null => {
+  if (todo.completed || !isValidTime(todo.reminderTime)) return null;
+
+  const fireAt = atTime(todo.dueDate, todo.reminderTime);
+  if (fireAt <= now) return null;
+
+  const body = todo.displayText || todo.text;
+  return {
+    identifier: `${REMINDER_PREFIX}${todo.id}-${fireAt.getTime()}-${hashString(body)}`,
+    title: 'Todo Reminder',
+    body,
+    fireAt,
+    todoId: todo.id,
+  };
+};
+
+const planDigest = (todos: TodoItem[], day: string, time: string, now: Date): PlannedTodoNotification | null => {
+  const fireAt = atTime(day, time);
+  if (fireAt <= now) return null;
+
+  // Everything still open by that morning, assuming nothing else gets done
+  const due = todos.filter(todo => !todo.completed && todo.dueDate <= day);
+  if (due.length === 0) return null;
+
+  const overdue = due.filter(todo => todo.dueDate < day).length;
+  const dueToday = due.length - overdue;
+  const summary = [
+    dueToday > 0 && `${dueToday} due today`,
+    overdue > 0 && `${overdue} overdue`,
+  ].filter(Boolean).join(', ');
+  const names = due.slice(0, DIGEST_PREVIEW_COUNT).map(todo => todo.displayText || todo.text);
+  const more = due.length > DIGEST_PREVIEW_COUNT ? `, +${due.length - DIGEST_PREVIEW_COUNT} more` : '';
+  const body = `${summary}: ${names.join(', ')}${more}`;
+
+  return {
+    identifier: `${DIGEST_PREFIX}${fireAt.getTime()}-${hashString(body)}`,
+    title: 'Your Todos Today',
+    body,
+    fireAt,
+  };
+};
+
+/**
+ * Work out which todo notifications should be pending right now
+ * @param digestTime - HH:MM for the morning digest, or null/undefined when it's off
+ */
+const planNotifications = (
+  todos: TodoItem[],
+  digestTime?: string | null,
+  now: Date = new Date()
+): PlannedTodoNotification[] => {
+  const planned = todos
+    .map(todo => planReminder(todo, now))
+    .filter((notification): notification is PlannedTodoNotification => notification !== null);
+
+  if (isValidTime(digestTime)) {
+    for (let offset = 0; offset < DIGEST_DAYS_AHEAD; offset++) {
+      const day = toLocalDateString(new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset));
+      const digest = planDigest(todos, day, digestTime, now);
+      if (digest) planned.push(digest);
+    }
+  }
+
+  return planned;
+};
+
+const syncNow = async (todos: TodoItem[], digestTime?: string | null): Promise<void> => {
+  const now = new Date();
+  const planned = planNotifications(todos, digestTime, now);
+  const plannedIds = new Set(planned.map(notification => notification.identifier));
+  const scheduledIds = await NotificationService.getScheduledNotificationIds(TODO_PREFIX);
+
+  for (const identifier of scheduledIds) {
+    if (!plannedIds.has(identifier)) {
+      await NotificationService.cancelNotification(identifier);
+    }
+  }
+
+  for (const notification of planned) {
+    if (scheduledIds.includes(notification.identifier)) continue;
+
+    await NotificationService.scheduleNotification(
+      notification.title,
+      notification.body,
+      Math.floor((notification.fireAt.getTime() - now.getTime()) / 1000),
+      'todo',
+      notification.identifier,
+      '📝',
+      notification.todoId !== undefined ? { itemType: 'todo', itemId: String(notification.todoId) } : undefined
+    );
+  }
+};
+
+export const TodoReminderService = {
+  planNotifications,
+
+  /**
+   * Bring scheduled notifications in line with the todos: schedules new and
+   * edited reminders, and cancels ones for completed, deleted or moved todos
+   */
+  syncNotifications: (todos: TodoItem[], digestTime?: string | null): Promise<void> => {
+    syncQueue = syncQueue
+      .then(() => syncNow(todos, digestTime))
+      .catch(error => console.error('Error syncing todo notifications:', error));
+    return syncQueue;
+  },
+
+  /**
+   * Re-sync whenever the todo data is written, so todos added by voice or
+   * promoted from Ideas get reminders without the Todo spark being opened.
+   * Debounced so typing or a burst of toggles syncs once.
+   * @returns A function that stops watching
+   */
+  watchTodos: (): (() => void) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleSync = (data: Partial<TodoData>) => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        TodoReminderService.syncNotifications(data.todos || [], data.digestTime);
+      }, SYNC_DEBOUNCE_MS);
+    };
+
+    // Before hydration the store is empty; hydrating counts as a write
+    if (useSparkStore.persist.hasHydrated()) {
+      scheduleSync(readSparkData('todo'));
+    }
+    const stopWatching = watchSparkData('todo', scheduleSync);
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      stopWatching();
+    };
+  },
+};
@@ -0,0 +1,176 @@
+import { BackupService, BackupFileSystem, BackupState } from '../BackupService';
+import { registerSparkSchema } from '../../store/sparkMigrations';
+
+jest.mock('expo-file-system/legacy', () => ({ documentDirectory: 'file:///docs/' }));
+
+const createFakeFileSystem = (documentDirectory: string, files: Record<string, string> = {}) => {
+    const fs: BackupFileSystem & { files: Record<string, string> } = {
+        files,
+        documentDirectory,
+        getInfoAsync: async (uri) => ({ exists: uri in files }),
+        readAsStringAsync: async (uri) => files[uri],
+        writeAsStringAsync: async (uri, contents) => { files[uri] = contents; },
+        makeDirectoryAsync: async () => {},
+    };
+    return fs;
+};
+
+const createState = (overrides: Partial<BackupState> = {}): BackupState => ({
+    sparkData: {},
+    sparkDataVersions: {},
+    sparkProgress: {},
+    userSparkIds: [],
+    favoriteSparkIds: [],
+    preferences: {},
+    settings: {},
+    ...overrides,
+});
+
+describe('BackupService', () => {
+    const oldPhone = 'file:///old/Documents/';
+    const newPhone = 'file:///new/Documents/';
+
+    const phoneState = createState({
+        sparkData: {
+            'food-cam': { photos: [{ id: '1', uri: 'foodcam/1.jpg' }] },
+            'trip-story': { trips: [{ id: 't1', photos: [{ id: 'p1', uri: `${oldPhone}trip_t1_p1.jpg` }] }] },
+            todo: { todos: [{ id: 'a', text: 'Buy milk' }] },
+        },
+        sparkDataVersions: { 'golf-brain': 1 },
+        userSparkIds: ['food-cam', 'trip-story', 'todo'],
+        favoriteSparkIds: ['todo'],
+        settings: { darkMode: true },
+    });
+
+    const phoneFiles = () => ({
+        [`${oldPhone}foodcam/1.jpg`]: 'Zm9vZA==',
+        [`${oldPhone}trip_t1_p1.jpg`]: 'dHJpcA==',
+    });
+
+    describe('createBackup', () => {
+        it('bundles referenced media files', async () => {
+            const backup = await BackupService.createBackup(phoneState, createFakeFileSystem(oldPhone, phoneFiles()));
+            expect(backup.media).toEqual(expect.arrayContaining([
+                { path: 'foodcam/1.jpg', data: 'Zm9vZA==' },
+                { path: 'trip_t1_p1.jpg', data: 'dHJpcA==' },
+            ]));
+            expect(backup.media).toHaveLength(2);
+        });
+
+        it('skips media files that no longer exist', async () => {
+            const backup = await BackupService.createBackup(phoneState, createFakeFileSystem(oldPhone, {}));
+            expect(backup.media).toHaveLength(0);
+        });
+
+        it('does not store device specific paths', async () => {
+            const backup = await BackupService.createBackup(phoneState, createFakeFileSystem(oldPhone, phoneFiles()));
+            expect(JSON.stringify(backup)).not.toContain(oldPhone);
+        });
+    });
+
+    describe('parseBackup', () => {
+        it('rejects files that are not backups', () => {
+            expect(() => BackupService.parseBackup('{"hello": 1}')).toThrow('File is not a Sparks backup');
+            expect(() => BackupService.parseBackup('not json')).toThrow('Backup file is not valid JSON');
+        });
+
+        it('round trips a created backup', async () => {
+            const backup = await BackupService.createBackup(phoneState, createFakeFileSystem(oldPhone, phoneFiles()));
+            expect(BackupService.parseBackup(JSON.stringify(backup))).toEqual(backup);
+        });
+    });
+
+    describe('restoreBackup', () => {
+        it('restores data and media onto an empty device', async () => {
+            const backup = await BackupService.createBackup(phoneState, createFakeFileSystem(oldPhone, phoneFiles()));
+            const fs = createFakeFileSystem(newPhone);
+
+            const result = await BackupService.restoreBackup(backup, createState(), 'replace', fs);
+
+            expect(result.state.sparkData['trip-story'].trips[0].photos[0].uri).toBe(`${newPhone}trip_t1_p1.jpg`);
+            expect(result.state.sparkData['food-cam'].photos[0].uri).toBe('foodcam/1.jpg');
+            expect(result.state.userSparkIds).toEqual(['food-cam', 'trip-story', 'todo']);
+            expect(result.state.settings).toEqual({ darkMode: true });
+            expect(fs.files[`${newPhone}foodcam/1.jpg`]).toBe('Zm9vZA==');
+            expect(result.restoredMediaCount).toBe(2);
+        });
+
+        it('keeps existing spark data when asked to', async () => {
+            const backup = await BackupService.createBackup(phoneState, createFakeFileSystem(oldPhone, phoneFiles()));
+            const current = createState({
+                sparkData: { todo: { todos: [{ id: 'b', text: 'Walk dog' }] } },
+                userSparkIds: ['todo', 'weight-tracker'],
+                settings: { darkMode: false },
+            });
+
+            expect(BackupService.getConflicts(backup, current)).toEqual(['todo']);
+
+            const result = await BackupService.restoreBackup(backup, current, 'keep-existing', createFakeFileSystem(newPhone));
+
+            expect(result.state.sparkData.todo.todos[0].text).toBe('Walk dog');
+            expect(result.state.sparkData['food-cam']).toBeDefined();
+            expect(result.skippedSparkIds).toEqual(['todo']);
+            expect(result.state.userSparkIds).toEqual(['todo', 'weight-tracker', 'food-cam', 'trip-story']);
+            expect(result.state.settings).toEqual({ darkMode: false });
+        });
+
+        it('does not overwrite existing media when keeping existing data', async () => {
+            const backup = await BackupService.createBackup(phoneState, createFakeFileSystem(oldPhone, phoneFiles()));
+            const fs = createFakeFileSystem(newPhone, { [`${newPhone}foodcam/1.jpg`]: 'bG9jYWw=' });
+
+            const result = await BackupService.restoreBackup(backup, createState(), 'keep-existing', fs);
+
+            expect(fs.files[`${newPhone}foodcam/1.jpg`]).toBe('bG9jYWw=');
+            expect(result.skippedMediaCount).toBe(1);
+        });
+
+        it('migrates data from an older backup to the current schema', async () => {
+            registerSparkSchema('backup-test', {
+                version: 2,
+                migrations: [{ version: 2, migrate: data => ({ items: data.items.map((text: string) => ({ text })) }) }],
+            });
+            registerSparkSchema('backup-broken', {
+                version: 1,
+                migrations: [{ version: 1, migrate: () => { throw new Error('bad data'); } }],
+            });
+            const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+            const backup = await BackupService.createBackup(createState({
+                sparkData: { 'backup-test': { items: ['milk'] }, 'backup-broken': { items: [] } },
+                sparkDataVersions: { 'backup-test': 1 },
+            }), createFakeFileSystem(oldPhone));
+
+            const result = await BackupService.restoreBackup(backup, createState(), 'replace', createFakeFileSystem(newPhone));
+
+            expect(result.state.sparkData['backup-test']).toEqual({ items: [{ text: 'milk' }] });
+            expect(result.state.sparkDataVersions['backup-test']).toBe(2);
+            expect(result.state.sparkData['backup-broken']).toEqual({ items: [] });
+            expect(result.state.sparkDataVersions['backup-broken']).toBe(0);
+            expect(result.sparkDataBackups['backup-broken']).toMatchObject({ version: 0, error: 'bad data' });
+            error.mockRestore();
+        });
+
+        it('refuses media paths that point outside the documents folder', async () => {
+            const backup = BackupService.parseBackup(JSON.stringify({
+                format: 'sparks-backup',
+                version: 1,
+                sparkData: {},
+                media: [
+                    { path: '../../Library/Preferences/evil.plist', data: 'ZXZpbA==' },
+                    { path: 'foodcam/../../evil.jpg', data: 'ZXZpbA==' },
+                    { path: '/etc/hosts', data: 'ZXZpbA==' },
+                    { path: 'file:///etc/hosts', data: 'ZXZpbA==' },
+                    { path: './foodcam/2.jpg', data: 'Zm9vZA==' },
+                ],
+            }));
+            const fs = createFakeFileSystem(newPhone);
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+            const result = await BackupService.restoreBackup(backup, createState(), 'replace', fs);
+
+            expect(Object.keys(fs.files)).toEqual([`${newPhone}foodcam/2.jpg`]);
+            expect(result.restoredMediaCount).toBe(1);
+            expect(result.skippedMediaCount).toBe(4);
+            warn.mockRestore();
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import { ComingUpReminderService, describeReminderDays } from '../ComingUpReminderService';
+import { NotificationService } from '../../utils/notifications';
+import { ComingUpEvent } from '../../types/sparkData';
+import { useSparkStore } from '../../store';
+
+jest.mock('../../utils/notifications', () => ({
+    NotificationService: {
+        getScheduledNotificationIds: jest.fn(),
+        cancelNotification: jest.fn(),
+        scheduleNotification: jest.fn(),
+    },
+}));
+
+const mockNotifications = NotificationService as jest.Mocked<typeof NotificationService>;
+
+const event = (id: string, overrides: Partial<ComingUpEvent> = {}): ComingUpEvent => ({
+    id,
+    title: `Event ${id}`,
+    date: '2025-06-20',
+    type: 'one-time',
+    category: 'other',
+    ...overrides,
+});
+
+describe('ComingUpReminderService', () => {
+    const now = new Date(2025, 5, 15, 10, 0); // June 15, 2025 10:00
+
+    describe('planNotifications', () => {
+        it('reminds the day before and the day of by default', () => {
+            const planned = ComingUpReminderService.planNotifications([event('1')], now);
+
+            expect(planned.map(reminder => reminder.fireAt)).toEqual([
+                new Date(2025, 5, 19, 8, 0),
+                new Date(2025, 5, 20, 8, 0),
+            ]);
+            expect(planned[0]).toMatchObject({ title: 'Event 1', body: 'Tomorrow · Other', eventId: '1', icon: '📅' });
+            expect(planned[1].body).toBe('Today · Other');
+        });
+
+        it('uses the lead times set on the event and skips past ones', () => {
+            const planned = ComingUpReminderService.planNotifications([
+                event('1', { reminderDays: [7, 1] }),
+            ], now);
+
+            // A week before the 20th has already passed
+            expect(planned).toHaveLength(1);
+            expect(planned[0].body).toBe('Tomorrow · Other');
+        });
+
+        it('plans the following year for annual events', () => {
+            const planned = ComingUpReminderService.planNotifications([
+                event('1', { date: '1990-06-15', type: 'annual', category: 'birthday', reminderDays: [7] }),
+            ], now);
+
+            expect(planned).toHaveLength(1);
+            expect(planned[0]).toMatchObject({ body: 'In 1 week · Birthday', icon: '🎂', fireAt: new Date(2026, 5, 8, 8, 0) });
+        });
+
+        it('skips past one-time events and events without reminders', () => {
+            expect(ComingUpReminderService.planNotifications([
+                event('1', { date: '2025-01-01' }),
+                event('2', { reminderDays: [] }),
+            ], now)).toEqual([]);
+        });
+
+        it('changes the identifier when the event is renamed', () => {
+            const [before] = ComingUpReminderService.planNotifications([event('1')], now);
+            const [after] = ComingUpReminderService.planNotifications([event('1', { title: 'Renamed' })], now);
+            expect(after.identifier).not.toBe(before.identifier);
+        });
+    });
+
+    describe('describeReminderDays', () => {
+        it('labels lead times', () => {
+            expect([0, 1, 2, 7, 14, 30].map(describeReminderDays)).toEqual([
+                'Day of', '1 day before', '2 days before', '1 week before', '2 weeks before', '30 days before',
+            ]);
+        });
+    });
+
+    describe('syncNotifications', () => {
+        beforeEach(() => {
+            jest.clearAllMocks();
+        });
+
+        it('cancels stale and legacy reminders and schedules missing ones', async () => {
+            const events = [event('1', { date: '2999-01-01', reminderDays: [0] })];
+            const [planned] = ComingUpReminderService.planNotifications(events);
+            mockNotifications.getScheduledNotificationIds.mockImplementation(async (prefix?: string) =>
+                prefix === 'event-reminder-' ? ['event-reminder-2-0-abc'] : ['activity-event-1-before']
+            );
+
+            await ComingUpReminderService.syncNotifications(events);
+
+            expect(mockNotifications.cancelNotification).toHaveBeenCalledWith('event-reminder-2-0-abc');
+            expect(mockNotifications.cancelNotification).toHaveBeenCalledWith('activity-event-1-before');
+            expect(mockNotifications.scheduleNotification).toHaveBeenCalledWith(
+                'Event 1',
+                'Today · Other',
+                expect.any(Number),
+                'coming-up',
+                planned.identifier,
+                '📅',
+                { itemType: 'event', itemId: '1' }
+            );
+        });
+
+        it('leaves unchanged reminders alone', async () => {
+            const events = [event('1', { date: '2999-01-01', reminderDays: [0] })];
+            const [planned] = ComingUpReminderService.planNotifications(events);
+            mockNotifications.getScheduledNotificationIds.mockImplementation(async (prefix?: string) =>
+                prefix === 'event-reminder-' ? [planned.identifier] : []
+            );
+
+            await ComingUpReminderService.syncNotifications(events);
+
+            expect(mockNotifications.cancelNotification).not.toHaveBeenCalled();
+            expect(mockNotifications.scheduleNotification).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('watchEvents', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('syncs once after a burst of event data writes from anywhere', () => {
+            const sync = jest.spyOn(ComingUpReminderService, 'syncNotifications').mockResolvedValue();
+            const stopWatching = ComingUpReminderService.watchEvents();
+            jest.runOnlyPendingTimers();
+            sync.mockClear();
+
+            useSparkStore.getState().setSparkData('coming-up', { events: [event('1')] });
+            useSparkStore.getState().setSparkData('coming-up', { events: [event('1'), event('2')] });
+            useSparkStore.getState().setSparkData('todo', { todos: [] });
+            expect(sync).not.toHaveBeenCalled();
+
+            jest.runOnlyPendingTimers();
+            expect(sync).toHaveBeenCalledTimes(1);
+            expect(sync).toHaveBeenCalledWith([event('1'), event('2')]);
+
+            stopWatching();
+            useSparkStore.getState().setSparkData('coming-up', { events: [] });
+            jest.runOnlyPendingTimers();
+            expect(sync).toHaveBeenCalledTimes(1);
+            sync.mockRestore();
+        });
+    });
+});
@@ -0,0 +1,254 @@
+import { CommandExecutor } from '../CommandExecutor';
+import { CommandIntentRegistry } from '../CommandIntentRegistry';
+import { ParsedCommand } from '../../types/commands';
+import { ShopItem } from '../../types/sparkData';
+import { toLocalDateString } from '../../utils/dateUtils';
+import { todoCommandIntents } from '../../sparks/todoCommands';
+import { weightTrackerCommandIntents } from '../../sparks/weightTrackerCommands';
+import { toviewCommandIntents } from '../../sparks/toviewCommands';
+import { packingListCommandIntents } from '../../sparks/packingListCommands';
+import { comingUpCommandIntents } from '../../sparks/comingUpCommands';
+import { shopCommandIntents } from '../../sparks/shopCommands';
+import { ideasCommandIntents } from '../../sparks/ideasCommands';
+import { foodCamCommandIntents } from '../../sparks/foodCamCommands';
+import { golfBrainCommandIntents } from '../../sparks/golfBrainCommands';
+
+const mockSparkData: Record<string, any> = {};
+
+jest.mock('../../store', () => ({
+    readSparkData: (sparkId: string) => mockSparkData[sparkId] || {},
+    writeSparkData: (sparkId: string, data: any) => {
+        mockSparkData[sparkId] = { ...(mockSparkData[sparkId] || {}), ...data };
+    },
+    snapshotSparkData: (sparkIds: string[]) =>
+        Object.fromEntries(sparkIds.map(sparkId => [sparkId, mockSparkData[sparkId]])),
+    restoreSparkDataSnapshot: (snapshot: Record<string, any>) => {
+        Object.entries(snapshot).forEach(([sparkId, data]) => {
+            if (data === undefined) {
+                delete mockSparkData[sparkId];
+            } else {
+                mockSparkData[sparkId] = data;
+            }
+        });
+    },
+}));
+
+// Each spark registers its intents when it loads
+[
+    ...todoCommandIntents,
+    ...weightTrackerCommandIntents,
+    ...toviewCommandIntents,
+    ...packingListCommandIntents,
+    ...comingUpCommandIntents,
+    ...shopCommandIntents,
+    ...ideasCommandIntents,
+    ...foodCamCommandIntents,
+    ...golfBrainCommandIntents,
+].forEach(CommandIntentRegistry.register);
+
+const shopItem = (id: string, name: string, checked = false): ShopItem => ({
+    id, name, checked, updatedAt: 1, checkedAt: 1,
+});
+
+const command = (targetSpark: string, action: string, params: Record<string, any>): ParsedCommand => ({
+    targetSpark: targetSpark as ParsedCommand['targetSpark'],
+    action,
+    params,
+    confidence: 0.9,
+    originalText: '',
+});
+
+describe('CommandExecutor', () => {
+    beforeEach(() => {
+        Object.keys(mockSparkData).forEach(key => delete mockSparkData[key]);
+    });
+
+    it('adds a todo', async () => {
+        const result = await CommandExecutor.execute(command('todo', 'create', { text: 'Buy milk' }));
+        expect(result.success).toBe(true);
+        expect(mockSparkData.todo.todos).toHaveLength(1);
+        expect(mockSparkData.todo.todos[0]).toMatchObject({ id: 1, text: 'Buy milk', completed: false });
+    });
+
+    it('adds a repeating todo due on its first occurrence', async () => {
+        await CommandExecutor.execute(command('todo', 'create', { text: 'Water plants', repeat: '3 days after completion' }));
+        expect(mockSparkData.todo.todos[0]).toMatchObject({
+            text: 'Water plants 3 days after completion',
+            displayText: 'Water plants',
+            repeat: { frequency: 'after-completion', interval: 3 },
+        });
+    });
+
+    it('adds a todo with priority, subtasks and a natural due date', async () => {
+        await CommandExecutor.execute(command('todo', 'create', {
+            text: 'Plan party', priority: 'high', subtasks: ['Invites', 'Cake'], dueDate: 'in 3 days',
+        }));
+        const expected = new Date();
+        expected.setDate(expected.getDate() + 3);
+        expect(mockSparkData.todo.todos[0]).toMatchObject({
+            priority: 'high',
+            subtasks: [{ id: 1, text: 'Invites', completed: false }, { id: 2, text: 'Cake', completed: false }],
+            dueDate: toLocalDateString(expected),
+        });
+    });
+
+    it('coerces numeric params', async () => {
+        await CommandExecutor.execute(command('weight-tracker', 'add', { weight: '80', unit: 'kg' }));
+        expect(mockSparkData['weight-tracker'].entries[0].weight).toBe(80);
+    });
+
+    it('stores weights in kilograms', async () => {
+        await CommandExecutor.execute(command('weight-tracker', 'add', { weight: 182.4, unit: 'lbs' }));
+        expect(mockSparkData['weight-tracker'].entries[0].weight).toBeCloseTo(82.735, 3);
+    });
+
+    it('rejects missing required params', async () => {
+        const result = await CommandExecutor.execute(command('todo', 'create', {}));
+        expect(result).toEqual({ success: false, message: 'Missing text for Todo List.' });
+    });
+
+    it('drops optional params outside their options', async () => {
+        await CommandExecutor.execute(command('weight-tracker', 'add', { weight: 80, unit: 'stone' }));
+        expect(mockSparkData['weight-tracker'].unit).toBeUndefined();
+    });
+
+    it('rejects actions a spark does not declare', async () => {
+        const result = await CommandExecutor.execute(command('todo', 'delete', { text: 'x' }));
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('"create"');
+    });
+
+    it('saves ideas with spoken and separate tags as hashtags', async () => {
+        await CommandExecutor.execute(command('ideas', 'add', { content: 'Grow basil hashtag garden', tags: ['cooking', 'garden'] }));
+        expect(mockSparkData.ideas.ideas[0]).toMatchObject({ content: 'Grow basil #garden #cooking' });
+    });
+
+    it('reports sparks without intents as unsupported', async () => {
+        const result = await CommandExecutor.execute(command('spinner', 'spin', {}));
+        expect(result.message).toBe("Spark 'spinner' not supported yet.");
+    });
+
+    it('adds shopping list items', async () => {
+        mockSparkData.shop = { items: [shopItem('1', 'Bread', true)] };
+        await CommandExecutor.execute(command('shop', 'add', { items: ['Milk', '2 Eggs'] }));
+        expect(mockSparkData.shop.items).toHaveLength(3);
+        expect(mockSparkData.shop.items[0]).toEqual(shopItem('1', 'Bread', true));
+        expect(mockSparkData.shop.items[1]).toMatchObject({ name: 'Milk', aisle: 'dairy', checked: false });
+        expect(mockSparkData.shop.items[2]).toMatchObject({ name: 'Eggs', quantity: '2', checked: false });
+    });
+
+    it('unchecks shopping list items that are already on the list', async () => {
+        mockSparkData.shop = { items: [shopItem('1', 'Milk', true)] };
+        await CommandExecutor.execute(command('shop', 'add', { items: ['milk'] }));
+        expect(mockSparkData.shop.items).toHaveLength(1);
+        expect(mockSparkData.shop.items[0]).toMatchObject({ id: '1', checked: false });
+    });
+
+    it('adds packing items to the trip list being shown', async () => {
+        const tripList = { id: 'maui', name: 'Maui', days: 5, items: [{ id: 1, item: 'Swimsuits', count: 2, packed: false }], createdAt: '' };
+        mockSparkData['packing-list'] = { items: [], lists: [tripList], activeListId: 'maui' };
+
+        const result = await CommandExecutor.execute(command('packing-list', 'add', { item: 'Sunscreen' }));
+
+        expect(result.message).toBe('Added to Maui packing list: 1 × Sunscreen');
+        expect(mockSparkData['packing-list'].items).toEqual([]);
+        expect(mockSparkData['packing-list'].lists[0].items[1]).toEqual({ id: 2, item: 'Sunscreen', count: 1, packed: false });
+    });
+
+    it('names the latest food cam photo', async () => {
+        mockSparkData['food-cam'] = {
+            photos: [
+                { id: 'a', uri: 'foodcam/a.jpg', timestamp: 1, date: '2025-01-01' },
+                { id: 'b', uri: 'foodcam/b.jpg', timestamp: 2, date: '2025-01-01' },
+            ],
+        };
+        await CommandExecutor.execute(command('food-cam', 'name', { name: 'Tacos' }));
+        expect(mockSparkData['food-cam'].photos.map((p: any) => p.name)).toEqual([undefined, 'Tacos']);
+    });
+
+    it('logs a golf shot on the round in progress', async () => {
+        const round = { id: 'r1', courseId: 'c1', holeScores: [], isComplete: false };
+        mockSparkData['golf-brain'] = {
+            courses: [{ id: 'c1', holes: [{ number: 3, par: 5 }] }],
+            rounds: [round],
+            currentRound: round,
+        };
+
+        await CommandExecutor.execute(command('golf-brain', 'log-shot', { holeNumber: 3, club: 'Driver', direction: 'right' }));
+
+        const holeScore = mockSparkData['golf-brain'].currentRound.holeScores[0];
+        expect(holeScore).toMatchObject({ holeNumber: 3, par: 5, totalScore: 1, netScore: -4 });
+        expect(holeScore.shots[0]).toMatchObject({ type: 'shot', club: 'Driver', direction: 'right' });
+        expect(mockSparkData['golf-brain'].rounds[0].holeScores).toHaveLength(1);
+    });
+});
+
+describe('CommandExecutor batches', () => {
+    beforeEach(() => {
+        Object.keys(mockSparkData).forEach(key => delete mockSparkData[key]);
+    });
+
+    it('runs every command and undoes them together', async () => {
+        mockSparkData.shop = { items: [shopItem('1', 'Bread')] };
+
+        const result = await CommandExecutor.executeBatch([
+            command('shop', 'add', { items: ['Milk'] }),
+            command('todo', 'create', { text: 'Call mom' }),
+        ]);
+
+        expect(result.success).toBe(true);
+        expect(result.results).toHaveLength(2);
+        expect(mockSparkData.shop.items.map((item: ShopItem) => item.name)).toEqual(['Bread', 'Milk']);
+        expect(mockSparkData.todo.todos).toHaveLength(1);
+
+        expect(CommandExecutor.undo(result)).toBe(true);
+        expect(mockSparkData.shop).toEqual({ items: [shopItem('1', 'Bread')] });
+        expect(mockSparkData.todo).toBeUndefined();
+    });
+
+    it('refuses to undo once a touched spark has changed again', async () => {
+        const result = await CommandExecutor.executeBatch([
+            command('todo', 'create', { text: 'Call mom' }),
+        ]);
+        await CommandExecutor.execute(command('todo', 'create', { text: 'Call dad' }));
+
+        expect(CommandExecutor.undo(result)).toBe(false);
+        expect(mockSparkData.todo.todos.map((todo: any) => todo.text)).toEqual(['Call mom', 'Call dad']);
+    });
+
+    it('reports failure when any command fails', async () => {
+        const result = await CommandExecutor.executeBatch([
+            command('todo', 'create', { text: 'Call mom' }),
+            command('todo', 'create', {}),
+        ]);
+        expect(result.success).toBe(false);
+        expect(result.results.map(r => r.success)).toEqual([true, false]);
+    });
+});
+
+describe('CommandIntentRegistry', () => {
+    it('describes every spark in the parser prompt', () => {
+        const prompt = CommandIntentRegistry.buildPromptSection();
+        ['todo', 'weight-tracker', 'toview', 'packing-list', 'coming-up', 'shop', 'ideas', 'food-cam', 'golf-brain']
+            .forEach(sparkId => expect(prompt).toContain(`"${sparkId}"`));
+    });
+
+    it('describes parsed commands for confirmation', () => {
+        expect(CommandIntentRegistry.describe(command('shop', 'add', { items: ['Milk', 'Eggs'] })))
+            .toBe('Shop: add Milk, Eggs');
+    });
+
+    it('includes registered intents in the prompt', () => {
+        CommandIntentRegistry.register({
+            sparkId: 'spinner',
+            sparkName: 'Spinner',
+            action: 'spin',
+            description: 'spinning the wheel',
+            keywords: ['spin'],
+            params: {},
+            examples: [],
+            handler: () => ({ success: true, message: 'Spun' }),
+        });
+        expect(CommandIntentRegistry.buildPromptSection()).toContain('"spinner" (Spinner)');
+    });
+});
@@ -0,0 +1,154 @@
+import { GeminiService, GeminiJSONError } from '../GeminiService';
+import { createMockLLMProvider } from '../MockLLMProvider';
+import { createOpenAICompatibleProvider } from '../OpenAICompatibleProvider';
+
+describe('GeminiService', () => {
+    afterEach(() => {
+        GeminiService.resetProvider();
+        GeminiService.clearJSONCache();
+    });
+
+    it('routes text generation through the current provider', async () => {
+        const mock = createMockLLMProvider([{ match: 'bingo', response: 'Apple\nBanana' }]);
+        GeminiService.setProvider(mock);
+
+        await expect(GeminiService.generateContent('Make bingo words')).resolves.toBe('Apple\nBanana');
+        expect(mock.calls).toEqual([{ prompt: 'Make bingo words', images: [] }]);
+    });
+
+    it('names the settings the current provider needs', () => {
+        expect(GeminiService.getSetupHint()).toContain('EXPO_PUBLIC_GEMINI_API_KEY');
+
+        GeminiService.setProvider(createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1', model: '' }));
+        expect(GeminiService.getSetupHint()).toContain('EXPO_PUBLIC_LLM_MODEL');
+    });
+
+    it('parses JSON responses wrapped in code fences', async () => {
+        GeminiService.setProvider(createMockLLMProvider([
+            { match: /schedule/, response: '```json\n[{"activity":"Math"}]\n```' },
+        ]));
+
+        await expect(GeminiService.generateJSON('Read this schedule', ['abc']))
+            .resolves.toEqual([{ activity: 'Math' }]);
+    });
+
+    it('passes vision input and the JSON hint to the provider', async () => {
+        const mock = createMockLLMProvider([], '{}');
+        GeminiService.setProvider(mock);
+
+        await GeminiService.generateJSON('Scan', ['abc']);
+        expect(mock.calls[0]).toMatchObject({ images: ['abc'], json: true });
+    });
+
+    it('rejects unparseable JSON', async () => {
+        GeminiService.setProvider(createMockLLMProvider([], 'not json'));
+        await expect(GeminiService.generateJSON('Anything')).rejects.toThrow('Failed to parse (JSON)');
+    });
+});
+
+describe('GeminiService.generateJSON validation', () => {
+    const schema = {
+        type: 'array' as const,
+        items: {
+            type: 'object' as const,
+            properties: { activity: { type: 'string' as const }, duration: { type: 'number' as const } },
+            required: ['activity', 'duration'],
+        },
+    };
+
+    afterEach(() => {
+        GeminiService.resetProvider();
+        GeminiService.clearJSONCache();
+    });
+
+    it('repairs trailing commas and surrounding prose without re-prompting', async () => {
+        const mock = createMockLLMProvider([], 'Here you go: [{"activity": "Math", "duration": 30,},]');
+        GeminiService.setProvider(mock);
+
+        await expect(GeminiService.generateJSON('Scan', [], { schema }))
+            .resolves.toEqual([{ activity: 'Math', duration: 30 }]);
+        expect(mock.calls).toHaveLength(1);
+    });
+
+    it('re-prompts with the validation error', async () => {
+        const responses = ['[{"activity": "Math"}]', '[{"activity": "Math", "duration": 30}]'];
+        const mock = createMockLLMProvider([{ match: 'Scan', response: () => responses.shift() as string }]);
+        GeminiService.setProvider(mock);
+
+        await expect(GeminiService.generateJSON('Scan', [], { schema }))
+            .resolves.toEqual([{ activity: 'Math', duration: 30 }]);
+        expect(mock.calls).toHaveLength(2);
+        expect(mock.calls[1].prompt).toContain('$[0].duration is required');
+    });
+
+    it('throws a GeminiJSONError after the last retry', async () => {
+        const mock = createMockLLMProvider([], '[{"activity": 5, "duration": 30}]');
+        GeminiService.setProvider(mock);
+
+        const error = await GeminiService.generateJSON<any>('Scan', [], { schema, maxRetries: 1 }).catch(e => e);
+        expect(error).toBeInstanceOf(GeminiJSONError);
+        expect(error.attempts).toBe(2);
+        expect(error.message).toContain('$[0].activity should be string but was number');
+        expect(mock.calls).toHaveLength(2);
+    });
+
+    it('reuses cached results for identical prompts', async () => {
+        const mock = createMockLLMProvider([], '{"ok": true}');
+        GeminiService.setProvider(mock);
+
+        await GeminiService.generateJSON('Same', [], { cache: true });
+        await GeminiService.generateJSON('Same', [], { cache: true });
+        await GeminiService.generateJSON('Different', [], { cache: true });
+        expect(mock.calls).toHaveLength(2);
+    });
+});
+
+describe('createOpenAICompatibleProvider', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('posts chat completions with images as data urls', async () => {
+        const fetchMock = jest.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ choices: [{ message: { content: 'Hello' } }] }),
+        });
+        global.fetch = fetchMock as any;
+
+        const provider = createOpenAICompatibleProvider({
+            baseUrl: 'http://localhost:11434/v1/',
+            model: 'llava',
+            apiKey: 'key',
+            jsonMode: true,
+        });
+        const text = await provider.generateText({ prompt: 'Describe', images: ['abc'], json: true });
+
+        expect(text).toBe('Hello');
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(init.headers.Authorization).toBe('Bearer key');
+        expect(JSON.parse(init.body)).toEqual({
+            model: 'llava',
+            messages: [{
+                role: 'user',
+                content: [
+                    { type: 'text', text: 'Describe' },
+                    { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,abc' } },
+                ],
+            }],
+            response_format: { type: 'json_object' },
+        });
+    });
+
+    it('surfaces server errors', async () => {
+        global.fetch = jest.fn().mockResolvedValue({
+            ok: false,
+            json: async () => ({ error: { message: 'model not found' } }),
+        }) as any;
+
+        const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'x' });
+        await expect(provider.generateText({ prompt: 'Hi' })).rejects.toThrow('model not found');
+    });
+});
@@ -0,0 +1,79 @@
+import { LocalCommandParser } from '../LocalCommandParser';
+
+describe('LocalCommandParser', () => {
+    const now = new Date(2025, 5, 15); // June 15, 2025
+
+    const cases: [string, string, string, Record<string, any>][] = [
+        ['add todo buy milk tomorrow', 'todo', 'create', { text: 'Buy milk', dueDate: 'tomorrow' }],
+        ['Add a todo to buy milk', 'todo', 'create', { text: 'Buy milk' }],
+        ['Remind me to call Mom tomorrow', 'todo', 'create', { text: 'Call mom', dueDate: 'tomorrow' }],
+        ['Add a todo to Work category to finish report', 'todo', 'create', { text: 'Finish report', category: 'work' }],
+        ['todo: renew passport on 2025-07-01', 'todo', 'create', { text: 'Renew passport', dueDate: '2025-07-01' }],
+        ['Remind me to call the bank next friday', 'todo', 'create', { text: 'Call the bank', dueDate: 'next friday' }],
+        ['Add a task to file taxes by end of month, high priority', 'todo', 'create', { text: 'File taxes', dueDate: 'end of month', priority: 'high' }],
+        ['Remind me to take out the trash every monday', 'todo', 'create', { text: 'Take out the trash', repeat: 'every monday' }],
+        ['weight 182.4 lbs', 'weight-tracker', 'add', { weight: 182.4, unit: 'lbs' }],
+        ['Weight is 150 lbs', 'weight-tracker', 'add', { weight: 150, unit: 'lbs' }],
+        ['Add weight 70 kg', 'weight-tracker', 'add', { weight: 70, unit: 'kg' }],
+        ['I weighed in at 80 kilograms.', 'weight-tracker', 'add', { weight: 80, unit: 'kg' }],
+        ['watch Dune on Max with Sam', 'toview', 'add', { title: 'Dune', type: 'Movie', provider: 'HBO Max', watchWith: ['Sam'] }],
+        ['Watch a show called Slow Horses on Apple TV', 'toview', 'add', { title: 'Slow Horses', type: 'Show', provider: 'Apple TV+' }],
+        ['Add a toview for a movie called Dune to watch with Tom', 'toview', 'add', { title: 'Dune', type: 'Movie', watchWith: ['Tom'] }],
+        ['Read a book called The Hobbit', 'toview', 'add', { title: 'The Hobbit', type: 'Book' }],
+        ['Add milk and eggs to the shopping list', 'shop', 'add', { items: ['Milk', 'Eggs'] }],
+        ['add bread, butter & jam to my grocery list', 'shop', 'add', { items: ['Bread', 'Butter', 'Jam'] }],
+        ['Pack 3 swimsuits', 'packing-list', 'add', { item: 'Swimsuits', count: 3 }],
+        ['add sunscreen to the packing list', 'packing-list', 'add', { item: 'Sunscreen' }],
+        ['Idea: a spark that tracks houseplant watering', 'ideas', 'add', { content: 'A spark that tracks houseplant watering' }],
+        ['Idea: a herb garden on the balcony, tagged garden and cooking', 'ideas', 'add', { content: 'A herb garden on the balcony', tags: ['garden', 'cooking'] }],
+        ["Mom's birthday is March 4th", 'coming-up', 'add', { title: "Mom's birthday", date: '2025-03-04', type: 'annual', category: 'birthday' }],
+        ['The concert is on May 2', 'coming-up', 'add', { title: 'The concert', date: '2026-05-02', type: 'one-time', category: 'other' }],
+        ['That meal was a chicken caesar salad, about 450 calories', 'food-cam', 'name', { name: 'Chicken caesar salad', calories: 450 }],
+        ['Hit driver right into the rough on hole 3', 'golf-brain', 'log-shot', { holeNumber: 3, type: 'shot', club: 'Driver', direction: 'right', lie: 'rough' }],
+        ['7 iron left and short on hole 12', 'golf-brain', 'log-shot', { holeNumber: 12, type: 'shot', club: '7-Iron', direction: 'left and short' }],
+        ['Putt from 8 feet on hole 5', 'golf-brain', 'log-shot', { holeNumber: 5, type: 'putt', puttDistance: '5-10ft' }],
+    ];
+
+    it.each(cases)('parses "%s"', (phrase, targetSpark, action, params) => {
+        const result = LocalCommandParser.parseCommand(phrase, now);
+        expect(result.targetSpark).toBe(targetSpark);
+        expect(result.action).toBe(action);
+        expect(result.params).toEqual(params);
+        expect(result.confidence).toBeGreaterThan(0);
+        expect(result.originalText).toBe(phrase);
+    });
+
+    it('returns unknown with zero confidence for unrecognized phrases', () => {
+        const result = LocalCommandParser.parseCommand('Open Spanish', now);
+        expect(result).toEqual({
+            targetSpark: 'unknown',
+            action: 'unknown',
+            params: {},
+            confidence: 0,
+            originalText: 'Open Spanish',
+        });
+    });
+
+    it('splits compound commands into one command per spark', () => {
+        const results = LocalCommandParser.parseCommands(
+            'add milk and eggs to shopping and remind me tomorrow to call mom',
+            now
+        );
+        expect(results.map(r => [r.targetSpark, r.params])).toEqual([
+            ['shop', { items: ['Milk', 'Eggs'] }],
+            ['todo', { text: 'Call mom', dueDate: 'tomorrow' }],
+        ]);
+    });
+
+    it('does not split single commands', () => {
+        expect(LocalCommandParser.parseCommands('weight 182.4 lbs', now)).toHaveLength(1);
+        expect(LocalCommandParser.parseCommands('Add milk and eggs to the shopping list', now)).toHaveLength(1);
+    });
+
+    it('is less confident about implicit todos', () => {
+        const explicit = LocalCommandParser.parseCommand('add todo buy milk', now);
+        const implicit = LocalCommandParser.parseCommand('buy milk', now);
+        expect(implicit.targetSpark).toBe('todo');
+        expect(implicit.confidence).toBeLessThan(explicit.confidence);
+    });
+});
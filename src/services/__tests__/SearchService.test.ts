@@ -0,0 +1,66 @@
+import { SearchService } from '../SearchService';
+
+describe('SearchService', () => {
+    beforeAll(() => {
+        SearchService.registerIndexer('todo', (data: any) =>
+            data.todos.map((todo: any) => ({ itemType: 'todo', itemId: todo.id, title: todo.text }))
+        );
+        SearchService.registerIndexer('recaipe', (data: any) =>
+            data.recipes.map((recipe: any) => ({
+                itemType: 'recipe',
+                itemId: recipe.id,
+                title: recipe.title,
+                body: recipe.ingredients,
+            }))
+        );
+    });
+
+    const sparkData = {
+        todo: { todos: [{ id: 1, text: 'Call the dentist' }, { id: 2, text: 'Buy chickpeas' }] },
+        recaipe: {
+            recipes: [
+                { id: 'r1', title: 'Crème brûlée', ingredients: 'Cream\nSugar' },
+                { id: 'r2', title: 'Hummus', ingredients: '1 can chickpeas\nTahini' },
+            ],
+        },
+        unindexed: { notes: ['dentist'] },
+    };
+
+    it('finds items across sparks with string item ids', () => {
+        const results = SearchService.search('dentist', sparkData);
+        expect(results).toEqual([
+            expect.objectContaining({ sparkId: 'todo', itemType: 'todo', itemId: '1', title: 'Call the dentist' }),
+        ]);
+    });
+
+    it('ranks title matches above body matches', () => {
+        const results = SearchService.search('chickpeas', sparkData);
+        expect(results.map(r => r.itemId)).toEqual(['2', 'r2']);
+    });
+
+    it('requires every word to match and allows prefixes', () => {
+        expect(SearchService.search('chick tahini', sparkData).map(r => r.itemId)).toEqual(['r2']);
+        expect(SearchService.search('chickpeas dentist', sparkData)).toEqual([]);
+    });
+
+    it('ignores accents and case', () => {
+        expect(SearchService.search('CREME BRULEE', sparkData).map(r => r.itemId)).toEqual(['r1']);
+    });
+
+    it('limits results to the given sparks', () => {
+        expect(SearchService.search('chickpeas', sparkData, { sparkIds: ['recaipe'] }).map(r => r.sparkId))
+            .toEqual(['recaipe']);
+    });
+
+    it('reindexes when a spark data object is replaced', () => {
+        const first = { todos: [{ id: 1, text: 'Old task' }] };
+        expect(SearchService.search('task', { todo: first })).toHaveLength(1);
+
+        const second = { todos: [{ id: 1, text: 'Renamed chore' }] };
+        expect(SearchService.search('task', { todo: second })).toHaveLength(0);
+    });
+
+    it('returns nothing for an empty query', () => {
+        expect(SearchService.search('  ', sparkData)).toEqual([]);
+    });
+});
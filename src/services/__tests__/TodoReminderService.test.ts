@@ -0,0 +1,137 @@
+import { TodoReminderService } from '../TodoReminderService';
+import { NotificationService } from '../../utils/notifications';
+import { TodoItem } from '../../types/sparkData';
+import { useSparkStore } from '../../store';
+
+jest.mock('../../utils/notifications', () => ({
+    NotificationService: {
+        getScheduledNotificationIds: jest.fn(),
+        cancelNotification: jest.fn(),
+        scheduleNotification: jest.fn(),
+    },
+}));
+
+const mockNotifications = NotificationService as jest.Mocked<typeof NotificationService>;
+
+const todo = (id: number, overrides: Partial<TodoItem> = {}): TodoItem => ({
+    id,
+    text: `Task ${id}`,
+    displayText: `Task ${id}`,
+    completed: false,
+    dueDate: '2025-06-15',
+    createdDate: '2025-06-01T00:00:00.000Z',
+    ...overrides,
+});
+
+describe('TodoReminderService', () => {
+    const now = new Date(2025, 5, 15, 10, 0); // June 15, 2025 10:00
+
+    describe('planNotifications', () => {
+        it('plans reminders for open todos with a future reminder time', () => {
+            const planned = TodoReminderService.planNotifications([
+                todo(1, { reminderTime: '17:30' }),
+                todo(2, { reminderTime: '09:00' }), // Already past
+                todo(3, { reminderTime: '17:30', completed: true }),
+                todo(4),
+            ], null, now);
+
+            expect(planned).toHaveLength(1);
+            expect(planned[0]).toMatchObject({ body: 'Task 1', todoId: 1, fireAt: new Date(2025, 5, 15, 17, 30) });
+            expect(planned[0].identifier).toMatch(/^todo-reminder-1-/);
+        });
+
+        it('changes the identifier when the reminder moves', () => {
+            const [before] = TodoReminderService.planNotifications([todo(1, { reminderTime: '17:30' })], null, now);
+            const [after] = TodoReminderService.planNotifications([todo(1, { reminderTime: '18:00' })], null, now);
+            expect(after.identifier).not.toBe(before.identifier);
+        });
+
+        it('plans morning digests of overdue and due todos', () => {
+            const planned = TodoReminderService.planNotifications([
+                todo(1, { dueDate: '2025-06-14' }),
+                todo(2, { dueDate: '2025-06-16' }),
+            ], '08:00', now);
+
+            // Today's 8:00 has passed; tomorrow's lists both
+            expect(planned[0]).toMatchObject({
+                title: 'Your Todos Today',
+                body: '1 due today, 1 overdue: Task 1, Task 2',
+                fireAt: new Date(2025, 5, 16, 8, 0),
+            });
+            expect(planned).toHaveLength(6); // The rest of the week ahead
+        });
+
+        it('skips digests when nothing is due', () => {
+            expect(TodoReminderService.planNotifications([todo(1, { completed: true })], '08:00', now)).toEqual([]);
+        });
+    });
+
+    describe('syncNotifications', () => {
+        beforeEach(() => {
+            jest.clearAllMocks();
+        });
+
+        it('cancels stale notifications and schedules missing ones', async () => {
+            const todos = [todo(1, { reminderTime: '23:59', dueDate: '2999-01-01' })];
+            const [planned] = TodoReminderService.planNotifications(todos);
+            mockNotifications.getScheduledNotificationIds.mockResolvedValue(['todo-reminder-2-0-abc']);
+
+            await TodoReminderService.syncNotifications(todos);
+
+            expect(mockNotifications.cancelNotification).toHaveBeenCalledWith('todo-reminder-2-0-abc');
+            expect(mockNotifications.scheduleNotification).toHaveBeenCalledWith(
+                'Todo Reminder',
+                'Task 1',
+                expect.any(Number),
+                'todo',
+                planned.identifier,
+                '📝',
+                { itemType: 'todo', itemId: '1' }
+            );
+        });
+
+        it('leaves unchanged notifications alone', async () => {
+            const todos = [todo(1, { reminderTime: '23:59', dueDate: '2999-01-01' })];
+            const [planned] = TodoReminderService.planNotifications(todos);
+            mockNotifications.getScheduledNotificationIds.mockResolvedValue([planned.identifier]);
+
+            await TodoReminderService.syncNotifications(todos);
+
+            expect(mockNotifications.cancelNotification).not.toHaveBeenCalled();
+            expect(mockNotifications.scheduleNotification).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('watchTodos', () => {
+        beforeEach(() => {
+            jest.clearAllMocks();
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('syncs once after a burst of todo data writes from anywhere', () => {
+            const sync = jest.spyOn(TodoReminderService, 'syncNotifications').mockResolvedValue();
+            const stopWatching = TodoReminderService.watchTodos();
+            jest.runOnlyPendingTimers();
+            sync.mockClear();
+
+            useSparkStore.getState().setSparkData('todo', { todos: [todo(1)], digestTime: '08:00' });
+            useSparkStore.getState().setSparkData('todo', { todos: [todo(1), todo(2)] });
+            useSparkStore.getState().setSparkData('shop', { items: [] });
+            expect(sync).not.toHaveBeenCalled();
+
+            jest.runOnlyPendingTimers();
+            expect(sync).toHaveBeenCalledTimes(1);
+            expect(sync).toHaveBeenCalledWith([todo(1), todo(2)], '08:00');
+
+            stopWatching();
+            useSparkStore.getState().setSparkData('todo', { todos: [] });
+            jest.runOnlyPendingTimers();
+            expect(sync).toHaveBeenCalledTimes(1);
+            sync.mockRestore();
+        });
+    });
+});
@@ -205,10 +205,10 @@ Chocolate Cake
       console.error("Gemini generation error:", error);
       const errorMessage = error?.message || "Failed to generate words. Please check your internet connection and try again.";
 
-      if (errorMessage.includes("Missing EXPO_PUBLIC_GEMINI_API_KEY")) {
+      if (!GeminiService.isConfigured()) {
         Alert.alert(
           "Configuration Error",
-          "Gemini API key not configured. Please add EXPO_PUBLIC_GEMINI_API_KEY to your .env file."
+          `AI provider not configured. ${GeminiService.getSetupHint()}`
         );
       } else {
         Alert.alert("Error", errorMessage);
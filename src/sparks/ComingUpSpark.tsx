@@ -10,29 +10,93 @@ import {
     Modal,
     Platform,
     StatusBar,
-    Switch,
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useTheme } from '../contexts/ThemeContext';
-import { useSparkStore } from '../store';
+import { useSparkStore, useLinkedItem } from '../store';
+import { SearchService } from '../services/SearchService';
+import { ComingUpEvent as Event, ComingUpData } from '../types/sparkData';
 import { HapticFeedback } from '../utils/haptics';
-import { SettingsContainer, SettingsScrollView, SettingsHeader, SettingsFeedbackSection } from '../components/SettingsComponents';
-import { NotificationService } from '../utils/notifications';
-
-interface Event {
-    id: string;
-    title: string;
-    date: string; // ISO date string (YYYY-MM-DD)
-    type: 'annual' | 'one-time';
-    category: 'birthday' | 'anniversary' | 'trip' | 'work' | 'party' | 'sports' | 'other';
+import {
+    SettingsContainer,
+    SettingsScrollView,
+    SettingsHeader,
+    SettingsFeedbackSection,
+    SettingsSection,
+    SettingsButton,
+    SettingsText,
+} from '../components/SettingsComponents';
+import {
+    DEFAULT_REMINDER_DAYS,
+    REMINDER_DAY_OPTIONS,
+    describeReminderDays,
+} from '../services/ComingUpReminderService';
+import {
+    getNextEventOccurrence,
+    getEventCategoryEmoji,
+    getWeekOfMonth,
+    isInLastWeekOfMonth,
+    describeNthWeekday,
+    describeEventRecurrence,
+    getYearsLabel,
+} from '../utils/comingUpEvents';
+import { parseIcs, exportIcs, mergeImportedEvents } from '../utils/ics';
+import { toLocalDateString } from '../utils/dateUtils';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { comingUpCommandIntents } from './comingUpCommands';
+
+type IntervalUnit = NonNullable<Event['intervalUnit']>;
+
+const INTERVAL_UNITS: IntervalUnit[] = ['days', 'weeks', 'months', 'years'];
+
+interface RepeatOption {
+    label: string;
+    type: Event['type'];
+    weekOfMonth?: number;
 }
 
+/**
+ * Repeat choices for an event on a date; the nth-weekday ones depend on the date
+ */
+const getRepeatOptions = (date: Date): RepeatOption[] => {
+    const week = getWeekOfMonth(date);
+    const options: RepeatOption[] = [
+        { label: 'Never', type: 'one-time' },
+        { label: 'Weekly', type: 'weekly' },
+        { label: 'Monthly', type: 'monthly' },
+        { label: 'Yearly', type: 'annual' },
+        { label: describeNthWeekday(date, week), type: 'nth-weekday', weekOfMonth: week },
+    ];
+    if (week !== -1 && isInLastWeekOfMonth(date)) {
+        options.push({ label: describeNthWeekday(date, -1), type: 'nth-weekday', weekOfMonth: -1 });
+    }
+    options.push({ label: 'Custom', type: 'custom' });
+    return options;
+};
+
 interface ComingUpSparkProps {
     showSettings?: boolean;
     onCloseSettings?: () => void;
+    itemId?: string;
 }
 
-const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSettings }) => {
+// Search index
+SearchService.registerIndexer('coming-up', (data: ComingUpData) =>
+    (data.events || []).map(event => ({
+        itemType: 'event',
+        itemId: event.id,
+        title: event.title,
+        subtitle: `${event.date} · ${event.category}`,
+    }))
+);
+
+// Voice commands
+comingUpCommandIntents.forEach(CommandIntentRegistry.register);
+
+const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSettings, itemId }) => {
     const { colors } = useTheme();
     const { getSparkData, setSparkData } = useSparkStore();
     const [events, setEvents] = useState<Event[]>([]);
@@ -42,8 +106,12 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
     // Form state
     const [title, setTitle] = useState('');
     const [date, setDate] = useState(new Date());
-    const [isAnnual, setIsAnnual] = useState(false);
+    const [repeatType, setRepeatType] = useState<Event['type']>('one-time');
+    const [weekOfMonth, setWeekOfMonth] = useState<number | undefined>(undefined);
+    const [intervalText, setIntervalText] = useState('2');
+    const [intervalUnit, setIntervalUnit] = useState<IntervalUnit>('weeks');
     const [category, setCategory] = useState<Event['category']>('other');
+    const [reminderDays, setReminderDays] = useState<number[]>(DEFAULT_REMINDER_DAYS);
     const [showDatePicker, setShowDatePicker] = useState(false);
 
     const isInitializing = useRef(true);
@@ -66,32 +134,6 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
         }
     }, [events, setSparkData]);
 
-    const getNextOccurrence = (event: Event): Date => {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        const eventDate = new Date(event.date);
-        // Fix timezone offset issue by treating the date string as local time
-        // YYYY-MM-DD split ensures we work with local components
-        const [year, month, day] = event.date.split('-').map(Number);
-        eventDate.setFullYear(year, month - 1, day);
-        eventDate.setHours(0, 0, 0, 0);
-
-        if (event.type === 'one-time') {
-            return eventDate;
-        }
-
-        // For annual events
-        const currentYear = today.getFullYear();
-        const nextDate = new Date(currentYear, month - 1, day);
-        nextDate.setHours(0, 0, 0, 0);
-
-        if (nextDate < today) {
-            nextDate.setFullYear(currentYear + 1);
-        }
-        return nextDate;
-    };
-
     const getDaysRemaining = (targetDate: Date): number => {
         const today = new Date();
         today.setHours(0, 0, 0, 0);
@@ -123,6 +165,22 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
         return colors.textSecondary; // Gray for later
     };
 
+    // Recurrence fields for the form's repeat choice; unused fields are cleared
+    const buildRecurrence = (): Pick<Event, 'type' | 'weekOfMonth' | 'interval' | 'intervalUnit'> | null => {
+        const recurrence = { type: repeatType, weekOfMonth: undefined, interval: undefined, intervalUnit: undefined };
+        if (repeatType === 'nth-weekday') {
+            // "Last" only holds while the date stays in the last week of its month
+            const week = weekOfMonth === -1 && isInLastWeekOfMonth(date) ? -1 : getWeekOfMonth(date);
+            return { ...recurrence, weekOfMonth: week };
+        }
+        if (repeatType === 'custom') {
+            const every = parseInt(intervalText, 10);
+            if (!(every > 0)) return null;
+            return { ...recurrence, interval: every, intervalUnit };
+        }
+        return recurrence;
+    };
+
     const handleSave = () => {
         if (!title.trim()) {
             Alert.alert('Error', 'Please enter a title');
@@ -135,10 +193,17 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
         const day = String(date.getDate()).padStart(2, '0');
         const eventDate = `${year}-${month}-${day}`;
 
+        const reminders = [...reminderDays].sort((a, b) => b - a);
+        const recurrence = buildRecurrence();
+        if (!recurrence) {
+            Alert.alert('Error', 'Please enter how often the event repeats');
+            return;
+        }
+
         if (editingEvent) {
             const updatedEvents = events.map(e =>
                 e.id === editingEvent.id
-                    ? { ...e, title: title.trim(), date: eventDate, type: isAnnual ? 'annual' : 'one-time', category } as Event
+                    ? { ...e, title: title.trim(), date: eventDate, ...recurrence, category, reminderDays: reminders }
                     : e
             );
             setEvents(updatedEvents);
@@ -147,61 +212,11 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
                 id: Date.now().toString(),
                 title: title.trim(),
                 date: eventDate,
-                type: isAnnual ? 'annual' : 'one-time',
+                ...recurrence,
                 category,
+                reminderDays: reminders,
             };
             setEvents([...events, newEvent]);
-            // Schedule notifications (day before and day of)
-            const eventDateObj = new Date(newEvent.date + 'T08:00:00');
-            const dayBefore = new Date(eventDateObj);
-            dayBefore.setDate(dayBefore.getDate() - 1);
-
-            // Schedule day-before notification
-            NotificationService.scheduleActivityNotification(
-                `${newEvent.title} tomorrow`,
-                dayBefore,
-                `event-${newEvent.id}-before`,
-                `Upcoming ${newEvent.category}`,
-                'coming-up',
-                getCategoryEmoji(newEvent.category)
-            );
-
-            // Schedule day-of notification
-            NotificationService.scheduleActivityNotification(
-                newEvent.title,
-                eventDateObj,
-                `event-${newEvent.id}-day`,
-                newEvent.category.charAt(0).toUpperCase() + newEvent.category.slice(1),
-                'coming-up',
-                getCategoryEmoji(newEvent.category)
-            );
-        }
-
-        if (editingEvent) {
-            // Reschedule notifications for edited event
-            const eventDateObj = new Date(eventDate + 'T08:00:00');
-            const dayBeforeEdit = new Date(eventDateObj);
-            dayBeforeEdit.setDate(dayBeforeEdit.getDate() - 1);
-
-            // Cancel old notifications first (using identifier pattern)
-            // Then schedule new ones
-            NotificationService.scheduleActivityNotification(
-                `${title.trim()} tomorrow`,
-                dayBeforeEdit,
-                `event-${editingEvent.id}-before`,
-                `Upcoming ${category}`,
-                'coming-up',
-                getCategoryEmoji(category)
-            );
-
-            NotificationService.scheduleActivityNotification(
-                title.trim(),
-                eventDateObj,
-                `event-${editingEvent.id}-day`,
-                category.charAt(0).toUpperCase() + category.slice(1),
-                'coming-up',
-                getCategoryEmoji(category)
-            );
         }
 
         handleCloseModal();
@@ -217,9 +232,8 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
                 text: 'Delete',
                 style: 'destructive',
                 onPress: async () => {
+                    // Its reminders are cancelled by the next sync
                     setEvents(events.filter(e => e.id !== editingEvent.id));
-                    // Note: Notifications will auto-expire if time has passed
-                    // No cancel method needed since we use activity identifiers
                     handleCloseModal();
                     HapticFeedback.medium();
                 }
@@ -232,16 +246,25 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
         setEditingEvent(null);
         setTitle('');
         setDate(new Date());
-        setIsAnnual(false);
+        resetRepeat();
         setCategory('other');
+        setReminderDays(DEFAULT_REMINDER_DAYS);
+    };
+
+    const resetRepeat = () => {
+        setRepeatType('one-time');
+        setWeekOfMonth(undefined);
+        setIntervalText('2');
+        setIntervalUnit('weeks');
     };
 
     const openAddModal = () => {
         setEditingEvent(null);
         setTitle('');
         setDate(new Date());
-        setIsAnnual(false);
+        resetRepeat();
         setCategory('other');
+        setReminderDays(DEFAULT_REMINDER_DAYS);
         setShowAddModal(true);
         HapticFeedback.light();
     };
@@ -254,15 +277,84 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
         const eventDate = new Date(year, month - 1, day);
         setDate(eventDate);
 
-        setIsAnnual(event.type === 'annual');
+        setRepeatType(event.type);
+        setWeekOfMonth(event.type === 'nth-weekday' ? event.weekOfMonth ?? getWeekOfMonth(eventDate) : undefined);
+        setIntervalText(String(event.interval || 2));
+        setIntervalUnit(event.intervalUnit || 'weeks');
         setCategory(event.category);
+        setReminderDays(event.reminderDays ?? DEFAULT_REMINDER_DAYS);
         setShowAddModal(true);
         HapticFeedback.light();
     };
 
+    // Open the event a search result points at
+    useLinkedItem('coming-up', undefined, itemId, (data, id) => data.events?.find(e => e.id === id), openEditModal);
+
+    const draftRecurrence = buildRecurrence();
+
+    const toggleReminderDay = (days: number) => {
+        setReminderDays(current =>
+            current.includes(days) ? current.filter(d => d !== days) : [...current, days]
+        );
+        HapticFeedback.selection();
+    };
+
+    const handleImportIcs = async () => {
+        try {
+            const picked = await DocumentPicker.getDocumentAsync({
+                type: ['text/calendar', 'text/x-vcalendar', 'application/octet-stream'],
+                multiple: false,
+                copyToCacheDirectory: true,
+            });
+            if (picked.canceled || !picked.assets?.[0]) return;
+
+            const contents = await FileSystem.readAsStringAsync(picked.assets[0].uri, { encoding: 'utf8' });
+            const { events: imported, skipped } = parseIcs(contents);
+            if (imported.length === 0) {
+                Alert.alert('Import Failed', 'No events found in this calendar file.');
+                return;
+            }
+
+            const merged = mergeImportedEvents(events, imported);
+            setEvents(merged.events);
+            HapticFeedback.success();
+
+            const details = [
+                `${merged.added} event${merged.added === 1 ? '' : 's'} added.`,
+                merged.duplicates > 0 && `${merged.duplicates} already in Coming Up.`,
+                skipped > 0 && `${skipped} skipped: missing a title or date, already over, or repeating in a way Coming Up can't follow.`,
+            ].filter(Boolean).join('\n');
+            Alert.alert('Import Complete', details);
+        } catch (error) {
+            console.error('Error importing calendar:', error);
+            Alert.alert('Import Failed', 'Could not read that calendar file.');
+        }
+    };
+
+    const handleExportIcs = async () => {
+        if (events.length === 0) {
+            Alert.alert('Nothing to Export', 'Add an event first.');
+            return;
+        }
+
+        try {
+            const uri = `${FileSystem.cacheDirectory}coming-up-events.ics`;
+            await FileSystem.writeAsStringAsync(uri, exportIcs(events), { encoding: 'utf8' });
+
+            if (await Sharing.isAvailableAsync()) {
+                await Sharing.shareAsync(uri, { mimeType: 'text/calendar', dialogTitle: 'Export Events', UTI: 'com.apple.ical.ics' });
+            } else {
+                Alert.alert('Export Saved', `Saved to ${uri}`);
+            }
+        } catch (error) {
+            console.error('Error exporting calendar:', error);
+            Alert.alert('Export Failed', 'Could not export your events.');
+        }
+    };
+
     const sortedEvents = [...events].sort((a, b) => {
-        const dateA = getNextOccurrence(a);
-        const dateB = getNextOccurrence(b);
+        const dateA = getNextEventOccurrence(a);
+        const dateB = getNextEventOccurrence(b);
         return dateA.getTime() - dateB.getTime();
     });
 
@@ -345,6 +437,15 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
             borderRadius: 12,
             backgroundColor: colors.background,
         },
+        badgeRow: {
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 8,
+        },
+        yearsText: {
+            fontSize: 12,
+            color: colors.textSecondary,
+        },
         proximityText: {
             fontSize: 12,
             fontWeight: '600',
@@ -433,14 +534,6 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
                 padding: 8,
             }),
         },
-        switchContainer: {
-            flexDirection: 'row',
-            justifyContent: 'space-between',
-            alignItems: 'center',
-            backgroundColor: colors.surface,
-            borderRadius: 12,
-            padding: 16,
-        },
         categoryContainer: {
             flexDirection: 'row',
             flexWrap: 'wrap',
@@ -461,6 +554,36 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
             borderColor: colors.primary,
             backgroundColor: colors.primary + '20',
         },
+        reminderContainer: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            gap: 8,
+        },
+        repeatHint: {
+            fontSize: 14,
+            color: colors.textSecondary,
+            marginTop: 8,
+        },
+        intervalRow: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: 8,
+            marginTop: 12,
+        },
+        intervalInput: {
+            width: 56,
+            paddingVertical: 8,
+            textAlign: 'center',
+        },
+        reminderChip: {
+            paddingVertical: 8,
+            paddingHorizontal: 12,
+            borderRadius: 16,
+            backgroundColor: colors.surface,
+            borderWidth: 2,
+            borderColor: 'transparent',
+        },
         categoryEmoji: {
             fontSize: 24,
             marginBottom: 4,
@@ -527,6 +650,15 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
                         sparkId="coming-up"
                     />
                     <SettingsFeedbackSection sparkName="Coming Up" sparkId="coming-up" />
+                    <SettingsSection title="Calendar">
+                        <SettingsText variant="caption">
+                            Import birthdays and other events from an .ics calendar file, or export your events to add them to another calendar.
+                        </SettingsText>
+                        <View style={{ gap: 12, marginTop: 12 }}>
+                            <SettingsButton title="Import .ics" onPress={handleImportIcs} />
+                            <SettingsButton title="Export .ics" onPress={handleExportIcs} variant="secondary" />
+                        </View>
+                    </SettingsSection>
                     <View style={{ padding: 20 }}>
                         <TouchableOpacity
                             style={{ padding: 16, backgroundColor: colors.surface, borderRadius: 12, alignItems: 'center' }}
@@ -540,18 +672,6 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
         );
     }
 
-    const getCategoryEmoji = (cat: string) => {
-        switch (cat) {
-            case 'birthday': return '🎂';
-            case 'anniversary': return '💍';
-            case 'trip': return '✈️';
-            case 'work': return '💻';
-            case 'party': return '🥳';
-            case 'sports': return '⚽️';
-            default: return '📅';
-        }
-    };
-
     return (
         <View style={styles.container}>
             <View style={styles.header}>
@@ -570,10 +690,11 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
                     </View>
                 ) : (
                     sortedEvents.map(event => {
-                        const nextDate = getNextOccurrence(event);
+                        const nextDate = getNextEventOccurrence(event);
                         const daysRemaining = getDaysRemaining(nextDate);
                         const proximityText = getProximityText(daysRemaining);
                         const proximityColor = getProximityColor(daysRemaining);
+                        const yearsLabel = getYearsLabel(event, nextDate);
 
                         return (
                             <TouchableOpacity
@@ -590,15 +711,20 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
 
                                 <View style={styles.eventInfo}>
                                     <Text style={styles.eventTitle}>{event.title}</Text>
-                                    <View style={styles.proximityBadge}>
-                                        <Text style={[styles.proximityText, { color: proximityColor }]}>
-                                            {proximityText}
-                                        </Text>
+                                    <View style={styles.badgeRow}>
+                                        <View style={styles.proximityBadge}>
+                                            <Text style={[styles.proximityText, { color: proximityColor }]}>
+                                                {proximityText}
+                                            </Text>
+                                        </View>
+                                        {yearsLabel && (
+                                            <Text style={styles.yearsText}>{yearsLabel}</Text>
+                                        )}
                                     </View>
                                 </View>
 
                                 <Text style={styles.categoryIcon}>
-                                    {getCategoryEmoji(event.category)}
+                                    {getEventCategoryEmoji(event.category)}
                                 </Text>
                             </TouchableOpacity>
                         );
@@ -671,15 +797,56 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
                         </View>
 
                         <View style={styles.inputGroup}>
-                            <Text style={styles.label}>Type</Text>
-                            <View style={styles.switchContainer}>
-                                <Text style={styles.dateText}>Annual Event</Text>
-                                <Switch
-                                    value={isAnnual}
-                                    onValueChange={setIsAnnual}
-                                    trackColor={{ false: colors.border, true: colors.primary }}
-                                />
+                            <Text style={styles.label}>Repeats</Text>
+                            <View style={styles.reminderContainer}>
+                                {getRepeatOptions(date).map(option => {
+                                    const selected = repeatType === option.type &&
+                                        (option.type !== 'nth-weekday' || weekOfMonth === option.weekOfMonth);
+                                    return (
+                                        <TouchableOpacity
+                                            key={option.label}
+                                            style={[styles.reminderChip, selected && styles.categorySelected]}
+                                            onPress={() => {
+                                                setRepeatType(option.type);
+                                                setWeekOfMonth(option.weekOfMonth);
+                                                HapticFeedback.selection();
+                                            }}
+                                        >
+                                            <Text style={[styles.categoryLabel, selected && { color: colors.primary }]}>
+                                                {option.label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
                             </View>
+                            {repeatType !== 'one-time' && draftRecurrence && (
+                                <Text style={styles.repeatHint}>
+                                    {describeEventRecurrence({ id: '', title, date: toLocalDateString(date), category, ...draftRecurrence })}
+                                </Text>
+                            )}
+                            {repeatType === 'custom' && (
+                                <View style={styles.intervalRow}>
+                                    <Text style={styles.dateText}>Every</Text>
+                                    <TextInput
+                                        style={[styles.input, styles.intervalInput]}
+                                        value={intervalText}
+                                        onChangeText={setIntervalText}
+                                        keyboardType="number-pad"
+                                        maxLength={3}
+                                    />
+                                    {INTERVAL_UNITS.map(unit => (
+                                        <TouchableOpacity
+                                            key={unit}
+                                            style={[styles.reminderChip, intervalUnit === unit && styles.categorySelected]}
+                                            onPress={() => setIntervalUnit(unit)}
+                                        >
+                                            <Text style={[styles.categoryLabel, intervalUnit === unit && { color: colors.primary }]}>
+                                                {unit}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
                         </View>
 
                         <View style={styles.inputGroup}>
@@ -694,7 +861,7 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
                                         ]}
                                         onPress={() => setCategory(cat)}
                                     >
-                                        <Text style={styles.categoryEmoji}>{getCategoryEmoji(cat)}</Text>
+                                        <Text style={styles.categoryEmoji}>{getEventCategoryEmoji(cat)}</Text>
                                         <Text style={[
                                             styles.categoryLabel,
                                             category === cat && { color: colors.primary }
@@ -706,6 +873,26 @@ const ComingUpSpark: React.FC<ComingUpSparkProps> = ({ showSettings, onCloseSett
                             </View>
                         </View>
 
+                        <View style={styles.inputGroup}>
+                            <Text style={styles.label}>Reminders</Text>
+                            <View style={styles.reminderContainer}>
+                                {REMINDER_DAY_OPTIONS.map(days => {
+                                    const selected = reminderDays.includes(days);
+                                    return (
+                                        <TouchableOpacity
+                                            key={days}
+                                            style={[styles.reminderChip, selected && styles.categorySelected]}
+                                            onPress={() => toggleReminderDay(days)}
+                                        >
+                                            <Text style={[styles.categoryLabel, selected && { color: colors.primary }]}>
+                                                {describeReminderDays(days)}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+                        </View>
+
                         {editingEvent && (
                             <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
                                 <Text style={styles.deleteButtonText}>Delete Event</Text>
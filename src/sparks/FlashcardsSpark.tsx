@@ -4,6 +4,7 @@ import * as Speech from 'expo-speech';
 import { setAudioModeAsync } from 'expo-audio';
 import { activateKeepAwake, deactivateKeepAwake } from 'expo-keep-awake';
 import { useSparkStore } from '../store';
+import { SearchService } from '../services/SearchService';
 import { HapticFeedback } from '../utils/haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import {
@@ -244,13 +245,25 @@ interface FlashcardsSparkProps {
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
+  itemId?: string;
 }
 
+// Search index
+SearchService.registerIndexer('flashcards', (data: { cards?: TranslationCard[] }) =>
+  (data.cards || []).map(card => ({
+    itemType: 'card',
+    itemId: String(card.id),
+    title: card.english,
+    subtitle: card.spanish,
+  }))
+);
+
 export const FlashcardsSpark: React.FC<FlashcardsSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
-  onComplete
+  onComplete,
+  itemId
 }) => {
   const { getSparkData, setSparkData } = useSparkStore();
   const { colors } = useTheme();
@@ -652,6 +665,15 @@ export const FlashcardsSpark: React.FC<FlashcardsSparkProps> = ({
     setSparkData('flashcards', { cards: updatedCards });
   };
 
+  // Open the card a search result points at
+  useEffect(() => {
+    const card = itemId && (getSparkData('flashcards')?.cards || []).find((c: TranslationCard) => String(c.id) === itemId);
+    if (card) {
+      setEditingCard(card);
+      setShowEditModal(true);
+    }
+  }, [itemId]);
+
   const handleEditCardDuringSession = (updatedPhrase: { english: string; spanish: string }) => {
     if (!editingCard) return;
 
@@ -15,6 +15,7 @@ import * as ImagePicker from 'expo-image-picker';
 import * as MediaLibrary from 'expo-media-library';
 import * as FileSystem from 'expo-file-system/legacy';
 import { useSparkStore } from '../store';
+import { FoodPhoto, FoodCamData } from '../types/sparkData';
 import { HapticFeedback } from '../utils/haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import {
@@ -26,23 +27,8 @@ import {
   SettingsText,
   SettingsButton,
 } from '../components/SettingsComponents';
-
-interface FoodPhoto {
-  id: string;
-  // Store RELATIVE path under documentDirectory (e.g., "foodcam/123.jpg")
-  uri: string; // relative path
-  originalUri?: string; // Original temporary URI
-  mediaLibraryId?: string; // MediaLibrary asset ID
-  timestamp: number;
-  date: string; // YYYY-MM-DD format
-  name?: string; // User-defined name for the food
-  calories?: number; // Estimated calories
-  time?: string; // HH:MM format for display
-}
-
-interface FoodCamData {
-  photos: FoodPhoto[];
-}
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { foodCamCommandIntents } from './foodCamCommands';
 
 interface FoodCamSparkProps {
   showSettings?: boolean;
@@ -51,6 +37,9 @@ interface FoodCamSparkProps {
   onComplete?: (result: any) => void;
 }
 
+// Voice commands
+foodCamCommandIntents.forEach(CommandIntentRegistry.register);
+
 const { width } = Dimensions.get('window');
 const PHOTO_SIZE = (width - 40) / 3; // 3 columns with minimal padding and gaps
 
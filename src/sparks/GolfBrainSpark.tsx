@@ -14,10 +14,50 @@ import {
   Image,
 } from 'react-native';
 import { Video, ResizeMode } from 'expo-av';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
 
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
-import { useSparkStore } from '../store';
+import { useSparkStore, useLinkedItem } from '../store';
+import { useAuthStore } from '../store/authStore';
+import { registerSparkSchema } from '../store/sparkMigrations';
+import { SparkItemTarget } from '../types/spark';
+import { BetFormat, BetSettings, Course, GolfBrainData, GolfPartner, Hole, HoleScore, Round, RoundPlayer, Shot } from '../types/sparkData';
 import { HapticFeedback } from '../utils/haptics';
+import { getCourseHandicap, getCourseRating, getHandicapHistory, getHandicapIndex, getSlopeRating, getStrokesReceived } from '../utils/handicap';
+import {
+  RoundStats,
+  StrokesGainedCategory,
+  combineGolfStats,
+  getClubTendencies,
+  getRate,
+  getRoundStats,
+  getStrokesGainedPer18,
+} from '../utils/golfStats';
+import { formatToPar, getLeaderboard, getPlayerScore, OWNER_PLAYER_ID, rememberPartner, setPlayerScore } from '../utils/golfLeaderboard';
+import {
+  BET_FORMAT_NAMES,
+  BET_POINT_NAMES,
+  describeNassauMatch,
+  formatStake,
+  getBetFormatError,
+  getBetSides,
+  getDefaultBetSettings,
+  getRoundBetGame,
+  scoreBetGame,
+  settleUp,
+} from '../utils/golfBets';
+import {
+  addImportedCourse,
+  applyTeeSet,
+  exportCourseCsv,
+  exportCourseJson,
+  fromCourseScorecard,
+  parseCourseScorecard,
+  saveTeeSet,
+  toCourseScorecard,
+} from '../utils/golfCourses';
 import { useTheme } from '../contexts/ThemeContext';
 import {
   SettingsContainer,
@@ -29,90 +69,14 @@ import {
   SaveCancelButtons,
 } from '../components/SettingsComponents';
 import { RecordSwing, RecordedSwing } from '../components/RecordSwing';
+import { FriendSelectionModal } from '../components/FriendSelectionModal';
+import { Friend } from '../services/FriendService';
+import ShareableSparkService from '../services/ShareableSparkService';
+import SharedItemsService from '../services/SharedItemsService';
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { golfBrainCommandIntents } from './golfBrainCommands';
 
 
-// Data Models
-interface Course {
-  id: string;
-  name: string;
-  holes: Hole[];
-  createdAt: number;
-}
-
-interface Hole {
-  number: number;
-  par: number; // 3, 4, or 5
-  strokeIndex: number; // 1-18 (relative difficulty)
-  distanceYards?: number; // Distance to hole in yards
-  todaysDistance?: number; // Today's distance (optional, can vary day to day)
-}
-
-interface Shot {
-  id: string;
-  type: 'shot' | 'putt';
-  direction?: 'good' | 'fire' | 'left' | 'right' | 'long' | 'short' | 'left and short' | 'left and long' | 'right and short' | 'right and long' | 'penalty';
-  lie?: 'fairway' | 'rough' | 'sand' | 'green' | 'ob' | 'water'; // For shots
-  puttDistance?: '<4ft' | '5-10ft' | '10+ft'; // For putts
-  club?: string; // For shots
-  videoUri?: string; // For swing recordings
-  timestamp: number;
-  poorShot?: boolean; // For 💩 feature
-}
-
-interface HoleScore {
-  holeNumber: number;
-  courseId: string;
-  shots: Shot[];
-  totalScore: number;
-  par: number;
-  netScore: number; // Score relative to par
-  completedAt: number;
-}
-
-interface Round {
-  id: string;
-  courseId: string;
-  courseName: string;
-  holeScores: HoleScore[];
-  totalScore: number;
-  totalPar: number;
-  startedAt: number;
-  completedAt?: number;
-  isComplete: boolean;
-}
-
-
-interface GolfBrainData {
-  courses: Course[];
-  rounds: Round[];
-  currentRound?: Round;
-  settings: {
-    defaultCourse?: string;
-    showHints: boolean;
-    autoAdvance: boolean;
-    clubs: string[];
-    handicap?: number;
-    defaultClubs: {
-      par5: {
-        shot1: string;
-        shot2: string;
-        shot3: string;
-      };
-      par4: {
-        shot1: string;
-        shot2: string;
-      };
-      par3: {
-        shot1: string;
-      };
-    };
-    swingRecording: {
-      countdownSeconds: number;
-      durationSeconds: number;
-    };
-  };
-}
-
 // Historical data aggregation for hole analysis
 interface HoleHistory {
   holeNumber: number;
@@ -178,13 +142,33 @@ const calculateHoleHistory = (holeNumber: number, courseId: string, rounds: Roun
   };
 };
 
-interface GolfBrainSparkProps {
+interface GolfBrainSparkProps extends SparkItemTarget {
   showSettings?: boolean;
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
 }
 
+// Stored data schema
+registerSparkSchema('golf-brain', {
+  version: 1,
+  migrations: [
+    {
+      // v1: drop duplicate rounds saved by older versions of the round-end flow
+      version: 1,
+      migrate: (data) => ({
+        ...data,
+        rounds: (data.rounds || []).filter((round: Round, index: number, self: Round[]) =>
+          index === self.findIndex(r => r.id === round.id)
+        ),
+      }),
+    },
+  ],
+});
+
+// Voice commands
+golfBrainCommandIntents.forEach(CommandIntentRegistry.register);
+
 // Constants
 // Shot quality grid layout (3x3)
 const SHOT_QUALITY_GRID = [
@@ -777,10 +761,11 @@ const RoundSummaryScreen: React.FC<{
   onHolePress?: (holeNumber: number) => void;
   onReturnToRound?: () => void;
   onEndRound?: () => void;
+  onSetBet?: (bet?: BetSettings) => void;
   handicap?: number;
   getBumpsForHole: (hole: Hole) => number;
   colors: any;
-}> = ({ round, course, onClose, onHolePress, onReturnToRound, onEndRound, handicap, getBumpsForHole, colors }) => {
+}> = ({ round, course, onClose, onHolePress, onReturnToRound, onEndRound, onSetBet, handicap, getBumpsForHole, colors }) => {
   console.log('RoundSummaryScreen props:', { onReturnToRound: !!onReturnToRound, onEndRound: !!onEndRound });
 
   const formatDate = (timestamp: number) => {
@@ -1063,6 +1048,69 @@ const RoundSummaryScreen: React.FC<{
       borderWidth: 1,
       borderColor: colors.border,
     },
+    leaderboard: {
+      backgroundColor: colors.surface,
+      marginHorizontal: 20,
+      marginTop: 10,
+      borderRadius: 12,
+      padding: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    leaderboardRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 6,
+    },
+    leaderboardHeading: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    leaderboardText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    leaderboardPosition: {
+      width: 36,
+    },
+    leaderboardName: {
+      flex: 1,
+    },
+    leaderboardHandicap: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    leaderboardCell: {
+      width: 64,
+      textAlign: 'right',
+    },
+    betChips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 8,
+    },
+    betChip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    betChipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + '20',
+    },
+    betStakeButton: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      backgroundColor: colors.background,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginHorizontal: 8,
+    },
     statItem: {
       alignItems: 'center',
     },
@@ -1260,6 +1308,13 @@ const RoundSummaryScreen: React.FC<{
   const parHoles = (round.holeScores || []).filter(hs => hs.totalScore === hs.par).length;
   const overParHoles = (round.holeScores || []).filter(hs => hs.totalScore > hs.par).length;
 
+  // Side game, scored from everyone's net scores
+  const betGame = getRoundBetGame(round, course, 'You', handicap);
+  const betResult = betGame ? scoreBetGame(betGame) : undefined;
+  const betFormats = (['skins', 'nassau', 'best-ball'] as BetFormat[])
+    .filter(format => !getBetFormatError(format, (round.players || []).length + 1, course.holes.length));
+  const betName = (id: string) => betGame?.players.find(p => p.id === id)?.name ?? id;
+
   // Calculate club breakdown
   const clubBreakdown = React.useMemo(() => {
     const clubStats: { [club: string]: { total: number; fire: number; poop: number; teeShot: number; fireTeeShot: number; poopTeeShot: number } } = {};
@@ -1337,6 +1392,107 @@ const RoundSummaryScreen: React.FC<{
         )}
       </View>
 
+      {/* Leaderboard */}
+      {(round.players || []).length > 0 && (
+        <View style={styles.leaderboard}>
+          <View style={styles.leaderboardRow}>
+            <Text style={[styles.leaderboardHeading, styles.leaderboardPosition]}>Pos</Text>
+            <Text style={[styles.leaderboardHeading, styles.leaderboardName]}>Player</Text>
+            <Text style={[styles.leaderboardHeading, styles.leaderboardCell]}>Thru</Text>
+            <Text style={[styles.leaderboardHeading, styles.leaderboardCell]}>Gross</Text>
+            <Text style={[styles.leaderboardHeading, styles.leaderboardCell]}>Net</Text>
+          </View>
+          {getLeaderboard(round, course, 'You', handicap).map(entry => (
+            <View key={entry.playerId} style={styles.leaderboardRow}>
+              <Text style={[styles.leaderboardText, styles.leaderboardPosition]}>
+                {entry.tied ? `T${entry.position}` : entry.position}
+              </Text>
+              <Text style={[styles.leaderboardText, styles.leaderboardName, entry.playerId === OWNER_PLAYER_ID && { fontWeight: 'bold' }]}>
+                {entry.name}
+                {entry.courseHandicap !== undefined && <Text style={styles.leaderboardHandicap}> ({entry.courseHandicap})</Text>}
+              </Text>
+              <Text style={[styles.leaderboardText, styles.leaderboardCell]}>{entry.thru}</Text>
+              <Text style={[styles.leaderboardText, styles.leaderboardCell]}>
+                {entry.gross} ({formatToPar(entry.grossToPar)})
+              </Text>
+              <Text style={[styles.leaderboardText, styles.leaderboardCell, { fontWeight: 'bold' }]}>
+                {entry.net} ({formatToPar(entry.netToPar)})
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Side Game */}
+      {(round.players || []).length > 0 && onSetBet && (
+        <View style={styles.leaderboard}>
+          <Text style={[styles.leaderboardHeading, { marginBottom: 8 }]}>Side Game</Text>
+          <View style={styles.betChips}>
+            {[undefined, ...betFormats].map(format => (
+              <TouchableOpacity
+                key={format || 'off'}
+                style={[styles.betChip, round.bet?.format === format && styles.betChipSelected]}
+                onPress={() => onSetBet(format ? getDefaultBetSettings(format, round.bet?.stake) : undefined)}
+              >
+                <Text style={styles.leaderboardText}>{format ? BET_FORMAT_NAMES[format] : 'Off'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {round.bet && betGame && betResult && (
+            <>
+              <View style={styles.leaderboardRow}>
+                <TouchableOpacity
+                  style={styles.betStakeButton}
+                  onPress={() => onSetBet({ ...round.bet!, stake: Math.max(1, round.bet!.stake - 1) })}
+                >
+                  <Text style={styles.leaderboardText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.leaderboardText}>
+                  {formatStake(round.bet.stake)} per {BET_POINT_NAMES[round.bet.format].replace(/s$/, '')}
+                </Text>
+                <TouchableOpacity
+                  style={styles.betStakeButton}
+                  onPress={() => onSetBet({ ...round.bet!, stake: round.bet!.stake + 1 })}
+                >
+                  <Text style={styles.leaderboardText}>+</Text>
+                </TouchableOpacity>
+              </View>
+
+              {betGame.players.map(player => (
+                <View key={player.id} style={styles.leaderboardRow}>
+                  <Text style={[styles.leaderboardText, styles.leaderboardName, player.id === OWNER_PLAYER_ID && { fontWeight: 'bold' }]}>
+                    {player.name}
+                  </Text>
+                  <Text style={[styles.leaderboardText, styles.leaderboardCell]}>
+                    {betResult.points[player.id]} {BET_POINT_NAMES[betGame.format]}
+                  </Text>
+                  <Text style={[styles.leaderboardText, styles.leaderboardCell, { fontWeight: 'bold' }]}>
+                    {formatStake(betResult.winnings[player.id])}
+                  </Text>
+                </View>
+              ))}
+              {betResult.carry > 0 && (
+                <Text style={styles.leaderboardHandicap}>{betResult.carry} skin{betResult.carry === 1 ? '' : 's'} carried to the next hole</Text>
+              )}
+              {betResult.matches.map(match => (
+                <View key={match.name} style={styles.leaderboardRow}>
+                  <Text style={[styles.leaderboardText, styles.leaderboardName]}>{match.name}</Text>
+                  <Text style={styles.leaderboardText}>
+                    {describeNassauMatch(match, getBetSides(betGame).map(side => side.map(betName).join(' & ')))}
+                  </Text>
+                </View>
+              ))}
+              {settleUp(betResult.winnings).map(payment => (
+                <Text key={`${payment.fromId}-${payment.toId}`} style={styles.leaderboardText}>
+                  {betName(payment.fromId)} pays {betName(payment.toId)} {formatStake(payment.amount)}
+                </Text>
+              ))}
+            </>
+          )}
+        </View>
+      )}
+
       {/* Scorecard */}
       <View style={styles.scorecard}>
         <View style={styles.scorecardHeader}>
@@ -1802,6 +1958,24 @@ const RoundSummaryScreen: React.FC<{
   );
 };
 
+// Course rating and slope typed into the course modals; empty fields leave them unset.
+// Returns null, after alerting, when either is out of range.
+const parseRatings = (courseRating: string, slopeRating: string): Pick<Course, 'courseRating' | 'slopeRating'> | null => {
+  const rating = courseRating.trim() ? parseFloat(courseRating) : undefined;
+  const slope = slopeRating.trim() ? parseInt(slopeRating) : undefined;
+
+  if (rating !== undefined && (isNaN(rating) || rating < 25 || rating > 90)) {
+    Alert.alert('Error', 'Course rating should be between 25 and 90');
+    return null;
+  }
+  if (slope !== undefined && (isNaN(slope) || slope < 55 || slope > 155)) {
+    Alert.alert('Error', 'Slope rating should be between 55 and 155');
+    return null;
+  }
+
+  return { courseRating: rating, slopeRating: slope };
+};
+
 // Course Edit Modal
 const EditCourseModal: React.FC<{
   visible: boolean;
@@ -1814,6 +1988,9 @@ const EditCourseModal: React.FC<{
   const [parList, setParList] = useState(course?.holes?.map(h => h.par).join(' ') || '');
   const [difficultyList, setDifficultyList] = useState(course?.holes?.map(h => h.strokeIndex).join(' ') || '');
   const [distanceList, setDistanceList] = useState(course?.holes?.filter(h => h.distanceYards).map(h => h.distanceYards).join(' ') || '');
+  const [courseRating, setCourseRating] = useState(course?.courseRating?.toString() || '');
+  const [slopeRating, setSlopeRating] = useState(course?.slopeRating?.toString() || '');
+  const [teeName, setTeeName] = useState(course?.teeSets?.find(t => t.id === course.teeSetId)?.name || '');
 
   // Guard clause to prevent rendering if course is null
   if (!course) {
@@ -1835,6 +2012,11 @@ const EditCourseModal: React.FC<{
       return;
     }
 
+    const ratings = parseRatings(courseRating, slopeRating);
+    if (!ratings) {
+      return;
+    }
+
     const pars = parseSpaceSeparatedList(parList, 3, 5);
     const difficulties = parseSpaceSeparatedList(difficultyList, 1, 18);
     const distances = parseSpaceSeparatedList(distanceList, 50, 600);
@@ -1858,9 +2040,14 @@ const EditCourseModal: React.FC<{
       ...(finalDistances.length > 0 && { distanceYards: finalDistances[index] || undefined }),
     }));
 
+    // Keep the tees being edited in step, or save them as a new set of tees
+    const { teeSets, teeSetId } = saveTeeSet({ ...course, holes, ...ratings }, teeName);
     onUpdateCourse(course.id, {
       name: courseName.trim(),
       holes,
+      ...ratings,
+      teeSets,
+      teeSetId,
     });
 
     onClose();
@@ -1993,6 +2180,41 @@ const EditCourseModal: React.FC<{
             Space-separated list of distances in yards (50-600).
           </Text>
 
+          <Text style={styles.fieldLabel}>Course Rating / Slope</Text>
+          <View style={{ flexDirection: 'row', gap: 8 }}>
+            <TextInput
+              style={[styles.input, { flex: 1 }]}
+              placeholder="72.1"
+              placeholderTextColor={colors.textSecondary}
+              value={courseRating}
+              onChangeText={setCourseRating}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, { flex: 1 }]}
+              placeholder="113"
+              placeholderTextColor={colors.textSecondary}
+              value={slopeRating}
+              onChangeText={setSlopeRating}
+              keyboardType="numeric"
+            />
+          </View>
+          <Text style={styles.helpText}>
+            From the scorecard, for the tees you play. Used for your handicap; par and 113 if empty.
+          </Text>
+
+          <Text style={styles.fieldLabel}>Tees</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Blue"
+            placeholderTextColor={colors.textSecondary}
+            value={teeName}
+            onChangeText={setTeeName}
+          />
+          <Text style={styles.helpText}>
+            Distances and ratings above are saved for these tees. A new name adds another set of tees.
+          </Text>
+
           <View style={styles.buttons}>
             <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
               <Text style={[styles.buttonText, styles.cancelButtonText]}>Cancel</Text>
@@ -2024,6 +2246,7 @@ const GolfBrainSettings: React.FC<{
   colors: any;
 }> = ({ onClose, courses, onUpdateCourse, onDeleteCourse, data, onUpdateSettings, onEditRound, onViewRound, onDeleteRound, onNavigateToRound, onNavigateToCourse, onResetData, colors }) => {
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
+  const [sharingCourse, setSharingCourse] = useState<Course | null>(null);
   const [newClubName, setNewClubName] = useState('');
   const [showAllRounds, setShowAllRounds] = useState(false);
 
@@ -2053,6 +2276,63 @@ const GolfBrainSettings: React.FC<{
     );
   };
 
+  const exportCourse = async (course: Course, format: 'json' | 'csv') => {
+    try {
+      const fileName = `${course.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'course'}.${format}`;
+      const uri = `${FileSystem.cacheDirectory}${fileName}`;
+      const contents = format === 'json' ? exportCourseJson(course) : exportCourseCsv(course);
+      await FileSystem.writeAsStringAsync(uri, contents, { encoding: 'utf8' });
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, {
+          mimeType: format === 'json' ? 'application/json' : 'text/csv',
+          dialogTitle: `Export ${course.name}`,
+        });
+      } else {
+        Alert.alert('Export Saved', `Saved to ${uri}`);
+      }
+    } catch (error) {
+      console.error('Error exporting course:', error);
+      Alert.alert('Export Failed', 'Could not export this course.');
+    }
+  };
+
+  const handleExportCourse = (course: Course) => {
+    Alert.alert(
+      'Export Course',
+      'JSON imports back into Golf Brain as is; CSV opens in a spreadsheet.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'CSV', onPress: () => exportCourse(course, 'csv') },
+        { text: 'JSON', onPress: () => exportCourse(course, 'json') },
+      ]
+    );
+  };
+
+  const handleShareCourse = (course: Course) => {
+    if (!useAuthStore.getState().isAuthenticated()) {
+      Alert.alert('Sign In Required', 'You must be signed in to share courses with friends.');
+      return;
+    }
+    setSharingCourse(course);
+    HapticFeedback.light();
+  };
+
+  const handleSelectFriend = async (friend: Friend) => {
+    if (!sharingCourse) return;
+
+    try {
+      await ShareableSparkService.shareItemCopy('golf-brain', sharingCourse.id, friend.userId, toCourseScorecard(sharingCourse));
+      HapticFeedback.success();
+      Alert.alert('Success', `${sharingCourse.name} shared with ${friend.displayName}!`);
+      setSharingCourse(null);
+    } catch (error: any) {
+      console.error('Error sharing course:', error);
+      HapticFeedback.error();
+      Alert.alert('Error', error?.message || 'Failed to share course');
+    }
+  };
+
   const handleSaveSettings = () => {
     onUpdateSettings(localSettings);
     setHasChanges(false);
@@ -2140,6 +2420,9 @@ const GolfBrainSettings: React.FC<{
     });
   };
 
+  const handicapHistory = getHandicapHistory(data.rounds, courses, data.settings.handicap);
+  const handicapIndex = handicapHistory[handicapHistory.length - 1]?.handicapIndex;
+
   const getScoreColor = (score: number, par: number) => {
     const netScore = score - par;
     if (netScore < 0) return '#4CAF50'; // Green for under par
@@ -2208,6 +2491,13 @@ const GolfBrainSettings: React.FC<{
     deleteButtonText: {
       color: colors.background,
     },
+    shareButton: {
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    shareButtonText: {
+      color: colors.primary,
+    },
     handicapContainer: {
       marginBottom: 16,
     },
@@ -2227,6 +2517,24 @@ const GolfBrainSettings: React.FC<{
       color: colors.textSecondary,
       fontStyle: 'italic',
     },
+    handicapIndex: {
+      fontSize: 22,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    handicapHistory: {
+      marginTop: 12,
+      marginBottom: 16,
+    },
+    handicapHistoryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: 'rgba(255, 255, 255, 0.05)',
+      padding: 12,
+      borderRadius: 8,
+      marginBottom: 4,
+    },
     clubList: {
       marginBottom: 16,
     },
@@ -2752,8 +3060,35 @@ const GolfBrainSettings: React.FC<{
 
         <SettingsSection title="Handicap">
           <View style={{ padding: 16, backgroundColor: 'transparent' }}>
+            <Text style={styles.handicapIndex}>
+              {handicapIndex !== undefined ? `Handicap index ${handicapIndex.toFixed(1)}` : 'No handicap index yet'}
+            </Text>
+            <SettingsText variant="body">
+              {handicapIndex !== undefined
+                ? `From the best of your last ${Math.min(handicapHistory.length, 20)} scores`
+                : `Finish ${3 - handicapHistory.length} more round${3 - handicapHistory.length === 1 ? '' : 's'} to compute your index`}
+            </SettingsText>
+
+            {handicapHistory.length > 0 && (
+              <View style={styles.handicapHistory}>
+                {[...handicapHistory].reverse().slice(0, 10).map(entry => (
+                  <View key={entry.roundId} style={styles.handicapHistoryRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.roundCourse}>{entry.courseName}</Text>
+                      <Text style={styles.roundStats}>
+                        {formatDate(entry.playedAt)} • Adjusted {entry.adjustedGrossScore} • Differential {entry.differential.toFixed(1)}
+                      </Text>
+                    </View>
+                    <Text style={styles.roundScore}>
+                      {entry.handicapIndex !== undefined ? entry.handicapIndex.toFixed(1) : '–'}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
             <SettingsText variant="body">
-              Your handicap index for stroke calculations
+              Starting handicap, used for strokes until 3 rounds are played
             </SettingsText>
             <View style={styles.handicapContainer}>
               <TextInput
@@ -2773,14 +3108,7 @@ const GolfBrainSettings: React.FC<{
                 maxLength={2}
               />
               <Text style={styles.handicapHelp}>
-                {localSettings.handicap !== undefined
-                  ? localSettings.handicap === 0
-                    ? 'No strokes on any hole'
-                    : localSettings.handicap <= 18
-                      ? `You get 1 stroke on holes with difficulty index ≤ ${localSettings.handicap}`
-                      : `You get 1 stroke on all holes, plus an extra stroke on holes with difficulty index ≤ ${localSettings.handicap - 18}`
-                  : 'Set your handicap to see stroke adjustments'
-                }
+                Strokes on each hole come from your course handicap: your index adjusted for the course's rating and slope, handed out by difficulty index
               </Text>
             </View>
           </View>
@@ -2869,7 +3197,9 @@ const GolfBrainSettings: React.FC<{
               <View key={course.id} style={styles.courseCard}>
                 <Text style={styles.courseName}>{course.name}</Text>
                 <Text style={styles.courseInfo}>
-                  {course.holes.length} holes • Created {new Date(course.createdAt).toLocaleDateString()}
+                  {course.holes.length} holes • Rating {getCourseRating(course)} / Slope {getSlopeRating(course)} • Created {new Date(course.createdAt).toLocaleDateString()}
+                  {course.teeSets?.length ? `\nTees: ${course.teeSets.map(t => t.name).join(', ')}` : ''}
+                  {course.sharedBy ? `\nShared by ${course.sharedBy}` : ''}
                 </Text>
                 <View style={styles.courseActions}>
                   <TouchableOpacity
@@ -2878,6 +3208,18 @@ const GolfBrainSettings: React.FC<{
                   >
                     <Text style={[styles.actionButtonText, styles.editButtonText]}>Edit</Text>
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.shareButton]}
+                    onPress={() => handleExportCourse(course)}
+                  >
+                    <Text style={[styles.actionButtonText, styles.shareButtonText]}>Export</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.shareButton]}
+                    onPress={() => handleShareCourse(course)}
+                  >
+                    <Text style={[styles.actionButtonText, styles.shareButtonText]}>Share</Text>
+                  </TouchableOpacity>
                   <TouchableOpacity
                     style={[styles.actionButton, styles.deleteButton]}
                     onPress={() => handleDeleteCourse(course.id)}
@@ -2959,6 +3301,16 @@ const GolfBrainSettings: React.FC<{
           colors={colors}
         />
       )}
+
+      <FriendSelectionModal
+        visible={sharingCourse !== null}
+        onClose={() => setSharingCourse(null)}
+        onSelectFriend={handleSelectFriend}
+        onAddFriend={() => {
+          setSharingCourse(null);
+          Alert.alert('Add Friend', 'Please go to Friend Spark to add friends, then come back to share courses.');
+        }}
+      />
     </SettingsContainer>
   );
 };
@@ -3534,28 +3886,629 @@ const HandicapOnboardingModal: React.FC<{
               setHandicap(text);
               validateHandicap(text);
             }}
-            placeholder="Enter handicap (0-54)"
-            keyboardType="numeric"
-            maxLength={2}
-          />
-          <View style={styles.buttonRow}>
-            <TouchableOpacity
-              style={[styles.button, styles.cancelButton, { marginRight: 8 }]}
-              onPress={onClose}
-            >
-              <Text style={[styles.buttonText, styles.cancelButtonText]}>Exit Golf Brain ✕</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.button, styles.submitButton]}
-              onPress={handleSubmit}
-              disabled={!isValid}
-            >
-              <Text style={[styles.buttonText, styles.submitButtonText]}>Set Handicap</Text>
-            </TouchableOpacity>
+            placeholder="Enter handicap (0-54)"
+            keyboardType="numeric"
+            maxLength={2}
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton, { marginRight: 8 }]}
+              onPress={onClose}
+            >
+              <Text style={[styles.buttonText, styles.cancelButtonText]}>Exit Golf Brain ✕</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.submitButton]}
+              onPress={handleSubmit}
+              disabled={!isValid}
+            >
+              <Text style={[styles.buttonText, styles.submitButtonText]}>Set Handicap</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+// Playing Partners Modal
+const PlayersModal: React.FC<{
+  visible: boolean;
+  players: RoundPlayer[];
+  partners: GolfPartner[];
+  onAddPlayer: (partner: GolfPartner) => void;
+  onRemovePlayer: (playerId: string) => void;
+  onClose: () => void;
+  colors: any;
+}> = ({ visible, players, partners, onAddPlayer, onRemovePlayer, onClose, colors }) => {
+  const [name, setName] = useState('');
+  const [handicap, setHandicap] = useState('');
+
+  const recentPartners = partners.filter(partner => !players.some(player => player.id === partner.id));
+
+  const handleAdd = () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+    const handicapIndex = handicap.trim() ? parseFloat(handicap) : undefined;
+    if (handicapIndex !== undefined && (isNaN(handicapIndex) || handicapIndex < -10 || handicapIndex > 54)) {
+      Alert.alert('Error', 'Handicap should be between -10 and 54');
+      return;
+    }
+
+    const existing = partners.find(partner => partner.name.toLowerCase() === name.trim().toLowerCase());
+    onAddPlayer({
+      id: existing?.id || Date.now().toString() + Math.random().toString(36).substring(2),
+      name: name.trim(),
+      handicapIndex,
+    });
+    setName('');
+    setHandicap('');
+    HapticFeedback.light();
+  };
+
+  const styles = StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalContent: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 500,
+      maxHeight: '90%',
+    },
+    modalTitle: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 4,
+      textAlign: 'center',
+    },
+    helpText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginBottom: 16,
+      textAlign: 'center',
+    },
+    playerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    playerName: {
+      fontSize: 16,
+      color: colors.text,
+    },
+    playerHandicap: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    removeText: {
+      fontSize: 14,
+      color: colors.error || '#ff4444',
+      fontWeight: '600',
+    },
+    fieldLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+      marginTop: 16,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.primary,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    input: {
+      backgroundColor: colors.background,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      color: colors.text,
+    },
+    addButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingHorizontal: 16,
+      justifyContent: 'center',
+    },
+    addButtonText: {
+      color: colors.background,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    doneButton: {
+      marginTop: 20,
+      paddingVertical: 12,
+      borderRadius: 8,
+      alignItems: 'center',
+      backgroundColor: colors.border,
+    },
+    doneButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <Text style={styles.modalTitle}>Playing Partners</Text>
+          <Text style={styles.helpText}>Enter their score on each hole; your shots are tracked as usual</Text>
+
+          <ScrollView>
+            {players.map(player => (
+              <View key={player.id} style={styles.playerRow}>
+                <View>
+                  <Text style={styles.playerName}>{player.name}</Text>
+                  <Text style={styles.playerHandicap}>
+                    {player.handicapIndex !== undefined ? `Handicap ${player.handicapIndex}` : 'No handicap'}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => onRemovePlayer(player.id)}>
+                  <Text style={styles.removeText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            {recentPartners.length > 0 && (
+              <>
+                <Text style={styles.fieldLabel}>Played With Before</Text>
+                <View style={styles.chipRow}>
+                  {recentPartners.map(partner => (
+                    <TouchableOpacity key={partner.id} style={styles.chip} onPress={() => onAddPlayer(partner)}>
+                      <Text style={styles.chipText}>+ {partner.name}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.fieldLabel}>Add Player</Text>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[styles.input, { flex: 2 }]}
+                placeholder="Name"
+                placeholderTextColor={colors.textSecondary}
+                value={name}
+                onChangeText={setName}
+              />
+              <TextInput
+                style={[styles.input, { flex: 1 }]}
+                placeholder="Hcp"
+                placeholderTextColor={colors.textSecondary}
+                value={handicap}
+                onChangeText={setHandicap}
+                keyboardType="decimal-pad"
+              />
+              <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+                <Text style={styles.addButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+// Stats Screen Component
+const STATS_RANGES = [
+  { label: 'Last 5', count: 5 },
+  { label: 'Last 20', count: 20 },
+  { label: 'All', count: Infinity },
+];
+
+const STROKES_GAINED_LABELS: { category: StrokesGainedCategory; label: string }[] = [
+  { category: 'tee', label: 'Off the tee' },
+  { category: 'approach', label: 'Approach' },
+  { category: 'shortGame', label: 'Short game' },
+  { category: 'putting', label: 'Putting' },
+];
+
+const GolfStatsScreen: React.FC<{
+  rounds: Round[];
+  courses: Course[];
+  onClose: () => void;
+  colors: any;
+}> = ({ rounds, courses, onClose, colors }) => {
+  const [rangeCount, setRangeCount] = useState(20);
+
+  const allRoundStats = getRoundStats(rounds, courses);
+  const roundStats = allRoundStats.slice(-rangeCount);
+  const totals = combineGolfStats(roundStats);
+  const strokesGained = getStrokesGainedPer18(totals);
+  const clubTendencies = getClubTendencies(rounds.filter(r => roundStats.some(s => s.roundId === r.id)));
+
+  const formatRate = (made: number, chances: number) => {
+    const rate = getRate(made, chances);
+    return rate === undefined ? '–' : `${rate}%`;
+  };
+
+  const formatGained = (value: number) => (value > 0 ? `+${value.toFixed(1)}` : value.toFixed(1));
+
+  const getRoundGained = (stats: RoundStats) => {
+    const perRound = getStrokesGainedPer18(stats);
+    return perRound.tee + perRound.approach + perRound.shortGame + perRound.putting;
+  };
+
+  // Trend bars share one scale so rounds compare
+  const trend = roundStats.slice(-10);
+  const maxGained = Math.max(1, ...trend.map(stats => Math.abs(getRoundGained(stats))));
+  const maxCategoryGained = Math.max(1, ...STROKES_GAINED_LABELS.map(({ category }) => Math.abs(strokesGained[category])));
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      padding: 20,
+      paddingBottom: 10,
+      alignItems: 'center',
+    },
+    title: {
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    subtitle: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    closeButton: {
+      position: 'absolute',
+      top: 20,
+      right: 20,
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    closeButtonText: {
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    rangeRow: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      gap: 8,
+      marginBottom: 8,
+    },
+    rangeChip: {
+      paddingVertical: 6,
+      paddingHorizontal: 14,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    rangeChipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    rangeChipText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    rangeChipTextActive: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+    card: {
+      backgroundColor: colors.surface,
+      marginHorizontal: 20,
+      marginTop: 16,
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    cardTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    cardSubtitle: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginBottom: 12,
+    },
+    statGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginTop: 8,
+    },
+    statItem: {
+      width: '33%',
+      alignItems: 'center',
+      marginBottom: 12,
+    },
+    statValue: {
+      fontSize: 22,
+      fontWeight: 'bold',
+      color: colors.primary,
+    },
+    statLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    gainedRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 10,
+    },
+    gainedLabel: {
+      width: 90,
+      fontSize: 14,
+      color: colors.text,
+    },
+    gainedTrack: {
+      flex: 1,
+      height: 14,
+      flexDirection: 'row',
+    },
+    gainedHalf: {
+      flex: 1,
+      flexDirection: 'row',
+    },
+    gainedBar: {
+      height: 14,
+      borderRadius: 3,
+    },
+    gainedValue: {
+      width: 48,
+      textAlign: 'right',
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    trendChart: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      height: 120,
+      gap: 6,
+    },
+    trendColumn: {
+      flex: 1,
+      height: 120,
+    },
+    trendHalf: {
+      flex: 1,
+      justifyContent: 'flex-end',
+    },
+    trendBar: {
+      width: '100%',
+      borderRadius: 3,
+    },
+    roundRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    roundName: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    roundDetail: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    clubRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    clubName: {
+      fontSize: 16,
+      color: colors.text,
+    },
+    clubDetail: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      textAlign: 'right',
+    },
+    emptyText: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 40,
+      marginHorizontal: 20,
+    },
+  });
+
+  const gainedColor = (value: number) => (value >= 0 ? '#4CAF50' : '#F44336');
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Stats</Text>
+        <Text style={styles.subtitle}>
+          {roundStats.length} round{roundStats.length === 1 ? '' : 's'} • {totals.holes} holes
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+        <Text style={styles.closeButtonText}>✕</Text>
+      </TouchableOpacity>
+
+      <View style={styles.rangeRow}>
+        {STATS_RANGES.map(range => (
+          <TouchableOpacity
+            key={range.label}
+            style={[styles.rangeChip, rangeCount === range.count && styles.rangeChipActive]}
+            onPress={() => {
+              setRangeCount(range.count);
+              HapticFeedback.light();
+            }}
+          >
+            <Text style={[styles.rangeChipText, rangeCount === range.count && styles.rangeChipTextActive]}>
+              {range.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {roundStats.length === 0 ? (
+        <Text style={styles.emptyText}>Finish a round with shots recorded to see your stats</Text>
+      ) : (
+        <>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Overview</Text>
+            <View style={styles.statGrid}>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{formatRate(totals.fairwaysHit, totals.fairwayChances)}</Text>
+                <Text style={styles.statLabel}>Fairways</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{formatRate(totals.greensInRegulation, totals.girChances)}</Text>
+                <Text style={styles.statLabel}>Greens (GIR)</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{formatRate(totals.upAndDowns, totals.upAndDownChances)}</Text>
+                <Text style={styles.statLabel}>Up & down</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>{formatRate(totals.threePutts, totals.puttingHoles)}</Text>
+                <Text style={styles.statLabel}>3-putts</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={styles.statValue}>
+                  {totals.puttingHoles > 0 ? (totals.putts / totals.holes * 18).toFixed(1) : '–'}
+                </Text>
+                <Text style={styles.statLabel}>Putts per 18</Text>
+              </View>
+            </View>
           </View>
-        </TouchableOpacity>
-      </TouchableOpacity>
-    </Modal>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Strokes Gained</Text>
+            <Text style={styles.cardSubtitle}>Per 18 holes against a scratch golfer</Text>
+            {STROKES_GAINED_LABELS.map(({ category, label }) => {
+              const value = strokesGained[category];
+              const width = `${Math.abs(value) / maxCategoryGained * 100}%` as const;
+              return (
+                <View key={category} style={styles.gainedRow}>
+                  <Text style={styles.gainedLabel}>{label}</Text>
+                  <View style={styles.gainedTrack}>
+                    <View style={[styles.gainedHalf, { justifyContent: 'flex-end' }]}>
+                      {value < 0 && <View style={[styles.gainedBar, { width, backgroundColor: gainedColor(value) }]} />}
+                    </View>
+                    <View style={styles.gainedHalf}>
+                      {value > 0 && <View style={[styles.gainedBar, { width, backgroundColor: gainedColor(value) }]} />}
+                    </View>
+                  </View>
+                  <Text style={[styles.gainedValue, { color: gainedColor(value) }]}>{formatGained(value)}</Text>
+                </View>
+              );
+            })}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Trend</Text>
+            <Text style={styles.cardSubtitle}>Total strokes gained per 18, last {trend.length} rounds</Text>
+            <View style={styles.trendChart}>
+              {trend.map(stats => {
+                const value = getRoundGained(stats);
+                const height = `${Math.abs(value) / maxGained * 100}%` as const;
+                return (
+                  <View key={stats.roundId} style={styles.trendColumn}>
+                    <View style={styles.trendHalf}>
+                      {value > 0 && <View style={[styles.trendBar, { height, backgroundColor: gainedColor(value) }]} />}
+                    </View>
+                    <View style={[styles.trendHalf, { justifyContent: 'flex-start' }]}>
+                      {value < 0 && <View style={[styles.trendBar, { height, backgroundColor: gainedColor(value) }]} />}
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+
+            {[...trend].reverse().map(stats => (
+              <View key={stats.roundId} style={styles.roundRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.roundName}>{stats.courseName}</Text>
+                  <Text style={styles.roundDetail}>
+                    {new Date(stats.playedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} • FW {formatRate(stats.fairwaysHit, stats.fairwayChances)} • GIR {formatRate(stats.greensInRegulation, stats.girChances)} • {stats.putts} putts
+                  </Text>
+                </View>
+                <Text style={[styles.gainedValue, { color: gainedColor(getRoundGained(stats)) }]}>
+                  {formatGained(getRoundGained(stats))}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {clubTendencies.length > 0 && (
+            <View style={[styles.card, { marginBottom: 40 }]}>
+              <Text style={styles.cardTitle}>Clubs</Text>
+              <Text style={styles.cardSubtitle}>Where each club's shots finished</Text>
+              {clubTendencies.map(club => (
+                <View key={club.club} style={styles.clubRow}>
+                  <Text style={styles.clubName}>{club.club}</Text>
+                  <View>
+                    <Text style={styles.clubDetail}>
+                      {club.shots} shot{club.shots === 1 ? '' : 's'} • {formatRate(club.good, club.shots)} good
+                    </Text>
+                    <Text style={styles.clubDetail}>
+                      {club.tendency ? `Misses ${club.tendency} (${club[club.tendency]})` : 'No clear miss'}
+                      {club.penalties > 0 && ` • ${club.penalties} penalt${club.penalties === 1 ? 'y' : 'ies'}`}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+        </>
+      )}
+    </ScrollView>
   );
 };
 
@@ -3564,8 +4517,11 @@ const CourseSelectionScreen: React.FC<{
   courses: Course[];
   onSelectCourse: (course: Course) => void;
   onCreateCourse: () => void;
+  onImportCourse: () => void;
+  onSelectTeeSet: (courseId: string, teeSetId: string) => void;
+  onShowStats: () => void;
   colors: any;
-}> = ({ courses, onSelectCourse, onCreateCourse, colors }) => {
+}> = ({ courses, onSelectCourse, onCreateCourse, onImportCourse, onSelectTeeSet, onShowStats, colors }) => {
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -3585,6 +4541,24 @@ const CourseSelectionScreen: React.FC<{
       fontSize: 16,
       color: colors.textSecondary,
     },
+    headerButtons: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    statsButton: {
+      alignSelf: 'flex-start',
+      marginTop: 12,
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+      borderRadius: 20,
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    statsButtonText: {
+      color: colors.primary,
+      fontSize: 14,
+      fontWeight: '600',
+    },
     courseList: {
       paddingHorizontal: 20,
     },
@@ -3606,6 +4580,31 @@ const CourseSelectionScreen: React.FC<{
       fontSize: 14,
       color: colors.textSecondary,
     },
+    teeChips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+      marginTop: 10,
+    },
+    teeChip: {
+      paddingVertical: 4,
+      paddingHorizontal: 10,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    teeChipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    teeChipText: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    teeChipTextSelected: {
+      color: colors.background,
+      fontWeight: '600',
+    },
     createButton: {
       backgroundColor: colors.primary,
       paddingVertical: 16,
@@ -3644,6 +4643,14 @@ const CourseSelectionScreen: React.FC<{
       <View style={styles.header}>
         <Text style={styles.title}>Start New Round</Text>
         <Text style={styles.subtitle}>Choose a course to start your round</Text>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity style={styles.statsButton} onPress={onShowStats}>
+            <Text style={styles.statsButtonText}>📊 Stats</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.statsButton} onPress={onImportCourse}>
+            <Text style={styles.statsButtonText}>📥 Import Course</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView style={styles.courseList}>
@@ -3664,7 +4671,24 @@ const CourseSelectionScreen: React.FC<{
               <Text style={styles.courseName}>{course.name}</Text>
               <Text style={styles.courseInfo}>
                 {course.holes.length} holes • Last played: Never
+                {course.sharedBy ? ` • Shared by ${course.sharedBy}` : ''}
               </Text>
+              {(course.teeSets?.length || 0) > 1 && (
+                <View style={styles.teeChips}>
+                  {course.teeSets!.map(teeSet => {
+                    const selected = teeSet.id === course.teeSetId;
+                    return (
+                      <TouchableOpacity
+                        key={teeSet.id}
+                        style={[styles.teeChip, selected && styles.teeChipSelected]}
+                        onPress={() => onSelectTeeSet(course.id, teeSet.id)}
+                      >
+                        <Text style={[styles.teeChipText, selected && styles.teeChipTextSelected]}>{teeSet.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
             </TouchableOpacity>
           ))
         )}
@@ -3693,6 +4717,8 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, {
   onEndRound: () => void;
   onViewSummary: () => void;
   onClose: () => void;
+  onSetPlayerScore: (playerId: string, holeNumber: number, strokes?: number) => void;
+  onManagePlayers: () => void;
   clubs: string[];
   handicap?: number;
   getBumpsForHole: (hole: Hole) => number;
@@ -3700,7 +4726,7 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, {
   colors: any;
   onFlameAnimation: () => void;
   onPoopAnimation: () => void;
-}>(({ course, currentHole, currentRound, data, onNextHole, onPreviousHole, onCompleteHole, onShowHistory, onSaveHoleData, onLoadHoleData, onUpdateTodaysDistance, onEndRound, onViewSummary, onClose, clubs, handicap, getBumpsForHole, getCumulativeOverPar, colors, onFlameAnimation, onPoopAnimation }, ref) => {
+}>(({ course, currentHole, currentRound, data, onNextHole, onPreviousHole, onCompleteHole, onShowHistory, onSaveHoleData, onLoadHoleData, onUpdateTodaysDistance, onEndRound, onViewSummary, onClose, onSetPlayerScore, onManagePlayers, clubs, handicap, getBumpsForHole, getCumulativeOverPar, colors, onFlameAnimation, onPoopAnimation }, ref) => {
   const hole = (course.holes || []).find(h => h.number === currentHole);
   const [shots, setShots] = useState<Shot[]>([]);
   const [putts, setPutts] = useState<Shot[]>([]);
@@ -5148,6 +6174,44 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, {
     penaltyButtonText: {
       color: '#FFFFFF',
     },
+    partnerScore: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      height: 32,
+      paddingLeft: 12,
+      borderRadius: 16,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    partnerName: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+      maxWidth: 80,
+    },
+    partnerStepper: {
+      width: 28,
+      height: 32,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    partnerStepperText: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    partnerStrokes: {
+      fontSize: 16,
+      fontWeight: 'bold',
+      color: colors.text,
+      minWidth: 20,
+      textAlign: 'center',
+    },
+    partnerStrokesUnset: {
+      color: colors.textSecondary,
+      fontWeight: 'normal',
+    },
     addShotGridButton: {
       height: 32,
       paddingHorizontal: 16,
@@ -5893,6 +6957,44 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, {
           </TouchableOpacity>
         </ScrollView>
 
+        {/* Playing partners: score only. The dimmed par confirms par; long press clears. */}
+        {hole && (currentRound?.players || []).length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.shotRow}
+            contentContainerStyle={styles.shotRowContent}
+          >
+            {(currentRound?.players || []).map(player => {
+              const strokes = getPlayerScore(player, currentHole);
+              const base = strokes ?? hole.par;
+              return (
+                <View key={player.id} style={styles.partnerScore}>
+                  <Text style={styles.partnerName} numberOfLines={1}>{player.name}</Text>
+                  <TouchableOpacity
+                    style={styles.partnerStepper}
+                    onPress={() => onSetPlayerScore(player.id, currentHole, Math.max(1, base - 1))}
+                  >
+                    <Text style={styles.partnerStepperText}>−</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => strokes === undefined && onSetPlayerScore(player.id, currentHole, hole.par)}
+                    onLongPress={() => onSetPlayerScore(player.id, currentHole, undefined)}
+                  >
+                    <Text style={[styles.partnerStrokes, strokes === undefined && styles.partnerStrokesUnset]}>{base}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.partnerStepper}
+                    onPress={() => onSetPlayerScore(player.id, currentHole, base + 1)}
+                  >
+                    <Text style={styles.partnerStepperText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </ScrollView>
+        )}
+
       </View>
 
 
@@ -5963,6 +7065,11 @@ const HoleDetailScreen = React.forwardRef<{ saveCurrentData: () => void }, {
           <TouchableOpacity style={[styles.button, styles.navButton]} onPress={handleViewSummary}>
             <Text style={[styles.buttonText, styles.navButtonText]}>Round Summary</Text>
           </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.navButton]} onPress={onManagePlayers}>
+            <Text style={[styles.buttonText, styles.navButtonText]}>
+              👥 {(currentRound?.players || []).length > 0 ? currentRound?.players?.length : 'Players'}
+            </Text>
+          </TouchableOpacity>
         </View>
       </View>
     </View>
@@ -5980,6 +7087,8 @@ const CreateCourseModal: React.FC<{
   const [parList, setParList] = useState('');
   const [difficultyList, setDifficultyList] = useState('');
   const [distanceList, setDistanceList] = useState('');
+  const [courseRating, setCourseRating] = useState('');
+  const [slopeRating, setSlopeRating] = useState('');
 
   const parseSpaceSeparatedList = (input: string, min: number, max: number): number[] => {
     if (!input.trim()) return [];
@@ -5996,6 +7105,11 @@ const CreateCourseModal: React.FC<{
       return;
     }
 
+    const ratings = parseRatings(courseRating, slopeRating);
+    if (!ratings) {
+      return;
+    }
+
     const pars = parseSpaceSeparatedList(parList, 3, 5);
     const difficulties = parseSpaceSeparatedList(difficultyList, 1, 18);
     const distances = parseSpaceSeparatedList(distanceList, 50, 600); // 50-600 yards
@@ -6022,6 +7136,7 @@ const CreateCourseModal: React.FC<{
     onCreateCourse({
       name: courseName.trim(),
       holes,
+      ...ratings,
     });
 
     // Reset form
@@ -6029,6 +7144,8 @@ const CreateCourseModal: React.FC<{
     setParList('');
     setDifficultyList('');
     setDistanceList('');
+    setCourseRating('');
+    setSlopeRating('');
     onClose();
   };
 
@@ -6159,6 +7276,29 @@ const CreateCourseModal: React.FC<{
             Space-separated list of distances in yards (50-600). Defaults to reasonable distances based on par if empty.
           </Text>
 
+          <Text style={styles.fieldLabel}>Course Rating / Slope (Optional)</Text>
+          <View style={{ flexDirection: 'row', gap: 8 }}>
+            <TextInput
+              style={[styles.input, { flex: 1 }]}
+              placeholder="72.1"
+              placeholderTextColor={colors.textSecondary}
+              value={courseRating}
+              onChangeText={setCourseRating}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={[styles.input, { flex: 1 }]}
+              placeholder="113"
+              placeholderTextColor={colors.textSecondary}
+              value={slopeRating}
+              onChangeText={setSlopeRating}
+              keyboardType="numeric"
+            />
+          </View>
+          <Text style={styles.helpText}>
+            From the scorecard, for the tees you play. Used for your handicap; par and 113 if empty.
+          </Text>
+
           <View style={styles.buttons}>
             <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
               <Text style={[styles.buttonText, styles.cancelButtonText]}>Cancel</Text>
@@ -6177,6 +7317,8 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
+  itemType,
+  itemId,
 }) => {
   const { getSparkData, setSparkData } = useSparkStore();
   const { colors } = useTheme();
@@ -6209,11 +7351,12 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
     },
   });
 
-  const [currentScreen, setCurrentScreen] = useState<'course-selection' | 'hole-detail' | 'round-summary'>('course-selection');
+  const [currentScreen, setCurrentScreen] = useState<'course-selection' | 'hole-detail' | 'round-summary' | 'stats'>('course-selection');
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [currentHole, setCurrentHole] = useState(1);
   const [currentRound, setCurrentRound] = useState<Round | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showPlayersModal, setShowPlayersModal] = useState(false);
   const [showHistoryModal, setShowHistoryModal] = useState(false);
   const [showHandicapOnboarding, setShowHandicapOnboarding] = useState(false);
   const [roundEnded, setRoundEnded] = useState(false);
@@ -6253,6 +7396,7 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
           autoAdvance: savedData.settings?.autoAdvance ?? false,
           clubs: savedData.settings?.clubs ?? DEFAULT_CLUBS,
           handicap: savedData.settings?.handicap,
+          partners: savedData.settings?.partners ?? [],
           defaultClubs: savedData.settings?.defaultClubs ?? {
             par5: {
               shot1: 'Driver',
@@ -6274,6 +7418,7 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
         },
       };
       setData(mergedData);
+
       if (savedData.currentRound) {
         setCurrentRound(savedData.currentRound);
         setSelectedCourse(savedData.courses.find(c => c.id === savedData.currentRound?.courseId) || null);
@@ -6282,6 +7427,24 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
     }
   }, [getSparkData]);
 
+  // Opened from a link to a round: show its summary, also when the link changes
+  // while Golf Brain is already open
+  useLinkedItem(
+    'golf-brain',
+    itemType,
+    itemId,
+    (saved, id, type) => {
+      const round = type === 'round' ? saved.rounds?.find(r => r.id === id) : undefined;
+      const courses = [DEFAULT_COURSE, DEFAULT_COURSE_BACK9, ...(saved.courses || [])];
+      return round && { round, course: courses.find(c => c.id === round.courseId) || null };
+    },
+    ({ round, course }) => {
+      setCurrentRound(round);
+      setSelectedCourse(course);
+      setCurrentScreen('round-summary');
+    }
+  );
+
   // Handle screen navigation based on data state
   useEffect(() => {
     // If no courses exist, go to course selection
@@ -6312,18 +7475,83 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
     }
   }, [data.courses, data.rounds, currentScreen, selectedCourse]);
 
+  // Index computed from played rounds, falling back to the one entered by hand
+  const handicapIndex = getHandicapIndex(data.rounds || [], data.courses || [], data.settings.handicap) ?? data.settings.handicap;
+
   // Show handicap onboarding when no handicap is set
   useEffect(() => {
     if (
       currentScreen === 'hole-detail' &&
-      data.settings.handicap === undefined &&
+      handicapIndex === undefined &&
       !showSettings
     ) {
       setShowHandicapOnboarding(true);
-    } else if (data.settings.handicap !== undefined || currentScreen !== 'hole-detail') {
+    } else if (handicapIndex !== undefined || currentScreen !== 'hole-detail') {
       setShowHandicapOnboarding(false);
     }
-  }, [data.settings.handicap, showSettings, currentScreen]);
+  }, [handicapIndex, showSettings, currentScreen]);
+
+  // Register as shareable spark
+  useEffect(() => {
+    ShareableSparkService.registerSpark({
+      sparkId: 'golf-brain',
+      sharingModel: 'copy',
+      getShareableItems: async () => (data.courses || []).map(course => ({
+        id: course.id,
+        title: course.name,
+        description: `${course.holes.length} holes`,
+        sparkId: 'golf-brain',
+        data: toCourseScorecard(course),
+      })),
+      onShareItem: async (itemId: string, friendId: string) => {
+        const course = data.courses?.find(c => c.id === itemId);
+        if (!course) {
+          throw new Error('Course not found');
+        }
+        await ShareableSparkService.shareItemCopy('golf-brain', itemId, friendId, toCourseScorecard(course));
+      },
+    });
+  }, [data.courses]);
+
+  // Add courses friends have shared, so a group only enters a course once
+  useEffect(() => {
+    const receiveSharedCourses = async () => {
+      if (!useAuthStore.getState().isAuthenticated()) return;
+
+      try {
+        const received: string[] = [];
+        const unreadable: string[] = [];
+        const pendingItems = await SharedItemsService.getPendingSharedItems('golf-brain');
+        for (const item of pendingItems) {
+          const { course, errors } = fromCourseScorecard(item.itemData);
+          if (!course) {
+            // Declined, so it isn't read again every time Golf Brain opens
+            console.error(`Error reading shared course ${item.id}:`, errors);
+            await SharedItemsService.rejectSharedItem(item.id);
+            unreadable.push(`Couldn't read a course from ${item.sharedByUserName}. Ask them to share it again.`);
+            continue;
+          }
+          await SharedItemsService.acceptSharedItem(item.id);
+          setData(prev => ({ ...prev, courses: addImportedCourse(prev.courses || [], course, item.sharedByUserName).courses }));
+          received.push(`${course.name} from ${item.sharedByUserName}`);
+        }
+
+        if (received.length > 0) {
+          HapticFeedback.success();
+        }
+        if (received.length + unreadable.length > 0) {
+          Alert.alert(
+            received.length > 0 ? 'Courses Shared With You' : 'Shared Course Not Added',
+            [...received, ...unreadable].join('\n')
+          );
+        }
+      } catch (error) {
+        console.error('Error loading shared courses:', error);
+      }
+    };
+
+    receiveSharedCourses();
+  }, []);
 
   // Save data whenever it changes
   useEffect(() => {
@@ -6346,6 +7574,7 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
       totalPar: (course.holes || []).reduce((sum, hole) => sum + hole.par, 0),
       startedAt: Date.now(),
       isComplete: false,
+      ...(course.teeSetId ? { teeSetId: course.teeSetId } : {}),
     };
 
     setCurrentRound(newRound);
@@ -6357,6 +7586,54 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
     HapticFeedback.light();
   };
 
+  // Apply a change to the round in progress, wherever it's stored
+  const updateCurrentRound = (update: (round: Round) => Round) => {
+    if (!currentRound) return;
+    const updatedRound = update(currentRound);
+    setCurrentRound(updatedRound);
+    setData(prev => ({
+      ...prev,
+      currentRound: updatedRound,
+      rounds: (prev.rounds || []).map(round => (round.id === updatedRound.id ? updatedRound : round)),
+    }));
+  };
+
+  const handleAddPlayer = (partner: GolfPartner) => {
+    updateCurrentRound(round => ({
+      ...round,
+      players: [
+        ...(round.players || []).filter(player => player.id !== partner.id),
+        { ...partner, scores: round.players?.find(player => player.id === partner.id)?.scores || [] },
+      ],
+    }));
+    setData(prev => ({
+      ...prev,
+      settings: { ...prev.settings, partners: rememberPartner(prev.settings.partners || [], partner) },
+    }));
+  };
+
+  const handleRemovePlayer = (playerId: string) => {
+    updateCurrentRound(round => ({
+      ...round,
+      players: (round.players || []).filter(player => player.id !== playerId),
+    }));
+  };
+
+  const handleSetPlayerScore = (playerId: string, holeNumber: number, strokes?: number) => {
+    updateCurrentRound(round => ({
+      ...round,
+      players: (round.players || []).map(player =>
+        player.id === playerId ? setPlayerScore(player, holeNumber, strokes) : player
+      ),
+    }));
+    HapticFeedback.light();
+  };
+
+  const handleSetBet = (bet?: BetSettings) => {
+    updateCurrentRound(round => ({ ...round, bet }));
+    HapticFeedback.light();
+  };
+
   const handleCreateCourse = (courseData: Omit<Course, 'id' | 'createdAt'>) => {
     const newCourse: Course = {
       ...courseData,
@@ -6372,6 +7649,48 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
     HapticFeedback.success();
   };
 
+  const handleImportCourse = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/csv', 'text/comma-separated-values', 'text/plain'],
+        multiple: false,
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      const file = picked.assets[0];
+      const contents = await FileSystem.readAsStringAsync(file.uri, { encoding: 'utf8' });
+      const { course, errors } = parseCourseScorecard(contents, file.name.replace(/\.[^.]+$/, ''));
+      if (!course) {
+        Alert.alert('Import Failed', errors[0] || 'No course found in this file.');
+        return;
+      }
+
+      const result = addImportedCourse(data.courses || [], course);
+      setData(prev => ({ ...prev, courses: result.courses }));
+      HapticFeedback.success();
+      Alert.alert(
+        'Import Complete',
+        result.added
+          ? `${result.course.name} added.`
+          : result.newTees > 0
+            ? `${result.newTees} new set${result.newTees === 1 ? '' : 's'} of tees added to ${result.course.name}.`
+            : `${result.course.name} is already in your courses.`
+      );
+    } catch (error) {
+      console.error('Error importing course:', error);
+      Alert.alert('Import Failed', 'Could not read that file.');
+    }
+  };
+
+  const handleSelectTeeSet = (courseId: string, teeSetId: string) => {
+    setData(prev => ({
+      ...prev,
+      courses: (prev.courses || []).map(course => (course.id === courseId ? applyTeeSet(course, teeSetId) : course)),
+    }));
+    HapticFeedback.light();
+  };
+
   const handleCompleteHole = (holeScore: HoleScore) => {
     if (!currentRound || !selectedCourse) return;
 
@@ -6883,32 +8202,12 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
     }, 3000);
   };
 
-  // Calculate bumps for a hole based on handicap
+  // Calculate bumps for a hole from the course handicap
   const getBumpsForHole = (hole: Hole): number => {
-    if (data.settings.handicap === undefined || data.settings.handicap === 0) {
+    if (handicapIndex === undefined || !selectedCourse) {
       return 0;
     }
-
-    const handicap = data.settings.handicap;
-    const strokeIndex = hole.strokeIndex;
-
-    // For handicaps 1-18: 1 stroke on holes with difficulty index <= handicap
-    if (handicap <= 18) {
-      return strokeIndex <= handicap ? 1 : 0;
-    }
-
-    // For handicaps > 18: 
-    // - 1 stroke on all 18 holes (difficulty index 1-18)
-    // - Additional strokes on the most difficult holes
-    const extraStrokes = handicap - 18;
-    let bumps = 1; // Base stroke for all holes
-
-    // Add extra strokes starting from difficulty index 1
-    if (strokeIndex <= extraStrokes) {
-      bumps += 1;
-    }
-
-    return bumps;
+    return getStrokesReceived(hole, selectedCourse, getCourseHandicap(handicapIndex, selectedCourse));
   };
 
   const getCurrentHoleHistory = (): HoleHistory => {
@@ -7099,6 +8398,18 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
           courses={data.courses.sort((a, b) => a.name.localeCompare(b.name)) || []}
           onSelectCourse={handleSelectCourse}
           onCreateCourse={() => setShowCreateModal(true)}
+          onImportCourse={handleImportCourse}
+          onSelectTeeSet={handleSelectTeeSet}
+          onShowStats={() => setCurrentScreen('stats')}
+          colors={colors}
+        />
+      )}
+
+      {currentScreen === 'stats' && (
+        <GolfStatsScreen
+          rounds={data.rounds || []}
+          courses={data.courses || []}
+          onClose={() => setCurrentScreen('course-selection')}
           colors={colors}
         />
       )}
@@ -7120,8 +8431,10 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
           onEndRound={handleEndRound}
           onViewSummary={handleViewSummary}
           onClose={() => setCurrentScreen('course-selection')}
+          onSetPlayerScore={handleSetPlayerScore}
+          onManagePlayers={() => setShowPlayersModal(true)}
           clubs={data.settings.clubs || DEFAULT_CLUBS}
-          handicap={data.settings.handicap}
+          handicap={handicapIndex}
           getBumpsForHole={getBumpsForHole}
           getCumulativeOverPar={getCumulativeOverPar}
           colors={colors}
@@ -7146,13 +8459,24 @@ export const GolfBrainSpark: React.FC<GolfBrainSparkProps> = ({
           onHolePress={handleHolePress}
           onReturnToRound={handleReturnToRound}
           onEndRound={handleActuallyEndRound}
-          handicap={data.settings.handicap}
+          onSetBet={handleSetBet}
+          handicap={handicapIndex}
           getBumpsForHole={getBumpsForHole}
           colors={colors}
         />
       )}
 
 
+      <PlayersModal
+        visible={showPlayersModal}
+        players={currentRound?.players || []}
+        partners={data.settings.partners || []}
+        onAddPlayer={handleAddPlayer}
+        onRemovePlayer={handleRemovePlayer}
+        onClose={() => setShowPlayersModal(false)}
+        colors={colors}
+      />
+
       <CreateCourseModal
         visible={showCreateModal}
         onClose={() => setShowCreateModal(false)}
@@ -1,24 +1,48 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
-import { useSparkStore } from '../store';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useSparkStore, useSparkData, useLinkedItem } from '../store';
+import { SearchService } from '../services/SearchService';
+import { Idea, IdeasData } from '../types/sparkData';
+import { SparkItemTarget } from '../types/spark';
+import { MySparkStackParamList } from '../types/navigation';
 import { useTheme } from '../contexts/ThemeContext';
 import { createCommonStyles } from '../styles/CommonStyles';
 import { Input } from '../components/FormComponents';
 import { SettingsContainer, SettingsScrollView, SettingsHeader, SettingsFeedbackSection } from '../components/SettingsComponents';
+import { HapticFeedback } from '../utils/haptics';
+import { createTodoFromIdea, findLinkedTodo, formatIdeaContent, getIdeaTagCounts, parseHashtags, sortIdeas, unlinkMissingTodos } from '../utils/ideas';
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { ideasCommandIntents } from './ideasCommands';
 
-interface Idea {
-    id: string;
-    content: string;
-    createdAt: string; // ISO string
-}
-
-interface IdeasSparkProps {
+interface IdeasSparkProps extends SparkItemTarget {
     showSettings?: boolean;
     onCloseSettings?: () => void;
 }
 
-export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSettings }) => {
+// Splits text into "#word" parts and the text between them
+const HASHTAG_SPLIT = /(#[A-Za-z0-9][\w-]*)/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Search index
+SearchService.registerIndexer('ideas', (data: IdeasData) =>
+    (data.ideas || []).map(idea => ({
+        itemType: 'idea',
+        itemId: idea.id,
+        title: idea.content,
+        subtitle: idea.archived ? 'Archived' : undefined,
+    }))
+);
+
+// Voice commands
+ideasCommandIntents.forEach(CommandIntentRegistry.register);
+
+export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSettings, itemId }) => {
     const { getSparkData, setSparkData } = useSparkStore();
+    const [todoData, setTodoData] = useSparkData('todo');
+    const navigation = useNavigation<StackNavigationProp<MySparkStackParamList>>();
     const { colors } = useTheme();
     const commonStyles = createCommonStyles(colors);
 
@@ -27,15 +51,24 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSet
     const [searchKeyword, setSearchKeyword] = useState('');
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
+    const [selectedTag, setSelectedTag] = useState<string | null>(null);
+    const [showArchived, setShowArchived] = useState(false);
+    const [focusedId, setFocusedId] = useState<string | null>(null);
 
     // Load ideas on mount
     useEffect(() => {
         const data = getSparkData('ideas');
         if (data && data.ideas) {
-            setIdeas(data.ideas);
+            setIdeas(unlinkMissingTodos(data.ideas, todoData.todos || []));
         }
     }, [getSparkData]);
 
+    // Opened from a link or search result: show that idea
+    useLinkedItem('ideas', undefined, itemId, (data, id) => data.ideas?.find(idea => idea.id === id), (idea) => {
+        setShowArchived(!!idea.archived);
+        setFocusedId(idea.id);
+    });
+
     // Save ideas when changed
     useEffect(() => {
         const data = getSparkData('ideas');
@@ -47,7 +80,7 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSet
 
         const idea: Idea = {
             id: Date.now().toString(),
-            content: newIdea.trim(),
+            content: formatIdeaContent(newIdea),
             createdAt: new Date().toISOString(),
         };
 
@@ -55,36 +88,85 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSet
         setNewIdea('');
     };
 
+    const updateIdea = (id: string, changes: Partial<Idea>) => {
+        setIdeas(ideas.map(idea => (idea.id === id ? { ...idea, ...changes } : idea)));
+    };
+
+    const togglePinned = (idea: Idea) => {
+        updateIdea(idea.id, { pinned: !idea.pinned });
+        HapticFeedback.light();
+    };
+
+    const toggleArchived = (idea: Idea) => {
+        // Archived ideas drop their pin so they don't jump back to the top when restored
+        updateIdea(idea.id, { archived: !idea.archived, pinned: false });
+        HapticFeedback.light();
+    };
+
+    const getLinkedTodo = (idea: Idea) => findLinkedTodo(idea, todoData.todos || []);
+
+    const promoteToTodo = (idea: Idea) => {
+        const todos = todoData.todos || [];
+        const todo = createTodoFromIdea(idea, todos);
+
+        setTodoData({
+            todos: [...todos, todo],
+            lastUpdated: new Date().toISOString(),
+        });
+        updateIdea(idea.id, { todoId: todo.id });
+        HapticFeedback.success();
+    };
+
     const formatDate = (isoString: string) => {
         return isoString.split('T')[0];
     };
 
-    const renderContentWithHighlight = (content: string, keyword: string) => {
-        if (!keyword) return <Text style={{ color: colors.text }}>{content}</Text>;
+    const renderKeywordHighlight = (text: string, keyword: string, keyPrefix: string) => {
+        if (!keyword) return <Text key={keyPrefix}>{text}</Text>;
 
-        const parts = content.split(new RegExp(`(${keyword})`, 'gi'));
-        return (
-            <Text style={{ color: colors.text }}>
-                {parts.map((part, index) =>
-                    part.toLowerCase() === keyword.toLowerCase() ? (
-                        <Text key={index} style={styles.highlightedText}>{part}</Text>
-                    ) : (
-                        <Text key={index}>{part}</Text>
-                    )
-                )}
-            </Text>
+        const parts = text.split(new RegExp(`(${escapeRegExp(keyword)})`, 'gi'));
+        return parts.map((part, index) =>
+            part.toLowerCase() === keyword.toLowerCase() ? (
+                <Text key={`${keyPrefix}-${index}`} style={styles.highlightedText}>{part}</Text>
+            ) : (
+                <Text key={`${keyPrefix}-${index}`}>{part}</Text>
+            )
         );
     };
 
-    const filteredIdeas = ideas.filter(idea => {
+    // Hashtags are shown as tappable tags that filter the list
+    const renderContent = (content: string, keyword: string) => (
+        <Text style={{ color: colors.text }}>
+            {content.split(HASHTAG_SPLIT).map((part, index, parts) => {
+                // Odd parts are "#word"; it's a tag unless it follows a letter, as in "a#b"
+                const isTag = index % 2 === 1 && !/[^\s(,.;:!?]$/.test(parts[index - 1]);
+                if (isTag) {
+                    const tag = part.slice(1).toLowerCase();
+                    return (
+                        <Text key={index} style={styles.hashtag} onPress={() => setSelectedTag(tag)}>
+                            {part}
+                        </Text>
+                    );
+                }
+                return renderKeywordHighlight(part, keyword, String(index));
+            })}
+        </Text>
+    );
+
+    const visibleIdeas = ideas.filter(idea => !!idea.archived === showArchived);
+    const tagCounts = getIdeaTagCounts(visibleIdeas);
+    const archivedCount = ideas.filter(idea => idea.archived).length;
+
+    const filteredIdeas = sortIdeas(visibleIdeas).filter(idea => {
         const matchKeyword = !searchKeyword || idea.content.toLowerCase().includes(searchKeyword.toLowerCase());
+        const matchTag = !selectedTag || parseHashtags(idea.content).includes(selectedTag);
 
         // Simple date string comparison (YYYY-MM-DD)
         const ideaDate = idea.createdAt.split('T')[0];
         const afterStart = !startDate || ideaDate >= startDate;
         const beforeEnd = !endDate || ideaDate <= endDate;
 
-        return matchKeyword && afterStart && beforeEnd;
+        return matchKeyword && matchTag && afterStart && beforeEnd;
     });
 
     const styles = StyleSheet.create({
@@ -126,6 +208,30 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSet
             padding: 12,
             borderRadius: 8,
         },
+        tagBar: {
+            flexGrow: 0,
+            marginBottom: 12,
+        },
+        tagChip: {
+            paddingHorizontal: 12,
+            paddingVertical: 6,
+            borderRadius: 16,
+            backgroundColor: colors.surface,
+            borderWidth: 1,
+            borderColor: colors.border,
+            marginRight: 8,
+        },
+        tagChipSelected: {
+            backgroundColor: colors.primary,
+            borderColor: colors.primary,
+        },
+        tagChipText: {
+            fontSize: 14,
+            color: colors.text,
+        },
+        tagChipTextSelected: {
+            color: '#fff',
+        },
         ideasList: {
             flex: 1,
         },
@@ -137,16 +243,39 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSet
             borderLeftWidth: 4,
             borderLeftColor: colors.primary,
         },
+        ideaCardFocused: {
+            borderWidth: 2,
+            borderColor: colors.primary,
+        },
+        ideaMetaRow: {
+            flexDirection: 'row',
+            justifyContent: 'space-between',
+            marginBottom: 4,
+        },
         ideaDate: {
             fontSize: 12,
             color: colors.textSecondary,
-            marginBottom: 4,
         },
         ideaText: {
             fontSize: 16,
             color: colors.text,
             lineHeight: 22,
         },
+        hashtag: {
+            color: colors.primary,
+            fontWeight: '600',
+        },
+        ideaActions: {
+            flexDirection: 'row',
+            flexWrap: 'wrap',
+            gap: 16,
+            marginTop: 12,
+        },
+        ideaActionText: {
+            fontSize: 14,
+            color: colors.primary,
+            fontWeight: '600',
+        },
         highlightedText: {
             textDecorationLine: 'underline',
             fontWeight: 'bold',
@@ -196,6 +325,19 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSet
         );
     }
 
+    const renderTagChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={key}
+            style={[styles.tagChip, selected && styles.tagChipSelected]}
+            onPress={() => {
+                onPress();
+                HapticFeedback.selection();
+            }}
+        >
+            <Text style={[styles.tagChipText, selected && styles.tagChipTextSelected]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
     return (
         <View style={styles.container}>
             <Text style={styles.header}>Ideas 💡</Text>
@@ -203,7 +345,7 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSet
             <View style={styles.inputContainer}>
                 <Input
                     containerStyle={{ flex: 1, marginBottom: 0 }}
-                    placeholder="New Idea..."
+                    placeholder="New Idea... use #tags"
                     value={newIdea}
                     onChangeText={setNewIdea}
                     label="Capture Idea"
@@ -244,18 +386,55 @@ export const IdeasSpark: React.FC<IdeasSparkProps> = ({ showSettings, onCloseSet
                 </View>
             </View>
 
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tagBar}>
+                {renderTagChip('all', 'All', !selectedTag, () => setSelectedTag(null))}
+                {tagCounts.map(({ tag, count }) =>
+                    renderTagChip(tag, `#${tag} (${count})`, selectedTag === tag, () => setSelectedTag(selectedTag === tag ? null : tag))
+                )}
+                {(archivedCount > 0 || showArchived) &&
+                    renderTagChip('archived', `🗄 Archived (${archivedCount})`, showArchived, () => {
+                        setShowArchived(!showArchived);
+                        setSelectedTag(null);
+                    })}
+            </ScrollView>
+
             <ScrollView style={styles.ideasList}>
-                {filteredIdeas.map(idea => (
-                    <View key={idea.id} style={styles.ideaCard}>
-                        <Text style={styles.ideaDate}>{formatDate(idea.createdAt)}</Text>
-                        <Text style={styles.ideaText}>
-                            {renderContentWithHighlight(idea.content, searchKeyword)}
-                        </Text>
-                    </View>
-                ))}
+                {filteredIdeas.map(idea => {
+                    const linkedTodo = getLinkedTodo(idea);
+                    return (
+                        <View key={idea.id} style={[styles.ideaCard, focusedId === idea.id && styles.ideaCardFocused]}>
+                            <View style={styles.ideaMetaRow}>
+                                <Text style={styles.ideaDate}>{formatDate(idea.createdAt)}</Text>
+                                {idea.pinned && <Text style={styles.ideaDate}>📌 Pinned</Text>}
+                            </View>
+                            <Text style={styles.ideaText}>
+                                {renderContent(idea.content, searchKeyword)}
+                            </Text>
+                            <View style={styles.ideaActions}>
+                                {!idea.archived && (
+                                    <TouchableOpacity onPress={() => togglePinned(idea)}>
+                                        <Text style={styles.ideaActionText}>{idea.pinned ? 'Unpin' : '📌 Pin'}</Text>
+                                    </TouchableOpacity>
+                                )}
+                                {linkedTodo ? (
+                                    <TouchableOpacity onPress={() => navigation.navigate('Spark', { sparkId: 'todo', itemType: 'todo', itemId: String(linkedTodo.id) })}>
+                                        <Text style={styles.ideaActionText}>{linkedTodo.completed ? '✅ Todo done' : '☑️ Open todo'}</Text>
+                                    </TouchableOpacity>
+                                ) : (
+                                    <TouchableOpacity onPress={() => promoteToTodo(idea)}>
+                                        <Text style={styles.ideaActionText}>➕ Make todo</Text>
+                                    </TouchableOpacity>
+                                )}
+                                <TouchableOpacity onPress={() => toggleArchived(idea)}>
+                                    <Text style={styles.ideaActionText}>{idea.archived ? 'Restore' : '🗄 Archive'}</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </View>
+                    );
+                })}
                 {filteredIdeas.length === 0 && (
                     <Text style={styles.emptyText}>
-                        No ideas found
+                        {showArchived ? 'No archived ideas' : 'No ideas found'}
                     </Text>
                 )}
             </ScrollView>
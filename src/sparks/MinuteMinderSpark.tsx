@@ -11,6 +11,7 @@ import Svg, { Circle } from 'react-native-svg';
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
 import { GeminiService } from '../services/GeminiService';
+import { JSONSchema } from '../types/llm';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 import {
@@ -28,6 +29,20 @@ interface Activity {
   order: number;
 }
 
+// Shape the schedule scan must return before it's accepted
+const SCANNED_SCHEDULE_SCHEMA: JSONSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      startTime: { type: 'string' },
+      duration: { type: 'number', minimum: 0 },
+      activity: { type: 'string' },
+    },
+    required: ['startTime', 'duration', 'activity'],
+  },
+};
+
 interface TimerState {
   isActive: boolean;
   startDate: Date | null;
@@ -188,7 +203,11 @@ export const MinuteMinderSpark: React.FC<MinuteMinderSparkProps> = ({
             Order them chronologically.
           `;
 
-          const scannedData = await GeminiService.generateJSON<Array<{ startTime: string, duration: number, activity: string }>>(jsonPrompt, [result.assets[0].base64]);
+          const scannedData = await GeminiService.generateJSON<Array<{ startTime: string, duration: number, activity: string }>>(
+            jsonPrompt,
+            [result.assets[0].base64],
+            { schema: SCANNED_SCHEDULE_SCHEMA }
+          );
 
           if (Array.isArray(scannedData) && scannedData.length > 0) {
             const formattedText = scannedData
@@ -1,6 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert } from 'react-native';
-import { useSparkStore } from '../store';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert, Modal } from 'react-native';
+import { useSparkStore, useSparkData, useLinkedItem } from '../store';
+import { SearchService } from '../services/SearchService';
+import {
+  PackingCategory,
+  PackingItem,
+  PackingListData,
+  PackingTemplate,
+  PackingTripList,
+} from '../types/sparkData';
+import { SparkItemTarget } from '../types/spark';
 import { HapticFeedback } from '../utils/haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import { createCommonStyles } from '../styles/CommonStyles';
@@ -18,13 +27,17 @@ import {
   SettingsRemoveButton,
   SettingsFeedbackSection,
 } from '../components/SettingsComponents';
-
-interface PackingItem {
-  id: number;
-  item: string;
-  count: number;
-  packed: boolean;
-}
+import {
+  PACKING_CATEGORIES,
+  BUILT_IN_TEMPLATES,
+  buildItemsFromTemplate,
+  createTemplateFromItems,
+  getTripDays,
+  groupItemsByCategory,
+} from '../utils/packingTemplates';
+import { generateId } from '../utils/idUtils';
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { packingListCommandIntents } from './packingListCommands';
 
 const defaultItems: PackingItem[] = [
   { id: 1, item: "T-shirts", count: 3, packed: false },
@@ -37,22 +50,35 @@ const defaultItems: PackingItem[] = [
   { id: 8, item: "Jacket", count: 1, packed: false },
 ];
 
+// Trips from TripStory that a list can be linked to
+interface LinkableTrip {
+  id: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+  status?: string;
+}
+
 interface NewItem {
   item: string;
   count: string;
+  category: PackingCategory;
 }
 
 const PackingListSettings: React.FC<{
   items: PackingItem[];
+  listName: string;
+  templates: PackingTemplate[];
   onSave: (items: PackingItem[]) => void;
+  onRemoveTemplate: (id: string) => void;
   onClose: () => void;
-}> = ({ items, onSave, onClose }) => {
+}> = ({ items, listName, templates, onSave, onRemoveTemplate, onClose }) => {
   const { colors } = useTheme();
   const [packingItems, setPackingItems] = useState<PackingItem[]>(items);
   const [countInputs, setCountInputs] = useState<Record<number, string>>(
     items.reduce((acc, item) => ({ ...acc, [item.id]: item.count.toString() }), {} as Record<number, string>)
   );
-  const [newItem, setNewItem] = useState<NewItem>({ item: '', count: '1' });
+  const [newItem, setNewItem] = useState<NewItem>({ item: '', count: '1', category: 'other' });
 
   // Sync countInputs when items prop changes
   useEffect(() => {
@@ -78,11 +104,12 @@ const PackingListSettings: React.FC<{
       item: newItem.item.trim(),
       count: count,
       packed: false,
+      category: newItem.category,
     };
 
     setPackingItems([...packingItems, newPackingItem]);
     setCountInputs({ ...countInputs, [newId]: count.toString() });
-    setNewItem({ item: '', count: '1' });
+    setNewItem({ item: '', count: '1', category: newItem.category });
     HapticFeedback.success();
   };
 
@@ -247,6 +274,31 @@ const PackingListSettings: React.FC<{
       textAlign: 'center',
       marginRight: 10,
     },
+    categoryRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 15,
+    },
+    categoryChip: {
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    categoryChipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    categoryChipText: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    itemCategoryIcon: {
+      fontSize: 16,
+      marginRight: 8,
+    },
   });
 
   return (
@@ -254,7 +306,7 @@ const PackingListSettings: React.FC<{
       <SettingsScrollView>
         <SettingsHeader
           title="Packing List Settings"
-          subtitle="Manage your packing items"
+          subtitle={`Manage the items on ${listName}`}
           icon="⚙️"
         />
 
@@ -276,12 +328,31 @@ const PackingListSettings: React.FC<{
               keyboardType="numeric"
             />
           </View>
+          <View style={styles.categoryRow}>
+            {PACKING_CATEGORIES.map(category => {
+              const selected = newItem.category === category.key;
+              return (
+                <TouchableOpacity
+                  key={category.key}
+                  style={[styles.categoryChip, selected && styles.categoryChipSelected]}
+                  onPress={() => setNewItem({ ...newItem, category: category.key })}
+                >
+                  <Text style={[styles.categoryChipText, selected && { color: '#fff' }]}>
+                    {category.icon} {category.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
           <SettingsButton title="Add Item" onPress={addNewItem} />
         </SettingsSection>
 
         <SettingsSection title={`Your Items (${packingItems.length})`}>
           {packingItems.map((item) => (
             <SettingsItem key={item.id}>
+              <Text style={styles.itemCategoryIcon}>
+                {PACKING_CATEGORIES.find(category => category.key === (item.category || 'other'))?.icon}
+              </Text>
               <TextInput
                 style={styles.itemInputInline}
                 value={item.item}
@@ -300,69 +371,240 @@ const PackingListSettings: React.FC<{
           ))}
         </SettingsSection>
 
+        {templates.length > 0 && (
+          <SettingsSection title="Your Templates">
+            {templates.map(template => (
+              <SettingsItem key={template.id}>
+                <View style={{ flex: 1 }}>
+                  <SettingsText>{template.icon} {template.name}</SettingsText>
+                  <SettingsText variant="caption">{template.items.length} items</SettingsText>
+                </View>
+                <SettingsRemoveButton onPress={() => onRemoveTemplate(template.id)} />
+              </SettingsItem>
+            ))}
+          </SettingsSection>
+        )}
+
         <SaveCancelButtons onSave={saveSettings} onCancel={onClose} />
       </SettingsScrollView>
     </SettingsContainer>
   );
 };
 
-interface PackingListSparkProps {
+interface PackingListSparkProps extends SparkItemTarget {
   showSettings?: boolean;
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
 }
 
+// Search index
+SearchService.registerIndexer('packing-list', (data: PackingListData) => [
+  ...(data.items || []).map(item => ({
+    itemType: 'item',
+    itemId: String(item.id),
+    title: item.item,
+    subtitle: item.packed ? 'Packed' : `Pack ${item.count}`,
+  })),
+  ...(data.lists || []).map(list => ({
+    itemType: 'list',
+    itemId: list.id,
+    title: list.name,
+    subtitle: `${list.items.filter(item => item.packed).length} of ${list.items.length} packed`,
+    body: list.items.map(item => item.item).join(' '),
+  })),
+]);
+
+// Voice commands
+packingListCommandIntents.forEach(CommandIntentRegistry.register);
+
 export const PackingListSpark: React.FC<PackingListSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
-  onComplete
+  onComplete,
+  itemType,
+  itemId,
 }) => {
-  const { getSparkData, setSparkData } = useSparkStore();
+  const { getSparkData } = useSparkStore();
   const { colors } = useTheme();
 
-  const [items, setItems] = useState<PackingItem[]>(defaultItems);
-
-  // Load saved data on mount
+  const [storedData, setPackingData] = useSparkData('packing-list');
+  // The stored data as this screen last saved it, so only changes made elsewhere are taken in
+  const readStoredData = () => useSparkStore.getState().sparkData['packing-list'];
+  const lastSavedData = useRef(readStoredData());
+  const [items, setItems] = useState<PackingItem[]>(storedData.items || defaultItems);
+  const [lists, setLists] = useState<PackingTripList[]>(storedData.lists || []);
+  const [activeListId, setActiveListId] = useState<string | null>(storedData.activeListId ?? null);
+  const [templates, setTemplates] = useState<PackingTemplate[]>(storedData.templates || []);
+
+  // New trip list form
+  const [showNewList, setShowNewList] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const [newListDays, setNewListDays] = useState('3');
+  const [newListTemplateId, setNewListTemplateId] = useState(BUILT_IN_TEMPLATES[0].id);
+  const [newListTripId, setNewListTripId] = useState<string | null>(null);
+
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...templates];
+  const activeList = lists.find(list => list.id === activeListId) || null;
+  const activeItems = activeList ? activeList.items : items;
+
+  // Upcoming and current TripStory trips to link new lists to
+  const storyTrips: LinkableTrip[] = getSparkData('trip-story')?.trips || [];
+  const linkableTrips = storyTrips
+    .filter(trip => trip.status !== 'completed')
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  // Take in changes made outside this screen, e.g. a voice command or its undo
   useEffect(() => {
-    const savedData = getSparkData('packing-list');
-    if (savedData.items) {
-      setItems(savedData.items);
-    }
-  }, [getSparkData]);
-
-  // Save data whenever items change
+    if (readStoredData() === lastSavedData.current) return;
+    lastSavedData.current = readStoredData();
+    setItems(storedData.items || defaultItems);
+    setLists(storedData.lists || []);
+    setActiveListId(storedData.activeListId ?? null);
+    setTemplates(storedData.templates || []);
+  }, [storedData]);
+
+  // Save data whenever it changes
   useEffect(() => {
-    setSparkData('packing-list', {
+    // Nothing to save when the state was just taken in from the store
+    if (storedData.items === items && storedData.lists === lists && storedData.activeListId === activeListId && storedData.templates === templates) {
+      return;
+    }
+    setPackingData({
       items,
+      lists,
+      activeListId,
+      templates,
       lastUpdated: new Date().toISOString(),
     });
-  }, [items, setSparkData]);
+    lastSavedData.current = readStoredData();
+  }, [items, lists, activeListId, templates, setPackingData]);
+
+  // Opened from a search result or a TripStory trip: show that list, or
+  // start one for a trip that doesn't have one yet
+  useLinkedItem(
+    'packing-list',
+    itemType,
+    itemId,
+    (data, id, type): PackingTripList | LinkableTrip | undefined => {
+      if (type === 'list') return data.lists?.find(list => list.id === id);
+      if (type === 'trip') return data.lists?.find(list => list.tripId === id) || linkableTrips.find(t => t.id === id);
+      return undefined;
+    },
+    (found) => ('items' in found ? setActiveListId(found.id) : openNewList(found))
+  );
+
+  // Update the items of whichever list is showing
+  const setActiveItems = (updater: (current: PackingItem[]) => PackingItem[]) => {
+    if (activeList) {
+      setLists(current => current.map(list =>
+        list.id === activeList.id ? { ...list, items: updater(list.items) } : list
+      ));
+    } else {
+      setItems(updater);
+    }
+  };
 
   const toggleItemPacked = (id: number) => {
-    setItems(items.map(item => {
-      if (item.id === id) {
-        const newPacked = !item.packed;
-        HapticFeedback.light();
-        return { ...item, packed: newPacked };
-      }
-      return item;
-    }));
+    HapticFeedback.light();
+    setActiveItems(current => current.map(item =>
+      item.id === id ? { ...item, packed: !item.packed } : item
+    ));
   };
 
   const uncheckAll = () => {
-    setItems(items.map(item => ({ ...item, packed: false })));
+    setActiveItems(current => current.map(item => ({ ...item, packed: false })));
     HapticFeedback.medium();
   };
 
   const saveCustomItems = (newItems: PackingItem[]) => {
-    setItems(newItems);
+    setActiveItems(() => newItems);
     HapticFeedback.success();
   };
 
-  const packedCount = items.filter(item => item.packed).length;
-  const totalCount = items.length;
+  const openNewList = (trip?: LinkableTrip) => {
+    setNewListName(trip?.title || '');
+    setNewListDays(String(trip ? getTripDays(trip.startDate, trip.endDate) : 3));
+    setNewListTemplateId(BUILT_IN_TEMPLATES[0].id);
+    setNewListTripId(trip?.id || null);
+    setShowNewList(true);
+    HapticFeedback.light();
+  };
+
+  const selectLinkedTrip = (trip: LinkableTrip | null) => {
+    setNewListTripId(trip?.id || null);
+    if (trip) {
+      if (!newListName.trim()) setNewListName(trip.title);
+      setNewListDays(String(getTripDays(trip.startDate, trip.endDate)));
+    }
+    HapticFeedback.selection();
+  };
+
+  const createList = () => {
+    const template = allTemplates.find(t => t.id === newListTemplateId);
+    const days = parseInt(newListDays, 10);
+    if (!template) return;
+    if (!(days > 0)) {
+      Alert.alert('Error', 'Please enter how many days the trip lasts');
+      return;
+    }
+
+    const list: PackingTripList = {
+      id: generateId(),
+      name: newListName.trim() || `${template.name} trip`,
+      days,
+      templateId: template.id,
+      tripId: newListTripId || undefined,
+      items: buildItemsFromTemplate(template, days),
+      createdAt: new Date().toISOString(),
+    };
+
+    setLists(current => [...current, list]);
+    setActiveListId(list.id);
+    setShowNewList(false);
+    HapticFeedback.success();
+  };
+
+  const deleteActiveList = () => {
+    if (!activeList) return;
+    Alert.alert('Delete List', `Delete the packing list for "${activeList.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          setLists(current => current.filter(list => list.id !== activeList.id));
+          setActiveListId(null);
+          HapticFeedback.medium();
+        },
+      },
+    ]);
+  };
+
+  const saveAsTemplate = () => {
+    const name = activeList ? activeList.name : 'Everyday';
+    Alert.alert('Save as Template', `Save the items on "${name}" as a template for future trips?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Save',
+        onPress: () => {
+          setTemplates(current => [...current, createTemplateFromItems(generateId(), name, activeItems)]);
+          HapticFeedback.success();
+        },
+      },
+    ]);
+  };
+
+  const removeTemplate = (id: string) => {
+    setTemplates(current => current.filter(template => template.id !== id));
+    HapticFeedback.medium();
+  };
+
+  const linkedTrip = activeList?.tripId ? storyTrips.find(trip => trip.id === activeList.tripId) : undefined;
+  const groups = groupItemsByCategory(activeItems);
+  const packedCount = activeItems.filter(item => item.packed).length;
+  const totalCount = activeItems.length;
   const progressPercentage = totalCount > 0 ? (packedCount / totalCount) * 100 : 0;
 
   const commonStyles = createCommonStyles(colors);
@@ -481,13 +723,78 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
       fontSize: 16,
       fontWeight: '600',
     },
+    listTabs: {
+      gap: 8,
+      paddingBottom: StyleTokens.spacing.lg,
+    },
+    listTab: {
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    listTabActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    listTabText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    listTabTextActive: {
+      color: '#fff',
+    },
+    listMeta: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: StyleTokens.spacing.lg,
+    },
+    categoryHeader: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.textSecondary,
+      marginTop: StyleTokens.spacing.lg,
+      marginBottom: 4,
+    },
+    modalContent: {
+      padding: 20,
+      paddingTop: 40,
+    },
+    formLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginTop: 20,
+      marginBottom: 8,
+    },
+    formInput: {
+      backgroundColor: colors.surface,
+      borderColor: colors.border,
+      borderWidth: 1,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      color: colors.text,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
   });
 
   if (showSettings) {
     return (
       <PackingListSettings
-        items={items}
+        items={activeItems}
+        listName={activeList ? activeList.name : 'your everyday list'}
+        templates={templates}
         onSave={saveCustomItems}
+        onRemoveTemplate={removeTemplate}
         onClose={onCloseSettings || (() => { })}
       />
     );
@@ -514,33 +821,74 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
         </View>
       </View>
 
-      <View style={styles.listContainer}>
-        <Text style={styles.listTitle}>📝 Items to Pack</Text>
-        {items.map((item, index) => (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.listTabs}>
+        <TouchableOpacity
+          style={[styles.listTab, !activeList && styles.listTabActive]}
+          onPress={() => setActiveListId(null)}
+        >
+          <Text style={[styles.listTabText, !activeList && styles.listTabTextActive]}>Everyday</Text>
+        </TouchableOpacity>
+        {lists.map(list => (
           <TouchableOpacity
-            key={item.id}
-            style={[styles.listItem, index === items.length - 1 && styles.lastItem]}
-            onPress={() => toggleItemPacked(item.id)}
+            key={list.id}
+            style={[styles.listTab, activeList?.id === list.id && styles.listTabActive]}
+            onPress={() => setActiveListId(list.id)}
           >
-            <Text
-              style={[
-                styles.itemText,
-                item.packed && styles.itemTextPacked
-              ]}
-            >
-              {item.item}
-            </Text>
-            <View style={[
-              styles.countBadge,
-              item.packed && styles.countBadgePacked
-            ]}>
-              <Text style={styles.countText}>{item.count}</Text>
-            </View>
-            <Text style={styles.checkmark}>
-              {item.packed ? '✅' : '⬜'}
+            <Text style={[styles.listTabText, activeList?.id === list.id && styles.listTabTextActive]}>
+              {allTemplates.find(t => t.id === list.templateId)?.icon || '🧳'} {list.name}
             </Text>
           </TouchableOpacity>
         ))}
+        <TouchableOpacity style={styles.listTab} onPress={() => openNewList()}>
+          <Text style={styles.listTabText}>+ New Trip</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <View style={styles.listContainer}>
+        <Text style={styles.listTitle}>📝 {activeList ? activeList.name : 'Items to Pack'}</Text>
+        {activeList && (
+          <Text style={styles.listMeta}>
+            {activeList.days} day{activeList.days === 1 ? '' : 's'}
+            {linkedTrip ? ` · ✈️ ${linkedTrip.title}` : ''}
+          </Text>
+        )}
+        {groups.map(group => {
+          const category = PACKING_CATEGORIES.find(c => c.key === group.category);
+          return (
+            <View key={group.category}>
+              {groups.length > 1 && (
+                <Text style={styles.categoryHeader}>
+                  {category?.icon} {category?.label} ({group.items.filter(item => item.packed).length}/{group.items.length})
+                </Text>
+              )}
+              {group.items.map((item, index) => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[styles.listItem, index === group.items.length - 1 && styles.lastItem]}
+                  onPress={() => toggleItemPacked(item.id)}
+                >
+                  <Text
+                    style={[
+                      styles.itemText,
+                      item.packed && styles.itemTextPacked
+                    ]}
+                  >
+                    {item.item}
+                  </Text>
+                  <View style={[
+                    styles.countBadge,
+                    item.packed && styles.countBadgePacked
+                  ]}>
+                    <Text style={styles.countText}>{item.count}</Text>
+                  </View>
+                  <Text style={styles.checkmark}>
+                    {item.packed ? '✅' : '⬜'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          );
+        })}
       </View>
 
       <View style={styles.bottomButtons}>
@@ -550,8 +898,89 @@ export const PackingListSpark: React.FC<PackingListSparkProps> = ({
         >
           <Text style={styles.uncheckAllButtonText}>Uncheck All Items</Text>
         </TouchableOpacity>
-
+        <TouchableOpacity style={styles.settingsButton} onPress={saveAsTemplate}>
+          <Text style={styles.settingsButtonText}>Save as Template</Text>
+        </TouchableOpacity>
+        {activeList && (
+          <TouchableOpacity style={styles.settingsButton} onPress={deleteActiveList}>
+            <Text style={[styles.settingsButtonText, { color: colors.error }]}>Delete This List</Text>
+          </TouchableOpacity>
+        )}
       </View>
+
+      <Modal visible={showNewList} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setShowNewList(false)}>
+        <ScrollView style={{ flex: 1, backgroundColor: colors.background }} contentContainerStyle={styles.modalContent}>
+          <Text style={styles.title}>New Trip List</Text>
+
+          <Text style={styles.formLabel}>Template</Text>
+          <View style={styles.chipRow}>
+            {allTemplates.map(template => (
+              <TouchableOpacity
+                key={template.id}
+                style={[styles.listTab, newListTemplateId === template.id && styles.listTabActive]}
+                onPress={() => setNewListTemplateId(template.id)}
+              >
+                <Text style={[styles.listTabText, newListTemplateId === template.id && styles.listTabTextActive]}>
+                  {template.icon} {template.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {linkableTrips.length > 0 && (
+            <>
+              <Text style={styles.formLabel}>TripStory Trip</Text>
+              <View style={styles.chipRow}>
+                <TouchableOpacity
+                  style={[styles.listTab, !newListTripId && styles.listTabActive]}
+                  onPress={() => selectLinkedTrip(null)}
+                >
+                  <Text style={[styles.listTabText, !newListTripId && styles.listTabTextActive]}>None</Text>
+                </TouchableOpacity>
+                {linkableTrips.map(trip => (
+                  <TouchableOpacity
+                    key={trip.id}
+                    style={[styles.listTab, newListTripId === trip.id && styles.listTabActive]}
+                    onPress={() => selectLinkedTrip(trip)}
+                  >
+                    <Text style={[styles.listTabText, newListTripId === trip.id && styles.listTabTextActive]}>
+                      ✈️ {trip.title}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <Text style={styles.formLabel}>Name</Text>
+          <TextInput
+            style={styles.formInput}
+            placeholder="e.g. Maui in June"
+            placeholderTextColor={colors.textSecondary}
+            value={newListName}
+            onChangeText={setNewListName}
+          />
+
+          <Text style={styles.formLabel}>Days</Text>
+          <TextInput
+            style={styles.formInput}
+            value={newListDays}
+            onChangeText={setNewListDays}
+            keyboardType="number-pad"
+            maxLength={3}
+          />
+          <Text style={styles.listMeta}>Clothes and other daily items are scaled to the trip length.</Text>
+
+          <View style={styles.bottomButtons}>
+            <TouchableOpacity style={[styles.uncheckAllButton, { backgroundColor: colors.primary }]} onPress={createList}>
+              <Text style={styles.uncheckAllButtonText}>Create List</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.settingsButton} onPress={() => setShowNewList(false)}>
+              <Text style={styles.settingsButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </Modal>
     </ScrollView>
   );
 };
\ No newline at end of file
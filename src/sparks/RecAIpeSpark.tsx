@@ -10,7 +10,8 @@ import {
     Alert,
 } from 'react-native';
 import { useTheme } from '../contexts/ThemeContext';
-import { useSparkStore } from '../store';
+import { useSparkStore, useLinkedItem } from '../store';
+import { SearchService } from '../services/SearchService';
 import { SparkProps } from '../types/spark';
 import {
     SettingsContainer,
@@ -20,6 +21,7 @@ import {
     SaveCancelButtons,
 } from '../components/SettingsComponents';
 import { HapticFeedback } from '../utils/haptics';
+import { GeminiService } from '../services/GeminiService';
 
 interface Recipe {
     id: string;
@@ -73,9 +75,19 @@ Cool: Let the cookies cool on the baking sheets for 5 minutes before transferrin
     cookingChecked: [],
 };
 
-const GEMINI_API_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY || '';
 
-export const RecAIpeSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettings }) => {
+// Search index
+SearchService.registerIndexer('recaipe', (data: RecAIpeData) =>
+    (data.recipes || []).map(recipe => ({
+        itemType: 'recipe',
+        itemId: recipe.id,
+        title: recipe.title,
+        subtitle: recipe.originalPrompt,
+        body: recipe.ingredients,
+    }))
+);
+
+export const RecAIpeSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettings, itemId }) => {
     const { colors } = useTheme();
     const { getSparkData, setSparkData } = useSparkStore();
 
@@ -93,6 +105,7 @@ export const RecAIpeSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettin
         const saved = getSparkData('recaipe') as any;
         if (saved?.recipes) {
             setData({ recipes: saved.recipes });
+
             // Restore previous state
             if (saved.lastMode) {
                 setMode(saved.lastMode);
@@ -111,6 +124,18 @@ export const RecAIpeSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettin
         }
     }, []);
 
+    // Opened from a search result: show that recipe instead of the last state
+    useLinkedItem(
+        'recaipe',
+        undefined,
+        itemId,
+        (data, id) => (data.recipes as Recipe[] | undefined)?.find(r => r.id === id),
+        (recipe) => {
+            setSelectedRecipe(recipe);
+            setMode('view');
+        }
+    );
+
     // Save data with state
     const saveData = (newData: RecAIpeData) => {
         setData(newData);
@@ -136,8 +161,8 @@ export const RecAIpeSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettin
 
     // AI Generation
     const generateRecipe = async (prompt: string, currentRecipe?: string) => {
-        if (!GEMINI_API_KEY) {
-            Alert.alert('Error', 'Gemini API key not configured. Please add EXPO_PUBLIC_GEMINI_API_KEY to your .env file.');
+        if (!GeminiService.isConfigured()) {
+            Alert.alert('Error', `AI provider not configured. ${GeminiService.getSetupHint()}`);
             return;
         }
 
@@ -178,30 +203,7 @@ Cream Butter and Sugars: In a large bowl, cream together the unsalted butter, so
 
 Generate the recipe now:`;
 
-            const response = await fetch(
-                `https://generativelanguage.googleapis.com/v1/models/gemini-2.5-flash:generateContent?key=${GEMINI_API_KEY}`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        contents: [{
-                            parts: [{ text: systemPrompt }]
-                        }]
-                    })
-                }
-            );
-
-            const responseData = await response.json();
-
-            if (!response.ok) {
-                throw new Error(responseData.error?.message || 'API request failed');
-            }
-
-            const recipeText = responseData.candidates?.[0]?.content?.parts?.[0]?.text;
-
-            if (!recipeText) {
-                throw new Error('No recipe generated');
-            }
+            const recipeText = await GeminiService.generateContent(systemPrompt);
 
             const parsed = parseRecipe(recipeText);
             setGeneratedRecipe(parsed);
@@ -516,7 +518,7 @@ Generate the recipe now:`;
                         </Text>
 
                         <Text style={{ fontSize: 14, color: colors.textSecondary }}>
-                            {GEMINI_API_KEY ? '✅ API key configured' : '❌ API key not configured'}
+                            {GeminiService.isConfigured() ? '✅ AI provider configured' : '❌ AI provider not configured'}
                         </Text>
                     </View>
 
@@ -1,87 +1,390 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, AppState } from 'react-native';
 import { useTheme } from '../contexts/ThemeContext';
-import { useSparkStore } from '../store';
+import { useSparkData } from '../store';
+import { useAuthStore } from '../store/authStore';
+import { registerSparkSchema } from '../store/sparkMigrations';
+import { ShopAisle, ShopData, ShopItem } from '../types/sparkData';
 import { SparkProps } from '../types/spark';
 import { CommonModal } from '../components/CommonModal';
+import { FriendSelectionModal } from '../components/FriendSelectionModal';
 import {
     SettingsContainer,
     SettingsScrollView,
     SettingsHeader,
+    SettingsSection,
+    SettingsButton,
+    SettingsItem,
+    SettingsText,
     SettingsFeedbackSection,
     SaveCancelButtons,
 } from '../components/SettingsComponents';
+import { Friend } from '../services/FriendService';
+import { SharedShopListService, SharedShopListDoc } from '../services/SharedShopListService';
 import { HapticFeedback } from '../utils/haptics';
+import {
+    SHOP_AISLES,
+    applyShopListText,
+    createShopItem,
+    editShopItem,
+    formatShopItemText,
+    getVisibleShopItems,
+    groupShopItemsByAisle,
+    isSameShopList,
+    mergeShopItems,
+    parseShopItemText,
+    pruneDeletedShopItems,
+    setShopItemChecked,
+    migrateLegacyShopItems,
+} from '../utils/shopList';
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { shopCommandIntents } from './shopCommands';
+
+const DEFAULT_DATA: ShopData = { items: [] };
 
-interface ShopData {
-    items: string[];
-    checked: number[];
-}
+const toShopData = (saved: Partial<ShopData>): ShopData =>
+    ({ ...DEFAULT_DATA, ...saved, items: Array.isArray(saved.items) ? saved.items : [] });
 
-const DEFAULT_DATA: ShopData = { items: [], checked: [] };
+// Stored data schema
+registerSparkSchema('shop', {
+    version: 1,
+    migrations: [
+        {
+            // v1: items have ids; checkmarks used to be stored by list position
+            version: 1,
+            migrate: (data) => {
+                if (!Array.isArray(data.items) || data.items.every((item: unknown) => typeof item !== 'string')) return data;
+                const { checked, ...rest } = data;
+                return { ...rest, items: migrateLegacyShopItems(data.items, Array.isArray(checked) ? checked : []) };
+            },
+        },
+    ],
+});
+
+// Voice commands
+shopCommandIntents.forEach(CommandIntentRegistry.register);
 
 export const ShopSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettings }) => {
     const { colors } = useTheme();
-    const { getSparkData, setSparkData } = useSparkStore();
+    const [storedData, setShopData] = useSparkData('shop');
+    const { isAuthenticated } = useAuthStore();
 
-    const [data, setData] = useState<ShopData>(DEFAULT_DATA);
+    const [data, setData] = useState<ShopData>(() => toShopData(storedData));
+    const [newItemText, setNewItemText] = useState('');
     const [showEdit, setShowEdit] = useState(false);
     const [editText, setEditText] = useState('');
+    const [editingItem, setEditingItem] = useState<ShopItem | null>(null);
+    const [itemName, setItemName] = useState('');
+    const [itemQuantity, setItemQuantity] = useState('');
+    const [itemAisle, setItemAisle] = useState<ShopAisle>('other');
+    const [showFriendPicker, setShowFriendPicker] = useState(false);
+    const [sharedLists, setSharedLists] = useState<SharedShopListDoc[]>([]);
+    const [isSyncing, setIsSyncing] = useState(false);
 
-    useEffect(() => {
-        const saved = getSparkData('shop') as any;
-        if (saved && Array.isArray(saved.items)) {
-            setData({ items: saved.items, checked: saved.checked || [] });
-        } else {
-            setSparkData('shop', DEFAULT_DATA);
-        }
-    }, []);
+    // Latest data for the shared list callbacks, which outlive a render
+    const dataRef = useRef(data);
+    const syncQueue = useRef<Promise<void>>(Promise.resolve());
 
     const saveData = (newData: ShopData) => {
+        dataRef.current = newData;
         setData(newData);
-        setSparkData('shop', newData);
+        setShopData(newData);
     };
 
-    const toggleChecked = (index: number) => {
-        const isChecked = data.checked.includes(index);
-        const newChecked = isChecked ? data.checked.filter(i => i !== index) : [...data.checked, index];
-        saveData({ ...data, checked: newChecked });
+    /**
+     * Merge our copy into the shared list, one sync at a time. Failures
+     * (e.g. offline) leave the changes local until the next sync.
+     */
+    const pushToSharedList = () => {
+        syncQueue.current = syncQueue.current.then(async () => {
+            const sharedList = dataRef.current.sharedList;
+            if (!sharedList) return;
+            try {
+                setIsSyncing(true);
+                const merged = await SharedShopListService.syncItems(sharedList.id, dataRef.current.items);
+                applySharedItems(merged, false);
+            } catch (error) {
+                console.error('Error syncing shared shopping list:', error);
+            } finally {
+                setIsSyncing(false);
+            }
+        });
+    };
+
+    /**
+     * Take in the shared list's items, pushing back any local changes it doesn't have yet
+     */
+    const applySharedItems = (remote: ShopItem[], pushLocalChanges: boolean) => {
+        const merged = mergeShopItems(dataRef.current.items, remote);
+        if (!isSameShopList(merged, dataRef.current.items)) {
+            saveData({ ...dataRef.current, items: merged });
+        }
+        if (pushLocalChanges && !isSameShopList(merged, remote)) {
+            pushToSharedList();
+        }
+    };
+
+    const saveItems = (items: ShopItem[]) => {
+        saveData({ ...dataRef.current, items: pruneDeletedShopItems(items) });
+        if (dataRef.current.sharedList) {
+            pushToSharedList();
+        }
+    };
+
+    // Live updates while the list is shared
+    const sharedListId = data.sharedList?.id;
+    useEffect(() => {
+        if (!sharedListId) return;
+
+        const unsubscribe = SharedShopListService.subscribe(
+            sharedListId,
+            (list) => {
+                const sharedList = SharedShopListService.toSharedList(list);
+                if (sharedList.memberNames.join() !== dataRef.current.sharedList?.memberNames.join()) {
+                    saveData({ ...dataRef.current, sharedList });
+                }
+                applySharedItems(list.items || [], true);
+            },
+            () => {
+                saveData({ ...dataRef.current, sharedList: undefined });
+                Alert.alert('Sharing Ended', 'This shopping list is no longer shared. Your items are still here.');
+            }
+        );
+
+        // Changes made offline go up when the app comes back
+        const subscription = AppState.addEventListener('change', (state) => {
+            if (state === 'active') pushToSharedList();
+        });
+
+        return () => {
+            unsubscribe();
+            subscription.remove();
+        };
+    }, [sharedListId]);
+
+    // Take in changes made outside this screen, e.g. a voice command or its undo
+    useEffect(() => {
+        const stored = toShopData(storedData);
+        const itemsChanged = stored.items !== dataRef.current.items;
+        if (itemsChanged || stored.sharedList !== dataRef.current.sharedList) {
+            dataRef.current = stored;
+            setData(stored);
+        }
+        // The shared list needs the change too
+        if (itemsChanged && stored.sharedList) {
+            pushToSharedList();
+        }
+    }, [storedData]);
+
+    const visibleItems = getVisibleShopItems(data.items);
+    const checkedCount = visibleItems.filter(item => item.checked).length;
+
+    const toggleChecked = (id: string) => {
+        saveItems(data.items.map(item => (item.id === id ? setShopItemChecked(item, !item.checked) : item)));
         HapticFeedback.selection();
     };
 
+    const addItem = () => {
+        const text = newItemText.trim();
+        if (!text) return;
+
+        // Adding an item that's already on the list unchecks it instead
+        const name = parseShopItemText(text).name.toLowerCase();
+        const existing = visibleItems.find(item => item.name.toLowerCase() === name);
+        if (existing) {
+            if (existing.checked) {
+                saveItems(data.items.map(item => (item.id === existing.id ? setShopItemChecked(item, false) : item)));
+            }
+        } else {
+            saveItems([...data.items, createShopItem(text)]);
+        }
+        setNewItemText('');
+        HapticFeedback.light();
+    };
+
+    const clearChecked = () => {
+        saveItems(data.items.map(item => (!item.deleted && item.checked ? editShopItem(item, { deleted: true }) : item)));
+        HapticFeedback.success();
+    };
+
+    const clearList = () => {
+        Alert.alert('Clear List', 'Remove every item from the list?', [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Clear',
+                style: 'destructive',
+                onPress: () => {
+                    saveItems(data.items.map(item => (item.deleted ? item : editShopItem(item, { deleted: true }))));
+                    HapticFeedback.success();
+                },
+            },
+        ]);
+    };
+
     const openEditor = () => {
-        setEditText(data.items.join('\n'));
+        setEditText(visibleItems.map(formatShopItemText).join('\n'));
         setShowEdit(true);
     };
 
     const handleSaveEdit = () => {
-        const newItems = editText.split('\n').map(l => l.trim()).filter(Boolean);
-        const newChecked = data.checked.filter(i => i < newItems.length);
-        saveData({ items: newItems, checked: newChecked });
+        saveItems(applyShopListText(data.items, editText));
         setShowEdit(false);
         HapticFeedback.success();
     };
 
+    const openItemEditor = (item: ShopItem) => {
+        setEditingItem(item);
+        setItemName(item.name);
+        setItemQuantity(item.quantity || '');
+        setItemAisle(item.aisle || 'other');
+        HapticFeedback.light();
+    };
+
+    const handleSaveItem = () => {
+        if (!editingItem || !itemName.trim()) return;
+        const changes = { name: itemName.trim(), quantity: itemQuantity.trim() || undefined, aisle: itemAisle };
+        saveItems(data.items.map(item => (item.id === editingItem.id ? editShopItem(item, changes) : item)));
+        setEditingItem(null);
+        HapticFeedback.success();
+    };
+
+    const handleDeleteItem = () => {
+        if (!editingItem) return;
+        saveItems(data.items.map(item => (item.id === editingItem.id ? editShopItem(item, { deleted: true }) : item)));
+        setEditingItem(null);
+        HapticFeedback.medium();
+    };
+
+    const loadSharedLists = async () => {
+        if (!isAuthenticated()) return;
+        try {
+            setSharedLists(await SharedShopListService.getSharedLists());
+        } catch (error) {
+            console.error('Error loading shared shopping lists:', error);
+        }
+    };
+
+    useEffect(() => {
+        if (showSettings) {
+            loadSharedLists();
+        }
+    }, [showSettings]);
+
+    const handleShare = () => {
+        if (!isAuthenticated()) {
+            Alert.alert('Sign In Required', 'Sign in from Settings to share your shopping list with friends.');
+            return;
+        }
+        setShowFriendPicker(true);
+    };
+
+    const handleSelectFriend = async (friend: Friend) => {
+        try {
+            const sharedList = await SharedShopListService.createSharedList(friend, data.items);
+            saveData({ ...dataRef.current, sharedList });
+            HapticFeedback.success();
+            Alert.alert('List Shared', `${friend.displayName} can join your list from Shop settings.`);
+        } catch (error: any) {
+            console.error('Error sharing shopping list:', error);
+            HapticFeedback.error();
+            Alert.alert('Error', error?.message || 'Failed to share list');
+        } finally {
+            setShowFriendPicker(false);
+        }
+    };
+
+    const handleJoinList = async (list: SharedShopListDoc) => {
+        try {
+            const items = await SharedShopListService.joinSharedList(list, data.items);
+            saveData({ ...dataRef.current, items, sharedList: SharedShopListService.toSharedList(list) });
+            HapticFeedback.success();
+        } catch (error: any) {
+            console.error('Error joining shared shopping list:', error);
+            HapticFeedback.error();
+            Alert.alert('Error', error?.message || 'Failed to join list');
+        }
+    };
+
+    const handleStopSharing = () => {
+        const sharedList = data.sharedList;
+        if (!sharedList) return;
+
+        Alert.alert('Stop Sharing', 'You will keep a copy of the list, but changes will no longer sync.', [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Stop Sharing',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await SharedShopListService.leaveSharedList(sharedList.id);
+                        saveData({ ...dataRef.current, sharedList: undefined });
+                        setSharedLists(lists => lists.filter(list => list.id !== sharedList.id));
+                        HapticFeedback.success();
+                    } catch (error: any) {
+                        console.error('Error leaving shared shopping list:', error);
+                        Alert.alert('Error', error?.message || 'Failed to stop sharing');
+                    }
+                },
+            },
+        ]);
+    };
+
     // Settings view
     if (showSettings) {
+        const otherLists = sharedLists.filter(list => list.id !== data.sharedList?.id);
+
         return (
             <SettingsContainer>
                 <SettingsScrollView>
                     <SettingsHeader
                         title="Shop Settings"
-                        subtitle="Simple shopping list stored locally"
+                        subtitle="Shopping list, grouped by aisle"
                         icon="🛒"
                         sparkId="shop"
                     />
 
-                    <View style={{ padding: 20 }}>
-                        <Text style={{ fontSize: 16, color: colors.text, marginBottom: 8, fontWeight: '600' }}>
-                            About Shop
-                        </Text>
-                        <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 16 }}>
-                            Maintain a simple shopping list. Edit items, then tap to mark them done.
-                        </Text>
-                    </View>
+                    <SettingsSection title="Sharing">
+                        {data.sharedList ? (
+                            <>
+                                <SettingsText>👥 Shared with {data.sharedList.memberNames.join(', ')}</SettingsText>
+                                <SettingsText variant="caption">
+                                    Changes sync live. Edits made offline are merged when you reconnect.
+                                </SettingsText>
+                                <SettingsButton title="Stop Sharing" variant="danger" onPress={handleStopSharing} />
+                            </>
+                        ) : (
+                            <>
+                                <SettingsText variant="caption">
+                                    Share this list with a friend so you can both add and check off items.
+                                </SettingsText>
+                                <SettingsButton title="Share with a Friend" onPress={handleShare} />
+                            </>
+                        )}
+                    </SettingsSection>
+
+                    {otherLists.length > 0 && (
+                        <SettingsSection title="Lists Shared With You">
+                            {otherLists.map(list => (
+                                <SettingsItem key={list.id}>
+                                    <View style={{ flex: 1 }}>
+                                        <SettingsText>{Object.values(list.memberNames).join(' & ')}</SettingsText>
+                                        <SettingsText variant="caption">
+                                            {getVisibleShopItems(list.items || []).length} items
+                                        </SettingsText>
+                                    </View>
+                                    <TouchableOpacity
+                                        style={{ paddingHorizontal: 14, paddingVertical: 8, borderRadius: 8, backgroundColor: colors.primary }}
+                                        onPress={() => handleJoinList(list)}
+                                    >
+                                        <Text style={{ color: '#fff', fontWeight: '600' }}>Join</Text>
+                                    </TouchableOpacity>
+                                </SettingsItem>
+                            ))}
+                            <SettingsText variant="caption">
+                                Joining merges your current items into the shared list.
+                            </SettingsText>
+                        </SettingsSection>
+                    )}
 
                     <SettingsFeedbackSection sparkName="Shop" sparkId="shop" />
 
@@ -92,6 +395,16 @@ export const ShopSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettings
                         cancelText="Close"
                     />
                 </SettingsScrollView>
+
+                <FriendSelectionModal
+                    visible={showFriendPicker}
+                    onClose={() => setShowFriendPicker(false)}
+                    onSelectFriend={handleSelectFriend}
+                    onAddFriend={() => {
+                        setShowFriendPicker(false);
+                        Alert.alert('Add Friend', 'Add friends in Friend Spark, then come back to share your list.');
+                    }}
+                />
             </SettingsContainer>
         );
     }
@@ -100,55 +413,111 @@ export const ShopSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettings
         container: { flex: 1, backgroundColor: colors.background },
         header: { padding: 20, flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
         title: { fontSize: 28, fontWeight: 'bold', color: colors.text },
+        sharedBadge: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12, backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.border },
+        sharedBadgeText: { fontSize: 12, color: colors.textSecondary },
         content: { padding: 20, paddingTop: 0 },
+        addRow: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+        addInput: { flex: 1, backgroundColor: colors.surface, borderRadius: 12, paddingHorizontal: 12, paddingVertical: 10, color: colors.text, fontSize: 16, borderWidth: 1, borderColor: colors.border },
+        addButton: { backgroundColor: colors.primary, borderRadius: 12, paddingHorizontal: 16, justifyContent: 'center' },
+        aisleHeader: { fontSize: 13, fontWeight: '600', color: colors.textSecondary, textTransform: 'uppercase', marginTop: 12, marginBottom: 2 },
         checkboxRow: { flexDirection: 'row', alignItems: 'flex-start', paddingVertical: 8 },
         checkbox: { width: 24, height: 24, borderRadius: 6, borderWidth: 2, borderColor: colors.border, marginRight: 12, alignItems: 'center', justifyContent: 'center', marginTop: 2 },
         checkboxChecked: { backgroundColor: colors.primary, borderColor: colors.primary },
         checkboxCheck: { color: '#fff', fontSize: 16, fontWeight: 'bold' },
         checkboxText: { flex: 1, fontSize: 16, color: colors.text },
         checkboxTextStrike: { textDecorationLine: 'line-through', color: colors.textSecondary },
+        quantity: { fontSize: 14, color: colors.textSecondary, marginLeft: 8, marginTop: 2 },
         button: { backgroundColor: colors.primary, padding: 16, borderRadius: 12, alignItems: 'center', marginTop: 16 },
         buttonText: { color: '#fff', fontSize: 16, fontWeight: '600' },
         buttonSecondary: { backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.border },
         editInput: { minHeight: 200, backgroundColor: colors.surface, borderRadius: 12, padding: 12, color: colors.text, textAlignVertical: 'top' },
+        fieldLabel: { fontSize: 14, fontWeight: '600', color: colors.text, marginBottom: 6, marginTop: 12 },
+        fieldInput: { backgroundColor: colors.surface, borderRadius: 8, padding: 12, color: colors.text, borderWidth: 1, borderColor: colors.border },
+        chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+        chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.border },
+        chipSelected: { backgroundColor: colors.primary, borderColor: colors.primary },
+        chipText: { fontSize: 14, color: colors.text },
+        chipTextSelected: { color: '#fff' },
     });
 
     return (
         <View style={styles.container}>
             <View style={styles.header}>
                 <Text style={styles.title}>🛒 Shop</Text>
-            </View> 
+                {data.sharedList && (
+                    <View style={styles.sharedBadge}>
+                        <Text style={styles.sharedBadgeText}>
+                            {isSyncing ? 'Syncing…' : `👥 ${data.sharedList.memberNames.join(' & ')}`}
+                        </Text>
+                    </View>
+                )}
+            </View>
+
+            <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+                <View style={styles.addRow}>
+                    <TextInput
+                        value={newItemText}
+                        onChangeText={setNewItemText}
+                        onSubmitEditing={addItem}
+                        style={styles.addInput}
+                        placeholder="Add an item, e.g. 2 Milk"
+                        placeholderTextColor={colors.textSecondary}
+                        returnKeyType="done"
+                        blurOnSubmit={false}
+                    />
+                    <TouchableOpacity style={styles.addButton} onPress={addItem}>
+                        <Text style={styles.buttonText}>Add</Text>
+                    </TouchableOpacity>
+                </View>
 
-            <ScrollView style={styles.content}>
-                {data.items.length === 0 ? (
+                {visibleItems.length === 0 ? (
                     <View style={{ alignItems: 'center', padding: 40, marginTop: 40 }}>
                         <Text style={{ fontSize: 48, marginBottom: 16 }}>🛒</Text>
                         <Text style={{ fontSize: 18, fontWeight: '600', color: colors.text }}>No items yet</Text>
                         <Text style={{ fontSize: 14, color: colors.textSecondary, textAlign: 'center', marginTop: 8 }}>
-                            Tap Edit to add items — one per line.
+                            Add items above, or tap Edit List to add several — one per line.
                         </Text>
                     </View>
                 ) : (
-                    data.items.map((item, i) => {
-                        const isChecked = data.checked.includes(i);
+                    groupShopItemsByAisle(data.items).map(group => {
+                        const aisle = SHOP_AISLES.find(a => a.key === group.aisle)!;
                         return (
-                            <TouchableOpacity key={i} style={styles.checkboxRow} onPress={() => toggleChecked(i)}>
-                                <View style={[styles.checkbox, isChecked && styles.checkboxChecked]}>
-                                    {isChecked && <Text style={styles.checkboxCheck}>✓</Text>}
-                                </View>
-                                <Text style={[styles.checkboxText, isChecked && styles.checkboxTextStrike]}>{item}</Text>
-                            </TouchableOpacity>
+                            <View key={group.aisle}>
+                                <Text style={styles.aisleHeader}>{aisle.icon} {aisle.label}</Text>
+                                {group.items.map(item => (
+                                    <TouchableOpacity
+                                        key={item.id}
+                                        style={styles.checkboxRow}
+                                        onPress={() => toggleChecked(item.id)}
+                                        onLongPress={() => openItemEditor(item)}
+                                    >
+                                        <View style={[styles.checkbox, item.checked && styles.checkboxChecked]}>
+                                            {item.checked && <Text style={styles.checkboxCheck}>✓</Text>}
+                                        </View>
+                                        <Text style={[styles.checkboxText, item.checked && styles.checkboxTextStrike]}>{item.name}</Text>
+                                        {item.quantity && <Text style={styles.quantity}>×{item.quantity}</Text>}
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
                         );
                     })
                 )}
 
-                <TouchableOpacity style={styles.button} onPress={() => { saveData({ items: [], checked: [] }); HapticFeedback.success(); }}>
-                    <Text style={styles.buttonText}>Clear List</Text>
-                </TouchableOpacity>
+                {checkedCount > 0 && (
+                    <TouchableOpacity style={styles.button} onPress={clearChecked}>
+                        <Text style={styles.buttonText}>Clear Checked ({checkedCount})</Text>
+                    </TouchableOpacity>
+                )}
 
                 <TouchableOpacity style={[styles.button, styles.buttonSecondary]} onPress={openEditor}>
                     <Text style={[styles.buttonText, { color: colors.text }]}>Edit List</Text>
                 </TouchableOpacity>
+
+                {visibleItems.length > 0 && (
+                    <TouchableOpacity style={[styles.button, styles.buttonSecondary, { marginBottom: 40 }]} onPress={clearList}>
+                        <Text style={[styles.buttonText, { color: colors.text }]}>Clear List</Text>
+                    </TouchableOpacity>
+                )}
             </ScrollView>
 
             <CommonModal
@@ -172,9 +541,58 @@ export const ShopSpark: React.FC<SparkProps> = ({ showSettings, onCloseSettings
                     value={editText}
                     onChangeText={setEditText}
                     style={styles.editInput}
-                    placeholder="One item per line"
+                    placeholder="One item per line, e.g. 2 Milk"
+                    placeholderTextColor={colors.textSecondary}
+                />
+            </CommonModal>
+
+            <CommonModal
+                visible={!!editingItem}
+                title="Edit Item"
+                onClose={() => setEditingItem(null)}
+                footer={
+                    <View style={{ flexDirection: 'row', gap: 12 }}>
+                        <TouchableOpacity style={[{ flex: 1, padding: 12, borderRadius: 8, backgroundColor: colors.surface, borderWidth: 1, borderColor: colors.border }]} onPress={handleDeleteItem}>
+                            <Text style={{ textAlign: 'center', color: colors.error || colors.text }}>Delete</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={[{ flex: 1, padding: 12, borderRadius: 8, backgroundColor: colors.primary }]} onPress={handleSaveItem}>
+                            <Text style={{ textAlign: 'center', color: '#fff' }}>Save</Text>
+                        </TouchableOpacity>
+                    </View>
+                }
+            >
+                <Text style={[styles.fieldLabel, { marginTop: 0 }]}>Item</Text>
+                <TextInput
+                    value={itemName}
+                    onChangeText={setItemName}
+                    style={styles.fieldInput}
+                    placeholder="Milk"
                     placeholderTextColor={colors.textSecondary}
                 />
+
+                <Text style={styles.fieldLabel}>Quantity</Text>
+                <TextInput
+                    value={itemQuantity}
+                    onChangeText={setItemQuantity}
+                    style={styles.fieldInput}
+                    placeholder="e.g. 2 or 1 lb"
+                    placeholderTextColor={colors.textSecondary}
+                />
+
+                <Text style={styles.fieldLabel}>Aisle</Text>
+                <View style={styles.chipRow}>
+                    {SHOP_AISLES.map(aisle => (
+                        <TouchableOpacity
+                            key={aisle.key}
+                            style={[styles.chip, itemAisle === aisle.key && styles.chipSelected]}
+                            onPress={() => setItemAisle(aisle.key)}
+                        >
+                            <Text style={[styles.chipText, itemAisle === aisle.key && styles.chipTextSelected]}>
+                                {aisle.icon} {aisle.label}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
             </CommonModal>
         </View>
     );
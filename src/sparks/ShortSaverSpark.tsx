@@ -22,6 +22,7 @@ import { RootTabParamList } from '../types/navigation';
 import { useTheme } from '../contexts/ThemeContext';
 import { useAuthStore } from '../store/authStore';
 import { useSparkStore } from '../store';
+import { SearchService } from '../services/SearchService';
 import { HapticFeedback } from '../utils/haptics';
 import { SettingsContainer, SettingsScrollView, SettingsHeader, SettingsFeedbackSection } from '../components/SettingsComponents';
 import ShareableSparkService, { ShareableItem } from '../services/ShareableSparkService';
@@ -50,13 +51,26 @@ interface ShortSaverSparkProps {
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
+  itemId?: string;
 }
 
+// Search index
+SearchService.registerIndexer('short-saver', (data: { videos?: ShortVideo[] }) =>
+  (data.videos || []).map(video => ({
+    itemType: 'video',
+    itemId: video.id,
+    title: video.name || video.title,
+    subtitle: video.category,
+    body: video.name ? video.title : undefined,
+  }))
+);
+
 const ShortSaverSpark: React.FC<ShortSaverSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
   onComplete,
+  itemId,
 }) => {
   const { colors } = useTheme();
   const navigation = useNavigation<NavigationProp<RootTabParamList>>();
@@ -358,6 +372,14 @@ const ShortSaverSpark: React.FC<ShortSaverSparkProps> = ({
     HapticFeedback.medium();
   };
 
+  // Open the video a search result points at
+  useEffect(() => {
+    const video = itemId && (getSparkData('short-saver')?.videos || []).find((v: ShortVideo) => v.id === itemId);
+    if (video) {
+      handleVideoLongPress(video);
+    }
+  }, [itemId]);
+
   // Handle modal close
   const handleCloseModal = () => {
     setShowModal(false);
@@ -16,6 +16,7 @@ import {
 import { WebView } from 'react-native-webview';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSparkStore } from '../store';
+import { SearchService } from '../services/SearchService';
 import { HapticFeedback } from '../utils/haptics';
 import { SettingsContainer, SettingsScrollView, SettingsHeader, SettingsFeedbackSection } from '../components/SettingsComponents';
 import { createCommonStyles } from '../styles/CommonStyles';
@@ -38,13 +39,26 @@ interface SongSaverSparkProps {
     onCloseSettings?: () => void;
     onStateChange?: (state: any) => void;
     onComplete?: (result: any) => void;
+    itemId?: string;
 }
 
+// Search index
+SearchService.registerIndexer('song-saver', (data: { tracks?: SpotifyTrack[] }) =>
+    (data.tracks || []).map(track => ({
+        itemType: 'track',
+        itemId: track.id,
+        title: track.name || track.title || track.url,
+        subtitle: track.category,
+        body: track.name ? track.title : undefined,
+    }))
+);
+
 const SongSaverSpark: React.FC<SongSaverSparkProps> = ({
     showSettings = false,
     onCloseSettings,
     onStateChange,
     onComplete,
+    itemId,
 }) => {
     const { colors } = useTheme();
     const commonStyles = createCommonStyles(colors);
@@ -276,6 +290,14 @@ const SongSaverSpark: React.FC<SongSaverSparkProps> = ({
         HapticFeedback.medium();
     };
 
+    // Open the track a search result points at
+    useEffect(() => {
+        const track = itemId && (getSparkData('song-saver')?.tracks || []).find((t: SpotifyTrack) => t.id === itemId);
+        if (track) {
+            handleTrackLongPress(track);
+        }
+    }, [itemId]);
+
     // Handle modal close
     const handleCloseModal = () => {
         setShowModal(false);
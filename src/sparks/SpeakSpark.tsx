@@ -3,8 +3,11 @@ import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Animated, Alert,
 import { useTheme } from '../contexts/ThemeContext';
 import { SparkProps } from '../types/spark';
 import { ExpoSpeechRecognitionModule, useSpeechRecognitionEvent } from 'expo-speech-recognition';
-import { GeminiCommandParser } from '../services/GeminiCommandParser';
-import { CommandExecutor } from '../services/CommandExecutor';
+import { CommandParser } from '../services/CommandParser';
+import { CommandExecutor, CommandBatchResult } from '../services/CommandExecutor';
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { GeminiService } from '../services/GeminiService';
+import { ParsedCommand } from '../types/commands';
 import { HapticFeedback } from '../utils/haptics';
 import { useNavigation } from '@react-navigation/native';
 import { useSparkStore } from '../store';
@@ -24,6 +27,9 @@ interface CommandHistoryItem {
     success: boolean;
     timestamp: number;
     targetSpark?: string;
+    status?: 'pending' | 'done' | 'undone';
+    steps?: string[]; // One description per command in a multi-step batch
+    commands?: ParsedCommand[]; // Commands awaiting confirmation
 }
 
 export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ showSettings, onCloseSettings, autoRecord }) => {
@@ -40,6 +46,8 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ sh
     const [manualInput, setManualInput] = useState('');
     const [showSuggestions, setShowSuggestions] = useState(false);
     const [keyboardVisible, setKeyboardVisible] = useState(false);
+    // The most recent batch, for one-tap undo
+    const [lastUndo, setLastUndo] = useState<{ itemId: string; batch: CommandBatchResult } | null>(null);
 
     const pulseAnim = useRef(new Animated.Value(1)).current;
 
@@ -54,7 +62,15 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ sh
         "Add a toview for a movie called the Wolf of Wallstreet on Netflix",
         "Watch a show called Slow Horses on Apple TV",
         "Add a toview for a movie called Dune to watch with Tom",
-        "Read a book called The Hobbit"
+        "Read a book called The Hobbit",
+
+        "Pack 3 swimsuits",
+        "Mom's birthday is March 4th",
+        "Add milk and eggs to the shopping list",
+        "Idea: a spark that tracks houseplant watering",
+        "Idea: grow basil on the balcony hashtag garden",
+        "That meal was a chicken caesar salad",
+        "Hit driver right into the rough on hole 3"
     ];
 
     // -- Effects --
@@ -86,7 +102,8 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ sh
     // Save history when it changes
     useEffect(() => {
         if (history.length > 0) {
-            setSparkData('speak-spark', { history });
+            // Pending batches are only kept until confirmed or cancelled
+            setSparkData('speak-spark', { history: history.filter(item => item.status !== 'pending') });
         }
     }, [history]);
 
@@ -142,6 +159,40 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ sh
         setShowSuggestions(false);
     };
 
+    const addToHistory = (item: CommandHistoryItem) => {
+        setHistory(prev => {
+            const newHistory = [item, ...prev.filter(h => h.id !== item.id)];
+            return newHistory.slice(0, 10);
+        });
+    };
+
+    const runCommands = async (transcript: string, commands: ParsedCommand[], itemId?: string) => {
+        const result = await CommandExecutor.executeBatch(commands);
+        const firstSpark = commands.find(c => c.targetSpark !== 'unknown')?.targetSpark;
+
+        const newItem: CommandHistoryItem = {
+            id: itemId || Date.now().toString(),
+            transcript,
+            response: result.message,
+            success: result.success,
+            timestamp: Date.now(),
+            targetSpark: firstSpark,
+            status: 'done',
+            steps: commands.length > 1 ? commands.map(CommandIntentRegistry.describe) : undefined,
+        };
+
+        addToHistory(newItem);
+        if (result.results.some(r => r.success)) {
+            setLastUndo({ itemId: newItem.id, batch: result });
+        }
+
+        if (result.success) {
+            HapticFeedback.success();
+        } else {
+            HapticFeedback.error();
+        }
+    };
+
     const handleFinalResult = async (text: string) => {
         if (!text.trim()) return;
 
@@ -150,31 +201,28 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ sh
         setShowSuggestions(false);
 
         try {
-            const parsed = await GeminiCommandParser.parseCommand(text);
-            const result = await CommandExecutor.execute(parsed);
-
-            const newItem: CommandHistoryItem = {
-                id: Date.now().toString(),
-                transcript: text,
-                response: result.message,
-                success: result.success,
-                timestamp: Date.now(),
-                targetSpark: parsed.targetSpark !== 'unknown' ? parsed.targetSpark : undefined
-            };
-
-            setHistory(prev => {
-                const newHistory = [newItem, ...prev];
-                return newHistory.slice(0, 10);
-            });
-            setCurrentTranscript('');
-            setManualInput('');
-
-            if (result.success) {
-                HapticFeedback.success();
+            const commands = await CommandParser.parseCommands(text);
+
+            if (commands.length > 1) {
+                // Multi-step commands wait for confirmation before touching any spark
+                addToHistory({
+                    id: Date.now().toString(),
+                    transcript: text,
+                    response: `${commands.length} commands ready to run`,
+                    success: true,
+                    timestamp: Date.now(),
+                    status: 'pending',
+                    steps: commands.map(CommandIntentRegistry.describe),
+                    commands,
+                });
+                HapticFeedback.light();
             } else {
-                HapticFeedback.error();
+                await runCommands(text, commands);
             }
 
+            setCurrentTranscript('');
+            setManualInput('');
+
         } catch (e) {
             Alert.alert('Error', 'Failed to process command.');
         } finally {
@@ -182,6 +230,35 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ sh
         }
     };
 
+    const confirmPending = async (item: CommandHistoryItem) => {
+        if (!item.commands) return;
+        setIsProcessing(true);
+        try {
+            await runCommands(item.transcript, item.commands, item.id);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const cancelPending = (item: CommandHistoryItem) => {
+        setHistory(prev => prev.filter(h => h.id !== item.id));
+        HapticFeedback.light();
+    };
+
+    const undoLast = () => {
+        if (!lastUndo) return;
+        if (!CommandExecutor.undo(lastUndo.batch)) {
+            setLastUndo(null);
+            Alert.alert("Can't undo", 'Those sparks have changed since the command ran, so undoing it would lose the newer changes.');
+            return;
+        }
+        setHistory(prev => prev.map(h =>
+            h.id === lastUndo.itemId ? { ...h, status: 'undone', response: `Undone: ${h.response}` } : h
+        ));
+        setLastUndo(null);
+        HapticFeedback.medium();
+    };
+
     // -- Speech Hooks --
 
     useSpeechRecognitionEvent('start', () => {
@@ -252,11 +329,11 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ sh
                             About Speak Spark
                         </Text>
                         <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 16 }}>
-                            Use your voice to create todos, log weight, and interact with other Sparks.
+                            Use your voice to create todos, log weight, add shopping and packing items, log golf shots, and interact with other Sparks.
                             Powered by Gemini AI.
                         </Text>
                         <Text style={{ fontSize: 14, color: colors.textSecondary }}>
-                            {process.env.EXPO_PUBLIC_GEMINI_API_KEY ? '✅ Gemini API Key Configured' : '❌ Missing API Key'}
+                            {GeminiService.isConfigured() ? `✅ ${GeminiService.getProvider().name} Configured` : '❌ AI Provider Not Configured'}
                         </Text>
                     </View>
 
@@ -440,10 +517,42 @@ export const SpeakSpark: React.FC<SparkProps & { autoRecord?: boolean }> = ({ sh
                                                             <Text style={[styles.linkButtonText, { color: colors.primary }]}>Open</Text>
                                                         </TouchableOpacity>
                                                     )}
-                                                    <Text style={{ marginLeft: 8 }}>{item.success ? '✅' : '❌'}</Text>
+                                                    <Text style={{ marginLeft: 8 }}>
+                                                        {item.status === 'pending' ? '⏳' : item.status === 'undone' ? '↩️' : item.success ? '✅' : '❌'}
+                                                    </Text>
                                                 </View>
                                             </View>
+                                            {item.steps && item.steps.map((step, i) => (
+                                                <Text key={i} style={[styles.historyStep, { color: colors.text }]}>{i + 1}. {step}</Text>
+                                            ))}
                                             <Text style={[styles.historyResponse, { color: colors.textSecondary }]}>{item.response}</Text>
+                                            {item.status === 'pending' && (
+                                                <View style={styles.historyActions}>
+                                                    <TouchableOpacity
+                                                        style={[styles.historyActionButton, { backgroundColor: colors.primary }]}
+                                                        onPress={() => confirmPending(item)}
+                                                        disabled={isProcessing}
+                                                    >
+                                                        <Text style={styles.historyActionText}>Run All</Text>
+                                                    </TouchableOpacity>
+                                                    <TouchableOpacity
+                                                        style={[styles.historyActionButton, { backgroundColor: colors.border }]}
+                                                        onPress={() => cancelPending(item)}
+                                                    >
+                                                        <Text style={[styles.historyActionText, { color: colors.text }]}>Cancel</Text>
+                                                    </TouchableOpacity>
+                                                </View>
+                                            )}
+                                            {lastUndo?.itemId === item.id && item.status === 'done' && (
+                                                <View style={styles.historyActions}>
+                                                    <TouchableOpacity
+                                                        style={[styles.historyActionButton, { backgroundColor: colors.warning }]}
+                                                        onPress={undoLast}
+                                                    >
+                                                        <Text style={styles.historyActionText}>↩️ Undo</Text>
+                                                    </TouchableOpacity>
+                                                </View>
+                                            )}
                                         </View>
                                     );
                                 })
@@ -558,6 +667,25 @@ const styles = StyleSheet.create({
         fontSize: 13,
         marginTop: 4,
     },
+    historyStep: {
+        fontSize: 14,
+        marginTop: 4,
+    },
+    historyActions: {
+        flexDirection: 'row',
+        marginTop: 10,
+        gap: 8,
+    },
+    historyActionButton: {
+        paddingVertical: 6,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+    },
+    historyActionText: {
+        color: '#fff',
+        fontSize: 13,
+        fontWeight: '600',
+    },
     linkButton: {
         flexDirection: 'row',
         alignItems: 'center',
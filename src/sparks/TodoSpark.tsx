@@ -1,6 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert } from 'react-native';
-import { useSparkStore } from '../store';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useSparkStore, useLinkedItem } from '../store';
+import { SearchService } from '../services/SearchService';
+import { TodoItem, TodoData, TodoPriority, TodoSubtask } from '../types/sparkData';
+import { SparkItemTarget } from '../types/spark';
+import { MySparkStackParamList } from '../types/navigation';
+import { describeRepeatRule, getFirstOccurrence, getNextOccurrence, getUpcomingOccurrences } from '../utils/recurrence';
+import { parseTaskText, parsePriorityToken, setPriorityToken } from '../utils/todoText';
 import { HapticFeedback } from '../utils/haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import { createCommonStyles } from '../styles/CommonStyles';
@@ -13,37 +21,39 @@ import {
   SettingsSection,
   SettingsFeedbackSection,
   SettingsText,
-  SettingsButton
+  SettingsButton,
+  SettingsToggle,
+  SettingsInput
 } from '../components/SettingsComponents';
 import { FeedbackModal } from '../components/FeedbackModal';
 import { FeedbackService } from '../services/FeedbackService';
 import { ServiceFactory } from '../services/ServiceFactory';
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { todoCommandIntents } from './todoCommands';
 
-interface TodoItem {
-  id: number;
-  text: string;
-  completed: boolean;
-  dueDate: string; // ISO date string (YYYY-MM-DD)
-  completedDate?: string; // ISO date string when completed
-  createdDate: string; // ISO date string when created
-  category?: string; // Parsed category from text (e.g., "work" from "work: finish project")
-  displayText: string; // Text without category prefix
-  // Hidden field used only for ordering within the same day/completed group
-  // We store a local timestamp in ms captured at edit/create/complete time
-  sortTimeMs?: number;
-}
-
-interface TodoSparkProps {
+interface TodoSparkProps extends SparkItemTarget {
   showSettings?: boolean;
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
 }
 
+const DEFAULT_DIGEST_TIME = '08:00';
+const REMINDER_TIME_OPTIONS = ['09:00', '12:00', '17:00', '20:00'];
+const REMINDER_TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+// "17:00" -> "5:00 PM"
+const formatReminderTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+};
+
 // Settings Component
 const TodoSettings: React.FC<{
   onClose: () => void;
-}> = ({ onClose }) => {
+  digestTime: string | null;
+  onChangeDigestTime: (time: string | null) => void;
+}> = ({ onClose, digestTime, onChangeDigestTime }) => {
   return (
     <SettingsContainer>
       <SettingsScrollView>
@@ -56,6 +66,25 @@ const TodoSettings: React.FC<{
 
         <SettingsFeedbackSection sparkName="Todo List" sparkId="todo" />
 
+        <SettingsSection title="Reminders">
+          <SettingsToggle
+            label="Morning Digest"
+            value={digestTime !== null}
+            onValueChange={(enabled) => onChangeDigestTime(enabled ? DEFAULT_DIGEST_TIME : null)}
+          />
+          {digestTime !== null && (
+            <SettingsInput
+              placeholder="Digest time (HH:MM)"
+              value={digestTime}
+              onChangeText={onChangeDigestTime}
+            />
+          )}
+          <SettingsText variant="caption">
+            Get a notification each morning listing overdue todos and those due that day.
+            Set a reminder time on a single todo from its edit screen.
+          </SettingsText>
+        </SettingsSection>
+
         <SettingsSection title="About">
           <View style={{ padding: 16, backgroundColor: 'transparent' }}>
             <SettingsText variant="body">
@@ -70,14 +99,49 @@ const TodoSettings: React.FC<{
   );
 };
 
+// A todo row, or a preview of a repeating todo's later occurrence
+type TodoListItem = TodoItem & { previewOf?: number };
+
+// How many later occurrences of each repeating todo "Show Future Todos" previews
+const UPCOMING_PREVIEW_COUNT = 2;
+
+const PRIORITIES: TodoPriority[] = ['high', 'medium', 'low'];
+const PRIORITY_RANK: Record<TodoPriority, number> = { high: 0, medium: 1, low: 2 };
+const PRIORITY_COLORS: Record<TodoPriority, string> = { high: '#F44336', medium: '#FF8C00', low: '#4CAF50' };
+
+// Tasks that are already due sort by priority first; later ones by date first
+const compareIncomplete = (a: TodoItem, b: TodoItem, today: string): number => {
+  const dayCmp = (a.dueDate <= today ? today : a.dueDate).localeCompare(b.dueDate <= today ? today : b.dueDate);
+  if (dayCmp !== 0) return dayCmp;
+  const priorityCmp = (a.priority ? PRIORITY_RANK[a.priority] : 3) - (b.priority ? PRIORITY_RANK[b.priority] : 3);
+  if (priorityCmp !== 0) return priorityCmp;
+  return a.dueDate.localeCompare(b.dueDate);
+};
+
+// Search index
+SearchService.registerIndexer('todo', (data: TodoData) =>
+  (data.todos || []).map(todo => ({
+    itemType: 'todo',
+    itemId: String(todo.id),
+    title: todo.displayText || todo.text,
+    subtitle: [todo.category, todo.completed ? 'Done' : todo.dueDate].filter(Boolean).join(' · '),
+    body: todo.subtasks?.map(subtask => subtask.text).join(' '),
+  }))
+);
+
+// Voice commands
+todoCommandIntents.forEach(CommandIntentRegistry.register);
+
 export const TodoSpark: React.FC<TodoSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
-  onComplete
+  onComplete,
+  itemId
 }) => {
   const { getSparkData, setSparkData } = useSparkStore();
   const { colors } = useTheme();
+  const navigation = useNavigation<StackNavigationProp<MySparkStackParamList>>();
 
   const [todos, setTodos] = useState<TodoItem[]>([]);
   const [newTaskText, setNewTaskText] = useState('');
@@ -86,6 +150,10 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
   const [editText, setEditText] = useState('');
   const [selectedDate, setSelectedDate] = useState('');
   const [editCompleted, setEditCompleted] = useState(false);
+  const [editSubtasks, setEditSubtasks] = useState<TodoSubtask[]>([]);
+  const [newSubtaskText, setNewSubtaskText] = useState('');
+  const [editReminderTime, setEditReminderTime] = useState('');
+  const [digestTime, setDigestTime] = useState<string | null>(null);
   const [isAddingTask, setIsAddingTask] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [showFutureTodos, setShowFutureTodos] = useState(false);
@@ -126,6 +194,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     if (savedData.selectedCategory !== undefined) {
       setSelectedCategory(savedData.selectedCategory);
     }
+    setDigestTime(savedData.digestTime ?? null);
   }, [getSparkData]);
 
   // Initialize session tracking
@@ -164,6 +233,15 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     });
   }, [selectedCategory, getSparkData, setSparkData]);
 
+  // Save digest time whenever it changes
+  useEffect(() => {
+    const savedData = getSparkData('todo');
+    setSparkData('todo', {
+      ...savedData,
+      digestTime,
+    });
+  }, [digestTime, getSparkData, setSparkData]);
+
   // Pre-fill input with category prefix when category is selected (only if input is empty)
   useEffect(() => {
     if (selectedCategory && !newTaskText.trim()) {
@@ -171,26 +249,6 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     }
   }, [selectedCategory]);
 
-  // Helper functions for category parsing
-  const parseTaskText = (text: string) => {
-    const colonIndex = text.indexOf(':');
-    if (colonIndex === -1 || colonIndex === 0) {
-      // No category or colon at start
-      return {
-        category: undefined,
-        displayText: text.trim()
-      };
-    }
-
-    const category = text.substring(0, colonIndex).trim().toLowerCase();
-    const displayText = text.substring(colonIndex + 1).trim();
-
-    return {
-      category: category || undefined,
-      displayText: displayText || text.trim()
-    };
-  };
-
   // Helper functions for date handling
   const getTodayDateString = () => {
     return new Date().toISOString().split('T')[0];
@@ -249,8 +307,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
 
     setIsAddingTask(true);
 
-    const taskText = newTaskText.trim();
-    const { category, displayText } = parseTaskText(taskText);
+    const { text: taskText, category, displayText, repeat, priority, dueDate } = parseTaskText(newTaskText);
 
     // Prevent duplicate tasks with same display text
     const existingTask = todos.find(task => task.displayText === displayText && !task.completed);
@@ -266,9 +323,11 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       displayText,
       category,
       completed: false,
-      dueDate: getTodayDateString(),
+      dueDate: dueDate || (repeat ? getFirstOccurrence(repeat, getTodayDateString()) : getTodayDateString()),
       createdDate: new Date().toISOString(),
       sortTimeMs: Date.now(),
+      repeat,
+      priority,
     };
 
     setTodos(prev => [...prev, newTask]);
@@ -277,7 +336,9 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     const AnalyticsService = ServiceFactory.getAnalyticsService();
     AnalyticsService.trackFeatureUsage('add_task', 'todo', 'Todo List', {
       category: category || 'none',
-      hasDueDate: false
+      hasDueDate: !!dueDate,
+      repeats: !!repeat,
+      priority: priority || 'none'
     });
 
     // If a category is selected, pre-fill the input with the category prefix
@@ -296,36 +357,110 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
   };
 
   // Toggle task completion
+  // Completing a repeating task spawns its next occurrence; un-completing it
+  // removes that occurrence again as long as it hasn't been completed itself.
   const toggleTask = (id: number) => {
     const today = getTodayDateString();
 
-    setTodos(prev => prev.map(task => {
-      if (task.id === id) {
-        const newCompleted = !task.completed;
-        return {
-          ...task,
-          completed: newCompleted,
-          completedDate: newCompleted ? today : undefined,
-          dueDate: newCompleted ? today : task.dueDate, // Set due date to today when completed
-          sortTimeMs: Date.now(), // refresh ordering time
+    setTodos(prev => {
+      const task = prev.find(t => t.id === id);
+      if (!task) return prev;
+
+      const newCompleted = !task.completed;
+      let nextOccurrence: TodoItem | undefined;
+      let removeId: number | undefined;
+
+      if (newCompleted && task.repeat && task.nextOccurrenceId === undefined) {
+        nextOccurrence = {
+          id: Math.max(...prev.map(t => t.id), 0) + 1,
+          text: task.text,
+          displayText: task.displayText,
+          category: task.category,
+          completed: false,
+          dueDate: getNextOccurrence(task.repeat, task.dueDate, today),
+          createdDate: new Date().toISOString(),
+          sortTimeMs: Date.now(),
+          repeat: task.repeat,
+          priority: task.priority,
+          subtasks: task.subtasks?.map(subtask => ({ ...subtask, completed: false })),
+          reminderTime: task.reminderTime,
         };
+      } else if (!newCompleted && task.nextOccurrenceId !== undefined) {
+        const spawned = prev.find(t => t.id === task.nextOccurrenceId);
+        if (spawned && !spawned.completed) {
+          removeId = spawned.id;
+        }
       }
-      return task;
-    }));
 
+      const updated = prev
+        .filter(t => t.id !== removeId)
+        .map(t => t.id === id
+          ? {
+            ...t,
+            completed: newCompleted,
+            completedDate: newCompleted ? today : undefined,
+            dueDate: newCompleted ? today : t.dueDate, // Set due date to today when completed
+            sortTimeMs: Date.now(), // refresh ordering time
+            nextOccurrenceId: nextOccurrence?.id ?? (removeId !== undefined ? undefined : t.nextOccurrenceId),
+          }
+          : t
+        );
+
+      return nextOccurrence ? [...updated, nextOccurrence] : updated;
+    });
+
+    HapticFeedback.light();
+  };
+
+  // Toggle a subtask from the main list
+  const toggleSubtask = (taskId: number, subtaskId: number) => {
+    setTodos(prev => prev.map(task =>
+      task.id === taskId
+        ? {
+          ...task,
+          subtasks: task.subtasks?.map(subtask =>
+            subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask
+          ),
+        }
+        : task
+    ));
     HapticFeedback.light();
   };
 
+  // Subtask editing in the edit modal, saved with the task
+  const addEditSubtask = () => {
+    const text = newSubtaskText.trim();
+    if (!text) return;
+    setEditSubtasks(prev => [...prev, { id: Math.max(...prev.map(s => s.id), 0) + 1, text, completed: false }]);
+    setNewSubtaskText('');
+  };
+
+  const toggleEditSubtask = (subtaskId: number) => {
+    setEditSubtasks(prev => prev.map(subtask =>
+      subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask
+    ));
+  };
+
+  const removeEditSubtask = (subtaskId: number) => {
+    setEditSubtasks(prev => prev.filter(subtask => subtask.id !== subtaskId));
+  };
+
   // Handle long press for editing
   const handleLongPress = (task: TodoItem) => {
     setEditingTask(task);
     setEditText(task.text);
     setSelectedDate(task.dueDate);
     setEditCompleted(task.completed);
+    setEditSubtasks(task.subtasks || []);
+    setNewSubtaskText('');
+    setEditReminderTime(task.reminderTime || '');
     setEditModalVisible(true);
     HapticFeedback.medium();
   };
 
+  // Opened from a link or search result: jump straight to editing that todo
+  useLinkedItem('todo', undefined, itemId, (data, id) => data.todos?.find(todo => String(todo.id) === id), handleLongPress);
+
   // Save edited task
   const saveEditedTask = () => {
     if (!editingTask || !editText.trim()) {
@@ -333,17 +468,26 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       return;
     }
 
-    const { category, displayText } = parseTaskText(editText.trim());
+    if (editReminderTime && !REMINDER_TIME_PATTERN.test(editReminderTime)) {
+      Alert.alert('Error', 'Reminder time must be HH:MM, e.g. 17:30');
+      return;
+    }
+
+    const { text, category, displayText, repeat, priority, dueDate } = parseTaskText(editText);
 
     const today = getTodayDateString();
     setTodos(prev => prev.map(task =>
       task.id === editingTask.id
         ? {
           ...task,
-          text: editText.trim(),
+          text,
           displayText,
           category,
-          dueDate: selectedDate,
+          repeat,
+          priority,
+          subtasks: editSubtasks.length > 0 ? editSubtasks : undefined,
+          reminderTime: editReminderTime || undefined,
+          dueDate: dueDate || selectedDate,
           completed: editCompleted,
           completedDate: editCompleted ? today : undefined,
           sortTimeMs: Date.now(),
@@ -363,16 +507,25 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       return;
     }
 
-    const { category, displayText } = parseTaskText(editText.trim());
+    if (editReminderTime && !REMINDER_TIME_PATTERN.test(editReminderTime)) {
+      Alert.alert('Error', 'Reminder time must be HH:MM, e.g. 17:30');
+      return;
+    }
+
+    const { text, category, displayText, repeat, priority } = parseTaskText(editText);
 
     const today = getTodayDateString();
     setTodos(prev => prev.map(task =>
       task.id === editingTask.id
         ? {
           ...task,
-          text: editText.trim(),
+          text,
           displayText,
           category,
+          repeat,
+          priority,
+          subtasks: editSubtasks.length > 0 ? editSubtasks : undefined,
+          reminderTime: editReminderTime || undefined,
           dueDate: dateString,
           completed: editCompleted,
           completedDate: editCompleted ? today : undefined,
@@ -465,11 +618,24 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     HapticFeedback.light();
   };
 
+  // Later occurrences of incomplete repeating todos, shown alongside future todos
+  const getUpcomingPreviews = (): TodoListItem[] =>
+    todos
+      .filter(task => task.repeat && !task.completed && task.repeat.frequency !== 'after-completion')
+      .flatMap(task =>
+        getUpcomingOccurrences(task.repeat!, task.dueDate, UPCOMING_PREVIEW_COUNT).map(dueDate => ({
+          ...task,
+          dueDate,
+          previewOf: task.id,
+        }))
+      );
+
   // Filter and sort todos
-  const getFilteredAndSortedTodos = () => {
+  const getFilteredAndSortedTodos = (): TodoListItem[] => {
     const today = getTodayDateString();
+    const previews = showFutureTodos ? getUpcomingPreviews() : [];
 
-    return todos
+    return [...todos, ...previews]
       .filter(task => {
         // First filter by category if selected
         if (selectedCategory && task.category !== selectedCategory) {
@@ -492,9 +658,9 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
         if (a.completed && !b.completed) return 1;
         if (!a.completed && b.completed) return -1;
 
-        // Among incomplete tasks, sort by due date
+        // Among incomplete tasks, sort by due date and priority
         if (!a.completed && !b.completed) {
-          const dateCmp = a.dueDate.localeCompare(b.dueDate);
+          const dateCmp = compareIncomplete(a, b, today);
           if (dateCmp !== 0) return dateCmp;
           // Then by hidden time field ascending (older first)
           return (a.sortTimeMs || 0) - (b.sortTimeMs || 0);
@@ -520,8 +686,9 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
         return false;
       }
 
-      // Check if it's a future todo (incomplete and due date is after today)
-      return !task.completed && task.dueDate > today;
+      // Check if it's a future todo (incomplete and due date is after today),
+      // or a repeating todo with later occurrences to preview
+      return !task.completed && (task.dueDate > today || !!task.repeat);
     });
   };
 
@@ -618,6 +785,9 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     lastItem: {
       borderBottomWidth: 0,
     },
+    previewItem: {
+      opacity: 0.5,
+    },
     checkbox: {
       width: 24,
       height: 24,
@@ -639,6 +809,71 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     todoContent: {
       flex: 1,
     },
+    todoTitleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    priorityDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginRight: 6,
+      marginBottom: 2,
+    },
+    subtaskProgressTrack: {
+      height: 3,
+      borderRadius: 2,
+      backgroundColor: colors.border,
+      marginTop: 6,
+      overflow: 'hidden',
+    },
+    subtaskProgressFill: {
+      height: 3,
+      backgroundColor: colors.primary,
+    },
+    subtaskItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 8,
+      paddingLeft: 44,
+      paddingRight: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    subtaskCheckbox: {
+      width: 18,
+      height: 18,
+      borderRadius: 9,
+      borderWidth: 2,
+      borderColor: colors.primary,
+      marginRight: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    subtaskCheckmark: {
+      color: '#fff',
+      fontSize: 11,
+      fontWeight: 'bold',
+    },
+    subtaskText: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.text,
+    },
+    editSubtaskRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 6,
+    },
+    removeSubtaskText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      paddingHorizontal: 8,
+    },
+    subtaskInput: {
+      marginTop: 8,
+      marginBottom: 0,
+    },
     todoText: {
       fontSize: 16,
       color: colors.text,
@@ -701,6 +936,11 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
       color: colors.text,
       marginBottom: 12,
     },
+    ideaLinkText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.primary,
+    },
     manualDateLabel: {
       fontSize: 14,
       fontWeight: '500',
@@ -825,6 +1065,8 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
     return (
       <TodoSettings
         onClose={onCloseSettings || (() => { })}
+        digestTime={digestTime}
+        onChangeDigestTime={setDigestTime}
       />
     );
   }
@@ -841,7 +1083,7 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
         <TextInput
           ref={taskInputRef}
           style={styles.taskInput}
-          placeholder="Add a new task (eg, category: task)"
+          placeholder="Add a new task (eg, work: report friday !high)"
           placeholderTextColor={colors.textSecondary}
           value={newTaskText}
           onChangeText={setNewTaskText}
@@ -902,34 +1144,72 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
           </View>
         ) : (
           filteredTodos.map((todo, index) => (
-            <TouchableOpacity
-              key={todo.id}
-              style={[
-                styles.todoItem,
-                // background color by due date
-                todo.dueDate === getTodayDateString()
-                  ? styles.todoItemToday
-                  : (todo.dueDate === getTomorrowDateString()
-                    ? styles.todoItemTomorrow
-                    : styles.todoItemFuture),
-                index === filteredTodos.length - 1 && styles.lastItem
-              ]}
-              onPress={() => toggleTask(todo.id)}
-              onLongPress={() => handleLongPress(todo)}
-            >
-              <View style={[styles.checkbox, todo.completed && styles.checkedBox]}>
-                {todo.completed && <Text style={styles.checkmark}>✓</Text>}
-              </View>
-              <View style={styles.todoContent}>
-                <Text style={[styles.todoText, todo.completed && styles.completedText]}>
-                  {todo.displayText}
-                </Text>
-                <Text style={styles.dueDateText}>
-                  {formatRelativeDate(todo.dueDate)}
-                  {todo.category && ` • ${todo.category}`}
-                </Text>
-              </View>
-            </TouchableOpacity>
+            <React.Fragment key={todo.previewOf !== undefined ? `${todo.id}-${todo.dueDate}` : todo.id}>
+              <TouchableOpacity
+                style={[
+                  styles.todoItem,
+                  // background color by due date
+                  todo.dueDate === getTodayDateString()
+                    ? styles.todoItemToday
+                    : (todo.dueDate === getTomorrowDateString()
+                      ? styles.todoItemTomorrow
+                      : styles.todoItemFuture),
+                  todo.previewOf !== undefined && styles.previewItem,
+                  index === filteredTodos.length - 1 && styles.lastItem
+                ]}
+                disabled={todo.previewOf !== undefined}
+                onPress={() => toggleTask(todo.id)}
+                onLongPress={() => handleLongPress(todo)}
+              >
+                <View style={[styles.checkbox, todo.completed && styles.checkedBox]}>
+                  {todo.completed && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+                <View style={styles.todoContent}>
+                  <View style={styles.todoTitleRow}>
+                    {todo.priority && (
+                      <View style={[styles.priorityDot, { backgroundColor: PRIORITY_COLORS[todo.priority] }]} />
+                    )}
+                    <Text style={[styles.todoText, todo.completed && styles.completedText]}>
+                      {todo.displayText}
+                    </Text>
+                  </View>
+                  <Text style={styles.dueDateText}>
+                    {formatRelativeDate(todo.dueDate)}
+                    {todo.category && ` • ${todo.category}`}
+                    {todo.repeat && ` • 🔁 ${describeRepeatRule(todo.repeat)}`}
+                  {todo.reminderTime && ` • ⏰ ${formatReminderTime(todo.reminderTime)}`}
+                    {todo.subtasks && todo.subtasks.length > 0 &&
+                      ` • ☑ ${todo.subtasks.filter(subtask => subtask.completed).length}/${todo.subtasks.length}`}
+                    {todo.ideaId && ' • 💡'}
+                  </Text>
+                  {todo.subtasks && todo.subtasks.length > 0 && (
+                    <View style={styles.subtaskProgressTrack}>
+                      <View
+                        style={[
+                          styles.subtaskProgressFill,
+                          { width: `${Math.round(100 * todo.subtasks.filter(subtask => subtask.completed).length / todo.subtasks.length)}%` },
+                        ]}
+                      />
+                    </View>
+                  )}
+                </View>
+              </TouchableOpacity>
+              {/* Nested subtasks, checkable in place while the task is open */}
+              {!todo.completed && todo.previewOf === undefined && todo.subtasks?.map(subtask => (
+                <TouchableOpacity
+                  key={subtask.id}
+                  style={styles.subtaskItem}
+                  onPress={() => toggleSubtask(todo.id, subtask.id)}
+                >
+                  <View style={[styles.subtaskCheckbox, subtask.completed && styles.checkedBox]}>
+                    {subtask.completed && <Text style={styles.subtaskCheckmark}>✓</Text>}
+                  </View>
+                  <Text style={[styles.subtaskText, subtask.completed && styles.completedText]}>
+                    {subtask.text}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </React.Fragment>
           ))
         )}
 
@@ -1009,6 +1289,99 @@ export const TodoSpark: React.FC<TodoSparkProps> = ({
           }}
         />
 
+        {/* Promoted from an idea */}
+        {editingTask?.ideaId && (
+          <TouchableOpacity
+            style={styles.quickDateSection}
+            onPress={() => {
+              setEditModalVisible(false);
+              navigation.navigate('Spark', { sparkId: 'ideas', itemType: 'idea', itemId: editingTask.ideaId! });
+            }}
+          >
+            <Text style={styles.ideaLinkText}>💡 Open the idea this came from</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Priority */}
+        <View style={styles.quickDateSection}>
+          <Text style={styles.quickDateTitle}>Priority</Text>
+          <View style={styles.quickDateButtons}>
+            {[...PRIORITIES, undefined].map(priority => {
+              const isSelected = parsePriorityToken(editText).priority === priority;
+              return (
+                <TouchableOpacity
+                  key={priority || 'none'}
+                  style={[styles.quickDateButton, isSelected && styles.selectedDateButton]}
+                  onPress={() => setEditText(setPriorityToken(editText, priority))}
+                >
+                  <Text style={[styles.quickDateButtonText, isSelected && styles.selectedDateButtonText]}>
+                    {priority ? priority.charAt(0).toUpperCase() + priority.slice(1) : 'None'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Reminder */}
+        <View style={styles.quickDateSection}>
+          <Text style={styles.quickDateTitle}>Reminder</Text>
+          <View style={styles.quickDateButtons}>
+            {['', ...REMINDER_TIME_OPTIONS].map(time => {
+              const isSelected = editReminderTime === time;
+              return (
+                <TouchableOpacity
+                  key={time || 'none'}
+                  style={[styles.quickDateButton, isSelected && styles.selectedDateButton]}
+                  onPress={() => setEditReminderTime(time)}
+                >
+                  <Text style={[styles.quickDateButtonText, isSelected && styles.selectedDateButtonText]}>
+                    {time ? formatReminderTime(time) : 'None'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <TextInput
+            style={[styles.modalInput, styles.subtaskInput]}
+            placeholder="Or enter a time (HH:MM)"
+            placeholderTextColor={colors.textSecondary}
+            value={editReminderTime}
+            onChangeText={setEditReminderTime}
+          />
+        </View>
+
+        {/* Subtasks */}
+        <View style={styles.quickDateSection}>
+          <Text style={styles.quickDateTitle}>Subtasks</Text>
+          {editSubtasks.map(subtask => (
+            <View key={subtask.id} style={styles.editSubtaskRow}>
+              <TouchableOpacity
+                style={[styles.subtaskCheckbox, subtask.completed && styles.checkedBox]}
+                onPress={() => toggleEditSubtask(subtask.id)}
+              >
+                {subtask.completed && <Text style={styles.subtaskCheckmark}>✓</Text>}
+              </TouchableOpacity>
+              <Text style={[styles.subtaskText, subtask.completed && styles.completedText]}>
+                {subtask.text}
+              </Text>
+              <TouchableOpacity onPress={() => removeEditSubtask(subtask.id)}>
+                <Text style={styles.removeSubtaskText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          <TextInput
+            style={[styles.modalInput, styles.subtaskInput]}
+            placeholder="Add a subtask"
+            placeholderTextColor={colors.textSecondary}
+            value={newSubtaskText}
+            onChangeText={setNewSubtaskText}
+            onSubmitEditing={addEditSubtask}
+            returnKeyType="done"
+            blurOnSubmit={false}
+          />
+        </View>
+
         {/* Done Toggle */}
         <View style={styles.doneToggleSection}>
           <Text style={styles.doneToggleLabel}>Done</Text>
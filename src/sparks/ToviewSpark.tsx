@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput, Alert, Modal } from 'react-native';
 import { useSparkStore } from '../store';
+import { SearchService } from '../services/SearchService';
+import { ToviewItem, ToviewSettings, ToviewData } from '../types/sparkData';
 import { HapticFeedback } from '../utils/haptics';
 import { useTheme } from '../contexts/ThemeContext';
 import {
@@ -18,32 +20,15 @@ import {
 } from '../components/SettingsComponents';
 import { CommonModal } from '../components/CommonModal';
 import { createCommonStyles } from '../styles/CommonStyles';
-
-interface ToviewItem {
-  id: number;
-  text: string;
-  completed: boolean;
-  viewDate: string; // ISO date string (YYYY-MM-DD)
-  completedDate?: string; // ISO date string when completed
-  createdDate: string; // ISO date string when created
-  category?: string; // Parsed category from text (e.g., "Movie" from "Movie: Gladiator")
-  displayText: string; // Text without category prefix
-  provider?: string; // Streaming provider (Netflix, Hulu, etc.)
-  watchWith?: string[]; // Array of people to watch with
-  // Hidden field used only for ordering within the same day/completed group
-  // We store a local timestamp in ms captured at edit/create/complete time
-  sortTimeMs?: number;
-}
-
-interface ToviewSettings {
-  providers: string[];
-}
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { toviewCommandIntents } from './toviewCommands';
 
 interface ToviewSparkProps {
   showSettings?: boolean;
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
   onComplete?: (result: any) => void;
+  itemId?: string;
 }
 
 // Dropdown Component
@@ -322,11 +307,26 @@ const ToviewSettings: React.FC<{
   );
 };
 
+// Search index
+SearchService.registerIndexer('toview', (data: ToviewData) =>
+  (data.toviews || []).map(item => ({
+    itemType: 'toview',
+    itemId: String(item.id),
+    title: item.displayText || item.text,
+    subtitle: [item.category, item.provider].filter(Boolean).join(' · '),
+    body: (item.watchWith || []).join(' '),
+  }))
+);
+
+// Voice commands
+toviewCommandIntents.forEach(CommandIntentRegistry.register);
+
 const ToviewSpark: React.FC<ToviewSparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
-  onComplete
+  onComplete,
+  itemId
 }) => {
   const { colors } = useTheme();
   const { getSparkData, setSparkData } = useSparkStore();
@@ -572,6 +572,14 @@ const ToviewSpark: React.FC<ToviewSparkProps> = ({
     setShowEditModal(true);
   };
 
+  // Open the toview a search result points at
+  useEffect(() => {
+    const toview = itemId && (getSparkData('toview')?.toviews || []).find((t: ToviewItem) => String(t.id) === itemId);
+    if (toview) {
+      openEditModal(toview);
+    }
+  }, [itemId]);
+
   const saveEditModal = async () => {
     if (!editingItem || !editingText.trim()) return;
 
@@ -26,8 +26,14 @@ import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
 import * as Print from 'expo-print';
 import * as ImageManipulator from 'expo-image-manipulator';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useTheme } from '../contexts/ThemeContext';
-import { useSparkStore } from '../store';
+import { useSparkStore, useLinkedItem } from '../store';
+import { SearchService } from '../services/SearchService';
+import { SparkItemTarget } from '../types/spark';
+import { PackingTripList } from '../types/sparkData';
+import { MySparkStackParamList } from '../types/navigation';
 import { HapticFeedback } from '../utils/haptics';
 import {
   SettingsContainer,
@@ -40,7 +46,7 @@ import { NotificationService } from '../utils/notifications';
 
 const { width } = Dimensions.get('window');
 
-interface TripStorySparkProps {
+interface TripStorySparkProps extends SparkItemTarget {
   showSettings?: boolean;
   onCloseSettings?: () => void;
   onStateChange?: (state: any) => void;
@@ -101,13 +107,36 @@ interface TripPhoto {
   createdAt: string;
 }
 
+// Search index: trips plus their activities and photo captions
+SearchService.registerIndexer('trip-story', (data: { trips?: Trip[] }) =>
+  (data.trips || []).flatMap(trip => [
+    {
+      itemType: 'trip',
+      itemId: trip.id,
+      title: trip.title,
+      subtitle: `${trip.startDate} – ${trip.endDate}`,
+      body: (trip.photos || []).map(photo => photo.caption || '').join(' '),
+    },
+    ...(trip.activities || []).map(activity => ({
+      itemType: 'activity',
+      itemId: activity.id,
+      title: activity.name,
+      subtitle: trip.title,
+      body: activity.location?.address,
+    })),
+  ])
+);
+
 const TripStorySpark: React.FC<TripStorySparkProps> = ({
   showSettings = false,
   onCloseSettings,
   onStateChange,
+  itemType,
+  itemId,
 }) => {
   const { colors } = useTheme();
   const { getSparkData, setSparkData } = useSparkStore();
+  const navigation = useNavigation<StackNavigationProp<MySparkStackParamList>>();
 
   const [isLoaded, setIsLoaded] = useState(false);
 
@@ -223,6 +252,19 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
     loadTrips();
   }, []);
 
+  // Opened from a link or search result: show the trip holding the item, once
+  // the trips (with their current statuses) have loaded
+  useLinkedItem(
+    'trip-story',
+    itemType,
+    itemId,
+    (_data, id, type) => trips.find(t =>
+      type === 'activity' ? t.activities?.some(a => a.id === id) : t.id === id
+    ),
+    setCurrentTrip,
+    isLoaded
+  );
+
   const savePhotoPermanently = async (uri: string, tripId: string, photoId: string): Promise<string> => {
     try {
       // If already in document directory, return as is
@@ -346,6 +388,7 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
         if (data.activeActivityId) {
           setActiveActivityId(data.activeActivityId);
         }
+
       }
       setIsLoaded(true); // Mark as loaded
     } catch (error) {
@@ -3669,6 +3712,31 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
     );
   });
 
+  // Packing list linked to the trip, or a shortcut to start one
+  const renderPackingSummary = () => {
+    if (!currentTrip) return null;
+
+    const packingLists: PackingTripList[] = getSparkData('packing-list')?.lists || [];
+    const list = packingLists.find(l => l.tripId === currentTrip.id);
+    if (!list && currentTrip.status === 'completed') return null;
+
+    const packed = list ? list.items.filter(item => item.packed).length : 0;
+    return (
+      <TouchableOpacity
+        style={[styles.packingSummary, { backgroundColor: colors.surface, borderColor: colors.border }]}
+        onPress={() => navigation.navigate('Spark', list
+          ? { sparkId: 'packing-list', itemType: 'list', itemId: list.id }
+          : { sparkId: 'packing-list', itemType: 'trip', itemId: currentTrip.id }
+        )}
+      >
+        <Text style={[styles.packingSummaryText, { color: colors.text }]}>
+          🎒 {list ? `Packing: ${packed} of ${list.items.length} packed` : 'Create a packing list'}
+        </Text>
+        <Text style={[styles.packingSummaryText, { color: colors.primary }]}>›</Text>
+      </TouchableOpacity>
+    );
+  };
+
   const renderTripDetailView = () => {
     if (!currentTrip) return null;
 
@@ -3719,6 +3787,7 @@ const TripStorySpark: React.FC<TripStorySparkProps> = ({
             minIndexForVisible: 0,
           }}
         >
+          {renderPackingSummary()}
           {tripDates.map((date, index) => {
             const dayActivities = (currentTrip?.activities || [])
               .filter(activity => activity?.startDate === date)
@@ -4692,6 +4761,20 @@ const styles = StyleSheet.create({
     padding: 4,
     paddingTop: 80, // Enough space to clear status bar (44px) + sticky navigation bar (60px + padding)
   },
+  packingSummary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  packingSummaryText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
   dayContainer: {
     marginBottom: 8,
     borderRadius: 8,
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
     View,
     Text,
@@ -12,6 +12,7 @@ import {
 import { Svg, Path, Circle, Line, Text as SvgText } from 'react-native-svg';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSparkStore } from '../store';
+import { WeightEntry, WeightTrackerData } from '../types/sparkData';
 import { SparkProps } from '../types/spark';
 import {
     SettingsSection,
@@ -25,19 +26,16 @@ import {
     SettingsScrollView
 } from '../components/SettingsComponents';
 import { HapticFeedback } from '../utils/haptics';
-
-interface WeightEntry {
-    id: string;
-    date: string; // ISO string
-    weight: number;
-}
-
-interface WeightTrackerData {
-    entries: WeightEntry[];
-    goalWeight: number | null;
-    unit: 'lbs' | 'kg';
-    showLabels: boolean;
-}
+import { getWeightAnalytics, WEIGHT_RANGES, WeightRange } from '../utils/weightTrends';
+import { toKilograms, toDisplayWeight } from '../utils/weightUnits';
+import { parseWeightCsv, mergeWeightEntries, exportWeightCsv } from '../utils/weightCsv';
+import { toLocalDateString } from '../utils/dateUtils';
+import { registerSparkSchema } from '../store/sparkMigrations';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { CommandIntentRegistry } from '../services/CommandIntentRegistry';
+import { weightTrackerCommandIntents } from './weightTrackerCommands';
 
 const DEFAULT_DATA: WeightTrackerData = {
     entries: [],
@@ -46,6 +44,31 @@ const DEFAULT_DATA: WeightTrackerData = {
     showLabels: true,
 };
 
+// Stored data schema
+registerSparkSchema('weight-tracker', {
+    version: 1,
+    migrations: [
+        {
+            // v1: weights are stored in kg; older data was stored in the display unit
+            version: 1,
+            migrate: (data) => {
+                if (data.unit === 'kg') return data;
+                return {
+                    ...data,
+                    entries: (data.entries || []).map((entry: WeightEntry) => ({
+                        ...entry,
+                        weight: toKilograms(entry.weight, 'lbs'),
+                    })),
+                    goalWeight: typeof data.goalWeight === 'number' ? toKilograms(data.goalWeight, 'lbs') : data.goalWeight,
+                };
+            },
+        },
+    ],
+});
+
+// Voice commands
+weightTrackerCommandIntents.forEach(CommandIntentRegistry.register);
+
 export const WeightTrackerSpark: React.FC<SparkProps> = ({
     showSettings,
     onCloseSettings,
@@ -63,6 +86,7 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
     const [direction, setDirection] = useState<'higher' | 'same' | 'lower' | null>(null);
     const [diffPounds, setDiffPounds] = useState(0);
     const [diffTenths, setDiffTenths] = useState(0);
+    const [chartRange, setChartRange] = useState<WeightRange>('90d');
 
     // Save data wrapper
     const saveData = (newData: WeightTrackerData) => {
@@ -70,28 +94,40 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
         setSparkData('weight-tracker', newData);
     };
 
+    // Entries and goal converted from kg to the display unit
+    const displayEntries = useMemo(
+        () => data.entries.map(entry => ({ ...entry, weight: toDisplayWeight(entry.weight, data.unit) })),
+        [data.entries, data.unit]
+    );
+    const goalWeight = data.goalWeight !== null ? toDisplayWeight(data.goalWeight, data.unit) : null;
+
     // Sort entries by date (newest first)
     const sortedEntries = useMemo(() => {
-        return [...data.entries].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }, [data.entries]);
+        return [...displayEntries].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    }, [displayEntries]);
 
     const lastEntry = sortedEntries[0];
     const lastWeight = lastEntry ? lastEntry.weight : null;
 
     // Get initial weight (first entry chronologically)
     const initialWeight = useMemo(() => {
-        if (data.entries.length === 0) return null;
-        const sorted = [...data.entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        return sorted[0].weight;
-    }, [data.entries]);
+        if (displayEntries.length === 0) return null;
+        return sortedEntries[sortedEntries.length - 1].weight;
+    }, [displayEntries, sortedEntries]);
 
     // Calculate goal percentage
     const goalPercentage = useMemo(() => {
-        if (!lastWeight || !data.goalWeight || !initialWeight) return null;
-        if (initialWeight === data.goalWeight) return 100; // Already at goal
-        const progress = (initialWeight - lastWeight) / (initialWeight - data.goalWeight) * 100;
+        if (!lastWeight || !goalWeight || !initialWeight) return null;
+        if (initialWeight === goalWeight) return 100; // Already at goal
+        const progress = (initialWeight - lastWeight) / (initialWeight - goalWeight) * 100;
         return Math.max(0, Math.min(100, progress)); // Clamp between 0-100
-    }, [lastWeight, data.goalWeight, initialWeight]);
+    }, [lastWeight, goalWeight, initialWeight]);
+
+    // Smoothed trend, weekly rate and projected goal date
+    const analytics = useMemo(
+        () => getWeightAnalytics(displayEntries, goalWeight, chartRange),
+        [displayEntries, goalWeight, chartRange]
+    );
 
     // Check if weighed in this week
     const hasWeighedThisWeek = useMemo(() => {
@@ -130,7 +166,7 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
         const newEntry: WeightEntry = {
             id: Date.now().toString(),
             date: new Date().toISOString(),
-            weight: parseFloat(newWeight.toFixed(1)),
+            weight: toKilograms(parseFloat(newWeight.toFixed(1)), data.unit),
         };
 
         saveData({
@@ -146,56 +182,91 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
 
     // Chart Logic
     const Chart = () => {
-        if (data.entries.length < 2) return (
-            <View style={styles.emptyChart}>
-                <Text style={{ color: colors.textSecondary }}>Not enough data for graph</Text>
+        const chartPoints = analytics.points;
+
+        const rangeSelector = (
+            <View style={styles.rangeRow}>
+                {WEIGHT_RANGES.map(option => (
+                    <TouchableOpacity
+                        key={option.key}
+                        style={[
+                            styles.rangeButton,
+                            { borderColor: colors.border },
+                            chartRange === option.key && { backgroundColor: colors.primary, borderColor: colors.primary },
+                        ]}
+                        onPress={() => {
+                            setChartRange(option.key);
+                            HapticFeedback.selection();
+                        }}
+                    >
+                        <Text style={[styles.rangeText, { color: chartRange === option.key ? '#fff' : colors.text }]}>
+                            {option.label}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
             </View>
         );
 
-        const chartEntries = [...data.entries]
-            .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-            .slice(-12); // Last 12 entries
+        if (chartPoints.length < 2) return (
+            <View style={{ marginVertical: 20 }}>
+                {data.entries.length >= 2 && rangeSelector}
+                <View style={styles.emptyChart}>
+                    <Text style={{ color: colors.textSecondary }}>Not enough data for graph</Text>
+                </View>
+            </View>
+        );
 
         const width = Dimensions.get('window').width - 40;
         const height = 220;
         const padding = 30;
 
-        const weights = chartEntries.map(e => e.weight);
+        const weights = chartPoints.flatMap(p => [p.weight, p.trend]);
         // Include goal weight in range calculation if it exists
-        const allValues = data.goalWeight ? [...weights, data.goalWeight] : weights;
+        const allValues = goalWeight ? [...weights, goalWeight] : weights;
         const minWeight = Math.min(...allValues) - 2;
         const maxWeight = Math.max(...allValues) + 2;
         const range = maxWeight - minWeight || 1;
 
-        const getX = (index: number) => padding + (index * (width - 2 * padding)) / (chartEntries.length - 1);
+        // Points are spaced by date so gaps between weigh-ins show
+        const startTime = chartPoints[0].date.getTime();
+        const timeSpan = chartPoints[chartPoints.length - 1].date.getTime() - startTime || 1;
+        const getX = (date: Date) => padding + ((date.getTime() - startTime) * (width - 2 * padding)) / timeSpan;
         const getY = (weight: number) => height - padding - ((weight - minWeight) / range) * (height - 2 * padding);
 
-        const pathData = chartEntries.map((e, i) =>
-            `${i === 0 ? 'M' : 'L'} ${getX(i)} ${getY(e.weight)}`
+        const pathData = chartPoints.map((p, i) =>
+            `${i === 0 ? 'M' : 'L'} ${getX(p.date)} ${getY(p.weight)}`
         ).join(' ');
+        const trendPathData = chartPoints.map((p, i) =>
+            `${i === 0 ? 'M' : 'L'} ${getX(p.date)} ${getY(p.trend)}`
+        ).join(' ');
+
+        // Weight labels only while they have room; dates for a handful of points
+        const showPointLabels = data.showLabels && chartPoints.length <= 12;
+        const dateLabelEvery = Math.ceil(chartPoints.length / 6);
 
         return (
             <View style={{ marginVertical: 20, alignItems: 'center' }}>
+                {rangeSelector}
                 <Svg width={width} height={height}>
                     {/* Grid lines */}
                     <Line x1={padding} y1={padding} x2={padding} y2={height - padding} stroke={colors.border} strokeWidth="1" />
                     <Line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke={colors.border} strokeWidth="1" />
 
                     {/* Goal Weight Line */}
-                    {data.goalWeight && (
+                    {goalWeight && (
                         <>
                             <Line
                                 x1={padding}
-                                y1={getY(data.goalWeight)}
+                                y1={getY(goalWeight)}
                                 x2={width - padding}
-                                y2={getY(data.goalWeight)}
+                                y2={getY(goalWeight)}
                                 stroke={colors.success || '#4CAF50'}
                                 strokeWidth="2"
                                 strokeDasharray="5,5"
                             />
                             <SvgText
                                 x={width - padding + 2}
-                                y={getY(data.goalWeight) + 4}
+                                y={getY(goalWeight) + 4}
                                 fontSize="10"
                                 fill={colors.success || '#4CAF50'}
                                 textAnchor="start"
@@ -209,43 +280,54 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
                     <Path
                         d={pathData}
                         stroke={colors.primary}
+                        strokeWidth="1.5"
+                        strokeOpacity={0.5}
+                        fill="none"
+                    />
+
+                    {/* Trend Line */}
+                    <Path
+                        d={trendPathData}
+                        stroke={colors.primary}
                         strokeWidth="3"
                         fill="none"
                     />
 
                     {/* Data Points */}
-                    {chartEntries.map((e, i) => (
-                        <React.Fragment key={e.id}>
+                    {chartPoints.map((p, i) => (
+                        <React.Fragment key={p.id}>
                             <Circle
-                                cx={getX(i)}
-                                cy={getY(e.weight)}
+                                cx={getX(p.date)}
+                                cy={getY(p.weight)}
                                 r="4"
                                 fill={colors.background}
                                 stroke={colors.primary}
                                 strokeWidth="2"
                             />
                             {/* Labels if enabled */}
-                            {data.showLabels && (
+                            {showPointLabels && (
                                 <SvgText
-                                    x={getX(i)}
-                                    y={getY(e.weight) - 10}
+                                    x={getX(p.date)}
+                                    y={getY(p.weight) - 10}
                                     fontSize="10"
                                     fill={colors.text}
                                     textAnchor="middle"
                                 >
-                                    {e.weight}
+                                    {p.weight}
                                 </SvgText>
                             )}
                             {/* Date Labels - show month/day */}
-                            <SvgText
-                                x={getX(i)}
-                                y={height - 10}
-                                fontSize="10"
-                                fill={colors.textSecondary}
-                                textAnchor="middle"
-                            >
-                                {new Date(e.date).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })}
-                            </SvgText>
+                            {i % dateLabelEvery === 0 && (
+                                <SvgText
+                                    x={getX(p.date)}
+                                    y={height - 10}
+                                    fontSize="10"
+                                    fill={colors.textSecondary}
+                                    textAnchor="middle"
+                                >
+                                    {p.date.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })}
+                                </SvgText>
+                            )}
                         </React.Fragment>
                     ))}
                 </Svg>
@@ -253,10 +335,107 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
         );
     };
 
+    // Trend summary under the chart
+    const TrendStats = () => {
+        const { currentTrend, weeklyRate, projectedGoalDate } = analytics;
+        if (currentTrend === null || data.entries.length < 2) return null;
+
+        const rateText = weeklyRate === null
+            ? '—'
+            : `${weeklyRate > 0 ? '+' : ''}${weeklyRate.toFixed(1)} ${data.unit}/wk`;
+        let goalText: string | null = null;
+        if (goalWeight) {
+            goalText = projectedGoalDate
+                ? projectedGoalDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+                : 'Not on track';
+        }
+
+        return (
+            <View style={styles.trendStatsRow}>
+                <View style={styles.trendStat}>
+                    <Text style={[styles.trendStatValue, { color: colors.text }]}>{currentTrend.toFixed(1)}</Text>
+                    <Text style={[styles.trendStatLabel, { color: colors.textSecondary }]}>Trend ({data.unit})</Text>
+                </View>
+                <View style={styles.trendStat}>
+                    <Text style={[styles.trendStatValue, { color: colors.text }]}>{rateText}</Text>
+                    <Text style={[styles.trendStatLabel, { color: colors.textSecondary }]}>Weekly Rate</Text>
+                </View>
+                {goalText && (
+                    <View style={styles.trendStat}>
+                        <Text style={[styles.trendStatValue, { color: colors.success || '#4CAF50' }]}>{goalText}</Text>
+                        <Text style={[styles.trendStatLabel, { color: colors.textSecondary }]}>Goal ETA</Text>
+                    </View>
+                )}
+            </View>
+        );
+    };
+
     // Manual Entry State
     const [manualDate, setManualDate] = useState(new Date().toISOString().split('T')[0]);
     const [manualWeight, setManualWeight] = useState('');
 
+    // Goal is typed in the display unit and stored in kg
+    const [goalInput, setGoalInput] = useState(goalWeight?.toString() || '');
+    useEffect(() => {
+        setGoalInput(goalWeight?.toString() || '');
+        // Only re-sync when the unit changes, so typing isn't rounded mid-edit
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [data.unit]);
+
+    const handleImportCsv = async () => {
+        try {
+            const picked = await DocumentPicker.getDocumentAsync({
+                type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+                multiple: false,
+                copyToCacheDirectory: true,
+            });
+            if (picked.canceled || !picked.assets?.[0]) return;
+
+            const contents = await FileSystem.readAsStringAsync(picked.assets[0].uri, { encoding: 'utf8' });
+            const { entries: imported, errors } = parseWeightCsv(contents, data.unit);
+            if (imported.length === 0) {
+                Alert.alert('Import Failed', errors[0] || 'No weigh-ins found in this file.');
+                return;
+            }
+
+            const { entries, added, duplicates } = mergeWeightEntries(data.entries, imported);
+            saveData({ ...data, entries });
+            HapticFeedback.success();
+
+            const details = [
+                `${added} ${added === 1 ? 'entry' : 'entries'} added.`,
+                duplicates > 0 && `${duplicates} duplicate${duplicates === 1 ? '' : 's'} skipped.`,
+                errors.length > 0 && `${errors.length} row${errors.length === 1 ? '' : 's'} couldn't be read.`,
+            ].filter(Boolean).join('\n');
+            Alert.alert('Import Complete', details);
+        } catch (error) {
+            console.error('Error importing weight CSV:', error);
+            Alert.alert('Import Failed', 'Could not read that file.');
+        }
+    };
+
+    const handleExportCsv = async () => {
+        if (data.entries.length === 0) {
+            Alert.alert('Nothing to Export', 'Add a weigh-in first.');
+            return;
+        }
+
+        try {
+            const fileName = `weight-entries-${toLocalDateString(new Date())}.csv`;
+            const uri = `${FileSystem.cacheDirectory}${fileName}`;
+            await FileSystem.writeAsStringAsync(uri, exportWeightCsv(data.entries, data.unit), { encoding: 'utf8' });
+
+            if (await Sharing.isAvailableAsync()) {
+                await Sharing.shareAsync(uri, { mimeType: 'text/csv', dialogTitle: 'Export Weight Entries' });
+            } else {
+                Alert.alert('Export Saved', `Saved to ${uri}`);
+            }
+        } catch (error) {
+            console.error('Error exporting weight CSV:', error);
+            Alert.alert('Export Failed', 'Could not export your weigh-ins.');
+        }
+    };
+
     if (showSettings) {
         return (
             <SettingsContainer>
@@ -294,10 +473,11 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
                                     <Text style={{ fontSize: 12, color: colors.textSecondary, marginBottom: 4 }}>Weight ({data.unit})</Text>
                                     <SettingsInput
                                         placeholder={`Goal in ${data.unit}`}
-                                        value={data.goalWeight?.toString() || ''}
+                                        value={goalInput}
                                         onChangeText={(val) => {
+                                            setGoalInput(val);
                                             const num = parseFloat(val);
-                                            saveData({ ...data, goalWeight: isNaN(num) ? null : num });
+                                            saveData({ ...data, goalWeight: isNaN(num) ? null : toKilograms(num, data.unit) });
                                         }}
                                         keyboardType="numeric"
                                     />
@@ -349,7 +529,7 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
                                         const newEntry = {
                                             id: Date.now().toString(),
                                             date: d.toISOString(),
-                                            weight: w
+                                            weight: toKilograms(w, data.unit)
                                         };
 
                                         // Merge and sort
@@ -365,6 +545,17 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
                             </View>
                         </View>
 
+                        <View style={{ marginTop: 24, paddingTop: 24, borderTopWidth: 1, borderTopColor: colors.border }}>
+                            <Text style={{ fontSize: 16, fontWeight: '600', marginBottom: 8, color: colors.text }}>Import & Export</Text>
+                            <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 8 }}>
+                                Import a CSV of date, weight and unit columns, such as a smart-scale export. Weigh-ins you already have are skipped.
+                            </Text>
+                            <View style={{ gap: 12 }}>
+                                <SettingsButton title="Import CSV" onPress={handleImportCsv} />
+                                <SettingsButton title="Export CSV" onPress={handleExportCsv} variant="secondary" />
+                            </View>
+                        </View>
+
                         <View style={{ marginTop: 24, paddingTop: 24, borderTopWidth: 1, borderTopColor: colors.border }}>
                             <Text style={{ fontSize: 16, fontWeight: '600', marginBottom: 8, color: colors.text }}>Danger Zone</Text>
                             <SettingsButton
@@ -412,11 +603,11 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
                                 {lastWeight} <Text style={{ fontSize: 16 }}>{data.unit}</Text>
                             </Text>
                         ) : null}
-                        {data.goalWeight && (
+                        {goalWeight && (
                             <View style={{ flexDirection: 'row', gap: 16, marginTop: 8 }}>
                                 {data.showLabels && (
                                     <Text style={{ color: colors.textSecondary, fontSize: 14 }}>
-                                        Goal: {data.goalWeight} {data.unit}
+                                        Goal: {goalWeight} {data.unit}
                                     </Text>
                                 )}
                                 {goalPercentage !== null && (
@@ -431,6 +622,7 @@ export const WeightTrackerSpark: React.FC<SparkProps> = ({
 
                 {/* Graph */}
                 <Chart />
+                <TrendStats />
 
                 {/* Weigh-in Interface */}
                 {!hasWeighedThisWeek ? (
@@ -664,6 +856,39 @@ const styles = StyleSheet.create({
         fontWeight: 'bold',
         marginTop: 12,
     },
+    rangeRow: {
+        flexDirection: 'row',
+        justifyContent: 'center',
+        gap: 8,
+        marginBottom: 12,
+    },
+    rangeButton: {
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+        borderRadius: 14,
+        borderWidth: 1,
+    },
+    rangeText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    trendStatsRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        marginBottom: 10,
+    },
+    trendStat: {
+        alignItems: 'center',
+        flex: 1,
+    },
+    trendStatValue: {
+        fontSize: 16,
+        fontWeight: 'bold',
+    },
+    trendStatLabel: {
+        fontSize: 12,
+        marginTop: 2,
+    },
     emptyChart: {
         height: 220,
         justifyContent: 'center',
@@ -0,0 +1,62 @@
+import { readSparkData, writeSparkData } from '../store';
+import { ComingUpEvent } from '../types/sparkData';
+import { CommandIntent, CommandResult } from '../types/commands';
+
+// Coming Up voice commands, registered by ComingUpSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const comingUpCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'coming-up',
+    sparkName: 'Coming Up',
+    action: 'add',
+    description: 'adding birthdays, anniversaries and upcoming events',
+    keywords: ['birthday', 'anniversary', 'coming up', 'event on'],
+    params: {
+      title: { type: 'string', required: true, description: 'name of the event' },
+      date: { type: 'string', required: true, description: 'YYYY-MM-DD' },
+      type: {
+        type: 'string',
+        options: ['annual', 'monthly', 'weekly', 'one-time'],
+        description: 'how often it repeats, starting on date',
+      },
+      category: {
+        type: 'string',
+        options: ['birthday', 'anniversary', 'trip', 'work', 'party', 'sports', 'other'],
+        description: 'kind of event',
+      },
+    },
+    examples: [
+      {
+        text: "Mom's birthday is March 4th",
+        params: { title: "Mom's birthday", date: '2025-03-04', type: 'annual', category: 'birthday' },
+      },
+    ],
+    handler: (params): CommandResult => {
+      const { title, date } = params;
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return { success: false, message: 'Event date must be YYYY-MM-DD.' };
+      }
+
+      const category: ComingUpEvent['category'] = params.category || 'other';
+      const type: ComingUpEvent['type'] = params.type ||
+        (category === 'birthday' || category === 'anniversary' ? 'annual' : 'one-time');
+
+      const currentData = readSparkData('coming-up');
+      const newEvent: ComingUpEvent = {
+        id: Date.now().toString(),
+        title,
+        date,
+        type,
+        category,
+      };
+
+      writeSparkData('coming-up', {
+        ...currentData,
+        events: [...(currentData.events || []), newEvent],
+      });
+
+      return { success: true, message: `Added event: "${title}" on ${date}` };
+    },
+  },
+];
@@ -0,0 +1,38 @@
+import { readSparkData, writeSparkData } from '../store';
+import { CommandIntent, CommandResult } from '../types/commands';
+
+// Food Cam voice commands, registered by FoodCamSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const foodCamCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'food-cam',
+    sparkName: 'Food Cam',
+    action: 'name',
+    description: 'naming the most recent meal photo',
+    keywords: ['that was', 'meal was', 'i ate', 'name meal'],
+    params: {
+      name: { type: 'string', required: true, description: 'name of the food' },
+      calories: { type: 'number', description: 'estimated calories' },
+    },
+    examples: [
+      { text: 'That meal was a chicken caesar salad, about 450 calories', params: { name: 'Chicken caesar salad', calories: 450 } },
+    ],
+    handler: (params): CommandResult => {
+      const photos = readSparkData('food-cam').photos || [];
+      if (photos.length === 0) {
+        return { success: false, message: 'Take a photo in Food Cam first.' };
+      }
+
+      const latest = photos.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+      writeSparkData('food-cam', {
+        photos: photos.map(photo =>
+          photo.id === latest.id
+            ? { ...photo, name: params.name, calories: params.calories ?? photo.calories }
+            : photo
+        ),
+      });
+
+      return { success: true, message: `Named your latest meal "${params.name}"` };
+    },
+  },
+];
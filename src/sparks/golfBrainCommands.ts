@@ -0,0 +1,79 @@
+import { readSparkData, writeSparkData } from '../store';
+import { Shot } from '../types/sparkData';
+import { CommandIntent, CommandResult } from '../types/commands';
+
+// Golf Brain voice commands, registered by GolfBrainSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const golfBrainCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'golf-brain',
+    sparkName: 'Golf Brain',
+    action: 'log-shot',
+    description: 'logging a shot or putt in the round in progress',
+    keywords: ['hit', 'drive', 'putt', 'shot on hole'],
+    params: {
+      holeNumber: { type: 'number', required: true, description: 'hole the shot was on' },
+      type: { type: 'string', options: ['shot', 'putt'], description: 'shot or putt (default shot)' },
+      club: { type: 'string', description: 'club used, e.g. Driver or 7-Iron' },
+      direction: {
+        type: 'string',
+        options: ['good', 'left', 'right', 'long', 'short', 'left and short', 'left and long', 'right and short', 'right and long', 'penalty'],
+        description: 'where the ball went',
+      },
+      lie: { type: 'string', options: ['fairway', 'rough', 'sand', 'green', 'ob', 'water'], description: 'where the ball ended up' },
+      puttDistance: { type: 'string', options: ['<4ft', '5-10ft', '10+ft'], description: 'length of a putt' },
+    },
+    examples: [
+      { text: 'Hit driver right into the rough on hole 3', params: { holeNumber: 3, type: 'shot', club: 'Driver', direction: 'right', lie: 'rough' } },
+    ],
+    handler: (params): CommandResult => {
+      const data = readSparkData('golf-brain');
+      const round = data.currentRound || (data.rounds || []).find(r => !r.isComplete);
+      if (!round) {
+        return { success: false, message: 'Start a round in Golf Brain first.' };
+      }
+
+      const { holeNumber } = params;
+      const course = (data.courses || []).find(c => c.id === round.courseId);
+      const par = course?.holes.find(h => h.number === holeNumber)?.par || 4;
+      const existing = (round.holeScores || []).find(hs => hs.holeNumber === holeNumber);
+
+      const shot: Shot = params.type === 'putt'
+        ? { id: Date.now().toString(), type: 'putt', puttDistance: params.puttDistance, timestamp: Date.now() }
+        : {
+          id: Date.now().toString(),
+          type: 'shot',
+          club: params.club,
+          direction: params.direction,
+          lie: params.lie,
+          timestamp: Date.now(),
+        };
+
+      const shots = [...(existing?.shots || []), shot];
+      const holeScore = {
+        holeNumber,
+        courseId: round.courseId,
+        shots,
+        totalScore: shots.length,
+        par,
+        netScore: shots.length - par,
+        completedAt: Date.now(),
+      };
+
+      const updatedRound = {
+        ...round,
+        holeScores: [
+          ...(round.holeScores || []).filter(hs => hs.holeNumber !== holeNumber),
+          holeScore,
+        ],
+      };
+
+      writeSparkData('golf-brain', {
+        rounds: (data.rounds || []).map(r => (r.id === round.id ? updatedRound : r)),
+        currentRound: updatedRound,
+      });
+
+      return { success: true, message: `Logged ${params.type === 'putt' ? 'putt' : 'shot'} ${shots.length} on hole ${holeNumber}` };
+    },
+  },
+];
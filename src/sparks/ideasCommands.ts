@@ -0,0 +1,40 @@
+import { readSparkData, writeSparkData } from '../store';
+import { Idea } from '../types/sparkData';
+import { CommandIntent, CommandResult } from '../types/commands';
+import { formatIdeaContent } from '../utils/ideas';
+
+// Ideas voice commands, registered by IdeasSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const ideasCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'ideas',
+    sparkName: 'Ideas',
+    action: 'add',
+    description: 'capturing ideas',
+    keywords: ['idea', 'note to self', 'what if', 'hashtag'],
+    params: {
+      content: { type: 'string', required: true, description: 'the idea' },
+      tags: { type: 'string[]', description: "tags for the idea, e.g. from 'hashtag garden'" },
+    },
+    examples: [
+      { text: 'Idea: a spark that tracks houseplant watering', params: { content: 'A spark that tracks houseplant watering' } },
+      { text: 'Idea: grow basil on the balcony hashtag garden', params: { content: 'Grow basil on the balcony', tags: ['garden'] } },
+    ],
+    handler: (params): CommandResult => {
+      const content = formatIdeaContent(params.content, params.tags);
+      const currentData = readSparkData('ideas');
+      const idea: Idea = {
+        id: Date.now().toString(),
+        content,
+        createdAt: new Date().toISOString(),
+      };
+
+      writeSparkData('ideas', {
+        ...currentData,
+        ideas: [idea, ...(currentData.ideas || [])], // Newest first
+      });
+
+      return { success: true, message: `Saved idea: "${content}"` };
+    },
+  },
+];
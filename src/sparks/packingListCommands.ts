@@ -0,0 +1,49 @@
+import { readSparkData, writeSparkData } from '../store';
+import { PackingItem } from '../types/sparkData';
+import { CommandIntent, CommandResult } from '../types/commands';
+
+// Packing List voice commands, registered by PackingListSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const packingListCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'packing-list',
+    sparkName: 'Packing List',
+    action: 'add',
+    description: 'adding items to pack',
+    keywords: ['pack', 'packing list', 'bring'],
+    params: {
+      item: { type: 'string', required: true, description: 'the item to pack' },
+      count: { type: 'number', description: 'how many to pack' },
+    },
+    examples: [
+      { text: 'Pack 3 swimsuits', params: { item: 'Swimsuits', count: 3 } },
+    ],
+    handler: (params): CommandResult => {
+      const { item, count } = params;
+
+      const currentData = readSparkData('packing-list');
+      // Add to the trip list being shown, if any, otherwise the everyday list
+      const lists = currentData.lists || [];
+      const activeList = lists.find(list => list.id === currentData.activeListId);
+      const items = activeList ? activeList.items : currentData.items || [];
+
+      const newItem: PackingItem = {
+        id: Math.max(...items.map(i => i.id), 0) + 1,
+        item,
+        count: count || 1,
+        packed: false,
+      };
+
+      writeSparkData('packing-list', {
+        ...currentData,
+        ...(activeList
+          ? { lists: lists.map(list => (list === activeList ? { ...list, items: [...items, newItem] } : list)) }
+          : { items: [...items, newItem] }),
+        lastUpdated: new Date().toISOString(),
+      });
+
+      const listName = activeList ? `${activeList.name} packing list` : 'packing list';
+      return { success: true, message: `Added to ${listName}: ${newItem.count} × ${item}` };
+    },
+  },
+];
@@ -0,0 +1,43 @@
+import { readSparkData, writeSparkData } from '../store';
+import { CommandIntent, CommandResult } from '../types/commands';
+import { createShopItem, parseShopItemText, setShopItemChecked } from '../utils/shopList';
+
+// Shop voice commands, registered by ShopSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const shopCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'shop',
+    sparkName: 'Shop',
+    action: 'add',
+    description: 'adding items to the shopping list',
+    keywords: ['shopping list', 'grocery', 'we need', 'pick up'],
+    params: {
+      items: { type: 'string[]', required: true, description: 'items to buy' },
+    },
+    examples: [
+      { text: 'Add milk and eggs to the shopping list', params: { items: ['Milk', 'Eggs'] } },
+    ],
+    handler: (params): CommandResult => {
+      const newItems: string[] = params.items.map((item: string) => item.trim()).filter(Boolean);
+      if (newItems.length === 0) {
+        return { success: false, message: 'Missing items.' };
+      }
+
+      // Items already on the list are unchecked rather than added again
+      const now = Date.now();
+      const items = [...(readSparkData('shop').items || [])];
+      newItems.forEach(text => {
+        const name = parseShopItemText(text).name.toLowerCase();
+        const index = items.findIndex(item => !item.deleted && item.name.toLowerCase() === name);
+        if (index === -1) {
+          items.push(createShopItem(text, now));
+        } else if (items[index].checked) {
+          items[index] = setShopItemChecked(items[index], false, now);
+        }
+      });
+      writeSparkData('shop', { items });
+
+      return { success: true, message: `Added to shopping list: ${newItems.join(', ')}` };
+    },
+  },
+];
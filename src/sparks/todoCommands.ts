@@ -0,0 +1,74 @@
+import { readSparkData, writeSparkData } from '../store';
+import { TodoItem } from '../types/sparkData';
+import { CommandIntent, CommandResult } from '../types/commands';
+import { parseRepeatPhrase, getFirstOccurrence } from '../utils/recurrence';
+import { parseNaturalDate, toLocalDateString } from '../utils/dateUtils';
+
+// Todo List voice commands, registered by TodoSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const todoCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'todo',
+    sparkName: 'Todo List',
+    action: 'create',
+    description: 'creating tasks',
+    keywords: ['add todo', 'remind me', 'buy', 'task'],
+    params: {
+      text: { type: 'string', required: true, description: 'the task' },
+      category: { type: 'string', description: 'category such as work or home' },
+      dueDate: { type: 'string', description: "YYYY-MM-DD or a phrase like 'tomorrow', 'next friday', 'in 3 days', 'end of month'" },
+      priority: { type: 'string', options: ['high', 'medium', 'low'], description: 'task priority' },
+      subtasks: { type: 'string[]', description: 'steps that make up the task' },
+      repeat: { type: 'string', description: "repeat phrase such as 'every monday' or '3 days after completion'" },
+    },
+    examples: [
+      { text: 'Add a todo to buy milk', params: { text: 'Buy milk' } },
+      { text: 'Remind me to take out the trash every monday', params: { text: 'Take out the trash', repeat: 'every monday' } },
+      { text: 'Add a high priority task to file taxes by end of month', params: { text: 'File taxes', dueDate: 'end of month', priority: 'high' } },
+    ],
+    handler: (params): CommandResult => {
+      const { category, dueDate, priority, subtasks } = params;
+      // The repeat phrase may arrive separately or still be part of the text
+      const { text, repeat, phrase } = parseRepeatPhrase(params.repeat ? `${params.text} ${params.repeat}` : params.text);
+
+      const currentData = readSparkData('todo');
+      const todos = currentData.todos || [];
+
+      const newId = Math.max(...todos.map(t => t.id), 0) + 1;
+      const today = toLocalDateString(new Date());
+
+      // Calculate due date
+      let finalDueDate = today;
+      const parsedDueDate = dueDate ? parseNaturalDate(dueDate) : null;
+      if (parsedDueDate) {
+        finalDueDate = parsedDueDate;
+      } else if (repeat) {
+        finalDueDate = getFirstOccurrence(repeat, today);
+      }
+
+      const newTodo: TodoItem = {
+        id: newId,
+        text: phrase ? `${text} ${phrase}` : text, // Raw text, as typed in TodoSpark
+        displayText: text, // Assuming parser separates properly, or we just use raw
+        category: category,
+        completed: false,
+        dueDate: finalDueDate,
+        createdDate: new Date().toISOString(),
+        sortTimeMs: Date.now(),
+        repeat,
+        priority,
+        subtasks: subtasks?.length
+          ? subtasks.map((subtask: string, index: number) => ({ id: index + 1, text: subtask, completed: false }))
+          : undefined,
+      };
+
+      writeSparkData('todo', {
+        ...currentData,
+        todos: [...todos, newTodo],
+        lastUpdated: new Date().toISOString(),
+      });
+
+      return { success: true, message: `Added todo: "${text}"` };
+    },
+  },
+];
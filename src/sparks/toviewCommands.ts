@@ -0,0 +1,63 @@
+import { readSparkData, writeSparkData } from '../store';
+import { ToviewItem } from '../types/sparkData';
+import { CommandIntent, CommandResult } from '../types/commands';
+import { toLocalDateString } from '../utils/dateUtils';
+
+// ToView List voice commands, registered by ToviewSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const toviewCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'toview',
+    sparkName: 'ToView List',
+    action: 'add',
+    description: 'tracking movies/shows',
+    keywords: ['to view', 'watch', 'movie', 'show'],
+    params: {
+      title: { type: 'string', required: true, description: 'the title' },
+      type: { type: 'string', options: ['Movie', 'Show', 'Book'], description: 'kind of media' },
+      provider: { type: 'string', description: 'streaming provider' },
+      watchWith: { type: 'string[]', description: 'people to watch with' },
+    },
+    examples: [
+      {
+        text: 'Watch Gladiator with Bob on Netflix',
+        params: { title: 'Gladiator', type: 'Movie', provider: 'Netflix', watchWith: ['Bob'] },
+      },
+    ],
+    handler: (params): CommandResult => {
+      const { title, type, provider, watchWith } = params;
+
+      const category = type || 'Movie';
+      // Construct text like "Movie: Title (Person)" so regex in ToviewSpark works if needed,
+      // but we are creating the object directly so it's less critical,
+      // however maintaining the formatting in `text` field is good for UI consistency if it uses text.
+      let formattedText = `${category}: ${title}`;
+      if (watchWith && watchWith.length > 0) {
+        formattedText += ` (${watchWith.join(', ')})`;
+      }
+
+      const currentData = readSparkData('toview');
+      const toviews = currentData.toviews || [];
+
+      const newToview: ToviewItem = {
+        id: Date.now(),
+        text: formattedText,
+        completed: false,
+        viewDate: toLocalDateString(new Date()),
+        createdDate: toLocalDateString(new Date()),
+        category: category,
+        displayText: title,
+        provider: provider,
+        watchWith: watchWith,
+        sortTimeMs: Date.now()
+      };
+
+      writeSparkData('toview', {
+        ...currentData,
+        toviews: [...toviews, newToview]
+      });
+
+      return { success: true, message: `Added to list: "${title}"` };
+    },
+  },
+];
@@ -0,0 +1,46 @@
+import { readSparkData, writeSparkData } from '../store';
+import { WeightEntry, WeightTrackerData } from '../types/sparkData';
+import { CommandIntent, CommandResult } from '../types/commands';
+import { toKilograms } from '../utils/weightUnits';
+
+// Weight Tracker voice commands, registered by WeightTrackerSpark.
+// Params and examples also go into the Gemini parser prompt.
+export const weightTrackerCommandIntents: CommandIntent[] = [
+  {
+    sparkId: 'weight-tracker',
+    sparkName: 'Weight Tracker',
+    action: 'add',
+    description: 'logging weight',
+    keywords: ['weight is', 'weighed', 'add weight'],
+    params: {
+      weight: { type: 'number', required: true, description: 'the weight' },
+      unit: { type: 'string', options: ['lbs', 'kg'], description: 'weight unit' },
+    },
+    examples: [
+      { text: 'Weight is 150', params: { weight: 150, unit: 'lbs' } },
+    ],
+    handler: (params): CommandResult => {
+      const { weight, unit } = params;
+
+      const currentData = readSparkData('weight-tracker');
+      const entries = currentData.entries || [];
+
+      // Entries are stored in kg; an unstated unit is the tracker's display unit
+      const spokenUnit = unit || currentData.unit || 'lbs';
+      const newEntry: WeightEntry = {
+        id: Date.now().toString(),
+        date: new Date().toISOString(),
+        weight: toKilograms(weight, spokenUnit),
+      };
+
+      const updatedData: Partial<WeightTrackerData> = {
+        ...currentData,
+        entries: [...entries, newEntry]
+      };
+
+      writeSparkData('weight-tracker', updatedData);
+
+      return { success: true, message: `Recorded weight: ${weight} ${spokenUnit}` };
+    },
+  },
+];
@@ -0,0 +1,23 @@
+import { validateSparkData } from '../sparkDataRegistry';
+
+describe('sparkDataRegistry', () => {
+    describe('validateSparkData', () => {
+        it('keeps malformed list items so writing the list back does not lose them', () => {
+            const todos = [
+                { id: 1, text: 'Buy milk', completed: false },
+                { id: '2', text: 'From a newer version', completed: false, extra: true },
+                null,
+            ];
+            const data = validateSparkData('todo', { todos, selectedCategory: 'home' });
+
+            expect(data.todos).toEqual(todos);
+            expect(data.selectedCategory).toBe('home');
+            expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('2 invalid item(s)'));
+        });
+
+        it('reads a field that is not a list as empty', () => {
+            expect(validateSparkData('shop', { items: 'oops' }).items).toEqual([]);
+            expect(validateSparkData('shop', {}).items).toBeUndefined();
+        });
+    });
+});
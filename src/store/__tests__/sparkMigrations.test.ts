@@ -0,0 +1,107 @@
+import {
+    registerSparkSchema,
+    getSparkSchemaVersion,
+    migrateSparkData,
+    prepareSparkDataWrite,
+} from '../sparkMigrations';
+
+describe('sparkMigrations', () => {
+    beforeAll(() => {
+        registerSparkSchema('test-notes', {
+            version: 2,
+            migrations: [
+                { version: 1, migrate: (data) => ({ ...data, notes: data.notes || [] }) },
+                { version: 2, migrate: (data) => ({ ...data, notes: data.notes.map((n: string) => ({ text: n })) }) },
+            ],
+        });
+        registerSparkSchema('test-broken', {
+            version: 1,
+            migrations: [
+                { version: 1, migrate: () => { throw new Error('bad data'); } },
+            ],
+        });
+    });
+
+    describe('registerSparkSchema', () => {
+        it('returns the registered version', () => {
+            expect(getSparkSchemaVersion('test-notes')).toBe(2);
+        });
+
+        it('returns 0 for sparks without a schema', () => {
+            expect(getSparkSchemaVersion('unregistered')).toBe(0);
+        });
+
+        it('rejects migrations out of order', () => {
+            expect(() => registerSparkSchema('test-unordered', {
+                version: 2,
+                migrations: [
+                    { version: 2, migrate: (data) => data },
+                    { version: 1, migrate: (data) => data },
+                ],
+            })).toThrow();
+        });
+    });
+
+    describe('migrateSparkData', () => {
+        it('runs all migrations for unversioned data', () => {
+            const result = migrateSparkData({ 'test-notes': { notes: ['a'] } });
+            expect(result.sparkData['test-notes'].notes).toEqual([{ text: 'a' }]);
+            expect(result.sparkDataVersions['test-notes']).toBe(2);
+        });
+
+        it('only runs migrations newer than the stored version', () => {
+            const result = migrateSparkData(
+                { 'test-notes': { notes: ['a'] } },
+                { 'test-notes': 1 }
+            );
+            expect(result.sparkData['test-notes'].notes).toEqual([{ text: 'a' }]);
+        });
+
+        it('leaves current data untouched', () => {
+            const data = { notes: [{ text: 'a' }] };
+            const result = migrateSparkData({ 'test-notes': data }, { 'test-notes': 2 });
+            expect(result.sparkData['test-notes']).toBe(data);
+        });
+
+        it('leaves sparks without a schema untouched', () => {
+            const data = { items: [1, 2] };
+            const result = migrateSparkData({ other: data });
+            expect(result.sparkData.other).toBe(data);
+            expect(result.sparkDataVersions.other).toBeUndefined();
+        });
+
+        it('keeps a backup when a migration fails', () => {
+            const data = { rounds: [1] };
+            const result = migrateSparkData({ 'test-broken': data });
+            expect(result.sparkData['test-broken']).toBe(data);
+            expect(result.sparkDataVersions['test-broken']).toBeUndefined();
+            expect(result.sparkDataBackups['test-broken']).toMatchObject({
+                version: 0,
+                data,
+                error: 'bad data',
+            });
+        });
+    });
+
+    describe('prepareSparkDataWrite', () => {
+        it('stamps the current version on new or current data', () => {
+            expect(prepareSparkDataWrite('test-notes', undefined)).toEqual({ data: {}, version: 2 });
+            const data = { notes: [{ text: 'a' }] };
+            expect(prepareSparkDataWrite('test-notes', data, 2)).toEqual({ data, version: 2 });
+        });
+
+        it('migrates data left at an older version before it is written to', () => {
+            expect(prepareSparkDataWrite('test-notes', { notes: ['a'] }, 1)).toEqual({
+                data: { notes: [{ text: 'a' }] },
+                version: 2,
+            });
+        });
+
+        it('keeps the stored version when the migration still fails', () => {
+            const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+            const data = { rounds: [1] };
+            expect(prepareSparkDataWrite('test-broken', data, 0)).toEqual({ data, version: 0 });
+            error.mockRestore();
+        });
+    });
+});
@@ -1,2 +1,12 @@
 export { useAppStore } from './appStore';
-export { useSparkStore } from './sparkStore';
\ No newline at end of file
+export { useSparkStore } from './sparkStore';
+export {
+  useSparkData,
+  useLinkedItem,
+  readSparkData,
+  writeSparkData,
+  watchSparkData,
+  snapshotSparkData,
+  restoreSparkDataSnapshot,
+} from './sparkDataRegistry';
+export type { SparkDataSnapshot } from './sparkDataRegistry';
@@ -36,6 +36,30 @@ interface SettingsState {
   getThemeColors: () => ThemeColors;
 }
 
+// Settings values, without the actions, as saved in backups
+const SETTINGS_VALUE_KEYS = [
+  'hapticEnabled',
+  'soundEnabled',
+  'darkMode',
+  'animations',
+  'notifications',
+  'fontSize',
+  'language',
+  'analytics',
+  'crashReporting',
+] as const;
+
+export type SettingsValues = Pick<SettingsState, typeof SETTINGS_VALUE_KEYS[number]>;
+
+/**
+ * Copy just the settings values out of the store state or a restored backup
+ */
+export const pickSettingsValues = (settings: Partial<SettingsValues>): Partial<SettingsValues> =>
+  SETTINGS_VALUE_KEYS.reduce<Partial<SettingsValues>>(
+    (values, key) => (settings[key] === undefined ? values : { ...values, [key]: settings[key] }),
+    {}
+  );
+
 interface ThemeColors {
   primary: string;
   secondary: string;
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useSparkStore } from './sparkStore';
+import { SparkDataMap, SparkId } from '../types/sparkData';
+
+/**
+ * Typed access to per-spark data.
+ *
+ * Wraps useSparkStore's untyped getSparkData/setSparkData with the interfaces
+ * in types/sparkData, validating stored data on read. Malformed list items are
+ * logged but kept, so reading, changing and writing back a list never loses
+ * data the reader doesn't understand.
+ */
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+type SparkDataValidator<K extends SparkId> = (raw: Record<string, any>) => Partial<SparkDataMap[K]>;
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+    if (type === 'array') return Array.isArray(value);
+    if (type === 'object') return !!value && typeof value === 'object' && !Array.isArray(value);
+    return typeof value === type;
+};
+
+/**
+ * Check that list items are objects with the required fields, logging any
+ * that aren't
+ */
+const validateList = <T>(
+    sparkId: string,
+    field: string,
+    value: unknown,
+    required: Record<string, FieldType>
+): T[] | undefined => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+        console.warn(`Spark data "${sparkId}.${field}" is not a list, ignoring it`);
+        return [];
+    }
+
+    const invalidCount = value.filter(item =>
+        !matchesType(item, 'object') ||
+        !Object.keys(required).every(key => matchesType(item[key], required[key]))
+    ).length;
+    if (invalidCount > 0) {
+        console.warn(`Spark data "${sparkId}.${field}" has ${invalidCount} invalid item(s), keeping them as they are`);
+    }
+    return value as T[];
+};
+
+/**
+ * Copy only the fields whose value has been set
+ */
+const compact = <T extends Record<string, any>>(data: T): Partial<T> => {
+    const result: Partial<T> = {};
+    (Object.keys(data) as (keyof T)[]).forEach(key => {
+        if (data[key] !== undefined) result[key] = data[key];
+    });
+    return result;
+};
+
+const sparkDataValidators: { [K in SparkId]?: SparkDataValidator<K> } = {
+    'todo': (raw) => compact({
+        ...raw,
+        todos: validateList('todo', 'todos', raw.todos, { id: 'number', text: 'string', completed: 'boolean' }),
+    }),
+    'toview': (raw) => compact({
+        ...raw,
+        toviews: validateList('toview', 'toviews', raw.toviews, { id: 'number', text: 'string', completed: 'boolean' }),
+        settings: matchesType(raw.settings?.providers, 'array') ? raw.settings : undefined,
+    }),
+    'weight-tracker': (raw) => compact({
+        ...raw,
+        entries: validateList('weight-tracker', 'entries', raw.entries, { id: 'string', date: 'string', weight: 'number' }),
+        unit: raw.unit === 'kg' || raw.unit === 'lbs' ? raw.unit : undefined,
+        goalWeight: typeof raw.goalWeight === 'number' || raw.goalWeight === null ? raw.goalWeight : undefined,
+    }),
+    'ideas': (raw) => compact({
+        ...raw,
+        ideas: validateList('ideas', 'ideas', raw.ideas, { id: 'string', content: 'string' }),
+    }),
+    'shop': (raw) => compact({
+        ...raw,
+        items: validateList('shop', 'items', raw.items, { id: 'string', name: 'string', checked: 'boolean' }),
+    }),
+    'packing-list': (raw) => compact({
+        ...raw,
+        items: validateList('packing-list', 'items', raw.items, { id: 'number', item: 'string', packed: 'boolean' }),
+    }),
+    'coming-up': (raw) => compact({
+        ...raw,
+        events: validateList('coming-up', 'events', raw.events, { id: 'string', title: 'string', date: 'string' }),
+    }),
+};
+
+/**
+ * Validate raw stored data against a spark's data interface
+ */
+export const validateSparkData = <K extends SparkId>(sparkId: K, raw: Record<string, any>): Partial<SparkDataMap[K]> => {
+    const validator = sparkDataValidators[sparkId] as SparkDataValidator<K> | undefined;
+    return validator ? validator(raw || {}) : (raw || {}) as Partial<SparkDataMap[K]>;
+};
+
+/**
+ * Read a spark's data outside of React (services, command handlers)
+ */
+export const readSparkData = <K extends SparkId>(sparkId: K): Partial<SparkDataMap[K]> => {
+    return validateSparkData(sparkId, useSparkStore.getState().getSparkData(sparkId));
+};
+
+/**
+ * Merge fields into a spark's data outside of React
+ */
+export const writeSparkData = <K extends SparkId>(sparkId: K, data: Partial<SparkDataMap[K]>): void => {
+    useSparkStore.getState().setSparkData(sparkId, data);
+};
+
+/**
+ * Call the listener with a spark's data whenever it is written, whether from
+ * the spark itself, a voice command, another spark or a restore
+ * @returns A function that stops listening
+ */
+export const watchSparkData = <K extends SparkId>(
+    sparkId: K,
+    listener: (data: Partial<SparkDataMap[K]>) => void
+): (() => void) => {
+    return useSparkStore.subscribe((state, previous) => {
+        if (state.sparkData[sparkId] !== previous.sparkData[sparkId]) {
+            listener(validateSparkData(sparkId, state.sparkData[sparkId]));
+        }
+    });
+};
+
+// Raw data for a set of sparks, undefined where a spark had no data
+export type SparkDataSnapshot = Record<string, Record<string, any> | undefined>;
+
+/**
+ * Capture the current data of the given sparks so it can be restored later
+ */
+export const snapshotSparkData = (sparkIds: string[]): SparkDataSnapshot => {
+    const { sparkData } = useSparkStore.getState();
+    const snapshot: SparkDataSnapshot = {};
+    sparkIds.forEach(sparkId => {
+        snapshot[sparkId] = sparkData[sparkId];
+    });
+    return snapshot;
+};
+
+/**
+ * Put sparks' data back exactly as it was when the snapshot was taken
+ */
+export const restoreSparkDataSnapshot = (snapshot: SparkDataSnapshot): void => {
+    const { replaceSparkData } = useSparkStore.getState();
+    Object.keys(snapshot).forEach(sparkId => replaceSparkData(sparkId, snapshot[sparkId]));
+};
+
+/**
+ * Subscribe to a spark's typed data
+ * @returns The validated data and a setter that merges fields into it
+ */
+export const useSparkData = <K extends SparkId>(
+    sparkId: K
+): [Partial<SparkDataMap[K]>, (data: Partial<SparkDataMap[K]>) => void] => {
+    const raw = useSparkStore(state => state.sparkData[sparkId]);
+    const setSparkData = useSparkStore(state => state.setSparkData);
+
+    const data = useMemo(() => validateSparkData(sparkId, raw || {}), [sparkId, raw]);
+    const setData = useCallback(
+        (update: Partial<SparkDataMap[K]>) => setSparkData(sparkId, update),
+        [sparkId, setSparkData]
+    );
+
+    return [data, setData];
+};
+
+/**
+ * Open the item a link or search result points at, e.g. a todo's edit modal.
+ * Runs again whenever the link changes while the spark is open.
+ * @param findItem - Looks the linked item up in the spark's data
+ * @param onOpen - Shows the item once it's found
+ * @param ready - False while the spark is still loading data the item needs
+ */
+export const useLinkedItem = <K extends SparkId, T>(
+    sparkId: K,
+    itemType: string | undefined,
+    itemId: string | undefined,
+    findItem: (data: Partial<SparkDataMap[K]>, itemId: string, itemType?: string) => T | undefined,
+    onOpen: (item: T) => void,
+    ready: boolean = true
+): void => {
+    useEffect(() => {
+        if (!itemId || !ready) return;
+        const item = findItem(readSparkData(sparkId), itemId, itemType);
+        if (item) {
+            onOpen(item);
+        }
+    }, [sparkId, itemType, itemId, ready]);
+};
@@ -0,0 +1,141 @@
+/**
+ * Versioned schema migrations for per-spark data.
+ *
+ * Each spark can declare the current version of its data blob and the ordered
+ * migrations that upgrade older blobs. Migrations run when the spark store is
+ * rehydrated from AsyncStorage, before any spark reads its data.
+ */
+
+export type SparkDataBlob = Record<string, any>;
+
+export interface SparkMigration {
+    /** Version the data is at after this migration has run */
+    version: number;
+    migrate: (data: SparkDataBlob) => SparkDataBlob;
+}
+
+export interface SparkDataSchema {
+    /** Current version of the spark's data */
+    version: number;
+    migrations: SparkMigration[];
+}
+
+export interface SparkDataBackup {
+    /** Version of the data when the migration failed */
+    version: number;
+    data: SparkDataBlob;
+    error: string;
+    failedAt: number;
+}
+
+export interface SparkMigrationResult {
+    sparkData: Record<string, SparkDataBlob>;
+    sparkDataVersions: Record<string, number>;
+    sparkDataBackups: Record<string, SparkDataBackup>;
+}
+
+const sparkSchemas: Record<string, SparkDataSchema> = {};
+
+/**
+ * Register the data schema for a spark
+ * @param sparkId - Spark id as used with setSparkData
+ * @param schema - Current version and ordered migrations
+ */
+export const registerSparkSchema = (sparkId: string, schema: SparkDataSchema): void => {
+    const versions = schema.migrations.map(m => m.version);
+    const isOrdered = versions.every((v, i) => i === 0 || v > versions[i - 1]);
+    if (!isOrdered) {
+        throw new Error(`Migrations for spark "${sparkId}" must be in ascending version order`);
+    }
+    if (versions.length > 0 && versions[versions.length - 1] > schema.version) {
+        throw new Error(`Migration for spark "${sparkId}" targets a version newer than ${schema.version}`);
+    }
+    sparkSchemas[sparkId] = schema;
+};
+
+/**
+ * Get the current schema version for a spark
+ * @returns Registered version, or 0 if the spark has no schema
+ */
+export const getSparkSchemaVersion = (sparkId: string): number => {
+    return sparkSchemas[sparkId]?.version ?? 0;
+};
+
+/**
+ * Upgrade a single spark's data to its current schema version
+ * @param sparkId - Spark id
+ * @param data - Stored data blob
+ * @param fromVersion - Version the data was stored at
+ * @returns Migrated data (throws if a migration fails)
+ */
+export const migrateSparkBlob = (sparkId: string, data: SparkDataBlob, fromVersion: number): SparkDataBlob => {
+    const schema = sparkSchemas[sparkId];
+    if (!schema) return data;
+
+    return schema.migrations
+        .filter(m => m.version > fromVersion && m.version <= schema.version)
+        .reduce((current, m) => m.migrate(current), data);
+};
+
+/**
+ * Run pending migrations over all stored spark data.
+ * Data whose migration throws is left untouched and a backup of the original
+ * blob is recorded so nothing is lost.
+ */
+export const migrateSparkData = (
+    sparkData: Record<string, SparkDataBlob>,
+    sparkDataVersions: Record<string, number> = {},
+    sparkDataBackups: Record<string, SparkDataBackup> = {}
+): SparkMigrationResult => {
+    const result: SparkMigrationResult = {
+        sparkData: { ...sparkData },
+        sparkDataVersions: { ...sparkDataVersions },
+        sparkDataBackups: { ...sparkDataBackups },
+    };
+
+    Object.keys(sparkData).forEach(sparkId => {
+        const targetVersion = getSparkSchemaVersion(sparkId);
+        const storedVersion = sparkDataVersions[sparkId] ?? 0;
+        if (storedVersion >= targetVersion) return;
+
+        try {
+            result.sparkData[sparkId] = migrateSparkBlob(sparkId, sparkData[sparkId], storedVersion);
+            result.sparkDataVersions[sparkId] = targetVersion;
+        } catch (error) {
+            console.error(`Migration failed for spark "${sparkId}":`, error);
+            result.sparkDataBackups[sparkId] = {
+                version: storedVersion,
+                data: sparkData[sparkId],
+                error: error instanceof Error ? error.message : String(error),
+                failedAt: Date.now(),
+            };
+        }
+    });
+
+    return result;
+};
+
+/**
+ * Bring a spark's stored data up to date before new data is merged into it.
+ * Data still at an older version, e.g. after its migration failed on hydrate,
+ * is migrated first; if that fails again it keeps its stored version so the
+ * migration is retried rather than the old data being stamped as current.
+ * @returns Data to merge into, and the version to store with the result
+ */
+export const prepareSparkDataWrite = (
+    sparkId: string,
+    data: SparkDataBlob | undefined,
+    storedVersion: number = 0
+): { data: SparkDataBlob; version: number } => {
+    const targetVersion = getSparkSchemaVersion(sparkId);
+    if (!data || storedVersion >= targetVersion) {
+        return { data: data || {}, version: targetVersion };
+    }
+
+    try {
+        return { data: migrateSparkBlob(sparkId, data, storedVersion), version: targetVersion };
+    } catch (error) {
+        console.error(`Migration failed for spark "${sparkId}":`, error);
+        return { data, version: storedVersion };
+    }
+};
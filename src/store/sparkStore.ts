@@ -4,6 +4,11 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { SparkMetadata } from '../types/spark';
 import { sparkRegistry } from '../components/SparkRegistry';
+import {
+  SparkDataBackup,
+  migrateSparkData,
+  prepareSparkDataWrite,
+} from './sparkMigrations';
 
 interface SparkProgress {
   sparkId: string;
@@ -24,6 +29,13 @@ interface SparkState {
   sparkData: Record<string, Record<string, any>>;
   setSparkData: (sparkId: string, data: Record<string, any>) => void;
   getSparkData: (sparkId: string) => Record<string, any>;
+  replaceSparkData: (sparkId: string, data: Record<string, any> | undefined) => void;
+
+  // Schema versions and backups of data whose migration failed
+  sparkDataVersions: Record<string, number>;
+  sparkDataBackups: Record<string, SparkDataBackup>;
+  restoreSparkDataBackup: (sparkId: string) => void;
+  clearSparkDataBackup: (sparkId: string) => void;
 
   // User's spark collection
   userSparkIds: string[];
@@ -49,6 +61,8 @@ export const useSparkStore = create<SparkState>()(
       // Initial state
       sparkProgress: {},
       sparkData: {},
+      sparkDataVersions: {},
+      sparkDataBackups: {},
       userSparkIds: [], // No default sparks - user starts with empty collection
       favoriteSparkIds: [],
 
@@ -77,15 +91,50 @@ export const useSparkStore = create<SparkState>()(
       getSparkProgress: (sparkId) => get().sparkProgress[sparkId],
 
       setSparkData: (sparkId, data) =>
-        set((state) => ({
-          sparkData: {
-            ...state.sparkData,
-            [sparkId]: { ...(state.sparkData[sparkId] || {}), ...data },
-          },
-        })),
+        set((state) => {
+          const stored = prepareSparkDataWrite(sparkId, state.sparkData[sparkId], state.sparkDataVersions[sparkId]);
+          return {
+            sparkData: {
+              ...state.sparkData,
+              [sparkId]: { ...stored.data, ...data },
+            },
+            sparkDataVersions: {
+              ...state.sparkDataVersions,
+              [sparkId]: stored.version,
+            },
+          };
+        }),
 
       getSparkData: (sparkId) => get().sparkData[sparkId] || {},
 
+      // Overwrite (rather than merge) a spark's data, or remove it when undefined
+      replaceSparkData: (sparkId, data) =>
+        set((state) => {
+          const { [sparkId]: _replaced, ...otherSparkData } = state.sparkData;
+          return {
+            sparkData: data === undefined ? otherSparkData : { ...otherSparkData, [sparkId]: data },
+          };
+        }),
+
+      restoreSparkDataBackup: (sparkId) =>
+        set((state) => {
+          const backup = state.sparkDataBackups[sparkId];
+          if (!backup) return state;
+
+          const { [sparkId]: _restored, ...remainingBackups } = state.sparkDataBackups;
+          return {
+            sparkData: { ...state.sparkData, [sparkId]: backup.data },
+            sparkDataVersions: { ...state.sparkDataVersions, [sparkId]: backup.version },
+            sparkDataBackups: remainingBackups,
+          };
+        }),
+
+      clearSparkDataBackup: (sparkId) =>
+        set((state) => {
+          const { [sparkId]: _cleared, ...remainingBackups } = state.sparkDataBackups;
+          return { sparkDataBackups: remainingBackups };
+        }),
+
       // User spark collection methods
       addSparkToUser: (sparkId) => {
         set((state) => ({
@@ -160,6 +209,16 @@ export const useSparkStore = create<SparkState>()(
     {
       name: 'sparks-data-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      // Upgrade each spark's stored data to its registered schema version on hydrate
+      merge: (persistedState, currentState) => {
+        const persisted = (persistedState || {}) as Partial<SparkState>;
+        const migrated = migrateSparkData(
+          persisted.sparkData || {},
+          persisted.sparkDataVersions,
+          persisted.sparkDataBackups
+        );
+        return { ...currentState, ...persisted, ...migrated };
+      },
     }
   )
 );
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { SparkId } from './sparkData';
+
+export interface ParsedCommand {
+  targetSpark: SparkId | 'unknown';
+  action: string;
+  params: Record<string, any>;
+  confidence: number;
+  originalText: string;
+}
+
+export interface CommandResult {
+  success: boolean;
+  message: string;
+}
+
+export interface CommandParamSpec {
+  type: 'string' | 'number' | 'boolean' | 'string[]';
+  description: string;
+  required?: boolean;
+  options?: string[]; // Allowed values for string params
+}
+
+export interface CommandIntentExample {
+  text: string;
+  params: Record<string, any>;
+}
+
+// A voice command a spark can handle, e.g. "add an item to the shopping list"
+export interface CommandIntent {
+  sparkId: SparkId;
+  sparkName: string;
+  action: string;
+  description: string;
+  keywords: string[];
+  params: Record<string, CommandParamSpec>;
+  examples: CommandIntentExample[];
+  handler: (params: Record<string, any>, command: ParsedCommand) => CommandResult;
+}
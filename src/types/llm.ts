@@ -0,0 +1,39 @@
+export interface LLMRequest {
+  prompt: string;
+  images?: string[]; // Base64 encoded JPEGs for vision input
+  json?: boolean; // Caller expects JSON; providers with a native JSON mode may enable it
+}
+
+// A text generation backend that GeminiService routes requests through
+export interface LLMProvider {
+  id: string;
+  name: string;
+  isConfigured: () => boolean;
+  generateText: (request: LLMRequest) => Promise<string>;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+  jsonMode?: boolean; // Send response_format json_object for JSON requests
+}
+
+export interface MockLLMFixture {
+  match: string | RegExp; // Substring or pattern tested against the prompt
+  response: string | object | ((request: LLMRequest) => string);
+}
+
+// Subset of JSON Schema used to validate generateJSON results
+export type JSONSchema =
+  | { type: 'string'; enum?: string[] }
+  | { type: 'number'; minimum?: number; maximum?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items?: JSONSchema; minItems?: number }
+  | { type: 'object'; properties?: Record<string, JSONSchema>; required?: string[] };
+
+export interface GenerateJSONOptions {
+  schema?: JSONSchema;
+  maxRetries?: number; // Re-prompts after the first attempt, default 2
+  cache?: boolean; // Reuse the result of an identical earlier request
+}
@@ -1,3 +1,5 @@
+import { SparkItemTarget } from './spark';
+
 export type RootTabParamList = {
   MySparks: undefined;
   Marketplace: undefined;
@@ -6,10 +8,10 @@ export type RootTabParamList = {
 
 export type MySparkStackParamList = {
   MySparksList: undefined;
-  Spark: { sparkId: string };
+  Spark: { sparkId: string; autoRecord?: boolean } & SparkItemTarget;
 };
 
 export type MarketplaceStackParamList = {
   MarketplaceList: undefined;
-  Spark: { sparkId: string };
+  Spark: { sparkId: string; autoRecord?: boolean } & SparkItemTarget;
 };
\ No newline at end of file
@@ -0,0 +1,16 @@
+// One searchable item inside a spark's stored data
+export interface SearchDocument {
+  sparkId: string;
+  itemType: string; // e.g. 'todo', 'recipe', 'trip', 'activity'
+  itemId: string;
+  title: string;
+  subtitle?: string;
+  body?: string; // Extra text matched against but not shown
+}
+
+export interface SearchResult extends SearchDocument {
+  score: number;
+}
+
+// Turns a spark's stored data into search documents
+export type SparkIndexer = (data: any) => Omit<SearchDocument, 'sparkId'>[];
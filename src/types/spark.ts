@@ -18,7 +18,13 @@ export interface SparkState {
   [key: string]: any;
 }
 
-export interface SparkProps {
+// Item a spark should open, e.g. from a search result
+export interface SparkItemTarget {
+  itemType?: string; // e.g. 'recipe', 'trip'
+  itemId?: string;
+}
+
+export interface SparkProps extends SparkItemTarget {
   config?: SparkConfig;
   onStateChange?: (state: SparkState) => void;
   onComplete?: (result: any) => void;
@@ -0,0 +1,399 @@
+// Data stored by each spark through useSparkStore.setSparkData.
+// Sparks without a typed interface yet use UntypedSparkData.
+
+export type UntypedSparkData = Record<string, any>;
+
+// Todo List
+export interface RepeatRule {
+  frequency: 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'after-completion';
+  interval?: number; // Every N days/weeks, or days after completion (default 1)
+  weekday?: number; // 0 (Sunday) - 6 for weekly rules on a specific day
+  dayOfMonth?: number; // 1-31 for monthly rules
+}
+
+export type TodoPriority = 'high' | 'medium' | 'low';
+
+export interface TodoSubtask {
+  id: number;
+  text: string;
+  completed: boolean;
+}
+
+export interface TodoItem {
+  id: number;
+  text: string;
+  completed: boolean;
+  dueDate: string; // ISO date string (YYYY-MM-DD)
+  completedDate?: string; // ISO date string when completed
+  createdDate: string; // ISO date string when created
+  category?: string; // Parsed category from text (e.g., "work" from "work: finish project")
+  displayText: string; // Text without category prefix
+  // Hidden field used only for ordering within the same day/completed group
+  // We store a local timestamp in ms captured at edit/create/complete time
+  sortTimeMs?: number;
+  repeat?: RepeatRule; // Parsed from phrases like "every monday" in the text
+  nextOccurrenceId?: number; // Occurrence spawned when this one was completed
+  priority?: TodoPriority; // Parsed from "!high", "!medium" or "!low" in the text
+  subtasks?: TodoSubtask[];
+  reminderTime?: string; // HH:MM local time on the due date to send a reminder
+  ideaId?: string; // Idea this todo was promoted from
+}
+
+export interface TodoData {
+  todos: TodoItem[];
+  selectedCategory?: string | null;
+  digestTime?: string | null; // HH:MM for the morning digest of due todos; off when unset
+  lastUpdated?: string;
+}
+
+// ToView List
+export interface ToviewItem {
+  id: number;
+  text: string;
+  completed: boolean;
+  viewDate: string; // ISO date string (YYYY-MM-DD)
+  completedDate?: string; // ISO date string when completed
+  createdDate: string; // ISO date string when created
+  category?: string; // Parsed category from text (e.g., "Movie" from "Movie: Gladiator")
+  displayText: string; // Text without category prefix
+  provider?: string; // Streaming provider (Netflix, Hulu, etc.)
+  watchWith?: string[]; // Array of people to watch with
+  // Hidden field used only for ordering within the same day/completed group
+  // We store a local timestamp in ms captured at edit/create/complete time
+  sortTimeMs?: number;
+}
+
+export interface ToviewSettings {
+  providers: string[];
+}
+
+export interface ToviewData {
+  toviews: ToviewItem[];
+  settings?: ToviewSettings;
+}
+
+// Weight Tracker
+export interface WeightEntry {
+  id: string;
+  date: string; // ISO string
+  weight: number; // Kilograms, whatever the display unit
+}
+
+export interface WeightTrackerData {
+  entries: WeightEntry[];
+  goalWeight: number | null; // Kilograms
+  unit: 'lbs' | 'kg'; // Display unit
+  showLabels: boolean;
+}
+
+// Ideas
+export interface Idea {
+  id: string;
+  content: string; // May contain #hashtags, which are the idea's tags
+  createdAt: string; // ISO string
+  pinned?: boolean;
+  archived?: boolean;
+  todoId?: number; // Todo created from this idea
+}
+
+export interface IdeasData {
+  ideas: Idea[];
+}
+
+// Shop
+export type ShopAisle = 'produce' | 'bakery' | 'dairy' | 'meat' | 'frozen' | 'pantry' | 'drinks' | 'household' | 'other';
+
+export interface ShopItem {
+  id: string;
+  name: string;
+  quantity?: string; // Free text, e.g. "2" or "1 lb"
+  aisle?: ShopAisle;
+  checked: boolean;
+  // Edits and check-offs keep separate clocks (ms) so merging a shared list
+  // keeps the latest of each, e.g. one person renaming while another checks
+  updatedAt: number;
+  checkedAt: number;
+  deleted?: boolean; // Kept as a tombstone so deletes reach the shared list
+}
+
+export interface ShopSharedList {
+  id: string; // Firestore document id
+  memberNames: string[];
+}
+
+export interface ShopData {
+  items: ShopItem[];
+  sharedList?: ShopSharedList;
+}
+
+// Packing List
+export type PackingCategory = 'clothes' | 'toiletries' | 'electronics' | 'documents' | 'gear' | 'other';
+
+export interface PackingItem {
+  id: number;
+  item: string;
+  count: number;
+  packed: boolean;
+  category?: PackingCategory; // Unset is 'other'
+}
+
+export interface PackingTemplateItem {
+  item: string;
+  category: PackingCategory;
+  count: number; // Fixed count, or count per day of the trip when perDay is set
+  perDay?: boolean;
+  max?: number; // Cap for per-day items, e.g. socks for a week and then laundry
+}
+
+export interface PackingTemplate {
+  id: string;
+  name: string;
+  icon: string;
+  items: PackingTemplateItem[];
+}
+
+// A list for one trip, built from a template
+export interface PackingTripList {
+  id: string;
+  name: string;
+  days: number;
+  templateId?: string;
+  tripId?: string; // Linked TripStory trip
+  items: PackingItem[];
+  createdAt: string;
+}
+
+export interface PackingListData {
+  items: PackingItem[]; // The everyday list
+  lists?: PackingTripList[];
+  activeListId?: string | null; // Trip list being shown; null for the everyday list
+  templates?: PackingTemplate[]; // Saved by the user; built-in templates aren't stored
+  lastUpdated?: string;
+}
+
+// Coming Up
+// Repeating events start on their date: 'weekly' on its weekday, 'monthly' on
+// its day of the month, 'nth-weekday' yearly on e.g. the 2nd Sunday of its month
+export type ComingUpEventType = 'one-time' | 'annual' | 'monthly' | 'weekly' | 'nth-weekday' | 'custom';
+
+export interface ComingUpEvent {
+  id: string;
+  title: string;
+  date: string; // ISO date string (YYYY-MM-DD)
+  type: ComingUpEventType;
+  category: 'birthday' | 'anniversary' | 'trip' | 'work' | 'party' | 'sports' | 'other';
+  weekOfMonth?: number; // 'nth-weekday': 1-4, or -1 for the last; defaults to the week of date
+  interval?: number; // 'custom': repeat every N intervalUnits (default 1)
+  intervalUnit?: 'days' | 'weeks' | 'months' | 'years';
+  reminderDays?: number[]; // Days before the event to remind; 0 is the day itself. Unset uses the day before and the day of
+}
+
+export interface ComingUpData {
+  events: ComingUpEvent[];
+}
+
+// Golf Brain
+export interface Course {
+  id: string;
+  name: string;
+  holes: Hole[];
+  createdAt: number;
+  courseRating?: number; // Expected score for a scratch golfer; par when unset
+  slopeRating?: number; // 55-155, relative difficulty for a bogey golfer; 113 when unset
+  teeSets?: TeeSet[];
+  teeSetId?: string; // Tee set the hole yardages and ratings above come from
+  sharedBy?: string; // Name of the friend who shared the course
+}
+
+// One set of tees on a course, e.g. "Blue" or "White"
+export interface TeeSet {
+  id: string;
+  name: string;
+  yardages: Record<number, number>; // Yards by hole number
+  courseRating?: number;
+  slopeRating?: number;
+}
+
+export interface Hole {
+  number: number;
+  par: number; // 3, 4, or 5
+  strokeIndex: number; // 1-18 (relative difficulty)
+  distanceYards?: number; // Distance to hole in yards
+  todaysDistance?: number; // Today's distance (optional, can vary day to day)
+}
+
+export interface Shot {
+  id: string;
+  type: 'shot' | 'putt';
+  direction?: 'good' | 'fire' | 'left' | 'right' | 'long' | 'short' | 'left and short' | 'left and long' | 'right and short' | 'right and long' | 'penalty';
+  lie?: 'fairway' | 'rough' | 'sand' | 'green' | 'ob' | 'water'; // For shots
+  puttDistance?: '<4ft' | '5-10ft' | '10+ft'; // For putts
+  club?: string; // For shots
+  videoUri?: string; // For swing recordings
+  timestamp: number;
+  poorShot?: boolean; // For 💩 feature
+}
+
+export interface HoleScore {
+  holeNumber: number;
+  courseId: string;
+  shots: Shot[];
+  totalScore: number;
+  par: number;
+  netScore: number; // Score relative to par
+  completedAt: number;
+}
+
+// A playing partner: score-only entry, while the device owner tracks shots
+export interface GolfPartner {
+  id: string;
+  name: string;
+  handicapIndex?: number;
+}
+
+export interface RoundPlayer extends GolfPartner {
+  scores: { holeNumber: number; strokes: number }[];
+}
+
+export interface Round {
+  id: string;
+  courseId: string;
+  courseName: string;
+  holeScores: HoleScore[]; // The device owner's holes
+  players?: RoundPlayer[]; // Playing partners
+  bet?: BetSettings; // Side game scored from everyone's hole scores
+  teeSetId?: string; // Tees the round was played from
+  totalScore: number;
+  totalPar: number;
+  startedAt: number;
+  completedAt?: number;
+  isComplete: boolean;
+}
+
+export interface GolfBrainData {
+  courses: Course[];
+  rounds: Round[];
+  currentRound?: Round;
+  settings: {
+    defaultCourse?: string;
+    showHints: boolean;
+    autoAdvance: boolean;
+    clubs: string[];
+    handicap?: number; // Entered by hand; used until enough rounds are played to compute an index
+    partners?: GolfPartner[]; // People played with before, for adding to a new round
+    defaultClubs: {
+      par5: {
+        shot1: string;
+        shot2: string;
+        shot3: string;
+      };
+      par4: {
+        shot1: string;
+        shot2: string;
+      };
+      par3: {
+        shot1: string;
+      };
+    };
+    swingRecording: {
+      countdownSeconds: number;
+      durationSeconds: number;
+    };
+  };
+}
+
+// Golf betting games (Skins and Golf Brain side games)
+export type BetFormat = 'skins' | 'nassau' | 'wolf' | 'best-ball';
+
+export interface BetSettings {
+  format: BetFormat;
+  stake: number; // Per skin, Nassau bet, wolf point or best-ball hole
+  teams?: string[][]; // Two sides of player ids for Nassau and best-ball fourballs
+  carryOvers?: boolean; // Skins: a halved hole's skin carries to the next hole
+  validation?: boolean; // Skins: a skin only pays once its winner ties or wins the next hole
+  pressAt?: number; // Nassau: holes down that starts a press; no presses when unset
+}
+
+export interface BetPlayer {
+  id: string;
+  name: string;
+}
+
+export interface BetHole {
+  holeNumber: number;
+  winnerIds?: string[]; // Entered by hand: the winning player, or a side's players; empty when halved
+  scores?: Record<string, number>; // Strokes by player id, used when no winner was entered
+  partnerId?: string | null; // Wolf: the wolf's partner, null for a lone wolf
+}
+
+export interface BetGame extends BetSettings {
+  players: BetPlayer[];
+  holes: BetHole[];
+  holeCount: number;
+  roundId?: string; // Golf Brain round the hole scores come from
+}
+
+export interface SkinsData {
+  mode: 'setup' | 'playing' | 'finished';
+  game?: BetGame;
+}
+
+// Food Cam
+export interface FoodPhoto {
+  id: string;
+  // Store RELATIVE path under documentDirectory (e.g., "foodcam/123.jpg")
+  uri: string; // relative path
+  originalUri?: string; // Original temporary URI
+  mediaLibraryId?: string; // MediaLibrary asset ID
+  timestamp: number;
+  date: string; // YYYY-MM-DD format
+  name?: string; // User-defined name for the food
+  calories?: number; // Estimated calories
+  time?: string; // HH:MM format for display
+}
+
+export interface FoodCamData {
+  photos: FoodPhoto[];
+}
+
+// Maps every spark id in sparkRegistryData to the data it stores
+export interface SparkDataMap {
+  'ideas': IdeasData;
+  'spinner': UntypedSparkData;
+  'flashcards': UntypedSparkData;
+  'packing-list': PackingListData;
+  'todo': TodoData;
+  'toview': ToviewData;
+  'food-cam': FoodCamData;
+  'spanish-friend': UntypedSparkData;
+  'tee-time-timer': UntypedSparkData;
+  'soundboard': UntypedSparkData;
+  'golf-brain': GolfBrainData;
+  'quick-convert': UntypedSparkData;
+  'spanish-reader': UntypedSparkData;
+  'trip-story': UntypedSparkData;
+  'short-saver': UntypedSparkData;
+  'song-saver': UntypedSparkData;
+  'spark-wizard': UntypedSparkData;
+  'minute-minder': UntypedSparkData;
+  'buzzy-bingo': UntypedSparkData;
+  'card-score': UntypedSparkData;
+  'golfWisdom': UntypedSparkData;
+  'weight-tracker': WeightTrackerData;
+  'share-sparks': UntypedSparkData;
+  'coming-up': ComingUpData;
+  'final-clock': UntypedSparkData;
+  'trip-survey': UntypedSparkData;
+  'spark-stats': UntypedSparkData;
+  'big-denny': SkinsData;
+  'recaipe': UntypedSparkData;
+  'shop': ShopData;
+  'speak-spark': UntypedSparkData;
+  'friend-spark': UntypedSparkData;
+  'tripod-spark': UntypedSparkData;
+  // Sparks that store data but are not listed in the registry
+  'skins': SkinsData;
+  'business-sim': UntypedSparkData;
+}
+
+export type SparkId = keyof SparkDataMap;
@@ -0,0 +1,108 @@
+import {
+    getNextEventOccurrence,
+    describeEventRecurrence,
+    getYearsLabel,
+    getWeekOfMonth,
+    isInLastWeekOfMonth,
+} from '../comingUpEvents';
+import { ComingUpEvent } from '../../types/sparkData';
+
+const event = (overrides: Partial<ComingUpEvent>): ComingUpEvent => ({
+    id: '1',
+    title: 'Event',
+    date: '2025-01-15',
+    type: 'one-time',
+    category: 'other',
+    ...overrides,
+});
+
+describe('comingUpEvents', () => {
+    const today = new Date(2025, 5, 15, 10, 30); // Sunday, June 15, 2025
+
+    describe('getNextEventOccurrence', () => {
+        it('returns one-time dates as they are', () => {
+            expect(getNextEventOccurrence(event({ date: '2025-01-01' }), today)).toEqual(new Date(2025, 0, 1));
+        });
+
+        it('rolls annual events to the coming year', () => {
+            expect(getNextEventOccurrence(event({ type: 'annual', date: '1990-06-15' }), today)).toEqual(new Date(2025, 5, 15));
+            expect(getNextEventOccurrence(event({ type: 'annual', date: '1990-03-01' }), today)).toEqual(new Date(2026, 2, 1));
+        });
+
+        it('moves Feb 29 to Feb 28 outside leap years', () => {
+            expect(getNextEventOccurrence(event({ type: 'annual', date: '2024-02-29' }), today)).toEqual(new Date(2026, 1, 28));
+        });
+
+        it('repeats monthly on the same day, clamped to short months', () => {
+            expect(getNextEventOccurrence(event({ type: 'monthly', date: '2025-01-20' }), today)).toEqual(new Date(2025, 5, 20));
+            expect(getNextEventOccurrence(event({ type: 'monthly', date: '2025-01-31' }), today)).toEqual(new Date(2025, 5, 30));
+        });
+
+        it('repeats weekly on the same weekday', () => {
+            // Jan 1, 2025 was a Wednesday
+            expect(getNextEventOccurrence(event({ type: 'weekly', date: '2025-01-01' }), today)).toEqual(new Date(2025, 5, 18));
+            expect(getNextEventOccurrence(event({ type: 'weekly', date: '2025-06-15' }), today)).toEqual(new Date(2025, 5, 15));
+        });
+
+        it('starts repeating events on their date', () => {
+            expect(getNextEventOccurrence(event({ type: 'weekly', date: '2025-09-01' }), today)).toEqual(new Date(2025, 8, 1));
+        });
+
+        it('finds the nth weekday of the month each year', () => {
+            // Mother's Day: 2nd Sunday of May
+            expect(getNextEventOccurrence(event({ type: 'nth-weekday', date: '2025-05-11' }), today)).toEqual(new Date(2026, 4, 10));
+            // Memorial Day: last Monday of May
+            expect(getNextEventOccurrence(event({ type: 'nth-weekday', date: '2025-05-26', weekOfMonth: -1 }), today))
+                .toEqual(new Date(2026, 4, 25));
+            // Thanksgiving: 4th Thursday of November
+            expect(getNextEventOccurrence(event({ type: 'nth-weekday', date: '2024-11-28' }), today)).toEqual(new Date(2025, 10, 27));
+        });
+
+        it('repeats custom intervals from the start date', () => {
+            expect(getNextEventOccurrence(event({ type: 'custom', interval: 10, intervalUnit: 'days', date: '2025-06-01' }), today))
+                .toEqual(new Date(2025, 5, 21));
+            expect(getNextEventOccurrence(event({ type: 'custom', interval: 2, intervalUnit: 'weeks', date: '2025-06-01' }), today))
+                .toEqual(new Date(2025, 5, 15));
+            expect(getNextEventOccurrence(event({ type: 'custom', interval: 3, intervalUnit: 'months', date: '2025-01-10' }), today))
+                .toEqual(new Date(2025, 6, 10));
+            expect(getNextEventOccurrence(event({ type: 'custom', interval: 4, intervalUnit: 'years', date: '2024-07-26' }), today))
+                .toEqual(new Date(2028, 6, 26));
+        });
+    });
+
+    describe('getWeekOfMonth', () => {
+        it('numbers weeks and treats a fifth week as the last', () => {
+            expect(getWeekOfMonth(new Date(2025, 4, 11))).toBe(2);
+            expect(getWeekOfMonth(new Date(2025, 4, 29))).toBe(-1);
+            expect(isInLastWeekOfMonth(new Date(2025, 4, 26))).toBe(true);
+            expect(isInLastWeekOfMonth(new Date(2025, 4, 24))).toBe(false);
+        });
+    });
+
+    describe('describeEventRecurrence', () => {
+        it('describes each type', () => {
+            expect(describeEventRecurrence(event({ type: 'monthly', date: '2025-01-03' }))).toBe('Monthly on the 3rd');
+            expect(describeEventRecurrence(event({ type: 'weekly', date: '2025-01-01' }))).toBe('Every Wednesday');
+            expect(describeEventRecurrence(event({ type: 'nth-weekday', date: '2025-05-11' }))).toBe('Every 2nd Sunday of May');
+            expect(describeEventRecurrence(event({ type: 'nth-weekday', date: '2025-05-26', weekOfMonth: -1 }))).toBe('Every last Monday of May');
+            expect(describeEventRecurrence(event({ type: 'custom', interval: 3, intervalUnit: 'weeks' }))).toBe('Every 3 weeks');
+            expect(describeEventRecurrence(event({ type: 'custom', interval: 1, intervalUnit: 'months' }))).toBe('Every month');
+        });
+    });
+
+    describe('getYearsLabel', () => {
+        it('labels birthdays and anniversaries by years since their date', () => {
+            const occurrence = new Date(2025, 5, 20);
+            expect(getYearsLabel(event({ type: 'annual', category: 'birthday', date: '1985-06-20' }), occurrence)).toBe('Turns 40');
+            expect(getYearsLabel(event({ type: 'annual', category: 'anniversary', date: '2015-06-20' }), occurrence)).toBe('10th anniversary');
+            expect(getYearsLabel(event({ type: 'annual', category: 'anniversary', date: '2024-06-20' }), occurrence)).toBe('1st anniversary');
+        });
+
+        it('skips other events and dates in the current year', () => {
+            const occurrence = new Date(2025, 5, 20);
+            expect(getYearsLabel(event({ type: 'annual', category: 'party', date: '2015-06-20' }), occurrence)).toBeNull();
+            expect(getYearsLabel(event({ type: 'annual', category: 'birthday', date: '2025-06-20' }), occurrence)).toBeNull();
+            expect(getYearsLabel(event({ type: 'one-time', category: 'birthday', date: '2015-06-20' }), occurrence)).toBeNull();
+        });
+    });
+});
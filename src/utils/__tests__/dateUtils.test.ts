@@ -1,4 +1,4 @@
-import { formatDate, getDaysRemaining, formatDateRange } from '../dateUtils';
+import { formatDate, getDaysRemaining, formatDateRange, parseNaturalDate, extractNaturalDate } from '../dateUtils';
 
 describe('dateUtils', () => {
     describe('formatDate', () => {
@@ -65,4 +65,50 @@ describe('dateUtils', () => {
             expect(formatDateRange('2024-12-28', '2025-01-05')).toBe('Dec 28 - Jan 5, 2025');
         });
     });
+
+    describe('parseNaturalDate', () => {
+        const now = new Date(2025, 5, 15); // Sunday, June 15, 2025
+
+        it('resolves relative days', () => {
+            expect(parseNaturalDate('today', now)).toBe('2025-06-15');
+            expect(parseNaturalDate('tomorrow', now)).toBe('2025-06-16');
+            expect(parseNaturalDate('in 3 days', now)).toBe('2025-06-18');
+            expect(parseNaturalDate('in two weeks', now)).toBe('2025-06-29');
+        });
+
+        it('resolves weekdays to the coming one', () => {
+            expect(parseNaturalDate('friday', now)).toBe('2025-06-20');
+            expect(parseNaturalDate('next Friday', now)).toBe('2025-06-20');
+            expect(parseNaturalDate('sunday', now)).toBe('2025-06-22');
+            expect(parseNaturalDate('next week', now)).toBe('2025-06-16');
+        });
+
+        it('resolves period ends', () => {
+            expect(parseNaturalDate('end of month', now)).toBe('2025-06-30');
+            expect(parseNaturalDate('by end of the week', now)).toBe('2025-06-20');
+            expect(parseNaturalDate('next month', now)).toBe('2025-07-01');
+        });
+
+        it('clamps month arithmetic to short months', () => {
+            expect(parseNaturalDate('in a month', new Date(2025, 0, 31))).toBe('2025-02-28');
+        });
+
+        it('passes through ISO dates and rejects unknown phrases', () => {
+            expect(parseNaturalDate('on 2025-07-01', now)).toBe('2025-07-01');
+            expect(parseNaturalDate('someday', now)).toBeNull();
+        });
+    });
+
+    describe('extractNaturalDate', () => {
+        const now = new Date(2025, 5, 15);
+
+        it('pulls a trailing date phrase off the text', () => {
+            expect(extractNaturalDate('Call mom by next friday', now))
+                .toEqual({ text: 'Call mom', phrase: 'next friday', date: '2025-06-20' });
+        });
+
+        it('leaves text without a date alone', () => {
+            expect(extractNaturalDate('Buy sunscreen for the sun', now)).toEqual({ text: 'Buy sunscreen for the sun' });
+        });
+    });
 });
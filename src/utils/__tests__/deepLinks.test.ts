@@ -0,0 +1,55 @@
+import { getStateFromPath } from '@react-navigation/native';
+import { buildSparkLink, parseSparkLink } from '../deepLinks';
+import { linking } from '../../navigation/linking';
+
+jest.mock('expo-linking', () => ({
+    createURL: (path: string) => `exp://127.0.0.1:8081/--${path}`,
+}));
+
+describe('deepLinks', () => {
+    describe('buildSparkLink', () => {
+        it('builds links to sparks and items', () => {
+            expect(buildSparkLink('todo')).toBe('sparks://spark/todo');
+            expect(buildSparkLink('trip-story', 'trip', '123')).toBe('sparks://spark/trip-story/trip/123');
+        });
+
+        it('encodes ids', () => {
+            expect(buildSparkLink('recaipe', 'recipe', 'a/b c')).toBe('sparks://spark/recaipe/recipe/a%2Fb%20c');
+        });
+    });
+
+    describe('parseSparkLink', () => {
+        it('round trips built links', () => {
+            expect(parseSparkLink(buildSparkLink('recaipe', 'recipe', 'a/b c')))
+                .toEqual({ sparkId: 'recaipe', itemType: 'recipe', itemId: 'a/b c' });
+        });
+
+        it('accepts web urls and bare paths', () => {
+            expect(parseSparkLink('https://sparks.febak.com/spark/golf-brain/round/r1?x=1'))
+                .toEqual({ sparkId: 'golf-brain', itemType: 'round', itemId: 'r1' });
+            expect(parseSparkLink('/spark/todo')).toEqual({ sparkId: 'todo' });
+        });
+
+        it('rejects other links', () => {
+            expect(parseSparkLink('sparks://settings')).toBeNull();
+            expect(parseSparkLink('https://example.com/spark')).toBeNull();
+        });
+    });
+
+    describe('linking config', () => {
+        const sparkParams = (path: string) => {
+            const state: any = getStateFromPath(path, linking.config);
+            const stack = state.routes[0].state;
+            return stack.routes[stack.routes.length - 1].params;
+        };
+
+        it('maps item paths onto Spark screen params', () => {
+            expect(sparkParams('spark/trip-story/trip/123'))
+                .toEqual({ sparkId: 'trip-story', itemType: 'trip', itemId: '123' });
+        });
+
+        it('maps spark paths without an item', () => {
+            expect(sparkParams('spark/todo')).toEqual({ sparkId: 'todo' });
+        });
+    });
+});
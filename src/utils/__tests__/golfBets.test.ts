@@ -0,0 +1,298 @@
+import {
+    applyRoundScores,
+    describeNassauMatch,
+    formatStake,
+    getBetFormatError,
+    getCurrentBetHole,
+    getRoundBetGame,
+    getWolfId,
+    migrateLegacySkinsData,
+    scoreBetGame,
+    setHoleWinners,
+    setWolfPartner,
+    settleUp,
+    undoLastHole,
+} from '../golfBets';
+import { OWNER_PLAYER_ID } from '../golfLeaderboard';
+import { BetGame, BetHole, Course, Round } from '../../types/sparkData';
+
+const game = (overrides: Partial<BetGame>): BetGame => ({
+    format: 'skins',
+    stake: 1,
+    players: ['a', 'b', 'c', 'd'].map(id => ({ id, name: id.toUpperCase() })),
+    holes: [],
+    holeCount: 18,
+    ...overrides,
+});
+
+// Holes scored in order, one list of scores for players a, b, c, d per hole
+const scored = (...holeScores: number[][]): BetHole[] =>
+    holeScores.map((strokes, i) => ({
+        holeNumber: i + 1,
+        scores: Object.fromEntries(strokes.map((s, p) => [['a', 'b', 'c', 'd'][p], s])),
+    }));
+
+const won = (...winners: (string | null)[]): BetHole[] =>
+    winners.map((winner, i) => ({ holeNumber: i + 1, winnerIds: winner ? [winner] : [] }));
+
+describe('golfBets', () => {
+    describe('getBetFormatError', () => {
+        it('checks player and hole counts for each format', () => {
+            expect(getBetFormatError('skins', 3, 9)).toBeUndefined();
+            expect(getBetFormatError('nassau', 4, 9)).toBe('Nassau is played over 18 holes');
+            expect(getBetFormatError('nassau', 3, 18)).toBeDefined();
+            expect(getBetFormatError('wolf', 2, 18)).toBeDefined();
+            expect(getBetFormatError('best-ball', 4, 9)).toBeUndefined();
+        });
+    });
+
+    describe('skins', () => {
+        it('carries halved holes into the next skin', () => {
+            const result = scoreBetGame(game({ carryOvers: true, holes: scored([4, 4, 5, 5], [5, 5, 5, 5], [4, 5, 5, 5]) }));
+
+            expect(result.points).toEqual({ a: 3, b: 0, c: 0, d: 0 });
+            expect(result.holes.map(h => [h.winnerIds, h.skins, !!h.carried])).toEqual([
+                [[], 1, true],
+                [[], 2, true],
+                [['a'], 3, false],
+            ]);
+            expect(result.winnings).toEqual({ a: 9, b: -3, c: -3, d: -3 });
+        });
+
+        it('drops halved skins without carry-overs', () => {
+            const result = scoreBetGame(game({ stake: 2, holes: won(null, 'b') }));
+            expect(result.points.b).toBe(1);
+            expect(result.winnings).toEqual({ a: -2, b: 6, c: -2, d: -2 });
+            expect(result.carry).toBe(0);
+        });
+
+        it('only pays a skin once its winner ties or wins the next hole', () => {
+            const holes = scored([3, 4, 4, 4], [5, 4, 4, 4], [4, 4, 4, 4]);
+            const result = scoreBetGame(game({ carryOvers: true, validation: true, holes }));
+
+            expect(result.holes[0].validated).toBe(false);
+            expect(result.points.a).toBe(0);
+            // Hole 1's skin went back in the pot with hole 2's and hole 3's
+            expect(result.carry).toBe(3);
+
+            const pending = scoreBetGame(game({ validation: true, holes: won('c') }));
+            expect(pending.pendingSkin).toEqual({ playerId: 'c', skins: 1, holeNumber: 1 });
+            expect(pending.points.c).toBe(0);
+
+            const validated = scoreBetGame(game({ validation: true, holes: won('c', null) }));
+            expect(validated.points.c).toBe(1);
+        });
+
+        it('needs no validation on the last hole', () => {
+            const result = scoreBetGame(game({ validation: true, holeCount: 2, holes: won(null, 'd') }));
+            expect(result.points.d).toBe(1);
+            expect(result.pendingSkin).toBeUndefined();
+        });
+
+        it('waits for every score on a hole', () => {
+            const holes: BetHole[] = [{ holeNumber: 1, scores: { a: 3, b: 4 } }];
+            expect(scoreBetGame(game({ holes })).holes).toEqual([]);
+        });
+    });
+
+    describe('nassau', () => {
+        const twoPlayers = (holes: BetHole[], pressAt?: number) => game({
+            format: 'nassau',
+            stake: 5,
+            pressAt,
+            players: [{ id: 'a', name: 'A' }, { id: 'b', name: 'B' }],
+            holes,
+        });
+
+        it('scores the front, back and overall separately', () => {
+            // A wins the front 9, B wins holes 10-13 and the rest are halved
+            const holes = won(...Array(9).fill('a'), 'b', 'b', 'b', 'b', null, null, null, null, null);
+            const result = scoreBetGame(twoPlayers(holes));
+
+            expect(result.matches.map(m => [m.name, m.holesUp, m.decided])).toEqual([
+                ['Front', 5, true], // Closed out after 5 holes
+                ['Back', -4, true],
+                ['Overall', 5, true],
+            ]);
+            expect(result.points).toEqual({ a: 2, b: 1 });
+            expect(result.winnings).toEqual({ a: 5, b: -5 });
+        });
+
+        it('closes a match out when it can\'t be caught', () => {
+            const result = scoreBetGame(twoPlayers(won('a', 'a', 'a', 'a', 'a')));
+            const front = result.matches[0];
+            expect(front.decided).toBe(true);
+            expect(describeNassauMatch(front, ['A', 'B'])).toBe('A wins 5&4');
+            expect(describeNassauMatch(result.matches[1], ['A', 'B'])).toBe('Not started');
+            expect(describeNassauMatch(result.matches[2], ['A', 'B'])).toBe('A 5 up');
+        });
+
+        it('presses when a side falls behind', () => {
+            const result = scoreBetGame(twoPlayers(won('a', 'a', 'b', 'b', 'b'), 2));
+            expect(result.matches.map(m => [m.name, m.startHole, m.endHole, m.holesUp])).toEqual([
+                ['Front', 1, 9, -1],
+                ['Back', 10, 18, 0],
+                ['Overall', 1, 18, -1],
+                ['Front press 1', 3, 9, -3],
+                ['Overall press 1', 3, 18, -3],
+                // The presses went 2 down themselves after hole 4
+                ['Front press 2', 5, 9, -1],
+                ['Overall press 2', 5, 18, -1],
+            ]);
+        });
+
+        it('plays two teams on best ball', () => {
+            const holes = scored(...Array(18).fill([4, 6, 5, 5]));
+            const result = scoreBetGame(game({ format: 'nassau', stake: 2, teams: [['a', 'b'], ['c', 'd']], holes }));
+
+            expect(result.points).toEqual({ a: 3, b: 3, c: 0, d: 0 });
+            expect(result.winnings).toEqual({ a: 6, b: 6, c: -6, d: -6 });
+        });
+    });
+
+    describe('wolf', () => {
+        it('rotates the wolf through the players', () => {
+            const wolf = game({ format: 'wolf' });
+            expect([1, 2, 4, 5].map(n => getWolfId(wolf, n))).toEqual(['a', 'b', 'd', 'a']);
+        });
+
+        it('pays out by side, double for a lone wolf', () => {
+            let wolf = game({ format: 'wolf', stake: 1 });
+            wolf = setWolfPartner(wolf, 1, 'c');
+            wolf = setHoleWinners(wolf, 1, ['c']); // A and C beat B and D
+            wolf = setWolfPartner(wolf, 2, null);
+            wolf = setHoleWinners(wolf, 2, ['b']); // Lone wolf B beats everyone
+
+            const result = scoreBetGame(wolf);
+            expect(result.holes.map(h => [h.wolfId, h.winnerIds, h.loneWolf])).toEqual([
+                ['a', ['a', 'c'], false],
+                ['b', ['b'], true],
+            ]);
+            expect(result.points).toEqual({ a: 0, b: 4, c: 0, d: -4 });
+        });
+
+        it('waits for the wolf to pick', () => {
+            const wolf = game({ format: 'wolf', holes: scored([4, 5, 5, 5]) });
+            expect(scoreBetGame(wolf).holes).toEqual([]);
+            expect(scoreBetGame(setWolfPartner(wolf, 1, 'b')).holes[0].winnerIds).toEqual(['a', 'b']);
+        });
+    });
+
+    describe('best-ball', () => {
+        it('settles the difference in holes won', () => {
+            const holes = scored([4, 5, 5, 5], [5, 5, 4, 6], [4, 6, 5, 5], [5, 5, 5, 5]);
+            const result = scoreBetGame(game({ format: 'best-ball', stake: 3, holes }));
+
+            expect(result.points).toEqual({ a: 2, b: 2, c: 1, d: 1 });
+            expect(result.winnings).toEqual({ a: 3, b: 3, c: -3, d: -3 });
+        });
+    });
+
+    describe('settleUp', () => {
+        it('pays the biggest winner first', () => {
+            expect(settleUp({ a: 9, b: -3, c: -5, d: -1 })).toEqual([
+                { fromId: 'c', toId: 'a', amount: 5 },
+                { fromId: 'b', toId: 'a', amount: 3 },
+                { fromId: 'd', toId: 'a', amount: 1 },
+            ]);
+            expect(settleUp({ a: 4.5, b: 2, c: -6.5 })).toEqual([
+                { fromId: 'c', toId: 'a', amount: 4.5 },
+                { fromId: 'c', toId: 'b', amount: 2 },
+            ]);
+            expect(settleUp({ a: 0, b: 0 })).toEqual([]);
+        });
+    });
+
+    describe('manual entry', () => {
+        it('tracks the current hole and undoes the last result', () => {
+            let skins = game({});
+            skins = setHoleWinners(skins, 1, ['a']);
+            skins = setHoleWinners(skins, 2, []);
+            expect(getCurrentBetHole(skins)).toBe(3);
+
+            skins = undoLastHole(skins);
+            expect(skins.holes).toEqual([{ holeNumber: 1, winnerIds: ['a'] }]);
+            expect(getCurrentBetHole(skins)).toBe(2);
+        });
+    });
+
+    describe('Golf Brain rounds', () => {
+        const course: Course = {
+            id: 'c1',
+            name: 'Home Course',
+            createdAt: 0,
+            holes: Array.from({ length: 18 }, (_, i) => ({ number: i + 1, par: 4, strokeIndex: i + 1 })),
+        };
+
+        const round: Round = {
+            id: 'r1',
+            courseId: 'c1',
+            courseName: 'Home Course',
+            holeScores: [1, 2].map(holeNumber => ({
+                holeNumber, courseId: 'c1', shots: [], totalScore: 4, par: 4, netScore: 0, completedAt: 0,
+            })),
+            players: [{ id: 'p1', name: 'Sam', handicapIndex: 18, scores: [{ holeNumber: 1, strokes: 5 }] }],
+            bet: { format: 'skins', stake: 2, carryOvers: true },
+            totalScore: 8,
+            totalPar: 8,
+            startedAt: 0,
+            isComplete: false,
+        };
+
+        it('scores the side game from net scores', () => {
+            const bet = getRoundBetGame(round, course, 'You')!;
+
+            expect(bet.players.map(p => p.name)).toEqual(['You', 'Sam']);
+            expect(bet.holes).toEqual([
+                { holeNumber: 1, scores: { [OWNER_PLAYER_ID]: 4, p1: 4 } },
+                { holeNumber: 2, scores: { [OWNER_PLAYER_ID]: 4 } },
+            ]);
+            // Sam's stroke halves hole 1 and hole 2 is waiting on Sam
+            const result = scoreBetGame(bet);
+            expect(result.carry).toBe(1);
+            expect(getCurrentBetHole(bet, result)).toBe(2);
+        });
+
+        it('keeps wolf picks when scores are refreshed', () => {
+            const wolf = setWolfPartner(game({ format: 'wolf' }), 1, null);
+            const refreshed = applyRoundScores(wolf, scored([4, 5, 5, 5]));
+            expect(refreshed.holes[0]).toMatchObject({ partnerId: null, scores: { a: 4 } });
+        });
+
+        it('has no side game until one is picked', () => {
+            expect(getRoundBetGame({ ...round, bet: undefined }, course, 'You')).toBeUndefined();
+        });
+    });
+
+    describe('migrateLegacySkinsData', () => {
+        it('turns winner indexes into hole results', () => {
+            const data = migrateLegacySkinsData({
+                mode: 'playing',
+                gameState: { players: ['Sam', 'Alex'], scores: [1, 0], history: [0, -1], currentHole: 3 },
+            });
+
+            expect(data).toEqual({
+                mode: 'playing',
+                game: {
+                    format: 'skins',
+                    stake: 0,
+                    players: [{ id: 'p1', name: 'Sam' }, { id: 'p2', name: 'Alex' }],
+                    holeCount: 18,
+                    holes: [{ holeNumber: 1, winnerIds: ['p1'] }, { holeNumber: 2, winnerIds: [] }],
+                },
+            });
+            expect(scoreBetGame(data.game!).points).toEqual({ p1: 1, p2: 0 });
+        });
+
+        it('starts over when no game was set up', () => {
+            expect(migrateLegacySkinsData({ mode: 'setup', gameState: { players: [], history: [] } })).toEqual({ mode: 'setup' });
+        });
+    });
+
+    describe('formatStake', () => {
+        it('shows cents only when needed', () => {
+            expect(formatStake(5)).toBe('$5');
+            expect(formatStake(-2.5)).toBe('-$2.50');
+        });
+    });
+});
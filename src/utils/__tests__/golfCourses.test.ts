@@ -0,0 +1,192 @@
+import {
+    addImportedCourse,
+    applyTeeSet,
+    exportCourseCsv,
+    exportCourseJson,
+    getCourseForRound,
+    parseCourseScorecard,
+    saveTeeSet,
+    toCourseScorecard,
+} from '../golfCourses';
+import { getHandicapHistory } from '../handicap';
+import { Course, Round } from '../../types/sparkData';
+
+// Three holes with blue and white tees, played from the blues
+const course: Course = {
+    id: 'c1',
+    name: 'Home Course',
+    createdAt: 0,
+    holes: [
+        { number: 1, par: 4, strokeIndex: 2, distanceYards: 400 },
+        { number: 2, par: 3, strokeIndex: 3, distanceYards: 180 },
+        { number: 3, par: 5, strokeIndex: 1, distanceYards: 520 },
+    ],
+    courseRating: 72.1,
+    slopeRating: 131,
+    teeSetId: 'blue',
+    teeSets: [
+        { id: 'blue', name: 'Blue', yardages: { 1: 400, 2: 180, 3: 520 }, courseRating: 72.1, slopeRating: 131 },
+        { id: 'white', name: 'White', yardages: { 1: 370, 2: 150, 3: 490 }, courseRating: 70.2, slopeRating: 125 },
+    ],
+};
+
+describe('golfCourses', () => {
+    describe('applyTeeSet', () => {
+        it('plays the course from the tee set’s yardages and ratings', () => {
+            const white = applyTeeSet(course, 'white');
+            expect(white.teeSetId).toBe('white');
+            expect(white.holes.map(h => h.distanceYards)).toEqual([370, 150, 490]);
+            expect(white).toMatchObject({ courseRating: 70.2, slopeRating: 125 });
+            expect(applyTeeSet(course, 'missing')).toBe(course);
+        });
+
+        it('gives a round the ratings of the tees it was played from', () => {
+            const round = { teeSetId: 'white' } as Round;
+            expect(getCourseForRound(course, round).slopeRating).toBe(125);
+            expect(getCourseForRound(course, { ...round, teeSetId: undefined })).toBe(course);
+        });
+    });
+
+    describe('saveTeeSet', () => {
+        it('updates the tee set in use with edited yardages and ratings', () => {
+            const edited = { ...course, courseRating: 72.4, holes: course.holes.map(h => ({ ...h, distanceYards: h.distanceYards! + 5 })) };
+            const saved = saveTeeSet(edited);
+            expect(saved.teeSets).toHaveLength(2);
+            expect(saved.teeSets![0]).toMatchObject({ id: 'blue', yardages: { 1: 405, 2: 185, 3: 525 }, courseRating: 72.4 });
+        });
+
+        it('adds a named tee set, and leaves a course without tees alone until one is named', () => {
+            const { teeSets, teeSetId, ...plain } = course;
+            expect(saveTeeSet(plain)).toBe(plain);
+
+            const saved = saveTeeSet(plain, 'Red ');
+            expect(saved.teeSets).toEqual([
+                { id: saved.teeSetId, name: 'Red', yardages: { 1: 400, 2: 180, 3: 520 }, courseRating: 72.1, slopeRating: 131 },
+            ]);
+        });
+    });
+
+    describe('export and import', () => {
+        it('round-trips a course through JSON', () => {
+            const { course: imported, errors } = parseCourseScorecard(exportCourseJson(course));
+            expect(errors).toEqual([]);
+            expect(imported).toMatchObject({
+                name: 'Home Course',
+                holes: course.holes,
+                courseRating: 72.1,
+                slopeRating: 131,
+            });
+            expect(imported!.teeSets!.map(t => [t.name, t.yardages, t.slopeRating])).toEqual([
+                ['Blue', { 1: 400, 2: 180, 3: 520 }, 131],
+                ['White', { 1: 370, 2: 150, 3: 490 }, 125],
+            ]);
+            expect(imported!.teeSetId).toBe(imported!.teeSets![0].id);
+        });
+
+        it('exports a scorecard CSV with a yardage column per tee set', () => {
+            expect(exportCourseCsv({ ...course, name: 'Home, Sweet' })).toBe([
+                'Course,"Home, Sweet"',
+                'Hole,Par,Stroke Index,Blue,White',
+                '1,4,2,400,370',
+                '2,3,3,180,150',
+                '3,5,1,520,490',
+                'Rating,,,72.1,70.2',
+                'Slope,,,131,125',
+                '',
+            ].join('\n'));
+        });
+
+        it('exports yardages entered without tee sets as one default set', () => {
+            const { teeSets, teeSetId, ...plain } = course;
+            expect(toCourseScorecard(plain).tees).toEqual([
+                { name: 'Default', courseRating: 72.1, slopeRating: 131, yardages: [400, 180, 520] },
+            ]);
+            expect(toCourseScorecard({ ...plain, holes: [{ number: 1, par: 4, strokeIndex: 1 }], courseRating: undefined, slopeRating: undefined }).tees).toEqual([]);
+        });
+
+        it('imports a CSV from another source, ignoring total rows', () => {
+            const csv = [
+                'Hole;Par;HCP;Gold;Silver',
+                '1;4;2;412;380',
+                '2;3;3;;160',
+                'Out;7;;412;540',
+                'Rating;;;73.5;',
+            ].join('\n');
+            const { course: imported, errors } = parseCourseScorecard(csv, 'Links');
+            expect(errors).toEqual([]);
+            expect(imported!.name).toBe('Links');
+            expect(imported!.holes).toEqual([
+                { number: 1, par: 4, strokeIndex: 2, distanceYards: 412 },
+                { number: 2, par: 3, strokeIndex: 3, distanceYards: undefined },
+            ]);
+            expect(imported!.teeSets!.map(t => [t.name, t.yardages, t.courseRating])).toEqual([
+                ['Gold', { 1: 412 }, 73.5],
+                ['Silver', { 1: 380, 2: 160 }, undefined],
+            ]);
+        });
+
+        it('reports problems instead of importing part of a course', () => {
+            const csv = 'Hole,Par,SI,Blue\n1,4,1,400\n2,7,2,20\n2,4,3,300\nSlope,,,200';
+            expect(parseCourseScorecard(csv, 'Bad')).toEqual({
+                errors: [
+                    'Hole 2: par should be 3 to 5',
+                    'Hole 2 is listed twice',
+                    'Blue, hole 2: yardage should be 50 to 800',
+                    'Blue: slope rating should be between 55 and 155',
+                ],
+            });
+            expect(parseCourseScorecard('Name,Score\nA,1').errors).toEqual(['Could not find hole and par columns']);
+            expect(parseCourseScorecard('{ not json').errors).toEqual(['Could not read the JSON scorecard']);
+            expect(parseCourseScorecard('Hole,Par\n1,4').errors).toEqual(['Missing course name']);
+        });
+    });
+
+    describe('addImportedCourse', () => {
+        const { course: imported } = parseCourseScorecard(exportCourseJson({
+            ...course,
+            teeSets: [...course.teeSets!, { id: 'red', name: 'Red', yardages: { 1: 330 } }],
+        }));
+
+        it('adds tee sets to a course already in the library', () => {
+            const result = addImportedCourse([course], imported!, 'Sam');
+            expect(result).toMatchObject({ added: false, newTees: 1 });
+            expect(result.courses).toHaveLength(1);
+            expect(result.course.id).toBe('c1');
+            expect(result.course.teeSets!.map(t => t.name)).toEqual(['Blue', 'White', 'Red']);
+        });
+
+        it('adds a new course with who shared it', () => {
+            const result = addImportedCourse([{ ...course, name: 'Other' }], imported!, 'Sam');
+            expect(result).toMatchObject({ added: true, newTees: 3 });
+            expect(result.courses).toHaveLength(2);
+            expect(result.course).toMatchObject({ name: 'Home Course', sharedBy: 'Sam' });
+            expect(result.course.id).toBeTruthy();
+        });
+    });
+
+    describe('handicap history', () => {
+        it('takes the ratings of the tees each round was played from', () => {
+            const fullCourse: Course = {
+                ...course,
+                holes: Array.from({ length: 18 }, (_, i) => ({ number: i + 1, par: 4, strokeIndex: i + 1 })),
+            };
+            const round = (id: string, teeSetId: string): Round => ({
+                id,
+                courseId: 'c1',
+                courseName: 'Home Course',
+                teeSetId,
+                holeScores: fullCourse.holes.map(h => ({
+                    holeNumber: h.number, courseId: 'c1', shots: [], totalScore: 5, par: 4, netScore: 1, completedAt: 0,
+                })),
+                totalScore: 90,
+                totalPar: 72,
+                startedAt: id === 'r1' ? 1 : 2,
+                isComplete: true,
+            });
+
+            const history = getHandicapHistory([round('r1', 'blue'), round('r2', 'white')], [fullCourse]);
+            // (90 - 72.1) × 113 / 131 and (90 - 70.2) × 113 / 125
+            expect(history.map(h => h.differential)).toEqual([15.4, 17.9]);
+        });
+    });
+});
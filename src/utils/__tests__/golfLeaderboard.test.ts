@@ -0,0 +1,102 @@
+import {
+    formatToPar,
+    getLeaderboard,
+    getPlayerScore,
+    OWNER_PLAYER_ID,
+    rememberPartner,
+    setPlayerScore,
+} from '../golfLeaderboard';
+import { Course, HoleScore, Round, RoundPlayer } from '../../types/sparkData';
+
+// Par 4s, stroke index matching the hole number
+const course: Course = {
+    id: 'c1',
+    name: 'Home Course',
+    createdAt: 0,
+    holes: Array.from({ length: 18 }, (_, i) => ({ number: i + 1, par: 4, strokeIndex: i + 1 })),
+};
+
+const ownerHole = (holeNumber: number, totalScore: number): HoleScore => ({
+    holeNumber,
+    courseId: 'c1',
+    shots: [],
+    totalScore,
+    par: 4,
+    netScore: totalScore - 4,
+    completedAt: 0,
+});
+
+const player = (id: string, name: string, strokes: number[], handicapIndex?: number): RoundPlayer => ({
+    id,
+    name,
+    handicapIndex,
+    scores: strokes.map((s, i) => ({ holeNumber: i + 1, strokes: s })),
+});
+
+const round = (holeScores: HoleScore[], players: RoundPlayer[]): Round => ({
+    id: 'r1',
+    courseId: 'c1',
+    courseName: 'Home Course',
+    holeScores,
+    players,
+    totalScore: 0,
+    totalPar: 72,
+    startedAt: 0,
+    isComplete: false,
+});
+
+describe('golfLeaderboard', () => {
+    describe('setPlayerScore', () => {
+        it('sets, replaces and clears a hole score', () => {
+            let sam = player('p1', 'Sam', []);
+            sam = setPlayerScore(sam, 2, 5);
+            sam = setPlayerScore(sam, 1, 4);
+            sam = setPlayerScore(sam, 2, 6);
+
+            expect(sam.scores).toEqual([{ holeNumber: 1, strokes: 4 }, { holeNumber: 2, strokes: 6 }]);
+            expect(getPlayerScore(sam, 2)).toBe(6);
+            expect(getPlayerScore(setPlayerScore(sam, 2), 2)).toBeUndefined();
+        });
+    });
+
+    describe('rememberPartner', () => {
+        it('puts the partner first and replaces one with the same name', () => {
+            const partners = [{ id: 'a', name: 'Sam', handicapIndex: 10 }, { id: 'b', name: 'Alex' }];
+            expect(rememberPartner(partners, { id: 'c', name: 'sam', handicapIndex: 8 })).toEqual([
+                { id: 'c', name: 'sam', handicapIndex: 8 },
+                { id: 'b', name: 'Alex' },
+            ]);
+        });
+    });
+
+    describe('getLeaderboard', () => {
+        it('ranks by net score against par, with handicap strokes on the hardest holes', () => {
+            const r = round(
+                [ownerHole(1, 5), ownerHole(2, 5), ownerHole(3, 4)],
+                [
+                    player('p1', 'Sam', [6, 5, 5], 18), // A stroke a hole
+                    player('p2', 'Alex', [4, 4, 4]), // No handicap: gross is net
+                    player('p3', 'Jo', [6, 7], 36), // Two strokes a hole, through 2
+                ],
+            );
+
+            const board = getLeaderboard(r, course, 'You', 1);
+            expect(board.map(e => [e.name, e.tied ? `T${e.position}` : `${e.position}`, e.thru, e.gross, e.grossToPar, e.net, e.netToPar])).toEqual([
+                ['Alex', '1', 3, 12, 0, 12, 0],
+                ['You', 'T2', 3, 14, 2, 13, 1],
+                ['Sam', 'T2', 3, 16, 4, 13, 1],
+                ['Jo', 'T2', 2, 13, 5, 9, 1],
+            ]);
+            expect(board[1]).toMatchObject({ playerId: OWNER_PLAYER_ID, courseHandicap: 1 });
+            expect(board[0].courseHandicap).toBeUndefined();
+        });
+    });
+
+    describe('formatToPar', () => {
+        it('formats scores against par', () => {
+            expect(formatToPar(3)).toBe('+3');
+            expect(formatToPar(0)).toBe('E');
+            expect(formatToPar(-2)).toBe('-2');
+        });
+    });
+});
@@ -0,0 +1,197 @@
+import {
+    combineGolfStats,
+    getClubTendencies,
+    getHoleStrokesGained,
+    getRate,
+    getRoundStats,
+    getStrokesGainedPer18,
+} from '../golfStats';
+import { Course, HoleScore, Round, Shot } from '../../types/sparkData';
+
+let nextId = 0;
+
+const swing = (club: string, direction: Shot['direction'], lie: Shot['lie']): Shot => ({
+    id: `s${nextId++}`,
+    type: 'shot',
+    club,
+    direction,
+    lie,
+    timestamp: 0,
+});
+
+const penalty = (): Shot => ({ id: `p${nextId++}`, type: 'shot', direction: 'penalty', timestamp: 0 });
+
+const putt = (puttDistance?: Shot['puttDistance']): Shot => ({
+    id: `t${nextId++}`,
+    type: 'putt',
+    puttDistance,
+    direction: 'good',
+    timestamp: 0,
+});
+
+const holeScore = (holeNumber: number, par: number, shots: Shot[]): HoleScore => ({
+    holeNumber,
+    courseId: 'c1',
+    shots,
+    totalScore: shots.length,
+    par,
+    netScore: shots.length - par,
+    completedAt: 0,
+});
+
+const course: Course = {
+    id: 'c1',
+    name: 'Home Course',
+    createdAt: 0,
+    holes: [
+        { number: 1, par: 4, strokeIndex: 1 },
+        { number: 2, par: 3, strokeIndex: 2 },
+        { number: 3, par: 5, strokeIndex: 3 },
+    ],
+};
+
+const round = (id: string, holeScores: HoleScore[], completedAt: number, isComplete = true): Round => ({
+    id,
+    courseId: 'c1',
+    courseName: 'Home Course',
+    holeScores,
+    totalScore: holeScores.reduce((sum, hs) => sum + hs.totalScore, 0),
+    totalPar: 12,
+    startedAt: completedAt - 1000,
+    completedAt,
+    isComplete,
+});
+
+// Fairway, green in regulation, two putts
+const parFour = () => holeScore(1, 4, [
+    swing('Driver', 'good', 'fairway'),
+    swing('8-Iron', 'good', 'green'),
+    putt('10+ft'),
+    putt('<4ft'),
+]);
+
+// Missed green, chip, one putt
+const upAndDownThree = () => holeScore(2, 3, [
+    swing('7-Iron', 'right', 'rough'),
+    swing('Sand Wedge', 'good', 'green'),
+    putt('<4ft'),
+]);
+
+// Tee shot out of bounds, re-tee, then three putts
+const blowUpFive = () => holeScore(3, 5, [
+    swing('Driver', 'right', 'ob'),
+    penalty(),
+    swing('Driver', 'left and short', 'rough'),
+    swing('3-Wood', 'good', 'fairway'),
+    swing('PW', 'good', 'green'),
+    putt('5-10ft'),
+    putt('<4ft'),
+    putt('<4ft'),
+]);
+
+describe('golfStats', () => {
+    describe('getHoleStrokesGained', () => {
+        it('splits strokes gained by category', () => {
+            expect(getHoleStrokesGained(parFour(), 4)).toEqual({ tee: 0, approach: 0.05, shortGame: 0, putting: -0.1 });
+        });
+
+        it('counts a par 3 tee shot as approach and a missed green as short game', () => {
+            expect(getHoleStrokesGained(upAndDownThree(), 3)).toEqual({ tee: 0, approach: -0.6, shortGame: 0.55, putting: 0.05 });
+        });
+
+        it('charges out of bounds and its penalty to the tee', () => {
+            const gained = getHoleStrokesGained(blowUpFive(), 5);
+            expect(gained.tee).toBe(-2.2);
+            expect(gained.putting).toBe(-1.55);
+        });
+
+        it('adds up to the tee baseline minus the score', () => {
+            const gained = getHoleStrokesGained(blowUpFive(), 5);
+            const total = gained.tee + gained.approach + gained.shortGame + gained.putting;
+            expect(total).toBeCloseTo(4.7 - 8);
+        });
+
+        it('credits a chip-in to the short game', () => {
+            const chipIn = holeScore(1, 4, [swing('Driver', 'good', 'fairway'), swing('8-Iron', 'short', 'rough'), swing('Sand Wedge', 'fire', 'green')]);
+            expect(getHoleStrokesGained(chipIn, 4)).toEqual({ tee: 0, approach: -0.65, shortGame: 1.6, putting: 0 });
+        });
+    });
+
+    describe('getRoundStats', () => {
+        it('counts fairways, greens, up-and-downs and putts per completed round', () => {
+            const rounds = [
+                round('later', [parFour()], 2000),
+                round('open', [parFour()], 3000, false),
+                round('first', [parFour(), upAndDownThree(), blowUpFive()], 1000),
+            ];
+
+            const stats = getRoundStats(rounds, [course]);
+            expect(stats.map(s => s.roundId)).toEqual(['first', 'later']);
+            expect(stats[0]).toMatchObject({
+                holes: 3,
+                fairwaysHit: 1,
+                fairwayChances: 2,
+                greensInRegulation: 1,
+                girChances: 3,
+                upAndDowns: 1,
+                upAndDownChances: 2,
+                threePutts: 1,
+                puttingHoles: 3,
+                putts: 6,
+            });
+        });
+
+        it('does not count an up-and-down that took two chips', () => {
+            const twoChips = holeScore(1, 4, [
+                swing('Driver', 'good', 'fairway'),
+                swing('8-Iron', 'short', 'rough'),
+                swing('Sand Wedge', 'short', 'rough'),
+                swing('Sand Wedge', 'good', 'green'),
+                putt('<4ft'),
+            ]);
+            const stats = getRoundStats([round('r', [twoChips, upAndDownThree()], 1000)], [course]);
+            expect(stats[0]).toMatchObject({ upAndDowns: 1, upAndDownChances: 2 });
+        });
+
+        it('skips rounds without shots', () => {
+            expect(getRoundStats([round('empty', [holeScore(1, 4, [])], 1000)], [course])).toEqual([]);
+        });
+    });
+
+    describe('combineGolfStats', () => {
+        it('adds rounds together and scales strokes gained to 18 holes', () => {
+            const stats = getRoundStats([round('a', [parFour()], 1000), round('b', [parFour()], 2000)], [course]);
+            const totals = combineGolfStats(stats);
+
+            expect(totals).toMatchObject({ holes: 2, greensInRegulation: 2, putts: 4 });
+            expect(getStrokesGainedPer18(totals)).toEqual({ tee: 0, approach: 0.9, shortGame: 0, putting: -1.8 });
+        });
+    });
+
+    describe('getRate', () => {
+        it('rounds to a whole percentage', () => {
+            expect(getRate(1, 3)).toBe(33);
+            expect(getRate(0, 0)).toBeUndefined();
+        });
+    });
+
+    describe('getClubTendencies', () => {
+        it('reports each club\'s most common miss', () => {
+            const rounds = [round('a', [
+                holeScore(1, 4, [
+                    swing('Driver', 'right', 'rough'),
+                    swing('Driver', 'right and short', 'rough'),
+                    swing('Driver', 'left', 'water'),
+                    penalty(),
+                    swing('[Irons]', 'good', 'green'),
+                    swing('7-Iron', 'good', 'green'),
+                ]),
+            ], 1000)];
+
+            expect(getClubTendencies(rounds)).toEqual([
+                { club: 'Driver', shots: 3, good: 0, left: 1, right: 2, short: 1, long: 0, penalties: 1, tendency: 'right' },
+                { club: '7-Iron', shots: 1, good: 1, left: 0, right: 0, short: 0, long: 0, penalties: 0 },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,186 @@
+import {
+    calculateHandicapIndex,
+    getAdjustedGrossScore,
+    getCourseHandicap,
+    getHandicapHistory,
+    getHandicapIndex,
+    getScoreDifferential,
+    getStrokesReceived,
+} from '../handicap';
+import { Course, Round } from '../../types/sparkData';
+
+// Par 72: par 4s with a par 3 and a par 5 on each nine
+const PARS = [4, 4, 3, 5, 4, 4, 4, 4, 4, 4, 4, 3, 5, 4, 4, 4, 4, 4];
+
+const course = (overrides: Partial<Course> = {}): Course => ({
+    id: 'c1',
+    name: 'Home Course',
+    createdAt: 0,
+    holes: PARS.map((par, i) => ({ number: i + 1, par, strokeIndex: i + 1 })),
+    ...overrides,
+});
+
+const nineHoleCourse = (): Course => ({
+    id: 'c9',
+    name: 'Short Course',
+    createdAt: 0,
+    // Indexes from the back nine of an 18-hole card
+    holes: PARS.slice(0, 9).map((par, i) => ({ number: i + 1, par, strokeIndex: 2 * i + 2 })),
+});
+
+const round = (id: string, c: Course, scores: number[], completedAt: number): Round => ({
+    id,
+    courseId: c.id,
+    courseName: c.name,
+    holeScores: scores.map((totalScore, i) => ({
+        holeNumber: i + 1,
+        courseId: c.id,
+        shots: [],
+        totalScore,
+        par: c.holes[i].par,
+        netScore: totalScore - c.holes[i].par,
+        completedAt,
+    })),
+    totalScore: scores.reduce((sum, s) => sum + s, 0),
+    totalPar: 72,
+    startedAt: completedAt - 1000,
+    completedAt,
+    isComplete: true,
+});
+
+// Every hole at par plus the given number of strokes
+const overPar = (c: Course, strokes: number): number[] => c.holes.map(h => h.par + strokes);
+
+describe('handicap', () => {
+    describe('getCourseHandicap', () => {
+        it('adjusts the index for slope and rating', () => {
+            expect(getCourseHandicap(10, course())).toBe(10);
+            expect(getCourseHandicap(10.4, course({ slopeRating: 130, courseRating: 74 }))).toBe(14);
+        });
+
+        it('uses half the index on a 9-hole course', () => {
+            expect(getCourseHandicap(20, nineHoleCourse())).toBe(10);
+        });
+    });
+
+    describe('getStrokesReceived', () => {
+        it('gives strokes on the hardest holes first', () => {
+            const c = course();
+            expect(c.holes.map(h => getStrokesReceived(h, c, 4))).toEqual([1, 1, 1, 1, ...Array(14).fill(0)]);
+            expect(getStrokesReceived(c.holes[0], c, 20)).toBe(2);
+            expect(getStrokesReceived(c.holes[2], c, 20)).toBe(1);
+        });
+
+        it('ranks holes on a 9-hole course with 18-hole indexes', () => {
+            const c = nineHoleCourse();
+            expect(c.holes.map(h => getStrokesReceived(h, c, 3))).toEqual([1, 1, 1, 0, 0, 0, 0, 0, 0]);
+        });
+
+        it('gives strokes back on the easiest holes for a plus handicap', () => {
+            const c = course();
+            expect(getStrokesReceived(c.holes[17], c, -2)).toBe(-1);
+            expect(getStrokesReceived(c.holes[16], c, -2)).toBe(-1);
+            expect(getStrokesReceived(c.holes[15], c, -2)).toBe(0);
+        });
+    });
+
+    describe('getAdjustedGrossScore', () => {
+        it('caps holes at net double bogey', () => {
+            const c = course();
+            const scores = overPar(c, 0);
+            scores[0] = 9; // Par 4 with one stroke: capped at 7
+            scores[17] = 8; // Par 4 with no stroke: capped at 6
+
+            expect(getAdjustedGrossScore(round('r', c, scores, 1), c, 1)).toBe(72 + 3 + 2);
+        });
+
+        it('caps at par + 5 without a handicap', () => {
+            const c = course();
+            const scores = overPar(c, 0);
+            scores[0] = 12;
+            expect(getAdjustedGrossScore(round('r', c, scores, 1), c)).toBe(72 + 5);
+        });
+
+        it('counts unplayed holes as net par, and needs 14 holes', () => {
+            const c = course();
+            const fourteen = overPar(c, 1).slice(0, 14);
+            expect(getAdjustedGrossScore(round('r', c, fourteen, 1), c, 18)).toBe(72 + 14 + 4);
+            expect(getAdjustedGrossScore(round('r', c, fourteen.slice(0, 13), 1), c, 18)).toBeUndefined();
+        });
+    });
+
+    describe('getScoreDifferential', () => {
+        it('scales the score over the rating by slope', () => {
+            expect(getScoreDifferential(85, course())).toBe(13);
+            expect(getScoreDifferential(85, course({ courseRating: 71.2, slopeRating: 125 }))).toBe(12.5);
+        });
+    });
+
+    describe('calculateHandicapIndex', () => {
+        it('needs 3 scores', () => {
+            expect(calculateHandicapIndex([10, 12])).toBeUndefined();
+        });
+
+        it('adjusts small scoring records', () => {
+            expect(calculateHandicapIndex([10, 12, 14])).toBe(8);
+            expect(calculateHandicapIndex([10, 12, 14, 16, 18, 11])).toBe(9.5);
+        });
+
+        it('averages the best 8 of the last 20', () => {
+            const older = [1, 1, 1];
+            const recent = [10, 11, 12, 13, 14, 15, 16, 17, ...Array(12).fill(30)];
+            expect(calculateHandicapIndex([...older, ...recent])).toBe(13.5);
+        });
+
+        it('caps the index at 54', () => {
+            expect(calculateHandicapIndex([80, 80, 80, 80, 80])).toBe(54);
+        });
+    });
+
+    describe('getHandicapHistory', () => {
+        it('posts completed rounds oldest first with the index after each', () => {
+            const c = course();
+            const rounds = [
+                round('r3', c, overPar(c, 1), 3000),
+                round('r1', c, overPar(c, 0), 1000),
+                { ...round('open', c, overPar(c, 0), 2500), isComplete: false },
+                round('r2', c, overPar(c, 0), 2000),
+            ];
+
+            const history = getHandicapHistory(rounds, [c]);
+            expect(history.map(e => [e.roundId, e.differential, e.handicapIndex])).toEqual([
+                ['r1', 0, undefined],
+                ['r2', 0, undefined],
+                ['r3', 18, -2],
+            ]);
+            expect(getHandicapIndex(rounds, [c])).toBe(-2);
+        });
+
+        it('caps each round using the index from before it', () => {
+            const c = course();
+            const blowUp = overPar(c, 0);
+            blowUp[17] = 10;
+
+            // Starting index 18 gives a stroke on hole 18: capped at 7, not 6
+            const history = getHandicapHistory([round('r', c, blowUp, 1)], [c], 18);
+            expect(history[0].adjustedGrossScore).toBe(75);
+        });
+
+        it('combines two 9-hole rounds into one score', () => {
+            const c = nineHoleCourse();
+            const rounds = [
+                round('a', c, overPar(c, 1), 1000),
+                round('b', c, overPar(c, 2), 2000),
+            ];
+
+            expect(getHandicapHistory(rounds, [c])).toEqual([{
+                roundId: 'b',
+                courseName: 'Short Course',
+                playedAt: 2000,
+                adjustedGrossScore: 36 + 9 + 36 + 18,
+                differential: 27,
+                handicapIndex: undefined,
+            }]);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import { parseIcs, exportIcs, mergeImportedEvents, guessEventCategory } from '../ics';
+import { ComingUpEvent } from '../../types/sparkData';
+
+const CALENDAR = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'BEGIN:VEVENT',
+    'UID:1@example.com',
+    'DTSTART;VALUE=DATE:19900504',
+    'RRULE:FREQ=YEARLY',
+    'SUMMARY:Mom\'s Birthday',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'DTSTART;TZID=America/New_York:20250612T180000',
+    'SUMMARY:Dinner\\, drinks and a very long description that the calendar app',
+    '  folded onto a second line',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'SUMMARY:No date',
+    'END:VEVENT',
+    'END:VCALENDAR',
+].join('\r\n');
+
+const event = (id: string, overrides: Partial<ComingUpEvent> = {}): ComingUpEvent => ({
+    id,
+    title: `Event ${id}`,
+    date: '2025-06-20',
+    type: 'one-time',
+    category: 'other',
+    ...overrides,
+});
+
+describe('ics', () => {
+    describe('parseIcs', () => {
+        const today = new Date(2025, 0, 1);
+
+        it('reads all-day, timed and yearly events', () => {
+            const { events, skipped } = parseIcs(CALENDAR, today);
+
+            expect(skipped).toBe(1);
+            expect(events).toHaveLength(2);
+            expect(events[0]).toMatchObject({ title: "Mom's Birthday", date: '1990-05-04', type: 'annual', category: 'birthday' });
+            expect(events[1]).toMatchObject({
+                title: 'Dinner, drinks and a very long description that the calendar app folded onto a second line',
+                date: '2025-06-12',
+                type: 'one-time',
+            });
+        });
+
+        it('gives each event its own id', () => {
+            const { events } = parseIcs(CALENDAR, today);
+            expect(events[0].id).not.toBe(events[1].id);
+        });
+
+        it('skips one-time events that are already over', () => {
+            const { events, skipped } = parseIcs(CALENDAR, new Date(2025, 6, 1));
+            expect(events.map(e => e.title)).toEqual(["Mom's Birthday"]);
+            expect(skipped).toBe(2);
+        });
+    });
+
+    describe('exportIcs', () => {
+        it('writes all-day events with yearly rules for annual events', () => {
+            const ics = exportIcs([event('1', { title: 'Party; bring snacks', type: 'annual' })], new Date(Date.UTC(2025, 0, 1)));
+
+            expect(ics).toContain('DTSTART;VALUE=DATE:20250620\r\nDTEND;VALUE=DATE:20250621');
+            expect(ics).toContain('SUMMARY:Party\\; bring snacks');
+            expect(ics).toContain('RRULE:FREQ=YEARLY');
+            expect(ics).toContain('DTSTAMP:20250101T000000Z');
+        });
+
+        it('round-trips through parseIcs', () => {
+            const events = [
+                event('1', { title: 'Anniversary, ours', date: '2010-09-18', type: 'annual' }),
+                event('2', { title: 'A'.repeat(100) }),
+            ];
+            const parsed = parseIcs(exportIcs(events), new Date(2025, 0, 1)).events;
+
+            expect(parsed.map(({ title, date, type }) => ({ title, date, type }))).toEqual(
+                events.map(({ title, date, type }) => ({ title, date, type }))
+            );
+        });
+    });
+
+    describe('line folding', () => {
+        it('folds long lines to 75 octets without splitting emoji', () => {
+            const title = '🎉'.repeat(40);
+            const lines = exportIcs([event('1', { title })]).split('\r\n');
+            const summary = lines.slice(lines.findIndex(line => line.startsWith('SUMMARY:')));
+            const folded = summary.slice(0, summary.findIndex(line => line.startsWith('CATEGORIES:')));
+
+            expect(folded.length).toBeGreaterThan(1);
+            folded.forEach(line => {
+                expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+                expect(line).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?:[^\uD800-\uDBFF]|^)[\uDC00-\uDFFF]/);
+            });
+            expect(parseIcs(exportIcs([event('1', { title })]), new Date(2025, 0, 1)).events[0].title).toBe(title);
+        });
+    });
+
+    describe('recurrence', () => {
+        it('round-trips every repeat type', () => {
+            const events = [
+                event('1', { type: 'monthly' }),
+                event('2', { type: 'weekly' }),
+                event('3', { type: 'nth-weekday', date: '2025-05-26', weekOfMonth: -1 }),
+                event('4', { type: 'custom', interval: 3, intervalUnit: 'weeks' }),
+            ];
+            const ics = exportIcs(events);
+            const parsed = parseIcs(ics).events;
+
+            expect(ics).toContain('RRULE:FREQ=YEARLY;BYMONTH=5;BYDAY=-1MO');
+            expect(ics).toContain('RRULE:FREQ=WEEKLY;INTERVAL=3');
+            expect(parsed.map(({ type, weekOfMonth, interval, intervalUnit }) => ({ type, weekOfMonth, interval, intervalUnit })))
+                .toEqual(events.map(({ type, weekOfMonth, interval, intervalUnit }) => ({ type, weekOfMonth, interval, intervalUnit })));
+        });
+
+        const repeating = (dtstart: string, rrule: string) => [
+            'BEGIN:VCALENDAR',
+            'BEGIN:VEVENT',
+            `DTSTART;VALUE=DATE:${dtstart}`,
+            `RRULE:${rrule}`,
+            'SUMMARY:Book club',
+            'END:VEVENT',
+            'END:VCALENDAR',
+        ].join('\r\n');
+        const today = new Date(2025, 5, 1);
+
+        it('skips series whose UNTIL or COUNT has run out', () => {
+            expect(parseIcs(repeating('20190107', 'FREQ=WEEKLY;UNTIL=20190218T000000Z'), today)).toEqual({ events: [], skipped: 1 });
+            expect(parseIcs(repeating('20190107', 'FREQ=WEEKLY;COUNT=6'), today)).toEqual({ events: [], skipped: 1 });
+            expect(parseIcs(repeating('20250101', 'FREQ=MONTHLY;COUNT=12'), today).events[0]).toMatchObject({ type: 'monthly' });
+            expect(parseIcs(repeating('20250106', 'FREQ=WEEKLY;UNTIL=20251231'), today).events[0]).toMatchObject({ type: 'weekly' });
+        });
+
+        it('skips rules it cannot follow instead of changing their dates', () => {
+            // 2nd Tuesday of every month, 5th Sunday of March, Mon/Wed/Fri, and hourly
+            expect(parseIcs(repeating('20250114', 'FREQ=MONTHLY;BYDAY=2TU'), today)).toEqual({ events: [], skipped: 1 });
+            expect(parseIcs(repeating('20250330', 'FREQ=YEARLY;BYMONTH=3;BYDAY=5SU'), today).skipped).toBe(1);
+            expect(parseIcs(repeating('20250106', 'FREQ=WEEKLY;BYDAY=MO,WE,FR'), today).skipped).toBe(1);
+            expect(parseIcs(repeating('20250106', 'FREQ=HOURLY'), today).skipped).toBe(1);
+            expect(parseIcs(repeating('20250115', 'FREQ=MONTHLY;BYMONTHDAY=1'), today).skipped).toBe(1);
+        });
+
+        it('follows rules that restate the start date', () => {
+            expect(parseIcs(repeating('20250106', 'FREQ=WEEKLY;BYDAY=MO;WKST=SU'), today).events[0]).toMatchObject({ type: 'weekly' });
+            expect(parseIcs(repeating('20250115', 'FREQ=MONTHLY;BYMONTHDAY=15'), today).events[0]).toMatchObject({ type: 'monthly' });
+            expect(parseIcs(repeating('20250511', 'FREQ=YEARLY;BYMONTH=5;BYDAY=2SU'), today).events[0])
+                .toMatchObject({ type: 'nth-weekday', weekOfMonth: 2 });
+        });
+    });
+
+    describe('mergeImportedEvents', () => {
+        it('skips events with the same title and date', () => {
+            const existing = [event('1', { title: "Mom's Birthday", date: '1990-05-04' })];
+            const imported = [
+                event('a', { title: "mom's birthday", date: '1990-05-04' }),
+                event('b', { title: 'Trip', date: '2025-07-01' }),
+                event('c', { title: 'Trip', date: '2025-07-01' }),
+            ];
+
+            const result = mergeImportedEvents(existing, imported);
+
+            expect(result).toMatchObject({ added: 1, duplicates: 2 });
+            expect(result.events.map(e => e.id)).toEqual(['1', 'b']);
+        });
+    });
+
+    describe('guessEventCategory', () => {
+        it('guesses from the title', () => {
+            expect(guessEventCategory("Sam's bday")).toBe('birthday');
+            expect(guessEventCategory('Wedding anniversary')).toBe('anniversary');
+            expect(guessEventCategory('Dentist')).toBe('other');
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import {
+    createTodoFromIdea,
+    findLinkedTodo,
+    formatIdeaContent,
+    getIdeaTagCounts,
+    parseHashtags,
+    sortIdeas,
+    stripHashtags,
+    unlinkMissingTodos,
+} from '../ideas';
+import { Idea, TodoItem } from '../../types/sparkData';
+
+const idea = (id: string, content: string, createdAt: string, overrides: Partial<Idea> = {}): Idea => ({
+    id,
+    content,
+    createdAt,
+    ...overrides,
+});
+
+describe('ideas', () => {
+    describe('parseHashtags', () => {
+        it('finds lowercased tags in order of first use', () => {
+            expect(parseHashtags('#Garden: grow basil indoors #cooking #garden')).toEqual(['garden', 'cooking']);
+        });
+
+        it('ignores "#" inside words and on its own', () => {
+            expect(parseHashtags('C# tips, issue #42 and a # sign')).toEqual(['42']);
+        });
+
+        it('allows hyphens and underscores', () => {
+            expect(parseHashtags('Plan (#side-project) #to_read')).toEqual(['side-project', 'to_read']);
+        });
+    });
+
+    describe('stripHashtags', () => {
+        it('removes tags and tidies the spacing', () => {
+            expect(stripHashtags('Grow basil #garden indoors #cooking.')).toBe('Grow basil indoors.');
+        });
+    });
+
+    describe('formatIdeaContent', () => {
+        it('turns dictated hashtags into tags', () => {
+            expect(formatIdeaContent('Grow basil hashtag garden')).toBe('Grow basil #garden');
+            expect(formatIdeaContent('Hash tag work call the bank')).toBe('#work call the bank');
+        });
+
+        it('appends tags that are not already in the text', () => {
+            expect(formatIdeaContent('Grow basil #garden', ['#Garden', 'Side project'])).toBe('Grow basil #garden #side-project');
+        });
+    });
+
+    describe('getIdeaTagCounts', () => {
+        it('counts tags, most used first', () => {
+            const ideas = [
+                idea('1', 'A #work #home', '2025-01-01'),
+                idea('2', 'B #home', '2025-01-02'),
+                idea('3', 'C #art', '2025-01-03'),
+            ];
+            expect(getIdeaTagCounts(ideas)).toEqual([
+                { tag: 'home', count: 2 },
+                { tag: 'art', count: 1 },
+                { tag: 'work', count: 1 },
+            ]);
+        });
+    });
+
+    describe('sortIdeas', () => {
+        it('puts pinned ideas first, then newest', () => {
+            const ideas = [
+                idea('old', 'Old', '2025-01-01T10:00:00.000Z'),
+                idea('pinned', 'Pinned', '2024-06-01T10:00:00.000Z', { pinned: true }),
+                idea('new', 'New', '2025-02-01T10:00:00.000Z'),
+            ];
+            expect(sortIdeas(ideas).map(i => i.id)).toEqual(['pinned', 'new', 'old']);
+        });
+    });
+
+    describe('createTodoFromIdea', () => {
+        it('creates a todo due today that links back to the idea', () => {
+            const now = new Date(2025, 2, 14, 9, 30);
+            const todos = [{ id: 4 }, { id: 7 }] as TodoItem[];
+
+            expect(createTodoFromIdea(idea('idea-1', 'Book a #garden design consult', '2025-03-01'), todos, now)).toEqual({
+                id: 8,
+                text: 'garden: Book a design consult',
+                displayText: 'Book a design consult',
+                category: 'garden',
+                completed: false,
+                dueDate: '2025-03-14',
+                createdDate: now.toISOString(),
+                sortTimeMs: now.getTime(),
+                ideaId: 'idea-1',
+            });
+        });
+
+        it('leaves untagged ideas without a category', () => {
+            const todo = createTodoFromIdea(idea('idea-2', 'Call the plumber', '2025-03-01'), []);
+            expect(todo).toMatchObject({ id: 1, text: 'Call the plumber', category: undefined });
+        });
+    });
+
+    describe('findLinkedTodo', () => {
+        const linked = idea('idea-1', 'Fix fence', '2025-03-01', { todoId: 3 });
+
+        it('finds the todo that points back at the idea', () => {
+            const todos = [{ id: 3, ideaId: 'idea-1' }] as TodoItem[];
+            expect(findLinkedTodo(linked, todos)).toBe(todos[0]);
+        });
+
+        it('ignores a later todo that reused the id, and unlinks the idea', () => {
+            const todos = [{ id: 3, text: 'Unrelated' }, { id: 4, ideaId: 'idea-1' }] as TodoItem[];
+            expect(findLinkedTodo(linked, todos)).toBeUndefined();
+            expect(unlinkMissingTodos([linked], todos)[0].todoId).toBeUndefined();
+            expect(unlinkMissingTodos([linked], [{ id: 3, ideaId: 'idea-1' }] as TodoItem[])[0]).toBe(linked);
+        });
+    });
+});
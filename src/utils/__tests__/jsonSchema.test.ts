@@ -0,0 +1,50 @@
+import { hashString, parseModelJSON, validateJSONSchema } from '../jsonSchema';
+
+describe('jsonSchema', () => {
+    describe('validateJSONSchema', () => {
+        const schema = {
+            type: 'object' as const,
+            properties: {
+                name: { type: 'string' as const, enum: ['a', 'b'] },
+                tags: { type: 'array' as const, items: { type: 'string' as const } },
+            },
+            required: ['name'],
+        };
+
+        it('accepts matching values', () => {
+            expect(validateJSONSchema({ name: 'a', tags: ['x'] }, schema)).toBeNull();
+        });
+
+        it('reports the path of the first problem', () => {
+            expect(validateJSONSchema({ tags: [] }, schema)).toBe('$.name is required');
+            expect(validateJSONSchema({ name: 'c' }, schema)).toBe('$.name should be one of a, b');
+            expect(validateJSONSchema({ name: 'a', tags: ['x', 1] }, schema)).toBe('$.tags[1] should be string but was number');
+        });
+
+        it('distinguishes arrays and null from objects', () => {
+            expect(validateJSONSchema([], schema)).toBe('$ should be object but was array');
+            expect(validateJSONSchema(null, schema)).toBe('$ should be object but was null');
+        });
+    });
+
+    describe('parseModelJSON', () => {
+        it('strips markdown fences', () => {
+            expect(parseModelJSON('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+        });
+
+        it('extracts JSON from surrounding prose', () => {
+            expect(parseModelJSON('Sure! {"a": [1, 2,]} Hope that helps.')).toEqual({ a: [1, 2] });
+        });
+
+        it('throws when nothing can be repaired', () => {
+            expect(() => parseModelJSON('no json here')).toThrow();
+        });
+    });
+
+    describe('hashString', () => {
+        it('is stable and distinguishes inputs', () => {
+            expect(hashString('prompt')).toBe(hashString('prompt'));
+            expect(hashString('prompt')).not.toBe(hashString('prompt '));
+        });
+    });
+});
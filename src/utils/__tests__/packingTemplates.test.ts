@@ -0,0 +1,84 @@
+import {
+    BUILT_IN_TEMPLATES,
+    buildItemsFromTemplate,
+    createTemplateFromItems,
+    getTripDays,
+    groupItemsByCategory,
+    scaleTemplateItem,
+} from '../packingTemplates';
+import { PackingItem } from '../../types/sparkData';
+
+describe('packingTemplates', () => {
+    describe('getTripDays', () => {
+        it('counts the first and last day', () => {
+            expect(getTripDays('2025-06-01', '2025-06-05')).toBe(5);
+            expect(getTripDays('2025-06-01', '2025-06-01')).toBe(1);
+        });
+
+        it('counts across months and never less than a day', () => {
+            expect(getTripDays('2025-02-27', '2025-03-02')).toBe(4);
+            expect(getTripDays('2025-06-05', '2025-06-01')).toBe(1);
+        });
+    });
+
+    describe('scaleTemplateItem', () => {
+        it('keeps fixed counts and scales per-day items up to their cap', () => {
+            expect(scaleTemplateItem({ item: 'Toothbrush', category: 'toiletries', count: 1 }, 10)).toBe(1);
+            expect(scaleTemplateItem({ item: 'Socks', category: 'clothes', count: 1, perDay: true }, 4)).toBe(4);
+            expect(scaleTemplateItem({ item: 'Socks', category: 'clothes', count: 1, perDay: true, max: 7 }, 14)).toBe(7);
+            expect(scaleTemplateItem({ item: 'Shorts', category: 'clothes', count: 0.5, perDay: true }, 5)).toBe(3);
+        });
+    });
+
+    describe('buildItemsFromTemplate', () => {
+        it('creates unpacked, categorized items scaled to the trip', () => {
+            const beach = BUILT_IN_TEMPLATES.find(template => template.id === 'beach')!;
+            const items = buildItemsFromTemplate(beach, 3);
+
+            expect(items).toHaveLength(beach.items.length);
+            expect(new Set(items.map(item => item.id)).size).toBe(items.length);
+            expect(items.every(item => !item.packed)).toBe(true);
+            expect(items.find(item => item.item === 'T-shirts')).toMatchObject({ count: 3, category: 'clothes' });
+            expect(items.find(item => item.item === 'Swimsuits')).toMatchObject({ count: 2 });
+        });
+
+        it('offers the beach, ski, business and golf templates', () => {
+            expect(BUILT_IN_TEMPLATES.map(template => template.id)).toEqual(['beach', 'ski', 'business', 'golf']);
+        });
+    });
+
+    describe('createTemplateFromItems', () => {
+        it('keeps item counts and categories', () => {
+            const items: PackingItem[] = [
+                { id: 1, item: 'Camera', count: 1, packed: true, category: 'electronics' },
+                { id: 2, item: 'Snacks', count: 3, packed: false },
+            ];
+
+            expect(createTemplateFromItems('t1', 'Road trip', items)).toEqual({
+                id: 't1',
+                name: 'Road trip',
+                icon: '🧳',
+                items: [
+                    { item: 'Camera', category: 'electronics', count: 1 },
+                    { item: 'Snacks', category: 'other', count: 3 },
+                ],
+            });
+        });
+    });
+
+    describe('groupItemsByCategory', () => {
+        it('groups in category order and skips empty categories', () => {
+            const items: PackingItem[] = [
+                { id: 1, item: 'Charger', count: 1, packed: false, category: 'electronics' },
+                { id: 2, item: 'Snacks', count: 1, packed: false },
+                { id: 3, item: 'Shirt', count: 1, packed: false, category: 'clothes' },
+            ];
+
+            expect(groupItemsByCategory(items).map(group => [group.category, group.items.map(item => item.id)])).toEqual([
+                ['clothes', [3]],
+                ['electronics', [1]],
+                ['other', [2]],
+            ]);
+        });
+    });
+});
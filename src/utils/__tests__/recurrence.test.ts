@@ -0,0 +1,94 @@
+import {
+    parseRepeatPhrase,
+    describeRepeatRule,
+    getFirstOccurrence,
+    getNextOccurrence,
+    getUpcomingOccurrences,
+} from '../recurrence';
+
+describe('recurrence', () => {
+    describe('parseRepeatPhrase', () => {
+        it('parses weekday rules', () => {
+            expect(parseRepeatPhrase('Take out trash every monday')).toEqual({
+                text: 'Take out trash',
+                repeat: { frequency: 'weekly', interval: 1, weekday: 1 },
+                phrase: 'every monday',
+            });
+            expect(parseRepeatPhrase('Standup on weekdays').repeat).toEqual({ frequency: 'weekdays' });
+        });
+
+        it('parses intervals and monthly days', () => {
+            expect(parseRepeatPhrase('Water plants every 3 days').repeat).toEqual({ frequency: 'daily', interval: 3 });
+            expect(parseRepeatPhrase('Mow lawn every other week').repeat).toEqual({ frequency: 'weekly', interval: 2 });
+            expect(parseRepeatPhrase('Pay rent on the 1st of every month').repeat).toEqual({ frequency: 'monthly', dayOfMonth: 1 });
+            expect(parseRepeatPhrase('Change filter two days after completion').repeat)
+                .toEqual({ frequency: 'after-completion', interval: 2 });
+        });
+
+        it('leaves text without a phrase alone', () => {
+            expect(parseRepeatPhrase(' Buy milk ')).toEqual({ text: 'Buy milk' });
+        });
+
+        it('only reads bare repeat words at the end or after "repeat"', () => {
+            expect(parseRepeatPhrase('Buy daily planner')).toEqual({ text: 'Buy daily planner' });
+            expect(parseRepeatPhrase('Read weekly report')).toEqual({ text: 'Read weekly report' });
+            expect(parseRepeatPhrase('Renew monthly pass')).toEqual({ text: 'Renew monthly pass' });
+            expect(parseRepeatPhrase('Check weekdays schedule')).toEqual({ text: 'Check weekdays schedule' });
+
+            expect(parseRepeatPhrase('Stretch daily').repeat).toEqual({ frequency: 'daily' });
+            expect(parseRepeatPhrase('Review budget weekly.')).toEqual({ text: 'Review budget.', repeat: { frequency: 'weekly' }, phrase: 'weekly' });
+            expect(parseRepeatPhrase('Repeat daily take vitamins')).toEqual({
+                text: 'take vitamins',
+                repeat: { frequency: 'daily' },
+                phrase: 'Repeat daily',
+            });
+            expect(parseRepeatPhrase('Pay rent monthly on the 1st').repeat).toEqual({ frequency: 'monthly', dayOfMonth: 1 });
+        });
+    });
+
+    it('describes rules', () => {
+        expect(describeRepeatRule({ frequency: 'weekly', weekday: 5 })).toBe('Every Friday');
+        expect(describeRepeatRule({ frequency: 'monthly', dayOfMonth: 22 })).toBe('Monthly on the 22nd');
+        expect(describeRepeatRule({ frequency: 'daily', interval: 2 })).toBe('Every 2 days');
+    });
+
+    describe('getFirstOccurrence', () => {
+        it('moves to the next matching day', () => {
+            // 2025-06-15 is a Sunday
+            expect(getFirstOccurrence({ frequency: 'weekly', weekday: 1 }, '2025-06-15')).toBe('2025-06-16');
+            expect(getFirstOccurrence({ frequency: 'weekdays' }, '2025-06-15')).toBe('2025-06-16');
+            expect(getFirstOccurrence({ frequency: 'monthly', dayOfMonth: 10 }, '2025-06-15')).toBe('2025-07-10');
+        });
+
+        it('keeps today when it already matches', () => {
+            expect(getFirstOccurrence({ frequency: 'daily' }, '2025-06-15')).toBe('2025-06-15');
+            expect(getFirstOccurrence({ frequency: 'monthly', dayOfMonth: 15 }, '2025-06-15')).toBe('2025-06-15');
+        });
+    });
+
+    describe('getNextOccurrence', () => {
+        it('follows the series from the due date', () => {
+            expect(getNextOccurrence({ frequency: 'weekly', weekday: 1 }, '2025-06-16', '2025-06-16')).toBe('2025-06-23');
+            expect(getNextOccurrence({ frequency: 'weekdays' }, '2025-06-20', '2025-06-20')).toBe('2025-06-23');
+        });
+
+        it('skips occurrences that are already past', () => {
+            expect(getNextOccurrence({ frequency: 'daily' }, '2025-06-10', '2025-06-15')).toBe('2025-06-16');
+        });
+
+        it('counts after-completion rules from the completion date', () => {
+            expect(getNextOccurrence({ frequency: 'after-completion', interval: 3 }, '2025-06-10', '2025-06-15'))
+                .toBe('2025-06-18');
+        });
+
+        it('clamps monthly rules to short months', () => {
+            expect(getNextOccurrence({ frequency: 'monthly', dayOfMonth: 31 }, '2025-01-31', '2025-01-31')).toBe('2025-02-28');
+            expect(getNextOccurrence({ frequency: 'monthly', dayOfMonth: 31 }, '2025-02-28', '2025-02-28')).toBe('2025-03-31');
+        });
+    });
+
+    it('lists upcoming occurrences', () => {
+        expect(getUpcomingOccurrences({ frequency: 'weekly', interval: 2 }, '2025-06-15', 2))
+            .toEqual(['2025-06-29', '2025-07-13']);
+    });
+});
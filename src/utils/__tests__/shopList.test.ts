@@ -0,0 +1,142 @@
+import {
+    applyShopListText,
+    createShopItem,
+    editShopItem,
+    getVisibleShopItems,
+    groupShopItemsByAisle,
+    guessShopAisle,
+    isSameShopList,
+    mergeShopItems,
+    migrateLegacyShopItems,
+    parseShopItemText,
+    pruneDeletedShopItems,
+    setShopItemChecked,
+} from '../shopList';
+import { ShopItem } from '../../types/sparkData';
+
+const item = (id: string, name: string, overrides: Partial<ShopItem> = {}): ShopItem => ({
+    id,
+    name,
+    checked: false,
+    updatedAt: 100,
+    checkedAt: 100,
+    ...overrides,
+});
+
+describe('shopList', () => {
+    describe('parseShopItemText', () => {
+        it('reads leading and trailing quantities', () => {
+            expect(parseShopItemText('Milk')).toEqual({ name: 'Milk' });
+            expect(parseShopItemText('2 Milk')).toEqual({ name: 'Milk', quantity: '2' });
+            expect(parseShopItemText('2 bags of rice')).toEqual({ name: 'rice', quantity: '2 bags' });
+            expect(parseShopItemText('1.5 kg potatoes')).toEqual({ name: 'potatoes', quantity: '1.5 kg' });
+            expect(parseShopItemText('3x yogurt')).toEqual({ name: 'yogurt', quantity: '3' });
+            expect(parseShopItemText('eggs x12')).toEqual({ name: 'eggs', quantity: '12' });
+            expect(parseShopItemText('lemons (4)')).toEqual({ name: 'lemons', quantity: '4' });
+        });
+    });
+
+    describe('guessShopAisle', () => {
+        it('guesses aisles from common item names', () => {
+            expect(guessShopAisle('Bananas')).toBe('produce');
+            expect(guessShopAisle('Sourdough bread')).toBe('bakery');
+            expect(guessShopAisle('Milk')).toBe('dairy');
+            expect(guessShopAisle('Peanut butter')).toBe('pantry');
+            expect(guessShopAisle('Ice cream')).toBe('frozen');
+            expect(guessShopAisle('Dish soap')).toBe('household');
+            expect(guessShopAisle('Birthday card')).toBe('other');
+        });
+    });
+
+    describe('migrateLegacyShopItems', () => {
+        it('keeps checkmarks with the item they were on', () => {
+            const items = migrateLegacyShopItems(['Bread', 'Milk', 'Eggs'], [1], 100);
+
+            expect(items.map(i => [i.name, i.checked])).toEqual([['Bread', false], ['Milk', true], ['Eggs', false]]);
+            expect(new Set(items.map(i => i.id)).size).toBe(3);
+        });
+    });
+
+    describe('applyShopListText', () => {
+        it('keeps ids and checkmarks when the list is reordered or edited', () => {
+            const items = [item('a', 'Bread', { checked: true }), item('b', 'Milk'), item('c', 'Eggs')];
+            const result = applyShopListText(items, 'Eggs\n2 Milk\nButter', 200);
+
+            expect(result.find(i => i.id === 'a')).toMatchObject({ deleted: true, updatedAt: 200 });
+            expect(result.find(i => i.id === 'b')).toMatchObject({ name: 'Milk', quantity: '2', updatedAt: 200 });
+            expect(result.find(i => i.id === 'c')).toEqual(items[2]);
+            expect(getVisibleShopItems(result).map(i => i.name)).toEqual(['Milk', 'Eggs', 'Butter']);
+        });
+    });
+
+    describe('mergeShopItems', () => {
+        it('keeps items added on either copy', () => {
+            const merged = mergeShopItems([item('a', 'Bread'), item('b', 'Milk')], [item('a', 'Bread'), item('c', 'Eggs')]);
+            expect(merged.map(i => i.id)).toEqual(['a', 'b', 'c']);
+        });
+
+        it('resolves edits and check-offs separately', () => {
+            const local = [editShopItem(item('a', 'Milk'), { name: 'Oat milk' }, 300)];
+            const remote = [setShopItemChecked(item('a', 'Milk'), true, 200)];
+
+            expect(mergeShopItems(local, remote)).toEqual([
+                { ...local[0], checked: true, checkedAt: 200 },
+            ]);
+            expect(mergeShopItems(remote, local)).toEqual(mergeShopItems(local, remote));
+        });
+
+        it('takes the later check-off when both people tap the same item', () => {
+            const mine = setShopItemChecked(item('a', 'Milk'), true, 200);
+            const theirs = setShopItemChecked(item('a', 'Milk'), false, 250);
+            expect(mergeShopItems([mine], [theirs])[0].checked).toBe(false);
+        });
+
+        it('keeps deletes made offline', () => {
+            const deleted = editShopItem(item('a', 'Milk'), { deleted: true }, 200);
+            const checked = setShopItemChecked(item('a', 'Milk'), true, 300);
+
+            const merged = mergeShopItems([deleted], [checked]);
+            expect(merged[0]).toMatchObject({ deleted: true, checked: true });
+            expect(getVisibleShopItems(merged)).toEqual([]);
+        });
+    });
+
+    describe('isSameShopList', () => {
+        it('compares item versions regardless of order', () => {
+            const a = [item('a', 'Bread'), item('b', 'Milk')];
+            expect(isSameShopList(a, [a[1], a[0]])).toBe(true);
+            expect(isSameShopList(a, [a[0], setShopItemChecked(a[1], true, 200)])).toBe(false);
+            expect(isSameShopList(a, [a[0]])).toBe(false);
+        });
+    });
+
+    describe('pruneDeletedShopItems', () => {
+        it('drops deletes older than 30 days', () => {
+            const day = 24 * 60 * 60 * 1000;
+            const now = 100 * day;
+            const items = [
+                item('a', 'Old', { deleted: true, updatedAt: now - 31 * day }),
+                item('b', 'Recent', { deleted: true, updatedAt: now - day }),
+                item('c', 'Kept', { updatedAt: now - 90 * day }),
+            ];
+            expect(pruneDeletedShopItems(items, now).map(i => i.id)).toEqual(['b', 'c']);
+        });
+    });
+
+    describe('groupShopItemsByAisle', () => {
+        it('groups visible items in aisle order with checked items last', () => {
+            const items = [
+                createShopItem('Milk', 1),
+                item('x', 'Cheese', { aisle: 'dairy', checked: true }),
+                item('y', 'Yogurt', { aisle: 'dairy' }),
+                item('z', 'Apples', { aisle: 'produce', deleted: true }),
+                item('w', 'Card'),
+            ];
+
+            expect(groupShopItemsByAisle(items).map(group => [group.aisle, group.items.map(i => i.name)])).toEqual([
+                ['dairy', ['Milk', 'Yogurt', 'Cheese']],
+                ['other', ['Card']],
+            ]);
+        });
+    });
+});
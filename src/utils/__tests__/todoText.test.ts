@@ -0,0 +1,45 @@
+import { parseTaskText, parsePriorityToken, setPriorityToken } from '../todoText';
+
+// A Wednesday
+const now = new Date(2025, 5, 11);
+
+describe('todoText', () => {
+    describe('parseTaskText', () => {
+        it('reads "every monday" as a repeat rather than a due date', () => {
+            expect(parseTaskText('home: take out trash every monday', now)).toEqual({
+                text: 'home: take out trash every monday',
+                category: 'home',
+                displayText: 'take out trash',
+                repeat: { frequency: 'weekly', interval: 1, weekday: 1 },
+                priority: undefined,
+                dueDate: undefined,
+            });
+        });
+
+        it('reads "every 2 weeks" as a repeat', () => {
+            const parsed = parseTaskText('Water plants every 2 weeks', now);
+            expect(parsed.displayText).toBe('Water plants');
+            expect(parsed.repeat).toEqual({ frequency: 'weekly', interval: 2 });
+            expect(parsed.dueDate).toBeUndefined();
+        });
+
+        it('resolves a due date phrase and keeps the priority token', () => {
+            expect(parseTaskText('work: file report next friday !high', now)).toEqual({
+                text: 'work: file report !high',
+                category: 'work',
+                displayText: 'file report',
+                repeat: undefined,
+                priority: 'high',
+                dueDate: '2025-06-13',
+            });
+        });
+    });
+
+    describe('priority tokens', () => {
+        it('reads and replaces the priority token', () => {
+            expect(parsePriorityToken('Call mom !med')).toEqual({ text: 'Call mom', priority: 'medium' });
+            expect(setPriorityToken('Call mom !low', 'high')).toBe('Call mom !high');
+            expect(setPriorityToken('Call mom !low')).toBe('Call mom');
+        });
+    });
+});
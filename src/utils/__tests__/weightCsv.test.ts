@@ -0,0 +1,119 @@
+import { parseWeightCsv, mergeWeightEntries, exportWeightCsv } from '../weightCsv';
+import { KG_PER_LB, toDisplayWeight } from '../weightUnits';
+import { WeightEntry } from '../../types/sparkData';
+
+const entry = (id: string, date: Date, weight: number): WeightEntry => ({
+    id,
+    date: date.toISOString(),
+    weight,
+});
+
+describe('weightCsv', () => {
+    describe('parseWeightCsv', () => {
+        it('reads plain date,weight,unit rows into kilograms', () => {
+            const { entries, errors } = parseWeightCsv('2025-01-05,180,lbs\n2025-01-12,81.5,kg\n', 'lbs');
+
+            expect(errors).toEqual([]);
+            expect(entries).toHaveLength(2);
+            expect(entries[0].weight).toBeCloseTo(180 * KG_PER_LB);
+            expect(entries[1].weight).toBe(81.5);
+            expect(new Date(entries[0].date)).toEqual(new Date(2025, 0, 5, 12));
+        });
+
+        it('uses the fallback unit when a row has none', () => {
+            const { entries } = parseWeightCsv('2025-01-05,180', 'lbs');
+            expect(entries[0].weight).toBeCloseTo(180 * KG_PER_LB);
+        });
+
+        it('finds columns and the unit in smart-scale headers', () => {
+            const csv = 'Date,BMI,Weight (kg),Fat %\n"2025-02-01 07:15:00",24.1,82.3,20.5\n';
+            const { entries, errors } = parseWeightCsv(csv, 'lbs');
+
+            expect(errors).toEqual([]);
+            expect(entries[0].weight).toBe(82.3);
+            expect(new Date(entries[0].date)).toEqual(new Date(2025, 1, 1, 7, 15));
+        });
+
+        it('handles semicolons, decimal commas and unit suffixes', () => {
+            const { entries } = parseWeightCsv('Date;Weight\n01/31/2025;82,5 kg\n', 'lbs');
+            expect(entries[0].weight).toBe(82.5);
+            expect(new Date(entries[0].date)).toEqual(new Date(2025, 0, 31, 12));
+        });
+
+        it('reports rows it cannot read', () => {
+            const { entries, errors } = parseWeightCsv('date,weight,unit\nyesterday,180,lbs\n2025-01-05,heavy,lbs\n2025-01-06,179,lbs', 'lbs');
+
+            expect(entries).toHaveLength(1);
+            expect(errors).toEqual([
+                'Row 2: unrecognized date "yesterday"',
+                'Row 3: unrecognized weight "heavy"',
+            ]);
+        });
+
+        it('reports out-of-range dates instead of rolling them over', () => {
+            const { entries, errors } = parseWeightCsv('2025-13-45,180,lbs\n2025-02-29,180,lbs\n02/30/2025,180,lbs', 'lbs');
+
+            expect(entries).toHaveLength(0);
+            expect(errors).toEqual([
+                'Row 1: unrecognized date "2025-13-45"',
+                'Row 2: unrecognized date "2025-02-29"',
+                'Row 3: unrecognized date "02/30/2025"',
+            ]);
+        });
+
+        it('reads day-first dates when a row shows the day above 12', () => {
+            const { entries, errors } = parseWeightCsv('Date,Weight\n03/02/2025,82 kg\n31/01/2025,83 kg', 'lbs');
+
+            expect(errors).toEqual([]);
+            expect(entries.map(entry => new Date(entry.date))).toEqual([
+                new Date(2025, 1, 3, 12),
+                new Date(2025, 0, 31, 12),
+            ]);
+        });
+
+        it('rejects files without date and weight columns', () => {
+            expect(parseWeightCsv('Name,Score\nAnn,10', 'lbs').errors).toEqual(['Could not find date and weight columns']);
+        });
+    });
+
+    describe('mergeWeightEntries', () => {
+        it('skips weigh-ins already recorded on the same day', () => {
+            const existing = [entry('1', new Date(2025, 0, 5, 8), 81.6)];
+            const imported = [
+                entry('a', new Date(2025, 0, 5, 12), 81.63), // Same day, rounding difference
+                entry('b', new Date(2025, 0, 5, 12), 83), // Same day, different weight
+                entry('c', new Date(2025, 0, 6, 12), 81.4),
+                entry('d', new Date(2025, 0, 6, 12), 81.4), // Repeated within the import
+            ];
+
+            const result = mergeWeightEntries(existing, imported);
+
+            expect(result.added).toBe(2);
+            expect(result.duplicates).toBe(2);
+            expect(result.entries.map(e => e.id)).toEqual(['1', 'b', 'c']);
+        });
+    });
+
+    describe('exportWeightCsv', () => {
+        it('writes entries oldest first in the display unit', () => {
+            const entries = [
+                entry('2', new Date(2025, 0, 12, 8), 81),
+                entry('1', new Date(2025, 0, 5, 8), 180 * KG_PER_LB),
+            ];
+
+            expect(exportWeightCsv(entries, 'lbs')).toBe(
+                `date,weight,unit\n2025-01-05,180,lbs\n2025-01-12,${toDisplayWeight(81, 'lbs')},lbs\n`
+            );
+        });
+
+        it('round-trips without creating duplicates', () => {
+            const entries = [
+                entry('1', new Date(2025, 0, 5, 8), 81.6),
+                entry('2', new Date(2025, 0, 12, 8), 81.1),
+            ];
+            const { entries: imported } = parseWeightCsv(exportWeightCsv(entries, 'lbs'), 'kg');
+
+            expect(mergeWeightEntries(entries, imported)).toMatchObject({ added: 0, duplicates: 2 });
+        });
+    });
+});
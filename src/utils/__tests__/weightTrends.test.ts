@@ -0,0 +1,79 @@
+import { computeTrend, getWeeklyRate, projectGoalDate, getWeightAnalytics } from '../weightTrends';
+import { WeightEntry } from '../../types/sparkData';
+
+// One entry a week, losing a pound a week from 200
+const weeklyEntries = (count: number, start = new Date(2025, 0, 1)): WeightEntry[] =>
+    Array.from({ length: count }, (_, i) => ({
+        id: String(i),
+        date: new Date(start.getFullYear(), start.getMonth(), start.getDate() + i * 7).toISOString(),
+        weight: 200 - i,
+    }));
+
+describe('weightTrends', () => {
+    describe('computeTrend', () => {
+        it('starts at the first weight and lags behind changes', () => {
+            const points = computeTrend(weeklyEntries(3));
+            expect(points[0].trend).toBe(200);
+            // A week is one half-life, so the trend moves halfway to each new weight
+            expect(points[1].trend).toBeCloseTo(199.5);
+            expect(points[2].trend).toBeCloseTo(198.75);
+        });
+
+        it('sorts entries by date', () => {
+            const entries = weeklyEntries(3).reverse();
+            expect(computeTrend(entries).map(point => point.weight)).toEqual([200, 199, 198]);
+        });
+
+        it('counts a second weigh-in on the same day as a day later', () => {
+            const date = new Date(2025, 0, 1, 8).toISOString();
+            const points = computeTrend([
+                { id: 'a', date, weight: 200 },
+                { id: 'b', date, weight: 193 },
+            ]);
+            expect(points[1].trend).toBeCloseTo(200 - 7 * (1 - Math.pow(0.5, 1 / 7)));
+        });
+    });
+
+    describe('getWeeklyRate', () => {
+        it('measures the trend slope per week', () => {
+            const rate = getWeeklyRate(computeTrend(weeklyEntries(20)));
+            expect(rate).toBeCloseTo(-1, 1);
+        });
+
+        it('needs at least two points', () => {
+            expect(getWeeklyRate(computeTrend(weeklyEntries(1)))).toBeNull();
+        });
+    });
+
+    describe('projectGoalDate', () => {
+        const from = new Date(2025, 5, 1);
+
+        it('projects when moving toward the goal', () => {
+            expect(projectGoalDate(190, -1, 180, from)).toEqual(new Date(2025, 7, 10));
+        });
+
+        it('returns null when moving away from the goal or without one', () => {
+            expect(projectGoalDate(190, 1, 180, from)).toBeNull();
+            expect(projectGoalDate(190, -1, null, from)).toBeNull();
+        });
+
+        it('returns null when the goal is years away', () => {
+            expect(projectGoalDate(190, -0.01, 180, from)).toBeNull();
+        });
+    });
+
+    describe('getWeightAnalytics', () => {
+        it('limits points to the range but smooths over all history', () => {
+            const entries = weeklyEntries(20);
+            const now = new Date(entries[entries.length - 1].date);
+            const all = getWeightAnalytics(entries, 150, 'all', now);
+            const recent = getWeightAnalytics(entries, 150, '30d', now);
+
+            expect(all.points).toHaveLength(20);
+            expect(recent.points).toHaveLength(5);
+            expect(recent.points[0].trend).toBe(all.points[15].trend);
+            expect(recent.currentTrend).toBe(all.currentTrend);
+            expect(recent.projectedGoalDate).not.toBeNull();
+        });
+    });
+});
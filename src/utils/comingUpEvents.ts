@@ -0,0 +1,206 @@
+/**
+ * Date helpers for Coming Up events
+ */
+import { ComingUpEvent } from '../types/sparkData';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local midnight for a YYYY-MM-DD date string
+ */
+export const parseEventDate = (dateString: string): Date => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+// Whole calendar days between two dates, unaffected by daylight saving changes
+const daysBetween = (from: Date, to: Date): number =>
+    Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / DAY_MS);
+
+const ordinal = (n: number): string => {
+    const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+    return `${n}${suffix}`;
+};
+
+/**
+ * Emoji shown for an event category
+ */
+export const getEventCategoryEmoji = (category: ComingUpEvent['category']): string => {
+    switch (category) {
+        case 'birthday': return '🎂';
+        case 'anniversary': return '💍';
+        case 'trip': return '✈️';
+        case 'work': return '💻';
+        case 'party': return '🥳';
+        case 'sports': return '⚽️';
+        default: return '📅';
+    }
+};
+
+/**
+ * Whether an event happens more than once
+ */
+export const isRecurringEvent = (event: ComingUpEvent): boolean => event.type !== 'one-time';
+
+/**
+ * Which week of its month a date falls in: 1-4, or -1 for a fifth week
+ * @returns e.g. 2 for the second Sunday of May
+ */
+export const getWeekOfMonth = (date: Date): number => {
+    const week = Math.ceil(date.getDate() / 7);
+    return week > 4 ? -1 : week;
+};
+
+/**
+ * Whether a date falls in the last seven days of its month, so it can be
+ * described as "the last Monday" as well as by its week number
+ */
+export const isInLastWeekOfMonth = (date: Date): boolean =>
+    date.getDate() > daysInMonth(date.getFullYear(), date.getMonth()) - 7;
+
+/**
+ * The weekday of a month in a given week, e.g. the 2nd Sunday of May 2025
+ * @param week - 1-4, or -1 for the last
+ */
+const getNthWeekday = (year: number, month: number, weekday: number, week: number): Date => {
+    if (week === -1) {
+        const last = daysInMonth(year, month);
+        const lastWeekday = new Date(year, month, last).getDay();
+        return new Date(year, month, last - ((lastWeekday - weekday + 7) % 7));
+    }
+    const firstWeekday = new Date(year, month, 1).getDay();
+    return new Date(year, month, 1 + ((weekday - firstWeekday + 7) % 7) + (week - 1) * 7);
+};
+
+/**
+ * Day of a month, moved back to the month's last day when it's too short (Jan 31 -> Feb 28)
+ */
+const getMonthDay = (start: Date, monthsAfter: number): Date => {
+    const month = start.getMonth() + monthsAfter;
+    const year = start.getFullYear() + Math.floor(month / 12);
+    const normalizedMonth = ((month % 12) + 12) % 12;
+    return new Date(year, normalizedMonth, Math.min(start.getDate(), daysInMonth(year, normalizedMonth)));
+};
+
+/**
+ * First of a fixed-day-count series (start, start + period, ...) on or after a day
+ */
+const nextInDaySeries = (start: Date, periodDays: number, from: Date): Date => {
+    const elapsed = daysBetween(start, from);
+    if (elapsed <= 0) return start;
+    const steps = Math.ceil(elapsed / periodDays);
+    return new Date(start.getFullYear(), start.getMonth(), start.getDate() + steps * periodDays);
+};
+
+/**
+ * First of a monthly series (every periodMonths months on the start's day) on or after a day
+ */
+const nextInMonthSeries = (start: Date, periodMonths: number, from: Date): Date => {
+    if (from <= start) return start;
+    const monthsElapsed = (from.getFullYear() - start.getFullYear()) * 12 + from.getMonth() - start.getMonth();
+    let steps = Math.max(0, Math.floor(monthsElapsed / periodMonths));
+    let next = getMonthDay(start, steps * periodMonths);
+    while (next < from) {
+        steps++;
+        next = getMonthDay(start, steps * periodMonths);
+    }
+    return next;
+};
+
+/**
+ * Next time an event happens on or after a day. Repeating events start on
+ * their date; annual events also count years before it, so a birthday
+ * entered with its birth year still comes around each year.
+ * @param event - Event to check
+ * @param from - Day to start from; only its date part is used
+ * @returns Local midnight of the occurrence. One-time events always return
+ * their date, even when it's already past.
+ */
+export const getNextEventOccurrence = (event: ComingUpEvent, from: Date = new Date()): Date => {
+    const day = startOfDay(from);
+    const start = parseEventDate(event.date);
+
+    switch (event.type) {
+        case 'one-time':
+            return start;
+        case 'annual':
+            return nextInMonthSeries(start, 12, day);
+        case 'monthly':
+            return nextInMonthSeries(start, 1, day);
+        case 'weekly':
+            return nextInDaySeries(start, 7, day);
+        case 'nth-weekday': {
+            const week = event.weekOfMonth ?? getWeekOfMonth(start);
+            for (let year = Math.max(start.getFullYear(), day.getFullYear()); ; year++) {
+                const next = getNthWeekday(year, start.getMonth(), start.getDay(), week);
+                if (next >= day && next >= start) return next;
+            }
+        }
+        case 'custom': {
+            const interval = Math.max(1, event.interval || 1);
+            switch (event.intervalUnit) {
+                case 'weeks': return nextInDaySeries(start, 7 * interval, day);
+                case 'months': return nextInMonthSeries(start, interval, day);
+                case 'years': return nextInMonthSeries(start, 12 * interval, day);
+                default: return nextInDaySeries(start, interval, day);
+            }
+        }
+    }
+};
+
+/**
+ * Name for the nth weekday of an event's date, e.g. "2nd Sunday of May"
+ * @param week - 1-4, or -1 for the last
+ */
+export const describeNthWeekday = (date: Date, week: number): string =>
+    `${week === -1 ? 'Last' : ordinal(week)} ${WEEKDAYS[date.getDay()]} of ${MONTHS[date.getMonth()]}`;
+
+/**
+ * How an event repeats, e.g. "Every Tuesday", "Monthly on the 15th", "Every 3 weeks"
+ */
+export const describeEventRecurrence = (event: ComingUpEvent): string => {
+    const start = parseEventDate(event.date);
+    switch (event.type) {
+        case 'one-time':
+            return 'One time';
+        case 'annual':
+            return 'Every year';
+        case 'monthly':
+            return `Monthly on the ${ordinal(start.getDate())}`;
+        case 'weekly':
+            return `Every ${WEEKDAYS[start.getDay()]}`;
+        case 'nth-weekday':
+            return `Every ${describeNthWeekday(start, event.weekOfMonth ?? getWeekOfMonth(start)).replace(/^Last/, 'last')}`;
+        case 'custom': {
+            const interval = Math.max(1, event.interval || 1);
+            const unit = event.intervalUnit || 'days';
+            return interval === 1 ? `Every ${unit.slice(0, -1)}` : `Every ${interval} ${unit}`;
+        }
+    }
+};
+
+/**
+ * Age or years-since label for birthdays and anniversaries, e.g. "Turns 40"
+ * or "10th anniversary". The event's date is taken as the original date.
+ * @param occurrence - The occurrence being shown
+ * @returns null for other events, or when the original year isn't in the past
+ */
+export const getYearsLabel = (event: ComingUpEvent, occurrence: Date): string | null => {
+    if (event.type !== 'annual') return null;
+
+    const years = occurrence.getFullYear() - parseEventDate(event.date).getFullYear();
+    if (years < 1) return null;
+
+    switch (event.category) {
+        case 'birthday': return `Turns ${years}`;
+        case 'anniversary': return `${ordinal(years)} anniversary`;
+        default: return null;
+    }
+};
@@ -51,3 +51,98 @@ export const formatDateRange = (startDate: string, endDate: string): string => {
 
     return `${startMonth} ${startDay} - ${endMonth} ${endDay}, ${year}`;
 };
+
+/**
+ * Format a date as a local YYYY-MM-DD string
+ * @param date - Date to format
+ * @returns Date string in YYYY-MM-DD format
+ */
+export const toLocalDateString = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const COUNT_WORDS: Record<string, number> = {
+    'a': 1, 'an': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5,
+    'six': 6, 'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10,
+};
+
+// No "sun" or "sat": as abbreviations they'd catch ordinary words
+const WEEKDAY = `(?:${WEEKDAY_NAMES.join('|')}|mon|tues?|wed|thur?s?|fri)`;
+const COUNT = `(?:\\d+|${Object.keys(COUNT_WORDS).join('|')})`;
+
+// Phrases parseNaturalDate understands, as one alternation
+const DATE_PHRASE = [
+    '\\d{4}-\\d{2}-\\d{2}',
+    'today',
+    'tonight',
+    '(?:the )?day after tomorrow',
+    'tomorrow',
+    `in ${COUNT} (?:days?|weeks?|months?)`,
+    'next (?:week|month)',
+    'end of (?:the )?(?:week|month|year)',
+    `(?:this |next )?${WEEKDAY}`,
+].join('|');
+
+/**
+ * Resolve a due date phrase such as "next friday", "in 3 days" or "end of month"
+ * @param phrase - The phrase, optionally starting with "by", "on", "for" or "due"
+ * @param now - Reference date (defaults to today)
+ * @returns Date in YYYY-MM-DD format, or null if the phrase isn't recognized
+ */
+export const parseNaturalDate = (phrase: string, now: Date = new Date()): string | null => {
+    const text = phrase.trim().toLowerCase().replace(/^(?:by|on|for|due|before)\s+/, '');
+    if (!new RegExp(`^(?:${DATE_PHRASE})$`).test(text)) return null;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+    const year = now.getFullYear();
+    const month = now.getMonth();
+    const day = now.getDate();
+    const weekday = now.getDay();
+    const inDays = (days: number) => toLocalDateString(new Date(year, month, day + days));
+
+    if (text === 'today' || text === 'tonight') return inDays(0);
+    if (text === 'tomorrow') return inDays(1);
+    if (text.endsWith('day after tomorrow')) return inDays(2);
+
+    const relative = text.match(/^in (\w+) (day|week|month)s?$/);
+    if (relative) {
+        const count = COUNT_WORDS[relative[1]] ?? parseInt(relative[1], 10);
+        if (relative[2] === 'day') return inDays(count);
+        if (relative[2] === 'week') return inDays(count * 7);
+        // Clamp to the end of shorter months, e.g. Jan 31 + 1 month = Feb 28
+        const lastDay = new Date(year, month + count + 1, 0).getDate();
+        return toLocalDateString(new Date(year, month + count, Math.min(day, lastDay)));
+    }
+
+    if (text === 'next week') return inDays((8 - weekday) % 7 || 7); // Next Monday
+    if (text === 'next month') return toLocalDateString(new Date(year, month + 1, 1));
+    if (/^end of (?:the )?week$/.test(text)) return inDays((5 - weekday + 7) % 7); // Friday
+    if (/^end of (?:the )?month$/.test(text)) return toLocalDateString(new Date(year, month + 1, 0));
+    if (/^end of (?:the )?year$/.test(text)) return toLocalDateString(new Date(year, 11, 31));
+
+    // "friday", "this friday" and "next friday" all mean the coming one
+    const name = text.replace(/^(?:this|next) /, '').slice(0, 3);
+    const target = WEEKDAY_NAMES.findIndex(weekdayName => weekdayName.startsWith(name));
+    return inDays((target - weekday + 7) % 7 || 7);
+};
+
+/**
+ * Pull a trailing due date phrase off some text, e.g. "Call mom next friday"
+ * @param text - Text that may end with a date phrase
+ * @param now - Reference date (defaults to today)
+ * @returns The text without the phrase, the phrase itself and its resolved date
+ */
+export const extractNaturalDate = (
+    text: string,
+    now: Date = new Date()
+): { text: string; phrase?: string; date?: string } => {
+    const match = text.match(new RegExp(`\\s+(?:(?:by|on|for|due|before)\\s+)?(${DATE_PHRASE})$`, 'i'));
+    if (!match) return { text };
+    const date = parseNaturalDate(match[1], now);
+    if (!date) return { text };
+    return { text: text.slice(0, match.index).trim(), phrase: match[1].toLowerCase(), date };
+};
@@ -0,0 +1,43 @@
+/**
+ * Utility functions for building and parsing links to sparks and their items
+ * e.g. sparks://spark/trip-story/trip/123
+ */
+import { SparkItemTarget } from '../types/spark';
+
+export const SPARK_LINK_SCHEME = 'sparks';
+export const SPARK_WEB_URL = 'https://sparks.febak.com';
+
+export interface SparkLink extends SparkItemTarget {
+  sparkId: string;
+}
+
+/**
+ * Build a link that opens a spark, optionally at a specific item
+ * @returns URL such as sparks://spark/recaipe/recipe/abc
+ */
+export const buildSparkLink = (sparkId: string, itemType?: string, itemId?: string): string => {
+  const segments = ['spark', sparkId];
+  if (itemType && itemId) {
+    segments.push(itemType, itemId);
+  }
+  return `${SPARK_LINK_SCHEME}://${segments.map(encodeURIComponent).join('/')}`;
+};
+
+/**
+ * Parse a spark link from the app scheme, the web site or a bare path
+ * @returns The spark and item it points at, or null if it isn't a spark link
+ */
+export const parseSparkLink = (url: string): SparkLink | null => {
+  const path = url
+    .replace(`${SPARK_LINK_SCHEME}://`, '')
+    .replace(/^https?:\/\/[^/]+/, '')
+    .split(/[?#]/)[0];
+
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  if (segments[0] !== 'spark' || !segments[1]) {
+    return null;
+  }
+
+  const [, sparkId, itemType, itemId] = segments;
+  return itemType && itemId ? { sparkId, itemType, itemId } : { sparkId };
+};
@@ -0,0 +1,518 @@
+/**
+ * Betting games for a golf round: skins with carry-overs and validation,
+ * Nassau with presses, wolf and best-ball. Holes are scored from winners
+ * entered by hand or from Golf Brain hole scores, and the winnings settle up
+ * into who owes whom.
+ */
+import { BetFormat, BetGame, BetHole, BetPlayer, BetSettings, Course, Round, SkinsData } from '../types/sparkData';
+import { getCourseHandicap, getStrokesReceived } from './handicap';
+import { OWNER_PLAYER_ID } from './golfLeaderboard';
+
+export const BET_FORMAT_NAMES: Record<BetFormat, string> = {
+    'skins': 'Skins',
+    'nassau': 'Nassau',
+    'wolf': 'Wolf',
+    'best-ball': 'Best Ball',
+};
+
+// What a player's points count in each format
+export const BET_POINT_NAMES: Record<BetFormat, string> = {
+    'skins': 'skins',
+    'nassau': 'bets',
+    'wolf': 'points',
+    'best-ball': 'holes',
+};
+
+// Lone wolves play for double
+const LONE_WOLF_MULTIPLIER = 2;
+
+export interface BetHoleResult {
+    holeNumber: number;
+    winnerIds: string[]; // The winning player or side; empty when halved
+    skins?: number; // Skins: size of the pot the hole was played for
+    carried?: boolean; // Skins: the pot moved on to the next hole
+    validated?: boolean; // Skins with validation: whether the winner held on to the skin
+    wolfId?: string;
+    loneWolf?: boolean;
+}
+
+export interface NassauMatch {
+    name: string; // 'Front', 'Back', 'Overall', or a press like 'Front press 1'
+    startHole: number;
+    endHole: number;
+    holesUp: number; // For the first side; negative when the second side leads
+    holesPlayed: number;
+    decided: boolean; // Every hole played, or closed out
+}
+
+export interface BetPayment {
+    fromId: string;
+    toId: string;
+    amount: number;
+}
+
+export interface BetResult {
+    holes: BetHoleResult[];
+    points: Record<string, number>; // Skins, Nassau bets, wolf points or holes won
+    winnings: Record<string, number>; // Money won, negative when owed; adds up to zero
+    carry: number; // Skins: skins riding on the next hole
+    pendingSkin?: { playerId: string; skins: number; holeNumber: number }; // Skins: won, waiting on validation
+    matches: NassauMatch[];
+}
+
+const roundToCent = (value: number): number => Math.round(value * 100) / 100;
+
+const sortHoles = (holes: BetHole[]): BetHole[] => [...holes].sort((a, b) => a.holeNumber - b.holeNumber);
+
+/**
+ * Why a format can't be played with this many players and holes, if it can't
+ */
+export const getBetFormatError = (format: BetFormat, playerCount: number, holeCount: number): string | undefined => {
+    if (playerCount < 2) return 'Add at least 2 players';
+    switch (format) {
+        case 'nassau':
+            if (holeCount !== 18) return 'Nassau is played over 18 holes';
+            return playerCount === 2 || playerCount === 4 ? undefined : 'Nassau needs 2 players or two teams of 2';
+        case 'best-ball':
+            return playerCount === 2 || playerCount === 4 ? undefined : 'Best ball needs 2 players or two teams of 2';
+        case 'wolf':
+            return playerCount === 3 || playerCount === 4 ? undefined : 'Wolf needs 3 or 4 players';
+        default:
+            return undefined;
+    }
+};
+
+/**
+ * The two sides of a Nassau or best-ball game: its teams, or the first half
+ * of the players against the second
+ */
+export const getBetSides = (game: BetGame): string[][] => {
+    if (game.teams?.length === 2) return game.teams;
+    const ids = game.players.map(p => p.id);
+    const half = Math.ceil(ids.length / 2);
+    return [ids.slice(0, half), ids.slice(half)];
+};
+
+/**
+ * The wolf on a hole: players take turns in the order they were added
+ */
+export const getWolfId = (game: BetGame, holeNumber: number): string | undefined =>
+    game.players[(holeNumber - 1) % game.players.length]?.id;
+
+const hasScores = (hole: BetHole, playerIds: string[]): hole is BetHole & { scores: Record<string, number> } =>
+    !!hole.scores && playerIds.every(id => typeof hole.scores?.[id] === 'number');
+
+/**
+ * Players with the best score on a hole, or everyone when it was halved by
+ * hand. Undefined until the hole has a winner entered or a score for every player.
+ */
+export const getHoleLeaders = (game: BetGame, hole?: BetHole): string[] | undefined => {
+    if (!hole) return undefined;
+    const ids = game.players.map(p => p.id);
+    if (hole.winnerIds) return hole.winnerIds.length > 0 ? hole.winnerIds : ids;
+    if (!hasScores(hole, ids)) return undefined;
+
+    const best = Math.min(...ids.map(id => hole.scores[id]));
+    return ids.filter(id => hole.scores[id] === best);
+};
+
+/**
+ * Index of the side that won a hole on best ball, -1 when halved, or
+ * undefined until it's played
+ */
+const getSideWinner = (sides: string[][], hole: BetHole): number | undefined => {
+    if (hole.winnerIds) {
+        return hole.winnerIds.length > 0 ? sides.findIndex(side => side.includes(hole.winnerIds![0])) : -1;
+    }
+    if (!hasScores(hole, sides.flat())) return undefined;
+
+    const [first, second] = sides.map(side => Math.min(...side.map(id => hole.scores[id])));
+    return first < second ? 0 : second < first ? 1 : -1;
+};
+
+const emptyResult = (game: BetGame): BetResult => ({
+    holes: [],
+    points: Object.fromEntries(game.players.map(p => [p.id, 0])),
+    winnings: Object.fromEntries(game.players.map(p => [p.id, 0])),
+    carry: 0,
+    matches: [],
+});
+
+// Every player on the losing side pays every player on the winning side
+const payBetween = (result: BetResult, winners: string[], losers: string[], amount: number): void => {
+    winners.forEach(id => { result.winnings[id] += amount * losers.length; });
+    losers.forEach(id => { result.winnings[id] -= amount * winners.length; });
+};
+
+const scoreSkins = (game: BetGame, result: BetResult): void => {
+    const ids = game.players.map(p => p.id);
+    let pot = 0;
+    let pending: (NonNullable<BetResult['pendingSkin']> & { hole: BetHoleResult }) | undefined;
+
+    const award = (playerId: string, skins: number) => {
+        result.points[playerId] += skins;
+        payBetween(result, [playerId], ids.filter(id => id !== playerId), game.stake * skins);
+    };
+
+    sortHoles(game.holes).forEach(hole => {
+        const leaders = getHoleLeaders(game, hole);
+        if (!leaders) return;
+
+        // The last skin won stands if its winner tied or won this hole
+        if (pending) {
+            pending.hole.validated = leaders.includes(pending.playerId);
+            if (pending.hole.validated) {
+                award(pending.playerId, pending.skins);
+            } else if (game.carryOvers) {
+                pot += pending.skins;
+            }
+            pending = undefined;
+        }
+
+        pot += 1;
+        const holeResult: BetHoleResult = { holeNumber: hole.holeNumber, winnerIds: [], skins: pot };
+        result.holes.push(holeResult);
+
+        if (leaders.length === 1) {
+            holeResult.winnerIds = leaders;
+            if (game.validation && hole.holeNumber < game.holeCount) {
+                pending = { playerId: leaders[0], skins: pot, holeNumber: hole.holeNumber, hole: holeResult };
+            } else {
+                award(leaders[0], pot);
+            }
+            pot = 0;
+        } else if (game.carryOvers) {
+            holeResult.carried = true;
+        } else {
+            pot = 0;
+        }
+    });
+
+    result.carry = pot;
+    if (pending) {
+        const { hole, ...pendingSkin } = pending;
+        result.pendingSkin = pendingSkin;
+    }
+};
+
+const scoreNassau = (game: BetGame, result: BetResult): void => {
+    const sides = getBetSides(game);
+    const half = Math.floor(game.holeCount / 2);
+    const matches: (NassauMatch & { base: string; pressed: boolean })[] = [
+        { base: 'Front', startHole: 1, endHole: half },
+        { base: 'Back', startHole: half + 1, endHole: game.holeCount },
+        { base: 'Overall', startHole: 1, endHole: game.holeCount },
+    ].map(m => ({ ...m, name: m.base, holesUp: 0, holesPlayed: 0, decided: false, pressed: false }));
+
+    sortHoles(game.holes).forEach(hole => {
+        const winner = getSideWinner(sides, hole);
+        if (winner === undefined) return;
+        result.holes.push({ holeNumber: hole.holeNumber, winnerIds: winner >= 0 ? sides[winner] : [] });
+
+        matches
+            .filter(m => !m.decided && hole.holeNumber >= m.startHole && hole.holeNumber <= m.endHole)
+            .forEach(match => {
+                match.holesUp += winner === 0 ? 1 : winner === 1 ? -1 : 0;
+                match.holesPlayed += 1;
+                const remaining = match.endHole - hole.holeNumber;
+                match.decided = remaining === 0 || Math.abs(match.holesUp) > remaining;
+
+                // A side that falls far enough behind presses: a new bet over the rest of the match
+                if (game.pressAt && !match.pressed && !match.decided && Math.abs(match.holesUp) >= game.pressAt) {
+                    match.pressed = true;
+                    const pressCount = matches.filter(m => m.base === match.base && m.name !== m.base).length;
+                    matches.push({
+                        base: match.base,
+                        name: `${match.base} press ${pressCount + 1}`,
+                        startHole: hole.holeNumber + 1,
+                        endHole: match.endHole,
+                        holesUp: 0,
+                        holesPlayed: 0,
+                        decided: false,
+                        pressed: false,
+                    });
+                }
+            });
+    });
+
+    matches.forEach(({ base, pressed, ...match }) => {
+        result.matches.push(match);
+        if (!match.decided || match.holesUp === 0) return;
+        const [winners, losers] = match.holesUp > 0 ? sides : [sides[1], sides[0]];
+        winners.forEach(id => { result.points[id] += 1; });
+        payBetween(result, winners, losers, game.stake / losers.length);
+    });
+};
+
+const scoreWolf = (game: BetGame, result: BetResult): void => {
+    const ids = game.players.map(p => p.id);
+
+    sortHoles(game.holes).forEach(hole => {
+        const wolfId = getWolfId(game, hole.holeNumber);
+        // The hole isn't played until the wolf has picked a partner or gone alone
+        if (!wolfId || hole.partnerId === undefined) return;
+
+        const wolfSide = hole.partnerId ? [wolfId, hole.partnerId] : [wolfId];
+        const sides = [wolfSide, ids.filter(id => !wolfSide.includes(id))];
+        const winner = getSideWinner(sides, hole);
+        if (winner === undefined) return;
+
+        result.holes.push({
+            holeNumber: hole.holeNumber,
+            winnerIds: winner >= 0 ? sides[winner] : [],
+            wolfId,
+            loneWolf: hole.partnerId === null,
+        });
+        if (winner < 0) return;
+
+        const unit = hole.partnerId === null ? LONE_WOLF_MULTIPLIER : 1;
+        const winners = sides[winner];
+        const losers = sides[1 - winner];
+        winners.forEach(id => { result.points[id] += unit * losers.length; });
+        losers.forEach(id => { result.points[id] -= unit * winners.length; });
+    });
+
+    ids.forEach(id => { result.winnings[id] = result.points[id] * game.stake; });
+};
+
+const scoreBestBall = (game: BetGame, result: BetResult): void => {
+    const sides = getBetSides(game);
+    const holesWon = [0, 0];
+
+    sortHoles(game.holes).forEach(hole => {
+        const winner = getSideWinner(sides, hole);
+        if (winner === undefined) return;
+        result.holes.push({ holeNumber: hole.holeNumber, winnerIds: winner >= 0 ? sides[winner] : [] });
+        if (winner < 0) return;
+        holesWon[winner] += 1;
+        sides[winner].forEach(id => { result.points[id] += 1; });
+    });
+
+    // Each player settles the difference in holes won with the other side
+    const difference = holesWon[0] - holesWon[1];
+    if (difference !== 0) {
+        const [winners, losers] = difference > 0 ? sides : [sides[1], sides[0]];
+        payBetween(result, winners, losers, Math.abs(difference) * game.stake / losers.length);
+    }
+};
+
+/**
+ * Score a game from its holes so far
+ */
+export const scoreBetGame = (game: BetGame): BetResult => {
+    const result = emptyResult(game);
+    switch (game.format) {
+        case 'skins':
+            scoreSkins(game, result);
+            break;
+        case 'nassau':
+            scoreNassau(game, result);
+            break;
+        case 'wolf':
+            scoreWolf(game, result);
+            break;
+        case 'best-ball':
+            scoreBestBall(game, result);
+            break;
+    }
+
+    Object.keys(result.winnings).forEach(id => {
+        // 0 rather than -0 for players who broke even
+        result.winnings[id] = roundToCent(result.winnings[id]) || 0;
+    });
+    return result;
+};
+
+/**
+ * The fewest payments that square everyone up: the biggest loser pays the
+ * biggest winner first
+ */
+export const settleUp = (winnings: Record<string, number>): BetPayment[] => {
+    const balances = Object.entries(winnings).map(([id, amount]) => ({ id, amount: roundToCent(amount) }));
+    const creditors = balances.filter(b => b.amount > 0).sort((a, b) => b.amount - a.amount);
+    const debtors = balances
+        .filter(b => b.amount < 0)
+        .map(b => ({ id: b.id, amount: -b.amount }))
+        .sort((a, b) => b.amount - a.amount);
+
+    const payments: BetPayment[] = [];
+    let c = 0;
+    let d = 0;
+    while (c < creditors.length && d < debtors.length) {
+        const amount = roundToCent(Math.min(creditors[c].amount, debtors[d].amount));
+        if (amount > 0) payments.push({ fromId: debtors[d].id, toId: creditors[c].id, amount });
+        creditors[c].amount = roundToCent(creditors[c].amount - amount);
+        debtors[d].amount = roundToCent(debtors[d].amount - amount);
+        if (creditors[c].amount <= 0) c += 1;
+        if (debtors[d].amount <= 0) d += 1;
+    }
+    return payments;
+};
+
+/**
+ * "All square", "2 up", "wins 3&2" from the first side's point of view,
+ * with the leading side's name
+ */
+export const describeNassauMatch = (match: NassauMatch, sideNames: string[]): string => {
+    if (match.holesUp === 0) {
+        if (match.holesPlayed === 0) return 'Not started';
+        return match.decided ? 'Halved' : 'All square';
+    }
+    const leader = sideNames[match.holesUp > 0 ? 0 : 1];
+    const up = Math.abs(match.holesUp);
+    const remaining = match.endHole - match.startHole + 1 - match.holesPlayed;
+    if (!match.decided) return `${leader} ${up} up`;
+    return remaining > 0 ? `${leader} wins ${up}&${remaining}` : `${leader} wins ${up} up`;
+};
+
+/**
+ * "$5" or "$2.50"
+ */
+export const formatStake = (amount: number): string => {
+    const value = Math.abs(amount);
+    return `${amount < 0 ? '-' : ''}$${Number.isInteger(value) ? value : value.toFixed(2)}`;
+};
+
+/**
+ * The first hole without a result, or one past the last hole when the game is over
+ */
+export const getCurrentBetHole = (game: BetGame, result: BetResult = scoreBetGame(game)): number => {
+    const played = new Set(result.holes.map(h => h.holeNumber));
+    for (let holeNumber = 1; holeNumber <= game.holeCount; holeNumber++) {
+        if (!played.has(holeNumber)) return holeNumber;
+    }
+    return game.holeCount + 1;
+};
+
+const updateHole = (game: BetGame, holeNumber: number, update: Partial<BetHole>): BetGame => {
+    const existing = game.holes.find(h => h.holeNumber === holeNumber);
+    return {
+        ...game,
+        holes: sortHoles([
+            ...game.holes.filter(h => h.holeNumber !== holeNumber),
+            { ...existing, ...update, holeNumber },
+        ]),
+    };
+};
+
+/**
+ * Enter who won a hole by hand: a player, or any player on the winning side.
+ * An empty list halves the hole.
+ */
+export const setHoleWinners = (game: BetGame, holeNumber: number, winnerIds: string[]): BetGame =>
+    updateHole(game, holeNumber, { winnerIds });
+
+/**
+ * The wolf's pick for a hole, or null to play it alone
+ */
+export const setWolfPartner = (game: BetGame, holeNumber: number, partnerId: string | null): BetGame =>
+    updateHole(game, holeNumber, { partnerId });
+
+/**
+ * Take back the last hole result entered by hand
+ */
+export const undoLastHole = (game: BetGame): BetGame => {
+    const last = sortHoles(game.holes).filter(h => h.winnerIds).pop();
+    return last ? { ...game, holes: game.holes.filter(h => h !== last) } : game;
+};
+
+/**
+ * Everyone in a Golf Brain round as betting players, the device owner first
+ */
+export const getRoundBetPlayers = (round: Round, ownerName: string): BetPlayer[] => [
+    { id: OWNER_PLAYER_ID, name: ownerName },
+    ...(round.players || []).map(player => ({ id: player.id, name: player.name })),
+];
+
+/**
+ * Net hole scores from a Golf Brain round, keyed by leaderboard player id.
+ * Players without a handicap index play off scratch.
+ */
+export const getRoundBetHoles = (round: Round, course: Course, ownerHandicapIndex?: number): BetHole[] => {
+    const players = [
+        {
+            id: OWNER_PLAYER_ID,
+            handicapIndex: ownerHandicapIndex,
+            scores: (round.holeScores || []).map(hs => ({ holeNumber: hs.holeNumber, strokes: hs.totalScore })),
+        },
+        ...(round.players || []),
+    ].map(player => ({
+        ...player,
+        courseHandicap: player.handicapIndex === undefined ? 0 : getCourseHandicap(player.handicapIndex, course),
+    }));
+
+    return course.holes
+        .map(hole => {
+            const scores: Record<string, number> = {};
+            players.forEach(player => {
+                const strokes = player.scores.find(score => score.holeNumber === hole.number)?.strokes;
+                if (!strokes || strokes <= 0) return;
+                scores[player.id] = strokes - getStrokesReceived(hole, course, player.courseHandicap);
+            });
+            return { holeNumber: hole.number, scores };
+        })
+        .filter(hole => Object.keys(hole.scores).length > 0);
+};
+
+/**
+ * Replace a game's hole scores with a Golf Brain round's, keeping anything
+ * entered by hand such as wolf picks
+ */
+export const applyRoundScores = (game: BetGame, roundHoles: BetHole[]): BetGame => {
+    const holes = new Map(game.holes.map(hole => [hole.holeNumber, { ...hole, scores: undefined } as BetHole]));
+    roundHoles.forEach(hole => holes.set(hole.holeNumber, { ...holes.get(hole.holeNumber), ...hole }));
+    return { ...game, holes: sortHoles(Array.from(holes.values())) };
+};
+
+/**
+ * The side game on a Golf Brain round, scored from everyone's net scores
+ */
+export const getRoundBetGame = (round: Round, course: Course, ownerName: string, ownerHandicapIndex?: number): BetGame | undefined => {
+    if (!round.bet) return undefined;
+    return {
+        ...round.bet,
+        players: getRoundBetPlayers(round, ownerName),
+        holes: getRoundBetHoles(round, course, ownerHandicapIndex),
+        holeCount: course.holes.length,
+        roundId: round.id,
+    };
+};
+
+/**
+ * Default settings for a new game of the given format
+ */
+export const getDefaultBetSettings = (format: BetFormat, stake = 1): BetSettings => ({
+    format,
+    stake,
+    ...(format === 'skins' ? { carryOvers: true } : {}),
+    ...(format === 'nassau' ? { pressAt: 2 } : {}),
+});
+
+/**
+ * Skins games saved before the betting engine kept player names, win counts
+ * and each hole's winner as a player index (-1 for a halve), with no
+ * carry-overs or stakes
+ */
+export const migrateLegacySkinsData = (data: Record<string, any>): Partial<SkinsData> => {
+    if (!data.gameState) return data;
+    const { gameState, ...rest } = data;
+    const names: string[] = Array.isArray(gameState.players) ? gameState.players : [];
+    const history: number[] = Array.isArray(gameState.history) ? gameState.history : [];
+    if (names.length === 0) return { ...rest, mode: 'setup' };
+
+    const players = names.map((name, index) => ({ id: `p${index + 1}`, name }));
+    return {
+        ...rest,
+        mode: data.mode === 'finished' ? 'finished' : 'playing',
+        game: {
+            format: 'skins',
+            stake: 0,
+            players,
+            holeCount: Math.max(18, history.length),
+            holes: history.map((winner, index) => ({
+                holeNumber: index + 1,
+                winnerIds: players[winner] ? [players[winner].id] : [],
+            })),
+        },
+    };
+};
@@ -0,0 +1,355 @@
+/**
+ * Golf Brain course library: tee sets, and scorecards with par, stroke index
+ * and yardage for each tee set, in JSON or CSV for import, export and sharing
+ * a course with friends
+ */
+import { Course, Hole, Round, TeeSet } from '../types/sparkData';
+import { parseCsvRows } from './csv';
+import { generateId } from './idUtils';
+
+export const COURSE_SCORECARD_FORMAT = 'golf-brain-course';
+
+// A course as it's exported to a file and shared with friends
+export interface CourseScorecard {
+    format: typeof COURSE_SCORECARD_FORMAT;
+    version: 1;
+    name: string;
+    holes: { number: number; par: number; strokeIndex: number }[];
+    tees: {
+        name: string;
+        courseRating?: number;
+        slopeRating?: number;
+        yardages: (number | null)[]; // In the same order as holes
+    }[];
+}
+
+export interface CourseScorecardParseResult {
+    course?: Omit<Course, 'id' | 'createdAt'>; // Unset when anything couldn't be read
+    errors: string[];
+}
+
+export interface CourseImportResult {
+    courses: Course[];
+    course: Course;
+    added: boolean; // False when tees were added to a course already in the library
+    newTees: number;
+}
+
+// Values accepted on import
+const PAR_RANGE = { min: 3, max: 5 };
+const STROKE_INDEX_RANGE = { min: 1, max: 18 };
+const YARDAGE_RANGE = { min: 50, max: 800 };
+const COURSE_RATING_RANGE = { min: 25, max: 90 };
+const SLOPE_RATING_RANGE = { min: 55, max: 155 };
+const MAX_HOLES = 18;
+
+// Tee set name for yardages and ratings entered without one
+const DEFAULT_TEE_NAME = 'Default';
+
+const isSameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Play a course from one of its tee sets: its yardages become the holes'
+ * distances and its ratings the course's
+ */
+export const applyTeeSet = (course: Course, teeSetId: string): Course => {
+    const teeSet = course.teeSets?.find(t => t.id === teeSetId);
+    if (!teeSet) return course;
+    return {
+        ...course,
+        teeSetId,
+        courseRating: teeSet.courseRating,
+        slopeRating: teeSet.slopeRating,
+        holes: course.holes.map(hole => ({ ...hole, distanceYards: teeSet.yardages[hole.number] })),
+    };
+};
+
+/**
+ * A course as it was set up for a round played from other tees than it's on now
+ */
+export const getCourseForRound = (course: Course, round: Round): Course =>
+    round.teeSetId && round.teeSetId !== course.teeSetId ? applyTeeSet(course, round.teeSetId) : course;
+
+/**
+ * Save a course's current yardages and ratings into a tee set and play from
+ * it: the one with this name, a new one, or without a name the one in use.
+ * Courses without tee sets are left alone until a name is given.
+ */
+export const saveTeeSet = (course: Course, name?: string): Course => {
+    const trimmed = name?.trim();
+    const existing = trimmed
+        ? course.teeSets?.find(t => isSameName(t.name, trimmed))
+        : course.teeSets?.find(t => t.id === course.teeSetId);
+    if (!trimmed && !existing) return course;
+
+    const yardages: Record<number, number> = {};
+    course.holes.forEach(hole => {
+        if (hole.distanceYards) yardages[hole.number] = hole.distanceYards;
+    });
+    const teeSet: TeeSet = {
+        id: existing?.id ?? generateId(),
+        name: trimmed || existing!.name,
+        yardages,
+        ...(course.courseRating !== undefined ? { courseRating: course.courseRating } : {}),
+        ...(course.slopeRating !== undefined ? { slopeRating: course.slopeRating } : {}),
+    };
+
+    const teeSets = course.teeSets || [];
+    return {
+        ...course,
+        teeSetId: teeSet.id,
+        teeSets: existing ? teeSets.map(t => (t.id === teeSet.id ? teeSet : t)) : [...teeSets, teeSet],
+    };
+};
+
+/**
+ * A course's scorecard. Without tee sets, any yardages and ratings go out as
+ * one "Default" set.
+ */
+export const toCourseScorecard = (course: Course): CourseScorecard => {
+    const holes = [...course.holes].sort((a, b) => a.number - b.number);
+    const hasTeeData = course.courseRating !== undefined || course.slopeRating !== undefined || holes.some(h => h.distanceYards);
+    const teeSets = course.teeSets?.length ? course.teeSets : hasTeeData ? saveTeeSet(course, DEFAULT_TEE_NAME).teeSets! : [];
+
+    return {
+        format: COURSE_SCORECARD_FORMAT,
+        version: 1,
+        name: course.name,
+        holes: holes.map(({ number, par, strokeIndex }) => ({ number, par, strokeIndex })),
+        tees: teeSets.map(teeSet => ({
+            name: teeSet.name,
+            ...(teeSet.courseRating !== undefined ? { courseRating: teeSet.courseRating } : {}),
+            ...(teeSet.slopeRating !== undefined ? { slopeRating: teeSet.slopeRating } : {}),
+            yardages: holes.map(hole => teeSet.yardages[hole.number] ?? null),
+        })),
+    };
+};
+
+export const exportCourseJson = (course: Course): string => JSON.stringify(toCourseScorecard(course), null, 2) + '\n';
+
+const toCsvCell = (value: string | number | null | undefined): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Export as a scorecard CSV: a "Course" row, then a row per hole with a
+ * yardage column per tee set, then the tee sets' ratings and slopes
+ */
+export const exportCourseCsv = (course: Course): string => {
+    const scorecard = toCourseScorecard(course);
+    const rows: (string | number | null | undefined)[][] = [
+        ['Course', scorecard.name],
+        ['Hole', 'Par', 'Stroke Index', ...scorecard.tees.map(tee => tee.name)],
+        ...scorecard.holes.map((hole, i) => [hole.number, hole.par, hole.strokeIndex, ...scorecard.tees.map(tee => tee.yardages[i])]),
+    ];
+    if (scorecard.tees.some(tee => tee.courseRating !== undefined)) {
+        rows.push(['Rating', '', '', ...scorecard.tees.map(tee => tee.courseRating)]);
+    }
+    if (scorecard.tees.some(tee => tee.slopeRating !== undefined)) {
+        rows.push(['Slope', '', '', ...scorecard.tees.map(tee => tee.slopeRating)]);
+    }
+    return rows.map(row => row.map(toCsvCell).join(',')).join('\n') + '\n';
+};
+
+/**
+ * Undefined for an empty value, NaN for one that isn't a number
+ */
+const toNumber = (value: unknown): number | undefined => {
+    if (typeof value === 'number') return value;
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    return Number(value.trim().replace(/,/g, ''));
+};
+
+const isInRange = (value: number, range: { min: number; max: number }): boolean =>
+    !isNaN(value) && value >= range.min && value <= range.max;
+
+/**
+ * Read a scorecard, as exported or as shared by a friend, into a course.
+ * Numbers may be strings, as read from a CSV.
+ * @param fallbackName - Course name when the scorecard has none, e.g. the file name
+ */
+export const fromCourseScorecard = (data: unknown, fallbackName?: string): CourseScorecardParseResult => {
+    const scorecard = data as Record<string, any> | null;
+    if (!scorecard || typeof scorecard !== 'object' || !Array.isArray(scorecard.holes) || scorecard.holes.length === 0) {
+        return { errors: ['No holes found'] };
+    }
+
+    const errors: string[] = [];
+    const name = (typeof scorecard.name === 'string' && scorecard.name.trim()) || fallbackName?.trim();
+    if (!name) errors.push('Missing course name');
+    if (scorecard.holes.length > MAX_HOLES) errors.push(`A course can have at most ${MAX_HOLES} holes`);
+
+    const holes: Hole[] = [];
+    const holeNumbers = new Set<number>();
+    scorecard.holes.forEach((raw: Record<string, unknown>, index: number) => {
+        const number = toNumber(raw?.number) ?? index + 1;
+        const par = toNumber(raw?.par);
+        const strokeIndex = toNumber(raw?.strokeIndex) ?? number;
+
+        if (!Number.isInteger(number) || number < 1 || number > MAX_HOLES) {
+            errors.push(`Row ${index + 1}: hole number should be 1 to ${MAX_HOLES}`);
+            return;
+        }
+        if (holeNumbers.has(number)) {
+            errors.push(`Hole ${number} is listed twice`);
+            return;
+        }
+        holeNumbers.add(number);
+        if (par === undefined || !isInRange(par, PAR_RANGE)) {
+            errors.push(`Hole ${number}: par should be ${PAR_RANGE.min} to ${PAR_RANGE.max}`);
+            return;
+        }
+        if (!isInRange(strokeIndex, STROKE_INDEX_RANGE)) {
+            errors.push(`Hole ${number}: stroke index should be ${STROKE_INDEX_RANGE.min} to ${STROKE_INDEX_RANGE.max}`);
+            return;
+        }
+        holes.push({ number, par, strokeIndex });
+    });
+
+    const teeSets: TeeSet[] = (Array.isArray(scorecard.tees) ? scorecard.tees : []).map((tee: Record<string, any>, t: number) => {
+        const teeName = (typeof tee?.name === 'string' && tee.name.trim()) || `Tees ${t + 1}`;
+        const courseRating = toNumber(tee?.courseRating);
+        const slopeRating = toNumber(tee?.slopeRating);
+        const yardages: Record<number, number> = {};
+
+        (Array.isArray(tee?.yardages) ? tee.yardages : []).forEach((value: unknown, index: number) => {
+            const yards = toNumber(value);
+            const holeNumber = toNumber(scorecard.holes[index]?.number) ?? index + 1;
+            if (yards === undefined) return;
+            if (!isInRange(yards, YARDAGE_RANGE)) {
+                errors.push(`${teeName}, hole ${holeNumber}: yardage should be ${YARDAGE_RANGE.min} to ${YARDAGE_RANGE.max}`);
+                return;
+            }
+            yardages[holeNumber] = Math.round(yards);
+        });
+
+        if (courseRating !== undefined && !isInRange(courseRating, COURSE_RATING_RANGE)) {
+            errors.push(`${teeName}: course rating should be between ${COURSE_RATING_RANGE.min} and ${COURSE_RATING_RANGE.max}`);
+        }
+        if (slopeRating !== undefined && !isInRange(slopeRating, SLOPE_RATING_RANGE)) {
+            errors.push(`${teeName}: slope rating should be between ${SLOPE_RATING_RANGE.min} and ${SLOPE_RATING_RANGE.max}`);
+        }
+
+        return {
+            id: generateId(),
+            name: teeName,
+            yardages,
+            ...(courseRating !== undefined ? { courseRating } : {}),
+            ...(slopeRating !== undefined ? { slopeRating: Math.round(slopeRating) } : {}),
+        };
+    });
+
+    if (errors.length > 0 || !name) return { errors };
+
+    const course: Course = {
+        id: '',
+        createdAt: 0,
+        name,
+        holes: holes.sort((a, b) => a.number - b.number),
+        ...(teeSets.length > 0 ? { teeSets } : {}),
+    };
+    const { id, createdAt, ...imported } = teeSets.length > 0 ? applyTeeSet(course, teeSets[0].id) : course;
+    return { course: imported, errors: [] };
+};
+
+/**
+ * Read a scorecard CSV: a header row with "Hole" and "Par" columns, a stroke
+ * index column ("Stroke Index", "SI", "HCP" or "Handicap") and any other
+ * columns as tee sets' yardages. Rows starting "Rating" and "Slope" give the
+ * tee sets' ratings, and a "Course" row before the header the course name.
+ */
+const parseCourseCsv = (text: string, fallbackName?: string): CourseScorecardParseResult => {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+    const rows = parseCsvRows(text, delimiter);
+
+    const headerIndex = rows.findIndex(row =>
+        row.some(cell => /^hole/i.test(cell)) && row.some(cell => /^par$/i.test(cell)));
+    if (headerIndex === -1) return { errors: ['Could not find hole and par columns'] };
+
+    const header = rows[headerIndex];
+    const names = header.map(cell => cell.toLowerCase());
+    const holeColumn = names.findIndex(name => /^hole/.test(name));
+    const parColumn = names.findIndex(name => name === 'par');
+    const indexColumn = names.findIndex(name => /index|^si$|^hcp|handicap/.test(name));
+    const teeColumns = names
+        .map((name, i) => i)
+        .filter(i => ![holeColumn, parColumn, indexColumn].includes(i) && header[i]);
+
+    const nameRow = rows.slice(0, headerIndex).find(row => /^(course|name)/i.test(row[0]) && row[1]);
+    const scorecard = {
+        name: nameRow?.[1],
+        holes: [] as Record<string, string | undefined>[],
+        tees: teeColumns.map(i => ({ name: header[i], yardages: [] as string[], courseRating: '', slopeRating: '' })),
+    };
+
+    rows.slice(headerIndex + 1).forEach(row => {
+        const label = (row[holeColumn] || '').toLowerCase();
+        if (/^\d+$/.test(label)) {
+            scorecard.holes.push({
+                number: label,
+                par: row[parColumn],
+                strokeIndex: indexColumn === -1 ? undefined : row[indexColumn],
+            });
+            teeColumns.forEach((column, t) => scorecard.tees[t].yardages.push(row[column] || ''));
+        } else if (/rating/.test(label)) {
+            teeColumns.forEach((column, t) => { scorecard.tees[t].courseRating = row[column] || ''; });
+        } else if (/slope/.test(label)) {
+            teeColumns.forEach((column, t) => { scorecard.tees[t].slopeRating = row[column] || ''; });
+        }
+        // Out, In and Total rows are ignored
+    });
+
+    return fromCourseScorecard(scorecard, fallbackName);
+};
+
+/**
+ * Read an exported JSON scorecard or a scorecard CSV
+ * @param fallbackName - Course name when the file has none, e.g. the file name
+ */
+export const parseCourseScorecard = (text: string, fallbackName?: string): CourseScorecardParseResult => {
+    const contents = text.replace(/^\uFEFF/, '').trim();
+    if (!contents) return { errors: ['File is empty'] };
+
+    if (contents.startsWith('{')) {
+        try {
+            return fromCourseScorecard(JSON.parse(contents), fallbackName);
+        } catch {
+            return { errors: ['Could not read the JSON scorecard'] };
+        }
+    }
+    return parseCourseCsv(contents, fallbackName);
+};
+
+/**
+ * Add an imported or shared course to the library. A course already there
+ * with the same name and number of holes keeps its holes, so rounds on it
+ * stay as played, and gains any tee sets it didn't have.
+ */
+export const addImportedCourse = (
+    courses: Course[],
+    imported: Omit<Course, 'id' | 'createdAt'>,
+    sharedBy?: string
+): CourseImportResult => {
+    const existing = courses.find(c => isSameName(c.name, imported.name) && c.holes.length === imported.holes.length);
+
+    if (existing) {
+        const newTeeSets = (imported.teeSets || []).filter(tee => !(existing.teeSets || []).some(t => isSameName(t.name, tee.name)));
+        const course = newTeeSets.length > 0 ? { ...existing, teeSets: [...(existing.teeSets || []), ...newTeeSets] } : existing;
+        return {
+            courses: courses.map(c => (c.id === existing.id ? course : c)),
+            course,
+            added: false,
+            newTees: newTeeSets.length,
+        };
+    }
+
+    const course: Course = {
+        ...imported,
+        id: generateId(),
+        createdAt: Date.now(),
+        ...(sharedBy ? { sharedBy } : {}),
+    };
+    return { courses: [...courses, course], course, added: true, newTees: course.teeSets?.length || 0 };
+};
@@ -0,0 +1,109 @@
+/**
+ * Playing partners and the gross/net leaderboard for a Golf Brain round
+ */
+import { Course, GolfPartner, Round, RoundPlayer } from '../types/sparkData';
+import { getCourseHandicap, getStrokesReceived } from './handicap';
+
+// Leaderboard id for the device owner, whose scores are the round's holeScores
+export const OWNER_PLAYER_ID = 'owner';
+
+export interface LeaderboardEntry {
+    playerId: string;
+    name: string;
+    position: number; // Net position; tied players share it
+    tied: boolean;
+    thru: number; // Holes with a score
+    gross: number;
+    grossToPar: number;
+    net: number; // Unset handicaps play off scratch
+    netToPar: number;
+    courseHandicap?: number;
+}
+
+/**
+ * A partner's score on one hole; undefined strokes clears it
+ */
+export const setPlayerScore = (player: RoundPlayer, holeNumber: number, strokes?: number): RoundPlayer => ({
+    ...player,
+    scores: [
+        ...player.scores.filter(score => score.holeNumber !== holeNumber),
+        ...(strokes !== undefined && strokes > 0 ? [{ holeNumber, strokes }] : []),
+    ].sort((a, b) => a.holeNumber - b.holeNumber),
+});
+
+export const getPlayerScore = (player: RoundPlayer, holeNumber: number): number | undefined =>
+    player.scores.find(score => score.holeNumber === holeNumber)?.strokes;
+
+/**
+ * Remember a partner for later rounds, matching by name so retyping a name
+ * updates their handicap instead of adding them twice. Most recent first.
+ */
+export const rememberPartner = (partners: GolfPartner[], partner: GolfPartner): GolfPartner[] => [
+    partner,
+    ...partners.filter(p => p.id !== partner.id && p.name.toLowerCase() !== partner.name.toLowerCase()),
+];
+
+const getEntry = (
+    playerId: string,
+    name: string,
+    scores: { holeNumber: number; strokes: number }[],
+    course: Course,
+    handicapIndex?: number,
+): Omit<LeaderboardEntry, 'position' | 'tied'> => {
+    const courseHandicap = handicapIndex === undefined ? undefined : getCourseHandicap(handicapIndex, course);
+    let gross = 0;
+    let par = 0;
+    let strokesReceived = 0;
+    let thru = 0;
+
+    scores.forEach(({ holeNumber, strokes }) => {
+        const hole = course.holes.find(h => h.number === holeNumber);
+        if (!hole || strokes <= 0) return;
+        thru += 1;
+        gross += strokes;
+        par += hole.par;
+        if (courseHandicap !== undefined) strokesReceived += getStrokesReceived(hole, course, courseHandicap);
+    });
+
+    return {
+        playerId,
+        name,
+        thru,
+        gross,
+        grossToPar: gross - par,
+        net: gross - strokesReceived,
+        netToPar: gross - strokesReceived - par,
+        courseHandicap,
+    };
+};
+
+/**
+ * Everyone in the round, best net score against par first. Comparing to the
+ * par of holes played keeps players who are through different holes fair.
+ */
+export const getLeaderboard = (round: Round, course: Course, ownerName: string, ownerHandicapIndex?: number): LeaderboardEntry[] => {
+    const entries = [
+        getEntry(
+            OWNER_PLAYER_ID,
+            ownerName,
+            (round.holeScores || []).map(hs => ({ holeNumber: hs.holeNumber, strokes: hs.totalScore })),
+            course,
+            ownerHandicapIndex,
+        ),
+        ...(round.players || []).map(player => getEntry(player.id, player.name, player.scores, course, player.handicapIndex)),
+    ].sort((a, b) => a.netToPar - b.netToPar || a.grossToPar - b.grossToPar || a.name.localeCompare(b.name));
+
+    return entries.map(entry => {
+        const sameNet = entries.filter(e => e.netToPar === entry.netToPar);
+        return {
+            ...entry,
+            position: entries.findIndex(e => e.netToPar === entry.netToPar) + 1,
+            tied: sameNet.length > 1,
+        };
+    });
+};
+
+/**
+ * "+3", "-2" or "E"
+ */
+export const formatToPar = (toPar: number): string => (toPar > 0 ? `+${toPar}` : toPar === 0 ? 'E' : `${toPar}`);
@@ -0,0 +1,308 @@
+/**
+ * Cross-round analytics for Golf Brain: per-club miss tendencies, fairways,
+ * greens in regulation, up-and-downs, three-putts and a simplified
+ * strokes gained by category
+ */
+import { Course, Hole, HoleScore, Round, Shot } from '../types/sparkData';
+
+export type StrokesGainedCategory = 'tee' | 'approach' | 'shortGame' | 'putting';
+
+export type StrokesGained = Record<StrokesGainedCategory, number>;
+
+export interface ClubTendency {
+    club: string;
+    shots: number;
+    good: number; // 'good' and 'fire'
+    left: number; // Combined misses like 'left and short' count toward both sides
+    right: number;
+    short: number;
+    long: number;
+    penalties: number; // Ended out of bounds or in the water
+    tendency?: 'left' | 'right' | 'short' | 'long'; // Most common miss, unless tied
+}
+
+export interface GolfStats {
+    holes: number; // Holes with shots recorded
+    fairwaysHit: number;
+    fairwayChances: number; // Par 4 and 5 tee shots
+    greensInRegulation: number;
+    girChances: number;
+    upAndDowns: number; // Missed the green in regulation, then holed out with one more swing and at most one putt
+    upAndDownChances: number;
+    threePutts: number;
+    puttingHoles: number; // Holes with at least one putt
+    putts: number;
+    strokesGained: StrokesGained;
+}
+
+export interface RoundStats extends GolfStats {
+    roundId: string;
+    courseName: string;
+    playedAt: number;
+}
+
+type Lie = NonNullable<Shot['lie']>;
+
+// Expected strokes to hole out for a scratch golfer. Without shot distances,
+// how far the ball is from the green is read from how many regulation shots
+// are left: 'long' still needs two or more to reach the green, 'approach' one,
+// and 'shortGame' should already have been on it.
+const TEE_BASELINE: Record<number, number> = { 3: 3.0, 4: 3.95, 5: 4.7 };
+const POSITION_BASELINE: Record<'long' | 'approach' | 'shortGame', Record<'fairway' | 'rough' | 'sand', number>> = {
+    long: { fairway: 3.65, rough: 3.9, sand: 4.1 },
+    approach: { fairway: 2.95, rough: 3.2, sand: 3.4 },
+    shortGame: { fairway: 2.45, rough: 2.6, sand: 2.5 },
+};
+const PUTT_BASELINE: Record<NonNullable<Shot['puttDistance']>, number> = {
+    '<4ft': 1.05,
+    '5-10ft': 1.45,
+    '10+ft': 1.9,
+};
+const UNKNOWN_PUTT_BASELINE = 1.8;
+
+const MISSES = ['left', 'right', 'short', 'long'] as const;
+
+const roundToHundredth = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyStrokesGained = (): StrokesGained => ({ tee: 0, approach: 0, shortGame: 0, putting: 0 });
+
+const emptyStats = (): GolfStats => ({
+    holes: 0,
+    fairwaysHit: 0,
+    fairwayChances: 0,
+    greensInRegulation: 0,
+    girChances: 0,
+    upAndDowns: 0,
+    upAndDownChances: 0,
+    threePutts: 0,
+    puttingHoles: 0,
+    putts: 0,
+    strokesGained: emptyStrokesGained(),
+});
+
+const isPenalty = (shot: Shot): boolean => shot.direction === 'penalty';
+
+/**
+ * Full swings on a hole, each with the penalty strokes recorded after it
+ */
+const getSwings = (holeScore: HoleScore): { shot: Shot; penalties: number }[] => {
+    const swings: { shot: Shot; penalties: number }[] = [];
+    (holeScore.shots || [])
+        .filter(shot => shot.type === 'shot')
+        .forEach(shot => {
+            if (isPenalty(shot)) {
+                if (swings.length > 0) swings[swings.length - 1].penalties += 1;
+            } else {
+                swings.push({ shot, penalties: 0 });
+            }
+        });
+    return swings;
+};
+
+const getPutts = (holeScore: HoleScore): Shot[] => (holeScore.shots || []).filter(shot => shot.type === 'putt');
+
+/**
+ * Whether a hole that missed the green in regulation was finished within two
+ * strokes of the first swing after the green was missed, e.g. chip and putt
+ * but not chip, chip and putt
+ */
+const isUpAndDown = (swings: { shot: Shot; penalties: number }[], puttCount: number, par: number): boolean => {
+    let strokes = 0;
+    for (let i = 0; i < swings.length; i++) {
+        strokes += 1;
+        if (strokes > par - 2) {
+            const remainingSwings = swings.length - 1 - i;
+            return remainingSwings === 0 && swings[i].penalties === 0 && puttCount <= 1;
+        }
+        strokes += swings[i].penalties;
+    }
+    return false;
+};
+
+const getPosition = (lie: Lie | undefined): 'fairway' | 'rough' | 'sand' =>
+    lie === 'rough' || lie === 'sand' ? lie : lie === 'water' ? 'rough' : 'fairway';
+
+/**
+ * Simplified strokes gained on one hole against a scratch baseline. The
+ * categories add up to the baseline from the tee minus the score.
+ */
+export const getHoleStrokesGained = (holeScore: HoleScore, par: number): StrokesGained => {
+    const gained = emptyStrokesGained();
+    const swings = getSwings(holeScore);
+    const putts = getPutts(holeScore);
+    const regulation = par - 2; // Swings to reach the green
+
+    const firstPutt = putts[0];
+    const puttBaseline = !firstPutt ? 0 : firstPutt.puttDistance ? PUTT_BASELINE[firstPutt.puttDistance] : UNKNOWN_PUTT_BASELINE;
+
+    let expected = TEE_BASELINE[par] ?? par;
+    let advanced = 0; // Swings that moved the ball; out of bounds is replayed from the same spot
+
+    swings.forEach(({ shot, penalties }, index) => {
+        const stage = advanced === 0 ? 'tee' : regulation - advanced >= 2 ? 'long' : regulation - advanced === 1 ? 'approach' : 'shortGame';
+        const category: StrokesGainedCategory =
+            stage === 'tee' ? (par === 3 ? 'approach' : 'tee') : stage === 'shortGame' ? 'shortGame' : 'approach';
+
+        const isLast = index === swings.length - 1;
+        let next: number;
+        if (shot.lie === 'ob') {
+            next = expected;
+        } else if (isLast) {
+            // The last swing either found the green or went in
+            next = puttBaseline;
+            advanced += 1;
+        } else {
+            advanced += 1;
+            const remaining = regulation - advanced;
+            const nextStage = remaining >= 2 ? 'long' : remaining === 1 ? 'approach' : 'shortGame';
+            next = POSITION_BASELINE[nextStage][getPosition(shot.lie)];
+        }
+
+        gained[category] += expected - next - 1 - penalties;
+        expected = next;
+    });
+
+    gained.putting = putts.length > 0 ? puttBaseline - putts.length : 0;
+
+    return {
+        tee: roundToHundredth(gained.tee),
+        approach: roundToHundredth(gained.approach),
+        shortGame: roundToHundredth(gained.shortGame),
+        putting: roundToHundredth(gained.putting),
+    };
+};
+
+const addHoleStats = (stats: GolfStats, holeScore: HoleScore, hole: Hole | undefined): void => {
+    if (!holeScore.shots || holeScore.shots.length === 0) return;
+    const par = hole?.par ?? holeScore.par;
+    const swings = getSwings(holeScore);
+    const putts = getPutts(holeScore);
+    const penaltyStrokes = swings.reduce((sum, swing) => sum + swing.penalties, 0);
+
+    stats.holes += 1;
+
+    if (par >= 4 && swings.length > 0) {
+        stats.fairwayChances += 1;
+        if (swings[0].shot.lie === 'fairway') stats.fairwaysHit += 1;
+    }
+
+    if (swings.length > 0) {
+        // Strokes taken to reach the green; a hole-out from off the green reached it with its last swing
+        const strokesToGreen = swings.length + penaltyStrokes - (putts.length === 0 ? 1 : 0);
+        stats.girChances += 1;
+        if (strokesToGreen <= par - 2) {
+            stats.greensInRegulation += 1;
+        } else {
+            stats.upAndDownChances += 1;
+            if (isUpAndDown(swings, putts.length, par)) stats.upAndDowns += 1;
+        }
+    }
+
+    if (putts.length > 0) {
+        stats.puttingHoles += 1;
+        stats.putts += putts.length;
+        if (putts.length >= 3) stats.threePutts += 1;
+    }
+
+    const gained = getHoleStrokesGained(holeScore, par);
+    (Object.keys(gained) as StrokesGainedCategory[]).forEach(category => {
+        stats.strokesGained[category] = roundToHundredth(stats.strokesGained[category] + gained[category]);
+    });
+};
+
+/**
+ * Stats for each completed round, oldest first
+ */
+export const getRoundStats = (rounds: Round[], courses: Course[]): RoundStats[] =>
+    rounds
+        .filter(round => round.isComplete)
+        .sort((a, b) => (a.completedAt ?? a.startedAt) - (b.completedAt ?? b.startedAt))
+        .map(round => {
+            const course = courses.find(c => c.id === round.courseId);
+            const stats = emptyStats();
+            (round.holeScores || []).forEach(holeScore =>
+                addHoleStats(stats, holeScore, course?.holes.find(h => h.number === holeScore.holeNumber)));
+            return {
+                roundId: round.id,
+                courseName: round.courseName,
+                playedAt: round.completedAt ?? round.startedAt,
+                ...stats,
+            };
+        })
+        .filter(stats => stats.holes > 0);
+
+/**
+ * Totals across rounds
+ */
+export const combineGolfStats = (stats: GolfStats[]): GolfStats =>
+    stats.reduce((total, round) => ({
+        holes: total.holes + round.holes,
+        fairwaysHit: total.fairwaysHit + round.fairwaysHit,
+        fairwayChances: total.fairwayChances + round.fairwayChances,
+        greensInRegulation: total.greensInRegulation + round.greensInRegulation,
+        girChances: total.girChances + round.girChances,
+        upAndDowns: total.upAndDowns + round.upAndDowns,
+        upAndDownChances: total.upAndDownChances + round.upAndDownChances,
+        threePutts: total.threePutts + round.threePutts,
+        puttingHoles: total.puttingHoles + round.puttingHoles,
+        putts: total.putts + round.putts,
+        strokesGained: {
+            tee: roundToHundredth(total.strokesGained.tee + round.strokesGained.tee),
+            approach: roundToHundredth(total.strokesGained.approach + round.strokesGained.approach),
+            shortGame: roundToHundredth(total.strokesGained.shortGame + round.strokesGained.shortGame),
+            putting: roundToHundredth(total.strokesGained.putting + round.strokesGained.putting),
+        },
+    }), emptyStats());
+
+/**
+ * Percentage rounded to a whole number, or undefined without any chances
+ */
+export const getRate = (made: number, chances: number): number | undefined =>
+    chances > 0 ? Math.round(made / chances * 100) : undefined;
+
+/**
+ * Strokes gained scaled to 18 holes, so 9-hole and partial rounds compare
+ */
+export const getStrokesGainedPer18 = (stats: GolfStats): StrokesGained => {
+    if (stats.holes === 0) return emptyStrokesGained();
+    const scale = 18 / stats.holes;
+    return {
+        tee: roundToHundredth(stats.strokesGained.tee * scale),
+        approach: roundToHundredth(stats.strokesGained.approach * scale),
+        shortGame: roundToHundredth(stats.strokesGained.shortGame * scale),
+        putting: roundToHundredth(stats.strokesGained.putting * scale),
+    };
+};
+
+/**
+ * How each club's full swings finished, most used club first
+ */
+export const getClubTendencies = (rounds: Round[]): ClubTendency[] => {
+    const byClub = new Map<string, ClubTendency>();
+
+    rounds
+        .filter(round => round.isComplete)
+        .flatMap(round => round.holeScores || [])
+        .flatMap(holeScore => getSwings(holeScore))
+        .forEach(({ shot }) => {
+            // Unset clubs show as placeholders like "[Driver]" until picked
+            if (!shot.club || shot.club.startsWith('[')) return;
+            const entry = byClub.get(shot.club) ?? {
+                club: shot.club, shots: 0, good: 0, left: 0, right: 0, short: 0, long: 0, penalties: 0,
+            };
+            entry.shots += 1;
+            if (shot.direction === 'good' || shot.direction === 'fire') entry.good += 1;
+            MISSES.forEach(miss => {
+                if (shot.direction?.split(' and ').includes(miss)) entry[miss] += 1;
+            });
+            if (shot.lie === 'ob' || shot.lie === 'water') entry.penalties += 1;
+            byClub.set(shot.club, entry);
+        });
+
+    return Array.from(byClub.values())
+        .map(entry => {
+            const [worst, next] = [...MISSES].sort((a, b) => entry[b] - entry[a]);
+            return entry[worst] > entry[next] ? { ...entry, tendency: worst } : entry;
+        })
+        .sort((a, b) => b.shots - a.shots || a.club.localeCompare(b.club));
+};
@@ -0,0 +1,191 @@
+/**
+ * World Handicap System style handicap index for Golf Brain, computed from
+ * played rounds: net double bogey adjusted scores, score differentials and
+ * the best 8 of the last 20
+ */
+import { Course, Hole, Round } from '../types/sparkData';
+import { getCourseForRound } from './golfCourses';
+
+export const DEFAULT_SLOPE_RATING = 113;
+export const MAX_HANDICAP_INDEX = 54;
+
+// Differentials the index is taken from
+const SCORING_RECORD_SIZE = 20;
+
+// How many of the lowest differentials count, and the adjustment applied,
+// for a scoring record with fewer than 20 scores. Fewer than 3 gives no index.
+const DIFFERENTIALS_USED: Record<number, { count: number; adjustment: number }> = {
+    3: { count: 1, adjustment: -2 },
+    4: { count: 1, adjustment: -1 },
+    5: { count: 1, adjustment: 0 },
+    6: { count: 2, adjustment: -1 },
+    7: { count: 2, adjustment: 0 },
+    8: { count: 2, adjustment: 0 },
+    9: { count: 3, adjustment: 0 },
+    10: { count: 3, adjustment: 0 },
+    11: { count: 3, adjustment: 0 },
+    12: { count: 4, adjustment: 0 },
+    13: { count: 4, adjustment: 0 },
+    14: { count: 4, adjustment: 0 },
+    15: { count: 5, adjustment: 0 },
+    16: { count: 5, adjustment: 0 },
+    17: { count: 6, adjustment: 0 },
+    18: { count: 6, adjustment: 0 },
+    19: { count: 7, adjustment: 0 },
+    20: { count: 8, adjustment: 0 },
+};
+
+export interface HandicapHistoryEntry {
+    roundId: string; // Round that posted the score; the second of two combined 9-hole rounds
+    courseName: string;
+    playedAt: number;
+    adjustedGrossScore: number;
+    differential: number;
+    handicapIndex?: number; // Index after this score; unset until 3 scores are posted
+}
+
+const roundToTenth = (value: number): number => Math.round(value * 10) / 10;
+
+const isNineHoleCourse = (course: Course): boolean => course.holes.length <= 9;
+
+export const getCoursePar = (course: Course): number =>
+    course.holes.reduce((sum, hole) => sum + hole.par, 0);
+
+export const getCourseRating = (course: Course): number => course.courseRating ?? getCoursePar(course);
+
+export const getSlopeRating = (course: Course): number => course.slopeRating ?? DEFAULT_SLOPE_RATING;
+
+/**
+ * Strokes a player with the given handicap index gets over a whole course.
+ * A 9-hole course uses half the index.
+ */
+export const getCourseHandicap = (handicapIndex: number, course: Course): number => {
+    const index = isNineHoleCourse(course) ? handicapIndex / 2 : handicapIndex;
+    return Math.round(index * getSlopeRating(course) / DEFAULT_SLOPE_RATING + getCourseRating(course) - getCoursePar(course));
+};
+
+/**
+ * Strokes received on one hole, handed out hardest hole first by stroke index.
+ * A plus (negative) course handicap gives strokes back, easiest hole first.
+ */
+export const getStrokesReceived = (hole: Hole, course: Course, courseHandicap: number): number => {
+    const holeCount = course.holes.length;
+    if (holeCount === 0 || courseHandicap === 0) return 0;
+
+    // Rank rather than the raw index, so 9-hole courses with indexes up to 18 work
+    const rank = [...course.holes]
+        .sort((a, b) => a.strokeIndex - b.strokeIndex || a.number - b.number)
+        .findIndex(h => h.number === hole.number) + 1;
+    if (rank === 0) return 0;
+
+    const strokes = Math.abs(courseHandicap);
+    const base = Math.floor(strokes / holeCount);
+    const extra = strokes % holeCount;
+
+    if (courseHandicap > 0) {
+        return base + (rank <= extra ? 1 : 0);
+    }
+    return 0 - (base + (rank > holeCount - extra ? 1 : 0));
+};
+
+/**
+ * Gross score with each hole capped at net double bogey. Without a course
+ * handicap (no index yet) holes are capped at par + 5. Holes not played count
+ * as net par. Undefined when too few holes were played to post the score:
+ * fewer than 14 of 18, or 7 of 9.
+ */
+export const getAdjustedGrossScore = (round: Round, course: Course, courseHandicap?: number): number | undefined => {
+    const scores = new Map(
+        (round.holeScores || [])
+            .filter(score => score.totalScore > 0)
+            .map(score => [score.holeNumber, score.totalScore])
+    );
+    const played = course.holes.filter(hole => scores.has(hole.number)).length;
+    if (course.holes.length === 0 || played < Math.ceil(course.holes.length * 7 / 9)) return undefined;
+
+    return course.holes.reduce((total, hole) => {
+        const strokes = courseHandicap === undefined ? 0 : getStrokesReceived(hole, course, courseHandicap);
+        const score = scores.get(hole.number);
+        if (score === undefined) return total + hole.par + strokes;
+
+        const cap = courseHandicap === undefined ? hole.par + 5 : hole.par + 2 + strokes;
+        return total + Math.min(score, cap);
+    }, 0);
+};
+
+export const getScoreDifferential = (adjustedGrossScore: number, course: Course): number =>
+    roundToTenth(DEFAULT_SLOPE_RATING / getSlopeRating(course) * (adjustedGrossScore - getCourseRating(course)));
+
+/**
+ * Handicap index from differentials in the order they were posted: the lowest
+ * of the last 20 averaged, per DIFFERENTIALS_USED. Undefined under 3 scores.
+ */
+export const calculateHandicapIndex = (differentials: number[]): number | undefined => {
+    const recent = differentials.slice(-SCORING_RECORD_SIZE);
+    const rule = DIFFERENTIALS_USED[recent.length];
+    if (!rule) return undefined;
+
+    const lowest = [...recent].sort((a, b) => a - b).slice(0, rule.count);
+    const average = lowest.reduce((sum, d) => sum + d, 0) / lowest.length;
+    return Math.min(MAX_HANDICAP_INDEX, roundToTenth(average + rule.adjustment));
+};
+
+/**
+ * Every score posted from completed rounds, oldest first, with the index after
+ * each. Each round's holes are capped using the index from before it, or the
+ * starting index until 3 scores are posted. Two 9-hole rounds in a row combine
+ * into one 18-hole score.
+ * @param startingIndex - Handicap index entered by hand, if any
+ */
+export const getHandicapHistory = (rounds: Round[], courses: Course[], startingIndex?: number): HandicapHistoryEntry[] => {
+    const history: HandicapHistoryEntry[] = [];
+    const differentials: number[] = [];
+    let pendingNine: { adjustedGrossScore: number; differential: number } | undefined;
+
+    const completed = rounds
+        .filter(round => round.isComplete)
+        .sort((a, b) => (a.completedAt ?? a.startedAt) - (b.completedAt ?? b.startedAt));
+
+    for (const round of completed) {
+        const playedCourse = courses.find(c => c.id === round.courseId);
+        if (!playedCourse) continue;
+        const course = getCourseForRound(playedCourse, round); // Ratings of the tees it was played from
+
+        const index = history[history.length - 1]?.handicapIndex ?? startingIndex;
+        const courseHandicap = index === undefined ? undefined : getCourseHandicap(index, course);
+        const adjustedGrossScore = getAdjustedGrossScore(round, course, courseHandicap);
+        if (adjustedGrossScore === undefined) continue;
+
+        let posted = { adjustedGrossScore, differential: getScoreDifferential(adjustedGrossScore, course) };
+        if (isNineHoleCourse(course)) {
+            if (!pendingNine) {
+                pendingNine = posted;
+                continue;
+            }
+            posted = {
+                adjustedGrossScore: pendingNine.adjustedGrossScore + posted.adjustedGrossScore,
+                differential: roundToTenth(pendingNine.differential + posted.differential),
+            };
+            pendingNine = undefined;
+        }
+
+        differentials.push(posted.differential);
+        history.push({
+            roundId: round.id,
+            courseName: round.courseName,
+            playedAt: round.completedAt ?? round.startedAt,
+            ...posted,
+            handicapIndex: calculateHandicapIndex(differentials),
+        });
+    }
+
+    return history;
+};
+
+/**
+ * Index computed from played rounds, or undefined until 3 scores are posted
+ */
+export const getHandicapIndex = (rounds: Round[], courses: Course[], startingIndex?: number): number | undefined => {
+    const history = getHandicapHistory(rounds, courses, startingIndex);
+    return history[history.length - 1]?.handicapIndex;
+};
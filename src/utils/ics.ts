@@ -0,0 +1,312 @@
+/**
+ * iCalendar (.ics) import and export for Coming Up events
+ */
+import { ComingUpEvent } from '../types/sparkData';
+import { generateId } from './idUtils';
+import { toLocalDateString } from './dateUtils';
+import { getWeekOfMonth, parseEventDate } from './comingUpEvents';
+
+export interface IcsParseResult {
+    events: ComingUpEvent[];
+    skipped: number; // VEVENTs without a usable title or date, already over, or with a repeat rule that can't be followed
+}
+
+type EventCategory = ComingUpEvent['category'];
+type Recurrence = Pick<ComingUpEvent, 'type' | 'weekOfMonth' | 'interval' | 'intervalUnit'>;
+
+const BYDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// RRULE parts Coming Up can follow; rules with any other part are skipped
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'UNTIL', 'COUNT', 'WKST', 'BYDAY', 'BYMONTH', 'BYMONTHDAY'];
+
+const FREQ_UNITS: Record<string, NonNullable<ComingUpEvent['intervalUnit']>> = {
+    DAILY: 'days',
+    WEEKLY: 'weeks',
+    MONTHLY: 'months',
+    YEARLY: 'years',
+};
+
+// Guess a category from the event title when importing
+const CATEGORY_KEYWORDS: { category: EventCategory; pattern: RegExp }[] = [
+    { category: 'birthday', pattern: /\b(birthday|bday|b-day)\b/i },
+    { category: 'anniversary', pattern: /\banniversary\b/i },
+    { category: 'trip', pattern: /\b(trip|flight|vacation|holiday)\b/i },
+    { category: 'party', pattern: /\bparty\b/i },
+    { category: 'work', pattern: /\b(meeting|work|deadline|conference)\b/i },
+    { category: 'sports', pattern: /\b(game|match|tournament|race)\b/i },
+];
+
+/**
+ * Join folded lines: a line starting with a space or tab continues the previous one
+ */
+const unfoldLines = (text: string): string[] =>
+    text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').map(line => line.trimEnd());
+
+const unescapeText = (value: string): string =>
+    value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const escapeText = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+const getUtf8Length = (char: string): number => {
+    const code = char.codePointAt(0) ?? 0;
+    return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Fold a content line to 75 octets as the spec requires, without splitting a
+ * character such as an emoji across lines
+ */
+const foldLine = (line: string): string => {
+    const parts: string[] = [];
+    let part = '';
+    let octets = 0;
+    for (const char of line) {
+        // Continuation lines start with a space, which counts toward their 75
+        const limit = parts.length === 0 ? 75 : 74;
+        const size = getUtf8Length(char);
+        if (octets + size > limit) {
+            parts.push(part);
+            part = '';
+            octets = 0;
+        }
+        part += char;
+        octets += size;
+    }
+    parts.push(part);
+    return parts.join('\r\n ');
+};
+
+/**
+ * Read a DTSTART value as a YYYY-MM-DD date, e.g. "20250131" or "20250131T090000Z"
+ */
+const parseIcsDate = (value: string): string | null => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) return null;
+
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    if (!utc) return `${year}-${month}-${day}`;
+
+    // UTC times land on the local calendar day they fall on
+    const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)));
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`;
+};
+
+/**
+ * Date of the last occurrence of a series limited by COUNT
+ */
+const getLastOccurrence = (start: Date, unit: NonNullable<ComingUpEvent['intervalUnit']>, interval: number, count: number): Date => {
+    const steps = (count - 1) * interval;
+    const [year, month, day] = [start.getFullYear(), start.getMonth(), start.getDate()];
+    switch (unit) {
+        case 'days':
+            return new Date(year, month, day + steps);
+        case 'weeks':
+            return new Date(year, month, day + steps * 7);
+        case 'months':
+            return new Date(year, month + steps, day);
+        case 'years':
+            return new Date(year + steps, month, day);
+    }
+};
+
+/**
+ * Map an RRULE such as "FREQ=YEARLY;BYMONTH=5;BYDAY=2SU" onto the recurrence
+ * of an event starting on `start`. Returns null for a series that ended before
+ * `today`, and for rules Coming Up can't follow exactly, such as "2nd Tuesday
+ * of every month" or several days a week.
+ */
+const parseRecurrence = (rrule: string | undefined, start: string, today: string): Recurrence | null => {
+    if (!rrule) return { type: 'one-time' };
+
+    const parts: Record<string, string> = {};
+    rrule.split(';').forEach(part => {
+        const [key, value] = part.split('=');
+        if (key && value) parts[key.toUpperCase()] = value.toUpperCase();
+    });
+
+    const unit = FREQ_UNITS[parts.FREQ];
+    if (!unit || Object.keys(parts).some(key => !SUPPORTED_RRULE_PARTS.includes(key))) return null;
+
+    const interval = parseInt(parts.INTERVAL || '1', 10) || 1;
+    const startDate = parseEventDate(start);
+
+    // Series that have already run out
+    const until = parts.UNTIL ? parseIcsDate(parts.UNTIL) : null;
+    if (until && until < today) return null;
+    const count = parseInt(parts.COUNT || '', 10);
+    if (count > 0 && toLocalDateString(getLastOccurrence(startDate, unit, interval, count)) < today) return null;
+
+    // BYMONTH and BYMONTHDAY are only followed when they restate the start date
+    if (parts.BYMONTH && Number(parts.BYMONTH) !== startDate.getMonth() + 1) return null;
+    if (parts.BYMONTHDAY && Number(parts.BYMONTHDAY) !== startDate.getDate()) return null;
+
+    const byDay = parts.BYDAY?.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (parts.BYDAY && (!byDay || BYDAY_CODES.indexOf(byDay[2]) !== startDate.getDay())) return null;
+    if (byDay?.[1]) {
+        // "2SU" is only followed yearly, as Coming Up's nth-weekday events are.
+        // Those run 1st to 4th or last, and a 5th weekday isn't always the last.
+        const week = Number(byDay[1]);
+        if (unit !== 'years' || interval > 1 || !(week === -1 || (week >= 1 && week <= 4))) return null;
+        return { type: 'nth-weekday', weekOfMonth: week };
+    }
+    if (byDay && unit !== 'weeks') return null;
+
+    if (interval > 1) return { type: 'custom', interval, intervalUnit: unit };
+    switch (unit) {
+        case 'years':
+            return { type: 'annual' };
+        case 'months':
+            return { type: 'monthly' };
+        case 'weeks':
+            return { type: 'weekly' };
+        default:
+            return { type: 'custom', interval: 1, intervalUnit: 'days' };
+    }
+};
+
+/**
+ * RRULE for a repeating event, or null for one-time events
+ */
+const formatRecurrence = (event: ComingUpEvent): string | null => {
+    switch (event.type) {
+        case 'one-time':
+            return null;
+        case 'annual':
+            return 'FREQ=YEARLY';
+        case 'monthly':
+            return 'FREQ=MONTHLY';
+        case 'weekly':
+            return 'FREQ=WEEKLY';
+        case 'nth-weekday': {
+            const date = parseEventDate(event.date);
+            const week = event.weekOfMonth ?? getWeekOfMonth(date);
+            return `FREQ=YEARLY;BYMONTH=${date.getMonth() + 1};BYDAY=${week}${BYDAY_CODES[date.getDay()]}`;
+        }
+        case 'custom': {
+            const freq = Object.keys(FREQ_UNITS).find(key => FREQ_UNITS[key] === (event.intervalUnit || 'days'));
+            return `FREQ=${freq};INTERVAL=${Math.max(1, event.interval || 1)}`;
+        }
+    }
+};
+
+export const guessEventCategory = (title: string): EventCategory =>
+    CATEGORY_KEYWORDS.find(({ pattern }) => pattern.test(title))?.category ?? 'other';
+
+/**
+ * Parse VEVENTs from an .ics file. Repeating events keep their recurrence;
+ * those Coming Up can't represent, series that have ended and one-time
+ * events before today are skipped.
+ * @param today - Date an event or series must still be running on
+ */
+export const parseIcs = (text: string, today: Date = new Date()): IcsParseResult => {
+    const todayString = toLocalDateString(today);
+    const events: ComingUpEvent[] = [];
+    let skipped = 0;
+    let current: Record<string, string> | null = null;
+
+    for (const line of unfoldLines(text)) {
+        if (line === 'BEGIN:VEVENT') {
+            current = {};
+            continue;
+        }
+        if (line === 'END:VEVENT') {
+            if (current) {
+                const title = unescapeText(current.SUMMARY || '').trim();
+                const date = parseIcsDate(current.DTSTART || '');
+                const recurrence = date ? parseRecurrence(current.RRULE, date, todayString) : null;
+                const isPast = recurrence?.type === 'one-time' && date! < todayString;
+                if (title && date && recurrence && !isPast) {
+                    events.push({
+                        id: generateId(),
+                        title,
+                        date,
+                        ...recurrence,
+                        category: guessEventCategory(title),
+                    });
+                } else {
+                    skipped++;
+                }
+            }
+            current = null;
+            continue;
+        }
+        if (!current) continue;
+
+        // "DTSTART;VALUE=DATE:20250131" -> name "DTSTART", value "20250131"
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+        const name = line.slice(0, separator).split(';')[0].toUpperCase();
+        if (!(name in current)) {
+            current[name] = line.slice(separator + 1).trim();
+        }
+    }
+
+    return { events, skipped };
+};
+
+/**
+ * Export events as an .ics calendar of all-day events
+ * @param now - Timestamp written as DTSTAMP
+ */
+export const exportIcs = (events: ComingUpEvent[], now: Date = new Date()): string => {
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Sparks//Coming Up//EN',
+        'CALSCALE:GREGORIAN',
+    ];
+
+    events.forEach(event => {
+        const [year, month, day] = event.date.split('-').map(Number);
+        const start = event.date.replace(/-/g, '');
+        // DTEND is exclusive, so an all-day event ends the next day
+        const nextDay = new Date(year, month - 1, day + 1);
+        const end = `${nextDay.getFullYear()}${String(nextDay.getMonth() + 1).padStart(2, '0')}${String(nextDay.getDate()).padStart(2, '0')}`;
+
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:coming-up-${event.id}@sparks`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${start}`,
+            `DTEND;VALUE=DATE:${end}`,
+            foldLine(`SUMMARY:${escapeText(event.title)}`),
+            `CATEGORIES:${event.category.toUpperCase()}`,
+        );
+        const rrule = formatRecurrence(event);
+        if (rrule) {
+            lines.push(`RRULE:${rrule}`);
+        }
+        lines.push('END:VEVENT');
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Add imported events, skipping any with the same title and date as one already present
+ * @returns The combined events and how many were added
+ */
+export const mergeImportedEvents = (
+    existing: ComingUpEvent[],
+    imported: ComingUpEvent[]
+): { events: ComingUpEvent[]; added: number; duplicates: number } => {
+    const key = (event: ComingUpEvent) => `${event.title.toLowerCase()}|${event.date}`;
+    const seen = new Set(existing.map(key));
+    const events = [...existing];
+    let duplicates = 0;
+
+    imported.forEach(event => {
+        if (seen.has(key(event))) {
+            duplicates++;
+            return;
+        }
+        seen.add(key(event));
+        events.push(event);
+    });
+
+    return { events, added: events.length - existing.length, duplicates };
+};
@@ -0,0 +1,102 @@
+/**
+ * Hashtags, ordering and todo promotion for Ideas
+ */
+import { Idea, TodoItem } from '../types/sparkData';
+import { toLocalDateString } from './dateUtils';
+
+// "#garden" at the start of the text or after whitespace or punctuation, not "a#b"
+const HASHTAG_PATTERN = /(^|[\s(,.;:!?])#([A-Za-z0-9][\w-]*)/g;
+
+// Speech recognition writes a spoken hashtag out as "hashtag garden" or "hash tag garden"
+const SPOKEN_HASHTAG_PATTERN = /\bhash ?tag\s+([A-Za-z0-9][\w-]*)/gi;
+
+/**
+ * Tags in an idea's text, lowercased and without the "#", in order of first use
+ */
+export const parseHashtags = (content: string): string[] => {
+    const tags: string[] = [];
+    for (const match of content.matchAll(HASHTAG_PATTERN)) {
+        const tag = match[2].toLowerCase();
+        if (!tags.includes(tag)) tags.push(tag);
+    }
+    return tags;
+};
+
+/**
+ * Idea text with its hashtags taken out
+ */
+export const stripHashtags = (content: string): string =>
+    content
+        .replace(HASHTAG_PATTERN, '$1')
+        .replace(/\s{2,}/g, ' ')
+        .replace(/\s+([,.;:!?])/g, '$1')
+        .trim();
+
+/**
+ * Turn dictated "hashtag garden" into "#garden", and append any separately
+ * given tags that aren't already in the text
+ */
+export const formatIdeaContent = (content: string, tags: string[] = []): string => {
+    const text = content.replace(SPOKEN_HASHTAG_PATTERN, (_, tag: string) => `#${tag}`).trim();
+    const existing = parseHashtags(text);
+    const extra = tags
+        .map(tag => tag.replace(/^#/, '').trim().toLowerCase().replace(/\s+/g, '-'))
+        .filter(tag => tag && !existing.includes(tag));
+    return [text, ...Array.from(new Set(extra)).map(tag => `#${tag}`)].join(' ');
+};
+
+/**
+ * Every tag in use, most used first, with how many ideas carry it
+ */
+export const getIdeaTagCounts = (ideas: Idea[]): { tag: string; count: number }[] => {
+    const counts = new Map<string, number>();
+    ideas.forEach(idea => parseHashtags(idea.content).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Pinned ideas first, then newest first
+ */
+export const sortIdeas = (ideas: Idea[]): Idea[] =>
+    [...ideas].sort((a, b) =>
+        Number(!!b.pinned) - Number(!!a.pinned) || b.createdAt.localeCompare(a.createdAt));
+
+/**
+ * A todo for an idea, due today. The idea's first tag becomes the todo's
+ * category, written as TodoSpark's "category: text" prefix.
+ * @param todos - Existing todos, to pick the next id
+ */
+export const createTodoFromIdea = (idea: Idea, todos: TodoItem[], now: Date = new Date()): TodoItem => {
+    const [category] = parseHashtags(idea.content);
+    const displayText = stripHashtags(idea.content) || idea.content;
+
+    return {
+        id: Math.max(...todos.map(todo => todo.id), 0) + 1,
+        text: category ? `${category}: ${displayText}` : displayText,
+        displayText,
+        category,
+        completed: false,
+        dueDate: toLocalDateString(now),
+        createdDate: now.toISOString(),
+        sortTimeMs: now.getTime(),
+        ideaId: idea.id,
+    };
+};
+
+/**
+ * The todo an idea was promoted to. Todo ids are reused after a delete, so the
+ * todo must also point back at the idea.
+ */
+export const findLinkedTodo = (idea: Idea, todos: TodoItem[]): TodoItem | undefined =>
+    idea.todoId === undefined
+        ? undefined
+        : todos.find(todo => todo.id === idea.todoId && todo.ideaId === idea.id);
+
+/**
+ * Ideas whose todo has since been deleted lose their link, so they can be
+ * promoted again
+ */
+export const unlinkMissingTodos = (ideas: Idea[], todos: TodoItem[]): Idea[] =>
+    ideas.map(idea =>
+        idea.todoId !== undefined && !findLinkedTodo(idea, todos) ? { ...idea, todoId: undefined } : idea);
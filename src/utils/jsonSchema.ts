@@ -0,0 +1,100 @@
+/**
+ * Utility functions for validating and repairing model generated JSON
+ */
+import { JSONSchema } from '../types/llm';
+
+const typeOf = (value: any): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+/**
+ * Validate a value against a schema
+ * @param value - Parsed JSON value
+ * @param schema - Expected shape
+ * @param path - Location used in error messages
+ * @returns Description of the first problem found, or null if valid
+ */
+export const validateJSONSchema = (value: any, schema: JSONSchema, path: string = '$'): string | null => {
+    const actual = typeOf(value);
+    if (actual !== schema.type || (schema.type === 'number' && !isFinite(value))) {
+        return `${path} should be ${schema.type} but was ${actual}`;
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (schema.enum && !schema.enum.includes(value)) {
+                return `${path} should be one of ${schema.enum.join(', ')}`;
+            }
+            return null;
+        case 'number':
+            if (schema.minimum !== undefined && value < schema.minimum) {
+                return `${path} should be at least ${schema.minimum}`;
+            }
+            if (schema.maximum !== undefined && value > schema.maximum) {
+                return `${path} should be at most ${schema.maximum}`;
+            }
+            return null;
+        case 'array': {
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                return `${path} should have at least ${schema.minItems} items`;
+            }
+            if (!schema.items) return null;
+            for (let i = 0; i < value.length; i++) {
+                const error = validateJSONSchema(value[i], schema.items, `${path}[${i}]`);
+                if (error) return error;
+            }
+            return null;
+        }
+        case 'object': {
+            for (const key of schema.required || []) {
+                if (value[key] === undefined) {
+                    return `${path}.${key} is required`;
+                }
+            }
+            for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+                if (value[key] === undefined) continue;
+                const error = validateJSONSchema(value[key], propSchema, `${path}.${key}`);
+                if (error) return error;
+            }
+            return null;
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Parse model output, repairing common problems: markdown fences,
+ * prose around the JSON and trailing commas
+ * @throws SyntaxError if the text still isn't valid JSON
+ */
+export const parseModelJSON = (text: string): any => {
+    const cleanText = text.replace(/```(?:json)?\n?|\n?```/g, '').trim();
+    try {
+        return JSON.parse(cleanText);
+    } catch (e) {
+        const start = cleanText.search(/[[{]/);
+        const end = Math.max(cleanText.lastIndexOf('}'), cleanText.lastIndexOf(']'));
+        if (start === -1 || end <= start) throw e;
+
+        const repaired = cleanText
+            .slice(start, end + 1)
+            .replace(/,\s*([}\]])/g, '$1');
+        return JSON.parse(repaired);
+    }
+};
+
+/**
+ * Stable 32-bit FNV-1a hash, for cache keys
+ * @returns Hash as a hex string
+ */
+export const hashString = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
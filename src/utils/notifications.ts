@@ -1,4 +1,5 @@
 import { Platform } from 'react-native';
+import { SparkItemTarget } from '../types/spark';
 
 // Dynamic imports for expo modules to handle cases where they're not available
 let Notifications: any = null;
@@ -233,13 +234,15 @@ export class NotificationService {
   }
 
   // Simplified notification scheduling - just pass title, body, seconds, sparkId, and optional icon
+  // Pass target to open a specific item when the notification is tapped
   static async scheduleNotification(
     title: string,
     body: string,
     seconds: number,
     sparkId: string,
     identifier?: string,
-    icon?: string
+    icon?: string,
+    target?: SparkItemTarget
   ): Promise<string | null> {
     try {
       const hasPermissions = await this.requestPermissions();
@@ -274,6 +277,7 @@ export class NotificationService {
           data: {
             type: 'spark-notification',
             sparkId,
+            ...target,
           },
           sound: 'default',
           badge: 1,
@@ -339,6 +343,36 @@ export class NotificationService {
     }
   }
 
+  // Identifiers of scheduled notifications, optionally only those starting with prefix
+  static async getScheduledNotificationIds(prefix: string = ''): Promise<string[]> {
+    try {
+      if (!isNotificationsAvailable || !Notifications) {
+        return [];
+      }
+
+      const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
+      return scheduledNotifications
+        .map((notification: any) => notification.identifier as string)
+        .filter((identifier: string) => identifier.startsWith(prefix));
+    } catch (error) {
+      console.error('Error listing scheduled notifications:', error);
+      return [];
+    }
+  }
+
+  // Cancel a single scheduled notification by the identifier it was scheduled with
+  static async cancelNotification(identifier: string): Promise<void> {
+    try {
+      if (!isNotificationsAvailable || !Notifications) {
+        return;
+      }
+
+      await Notifications.cancelScheduledNotificationAsync(identifier);
+    } catch (error) {
+      console.error(`Error cancelling notification ${identifier}:`, error);
+    }
+  }
+
   // Cancel all activity notifications
   static async cancelAllActivityNotifications(): Promise<void> {
     try {
@@ -0,0 +1,147 @@
+/**
+ * Packing list templates and helpers for building per-trip lists from them
+ */
+import { PackingCategory, PackingItem, PackingTemplate, PackingTemplateItem } from '../types/sparkData';
+
+export const PACKING_CATEGORIES: { key: PackingCategory; label: string; icon: string }[] = [
+    { key: 'clothes', label: 'Clothes', icon: '👕' },
+    { key: 'toiletries', label: 'Toiletries', icon: '🧴' },
+    { key: 'electronics', label: 'Electronics', icon: '🔌' },
+    { key: 'documents', label: 'Documents', icon: '🛂' },
+    { key: 'gear', label: 'Gear', icon: '🎒' },
+    { key: 'other', label: 'Other', icon: '📦' },
+];
+
+// Packed on every trip, whatever the template
+const ESSENTIALS: PackingTemplateItem[] = [
+    { item: 'T-shirts', category: 'clothes', count: 1, perDay: true, max: 7 },
+    { item: 'Pairs of underwear', category: 'clothes', count: 1, perDay: true, max: 8 },
+    { item: 'Pairs of socks', category: 'clothes', count: 1, perDay: true, max: 8 },
+    { item: 'Toothbrush', category: 'toiletries', count: 1 },
+    { item: 'Toothpaste', category: 'toiletries', count: 1 },
+    { item: 'Deodorant', category: 'toiletries', count: 1 },
+    { item: 'Phone charger', category: 'electronics', count: 1 },
+];
+
+export const BUILT_IN_TEMPLATES: PackingTemplate[] = [
+    {
+        id: 'beach',
+        name: 'Beach',
+        icon: '🏖️',
+        items: [
+            ...ESSENTIALS,
+            { item: 'Swimsuits', category: 'clothes', count: 2 },
+            { item: 'Shorts', category: 'clothes', count: 1, perDay: true, max: 4 },
+            { item: 'Flip-flops', category: 'clothes', count: 1 },
+            { item: 'Sun hat', category: 'clothes', count: 1 },
+            { item: 'Sunscreen', category: 'toiletries', count: 1 },
+            { item: 'Sunglasses', category: 'gear', count: 1 },
+            { item: 'Beach towel', category: 'gear', count: 1 },
+        ],
+    },
+    {
+        id: 'ski',
+        name: 'Ski',
+        icon: '⛷️',
+        items: [
+            ...ESSENTIALS,
+            { item: 'Base layers', category: 'clothes', count: 1, perDay: true, max: 3 },
+            { item: 'Ski socks', category: 'clothes', count: 1, perDay: true, max: 4 },
+            { item: 'Ski jacket', category: 'clothes', count: 1 },
+            { item: 'Ski pants', category: 'clothes', count: 1 },
+            { item: 'Gloves', category: 'clothes', count: 1 },
+            { item: 'Neck warmer', category: 'clothes', count: 1 },
+            { item: 'Goggles', category: 'gear', count: 1 },
+            { item: 'Helmet', category: 'gear', count: 1 },
+            { item: 'Lip balm', category: 'toiletries', count: 1 },
+        ],
+    },
+    {
+        id: 'business',
+        name: 'Business',
+        icon: '💼',
+        items: [
+            ...ESSENTIALS,
+            { item: 'Dress shirts', category: 'clothes', count: 1, perDay: true, max: 5 },
+            { item: 'Suit', category: 'clothes', count: 1 },
+            { item: 'Dress shoes', category: 'clothes', count: 1 },
+            { item: 'Belt', category: 'clothes', count: 1 },
+            { item: 'Laptop', category: 'electronics', count: 1 },
+            { item: 'Laptop charger', category: 'electronics', count: 1 },
+            { item: 'Business cards', category: 'documents', count: 1 },
+        ],
+    },
+    {
+        id: 'golf',
+        name: 'Golf Trip',
+        icon: '⛳',
+        items: [
+            ...ESSENTIALS,
+            { item: 'Golf shirts', category: 'clothes', count: 1, perDay: true, max: 6 },
+            { item: 'Golf shorts', category: 'clothes', count: 2 },
+            { item: 'Golf shoes', category: 'clothes', count: 1 },
+            { item: 'Rain jacket', category: 'clothes', count: 1 },
+            { item: 'Golf clubs', category: 'gear', count: 1 },
+            { item: 'Golf balls (sleeves)', category: 'gear', count: 1, perDay: true, max: 6 },
+            { item: 'Golf gloves', category: 'gear', count: 2 },
+            { item: 'Rangefinder', category: 'electronics', count: 1 },
+            { item: 'Sunscreen', category: 'toiletries', count: 1 },
+        ],
+    },
+];
+
+/**
+ * Number of days a trip covers, counting both the first and last day
+ * @param startDate - YYYY-MM-DD
+ * @param endDate - YYYY-MM-DD
+ */
+export const getTripDays = (startDate: string, endDate: string): number => {
+    const [startYear, startMonth, startDay] = startDate.split('-').map(Number);
+    const [endYear, endMonth, endDay] = endDate.split('-').map(Number);
+    const days = Math.round((Date.UTC(endYear, endMonth - 1, endDay) - Date.UTC(startYear, startMonth - 1, startDay)) / (24 * 60 * 60 * 1000)) + 1;
+    return Math.max(1, days);
+};
+
+/**
+ * How many of a template item to pack for a trip of the given length
+ */
+export const scaleTemplateItem = (templateItem: PackingTemplateItem, days: number): number => {
+    if (!templateItem.perDay) return templateItem.count;
+    const scaled = Math.ceil(templateItem.count * Math.max(1, days));
+    return templateItem.max ? Math.min(scaled, templateItem.max) : scaled;
+};
+
+/**
+ * Unpacked items for a trip, with per-day quantities scaled to its length
+ */
+export const buildItemsFromTemplate = (template: PackingTemplate, days: number): PackingItem[] =>
+    template.items.map((templateItem, index) => ({
+        id: index + 1,
+        item: templateItem.item,
+        count: scaleTemplateItem(templateItem, days),
+        packed: false,
+        category: templateItem.category,
+    }));
+
+/**
+ * Save a list as a template. Counts are kept as they are, since a list
+ * doesn't record which of its items were per day.
+ */
+export const createTemplateFromItems = (id: string, name: string, items: PackingItem[]): PackingTemplate => ({
+    id,
+    name,
+    icon: '🧳',
+    items: items.map(item => ({
+        item: item.item,
+        category: item.category || 'other',
+        count: item.count,
+    })),
+});
+
+/**
+ * Items grouped by category in display order, leaving out empty categories
+ */
+export const groupItemsByCategory = (items: PackingItem[]): { category: PackingCategory; items: PackingItem[] }[] =>
+    PACKING_CATEGORIES
+        .map(({ key }) => ({ category: key, items: items.filter(item => (item.category || 'other') === key) }))
+        .filter(group => group.items.length > 0);
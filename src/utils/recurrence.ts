@@ -0,0 +1,214 @@
+/**
+ * Utility functions for repeating todos
+ */
+import { RepeatRule } from '../types/sparkData';
+import { toLocalDateString } from './dateUtils';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5,
+  'six': 6, 'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10,
+};
+
+const NUMBER = '(\\d+|one|two|three|four|five|six|seven|eight|nine|ten)';
+const ORDINAL = '(\\d{1,2})(?:st|nd|rd|th)?';
+
+// A bare "daily", "weekly" etc. only repeats a todo after "repeat" or at the
+// end of the text, so "Buy daily planner" stays a one-off
+const REPEAT_WORD = (word: string): string => `(?:\\brepeat(?:s|ing)? ${word}\\b|\\b${word}(?=[\\s.,!?]*$))`;
+
+const parseNumber = (word: string): number => NUMBER_WORDS[word.toLowerCase()] || parseInt(word, 10);
+
+/**
+ * Parse a YYYY-MM-DD string as a local date
+ */
+const parseDate = (dateString: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+const ordinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+// Phrase patterns, most specific first. Each returns the rule for its match.
+const REPEAT_PATTERNS: [RegExp, (match: RegExpMatchArray) => RepeatRule][] = [
+  [
+    new RegExp(`\\b${NUMBER} days? after (?:completion|completing|done|finishing|i finish(?: it)?)\\b`, 'i'),
+    m => ({ frequency: 'after-completion', interval: parseNumber(m[1]) }),
+  ],
+  [
+    new RegExp(`\\b(?:every weekday|on weekdays)\\b|${REPEAT_WORD('weekdays')}`, 'i'),
+    () => ({ frequency: 'weekdays' }),
+  ],
+  [
+    new RegExp(`\\bevery (other )?(${WEEKDAYS.join('|')})s?\\b`, 'i'),
+    m => ({ frequency: 'weekly', interval: m[1] ? 2 : 1, weekday: WEEKDAYS.indexOf(m[2].toLowerCase()) }),
+  ],
+  [
+    new RegExp(`\\bevery ${NUMBER} (days?|weeks?)\\b`, 'i'),
+    m => ({ frequency: m[2].toLowerCase().startsWith('day') ? 'daily' : 'weekly', interval: parseNumber(m[1]) }),
+  ],
+  [
+    /\bevery other (day|week)\b/i,
+    m => ({ frequency: m[1].toLowerCase() === 'day' ? 'daily' : 'weekly', interval: 2 }),
+  ],
+  [
+    new RegExp(`\\bevery day\\b|${REPEAT_WORD('daily')}`, 'i'),
+    () => ({ frequency: 'daily' }),
+  ],
+  [
+    new RegExp(`\\bevery week\\b|${REPEAT_WORD('weekly')}`, 'i'),
+    () => ({ frequency: 'weekly' }),
+  ],
+  [
+    new RegExp(`\\bon the ${ORDINAL} of every month\\b`, 'i'),
+    m => ({ frequency: 'monthly', dayOfMonth: parseInt(m[1], 10) }),
+  ],
+  [
+    new RegExp(`(?:\\bevery month|\\bmonthly(?= on the \\d)|${REPEAT_WORD('monthly')})(?: on the ${ORDINAL})?\\b`, 'i'),
+    m => (m[1] ? { frequency: 'monthly', dayOfMonth: parseInt(m[1], 10) } : { frequency: 'monthly' }),
+  ],
+];
+
+/**
+ * Find a repeat phrase such as "every monday" or "3 days after completion" in a todo
+ * @returns The rule and matched phrase, and the text with the phrase removed
+ */
+export const parseRepeatPhrase = (text: string): { text: string; repeat?: RepeatRule; phrase?: string } => {
+  for (const [pattern, toRule] of REPEAT_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const repeat = toRule(match);
+    if (repeat.interval !== undefined && !(repeat.interval >= 1)) continue;
+    if (repeat.dayOfMonth !== undefined && (repeat.dayOfMonth < 1 || repeat.dayOfMonth > 31)) continue;
+
+    const stripped = (text.slice(0, match.index) + text.slice(match.index! + match[0].length))
+      .replace(/\s{2,}/g, ' ')
+      .replace(/\s+([,.!?])/g, '$1')
+      .trim();
+    return { text: stripped || text.trim(), repeat, phrase: match[0] };
+  }
+  return { text: text.trim() };
+};
+
+/**
+ * Human readable rule, e.g. "Every Monday" or "Monthly on the 15th"
+ */
+export const describeRepeatRule = (rule: RepeatRule): string => {
+  const interval = rule.interval || 1;
+  switch (rule.frequency) {
+    case 'daily':
+      return interval === 1 ? 'Daily' : `Every ${interval} days`;
+    case 'weekdays':
+      return 'Weekdays';
+    case 'weekly': {
+      const day = rule.weekday !== undefined
+        ? WEEKDAYS[rule.weekday].charAt(0).toUpperCase() + WEEKDAYS[rule.weekday].slice(1)
+        : undefined;
+      if (interval === 1) return day ? `Every ${day}` : 'Weekly';
+      return day ? `Every ${interval} weeks on ${day}` : `Every ${interval} weeks`;
+    }
+    case 'monthly':
+      return rule.dayOfMonth ? `Monthly on the ${ordinal(rule.dayOfMonth)}` : 'Monthly';
+    case 'after-completion':
+      return `${interval} day${interval === 1 ? '' : 's'} after completion`;
+  }
+};
+
+/**
+ * The next date in a rule's series strictly after the given date
+ */
+const advance = (rule: RepeatRule, date: Date, anchorDay: number): Date => {
+  const interval = rule.interval || 1;
+  switch (rule.frequency) {
+    case 'daily':
+    case 'after-completion':
+      return addDays(date, interval);
+    case 'weekdays': {
+      let next = addDays(date, 1);
+      while (next.getDay() === 0 || next.getDay() === 6) {
+        next = addDays(next, 1);
+      }
+      return next;
+    }
+    case 'weekly': {
+      if (rule.weekday !== undefined && date.getDay() !== rule.weekday) {
+        // Align to the rule's weekday first
+        return addDays(date, (rule.weekday - date.getDay() + 7) % 7);
+      }
+      return addDays(date, 7 * interval);
+    }
+    case 'monthly': {
+      const day = rule.dayOfMonth || anchorDay;
+      const month = date.getDate() < Math.min(day, daysInMonth(date.getFullYear(), date.getMonth()))
+        ? date.getMonth()
+        : date.getMonth() + 1;
+      const year = date.getFullYear() + Math.floor(month / 12);
+      const normalizedMonth = month % 12;
+      return new Date(year, normalizedMonth, Math.min(day, daysInMonth(year, normalizedMonth)));
+    }
+  }
+};
+
+/**
+ * First due date on or after the given date, e.g. the next Monday for "every monday"
+ */
+export const getFirstOccurrence = (rule: RepeatRule, fromDate: string): string => {
+  const from = parseDate(fromDate);
+  const dayBefore = addDays(from, -1);
+
+  switch (rule.frequency) {
+    case 'weekdays':
+    case 'monthly':
+      return toLocalDateString(advance(rule, dayBefore, from.getDate()));
+    case 'weekly':
+      if (rule.weekday !== undefined && from.getDay() !== rule.weekday) {
+        return toLocalDateString(advance(rule, from, from.getDate()));
+      }
+      return fromDate;
+    default:
+      return fromDate;
+  }
+};
+
+/**
+ * Due date of the occurrence that follows a completed one.
+ * Occurrences that would already be past are skipped, so finishing an
+ * overdue daily todo schedules it for tomorrow rather than yesterday.
+ */
+export const getNextOccurrence = (rule: RepeatRule, dueDate: string, completedDate: string): string => {
+  if (rule.frequency === 'after-completion') {
+    return toLocalDateString(advance(rule, parseDate(completedDate), 0));
+  }
+
+  const anchorDay = parseDate(dueDate).getDate();
+  const completed = parseDate(completedDate);
+  let next = advance(rule, parseDate(dueDate), anchorDay);
+  while (next <= completed) {
+    next = advance(rule, next, anchorDay);
+  }
+  return toLocalDateString(next);
+};
+
+/**
+ * Due dates of the occurrences after the current one, for previewing a series
+ */
+export const getUpcomingOccurrences = (rule: RepeatRule, dueDate: string, count: number): string[] => {
+  const anchorDay = parseDate(dueDate).getDate();
+  const dates: string[] = [];
+  let date = parseDate(dueDate);
+  for (let i = 0; i < count; i++) {
+    date = advance(rule, date, anchorDay);
+    dates.push(toLocalDateString(date));
+  }
+  return dates;
+};
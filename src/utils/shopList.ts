@@ -0,0 +1,211 @@
+/**
+ * Shopping list helpers: parsing typed items, aisle grouping and merging
+ * copies of a shared list that were edited separately
+ */
+import { ShopAisle, ShopItem } from '../types/sparkData';
+import { generateId } from './idUtils';
+
+export const SHOP_AISLES: { key: ShopAisle; label: string; icon: string }[] = [
+    { key: 'produce', label: 'Produce', icon: '🥬' },
+    { key: 'bakery', label: 'Bakery', icon: '🥖' },
+    { key: 'dairy', label: 'Dairy & Eggs', icon: '🥛' },
+    { key: 'meat', label: 'Meat & Fish', icon: '🥩' },
+    { key: 'frozen', label: 'Frozen', icon: '🧊' },
+    { key: 'pantry', label: 'Pantry', icon: '🥫' },
+    { key: 'drinks', label: 'Drinks', icon: '🧃' },
+    { key: 'household', label: 'Household', icon: '🧻' },
+    { key: 'other', label: 'Other', icon: '🛒' },
+];
+
+// Guess an aisle from the item name; earlier entries win, so the more
+// specific names ("peanut butter", "ice cream") come first
+const AISLE_KEYWORDS: { aisle: ShopAisle; pattern: RegExp }[] = [
+    { aisle: 'frozen', pattern: /\b(frozen|ice cream|ice)\b/i },
+    { aisle: 'pantry', pattern: /\b(peanut butter|tomato sauce|canned|cans? of)\b/i },
+    { aisle: 'household', pattern: /\b(paper towels?|toilet paper|tissues|detergent|soap|shampoo|conditioner|toothpaste|trash bags|bin bags|batteries|sponges?|foil|cling film|light ?bulbs?)\b/i },
+    { aisle: 'meat', pattern: /\b(chicken|beef|pork|bacon|sausages?|turkey|ham|steaks?|mince|fish|salmon|tuna|shrimp|prawns)\b/i },
+    { aisle: 'bakery', pattern: /\b(bread|bagels?|buns?|rolls?|croissants?|muffins?|tortillas?|baguettes?|pita|cake)\b/i },
+    { aisle: 'dairy', pattern: /\b(milk|cheese|yogh?urt|butter|cream|eggs?)\b/i },
+    { aisle: 'produce', pattern: /\b(apples?|bananas?|oranges?|lemons?|limes?|berries|strawberries|blueberries|grapes|avocados?|lettuce|spinach|tomato(es)?|onions?|garlic|potato(es)?|carrots?|peppers?|cucumbers?|broccoli|mushrooms?|herbs|fruit|veg(etables?)?|salad)\b/i },
+    { aisle: 'drinks', pattern: /\b(water|juice|soda|cola|coke|beer|wine|coffee|tea)\b/i },
+    { aisle: 'pantry', pattern: /\b(rice|pasta|noodles|flour|sugar|salt|cereal|oats|beans|lentils|sauce|oil|vinegar|spices?|jam|honey|soup|crackers|chips|crisps|snacks|nuts)\b/i },
+];
+
+// "2", "1.5 kg", "3 cans", "2x" ahead of the name, optionally followed by "of"
+const LEADING_QUANTITY = /^(\d+(?:[.,]\d+)?(?:\s*(?:x|lbs?|kg|g|oz|l|ml|dozen|packs?|bags?|cans?|bottles?|boxes?|jars?|bunch(?:es)?|loaf|loaves)\b)?)(?:\s+of)?\s+(.+)$/i;
+
+// "milk x2", "milk (2)"
+const TRAILING_QUANTITY = /^(.+?)\s*(?:x\s*(\d+)|\((\d+)\))$/i;
+
+// Deleted items are kept this long so the delete can reach other copies of a shared list
+const TOMBSTONE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const guessShopAisle = (name: string): ShopAisle =>
+    AISLE_KEYWORDS.find(({ pattern }) => pattern.test(name))?.aisle ?? 'other';
+
+/**
+ * Split typed text such as "2 bags of rice" or "milk x2" into a name and quantity
+ */
+export const parseShopItemText = (text: string): { name: string; quantity?: string } => {
+    const trimmed = text.trim().replace(/\s+/g, ' ');
+
+    const leading = trimmed.match(LEADING_QUANTITY);
+    if (leading) {
+        return { name: leading[2], quantity: leading[1].replace(/\s*x$/i, '') };
+    }
+
+    const trailing = trimmed.match(TRAILING_QUANTITY);
+    if (trailing) {
+        return { name: trailing[1], quantity: trailing[2] || trailing[3] };
+    }
+
+    return { name: trimmed };
+};
+
+/**
+ * One line of the list editor, e.g. "2 Milk"
+ */
+export const formatShopItemText = (item: ShopItem): string =>
+    item.quantity ? `${item.quantity} ${item.name}` : item.name;
+
+/**
+ * New unchecked item from typed text, with its aisle guessed from the name
+ */
+export const createShopItem = (text: string, now: number = Date.now()): ShopItem => {
+    const { name, quantity } = parseShopItemText(text);
+    return {
+        id: generateId(),
+        name,
+        ...(quantity ? { quantity } : {}),
+        aisle: guessShopAisle(name),
+        checked: false,
+        updatedAt: now,
+        checkedAt: now,
+    };
+};
+
+/**
+ * Convert the original { items: string[], checked: number[] } list, where
+ * checkmarks were stored by position, to items with their own ids
+ */
+export const migrateLegacyShopItems = (items: unknown[], checked: unknown[], now: number = Date.now()): ShopItem[] =>
+    items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => typeof item === 'string' && item.trim())
+        .map(({ item, index }) => ({
+            ...createShopItem(item as string, now),
+            checked: checked.includes(index),
+        }));
+
+/**
+ * Items that haven't been deleted
+ */
+export const getVisibleShopItems = (items: ShopItem[]): ShopItem[] => items.filter(item => !item.deleted);
+
+/**
+ * Apply changes to an item's name, quantity, aisle or deleted flag
+ */
+export const editShopItem = (item: ShopItem, changes: Partial<Pick<ShopItem, 'name' | 'quantity' | 'aisle' | 'deleted'>>, now: number = Date.now()): ShopItem => ({
+    ...item,
+    ...changes,
+    updatedAt: now,
+});
+
+export const setShopItemChecked = (item: ShopItem, checked: boolean, now: number = Date.now()): ShopItem => ({
+    ...item,
+    checked,
+    checkedAt: now,
+});
+
+/**
+ * Apply the list editor's text (one item per line). Lines matching an
+ * existing item by name keep that item, so its id and checkmark survive
+ * reordering; new lines are added and missing items are deleted.
+ */
+export const applyShopListText = (items: ShopItem[], text: string, now: number = Date.now()): ShopItem[] => {
+    const unmatched = getVisibleShopItems(items);
+    const kept = new Map<string, ShopItem>();
+    const added: ShopItem[] = [];
+
+    text.split('\n').map(line => line.trim()).filter(Boolean).forEach(line => {
+        const { name, quantity } = parseShopItemText(line);
+        const index = unmatched.findIndex(item => item.name.toLowerCase() === name.toLowerCase());
+        if (index === -1) {
+            added.push(createShopItem(line, now));
+            return;
+        }
+
+        const [existing] = unmatched.splice(index, 1);
+        const changed = existing.name !== name || (existing.quantity || undefined) !== quantity;
+        kept.set(existing.id, changed ? editShopItem(existing, { name, quantity }, now) : existing);
+    });
+
+    const removed = new Set(unmatched.map(item => item.id));
+    return [
+        ...items.map(item => kept.get(item.id) ?? (removed.has(item.id) ? editShopItem(item, { deleted: true }, now) : item)),
+        ...added,
+    ];
+};
+
+/**
+ * Merge two copies of the same item. Edits and check-offs are resolved
+ * separately, each taking the later change; a delete wins a tie.
+ */
+const mergeShopItem = (local: ShopItem, remote: ShopItem): ShopItem => {
+    const remoteEditWins = remote.updatedAt > local.updatedAt
+        || (remote.updatedAt === local.updatedAt && !!remote.deleted && !local.deleted);
+    const edited = remoteEditWins ? remote : local;
+    const checked = remote.checkedAt > local.checkedAt ? remote : local;
+    return { ...edited, checked: checked.checked, checkedAt: checked.checkedAt };
+};
+
+/**
+ * Merge a local copy of a list with another copy, e.g. the shared list
+ * after editing offline. Every item from either copy is kept; items in
+ * both are merged field by field. Local order comes first.
+ */
+export const mergeShopItems = (local: ShopItem[], remote: ShopItem[]): ShopItem[] => {
+    const remoteById = new Map(remote.map(item => [item.id, item]));
+    const localIds = new Set(local.map(item => item.id));
+
+    return [
+        ...local.map(item => {
+            const other = remoteById.get(item.id);
+            return other ? mergeShopItem(item, other) : item;
+        }),
+        ...remote.filter(item => !localIds.has(item.id)),
+    ];
+};
+
+/**
+ * Whether two copies hold the same version of every item, i.e. merging
+ * them would change neither
+ */
+export const isSameShopList = (a: ShopItem[], b: ShopItem[]): boolean => {
+    if (a.length !== b.length) return false;
+    const version = (item: ShopItem) => `${item.updatedAt}|${item.checkedAt}|${item.deleted ? 1 : 0}`;
+    const versions = new Map(a.map(item => [item.id, version(item)]));
+    return b.every(item => versions.get(item.id) === version(item));
+};
+
+/**
+ * Drop deleted items once they're old enough that every copy has seen the delete
+ */
+export const pruneDeletedShopItems = (items: ShopItem[], now: number = Date.now()): ShopItem[] =>
+    items.filter(item => !item.deleted || now - item.updatedAt < TOMBSTONE_MAX_AGE_MS);
+
+/**
+ * Visible items grouped by aisle in store order, leaving out empty aisles.
+ * Unchecked items come before checked ones within each aisle.
+ */
+export const groupShopItemsByAisle = (items: ShopItem[]): { aisle: ShopAisle; items: ShopItem[] }[] => {
+    const visible = getVisibleShopItems(items);
+    return SHOP_AISLES
+        .map(({ key }) => ({
+            aisle: key,
+            items: visible
+                .filter(item => (item.aisle || 'other') === key)
+                .sort((a, b) => Number(a.checked) - Number(b.checked)),
+        }))
+        .filter(group => group.items.length > 0);
+};
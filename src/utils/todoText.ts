@@ -0,0 +1,67 @@
+/**
+ * Reading the category, repeat rule, priority and due date out of typed task text
+ */
+import { RepeatRule, TodoPriority } from '../types/sparkData';
+import { parseRepeatPhrase } from './recurrence';
+import { extractNaturalDate } from './dateUtils';
+
+const PRIORITY_TOKEN = /(?:^|\s)!(high|medium|med|low)\b/i;
+
+export interface ParsedTaskText {
+    text: string; // What to store: the input without its due date phrase
+    category?: string;
+    displayText: string;
+    repeat?: RepeatRule;
+    priority?: TodoPriority;
+    dueDate?: string;
+}
+
+/**
+ * Pull a "!high" / "!medium" / "!low" token out of task text
+ */
+export const parsePriorityToken = (text: string): { text: string; priority?: TodoPriority } => {
+    const match = text.match(PRIORITY_TOKEN);
+    if (!match) return { text };
+    const word = match[1].toLowerCase();
+    const stripped = (text.slice(0, match.index) + text.slice(match.index! + match[0].length)).replace(/\s{2,}/g, ' ').trim();
+    return { text: stripped, priority: word === 'med' ? 'medium' : word as TodoPriority };
+};
+
+/**
+ * Replace (or remove) the priority token in task text
+ */
+export const setPriorityToken = (text: string, priority?: TodoPriority): string => {
+    const { text: stripped } = parsePriorityToken(text);
+    return priority ? `${stripped} !${priority}` : stripped;
+};
+
+/**
+ * Parse task text such as "home: take out trash every monday" or
+ * "work: file report next friday !high". The repeat phrase is read before the
+ * due date, so "every monday" isn't taken as a one-off "monday". A due date
+ * phrase is resolved once, so the returned text no longer contains it.
+ */
+export const parseTaskText = (input: string, now: Date = new Date()): ParsedTaskText => {
+    const { text: withoutPriority, priority } = parsePriorityToken(input.trim());
+    const { text: withoutRepeat, repeat, phrase } = parseRepeatPhrase(withoutPriority);
+    const { text: withoutDate, date: dueDate } = extractNaturalDate(withoutRepeat, now);
+    const text = setPriorityToken(phrase ? `${withoutDate} ${phrase}` : withoutDate, priority);
+
+    const colonIndex = withoutDate.indexOf(':');
+    if (colonIndex === -1 || colonIndex === 0) {
+        // No category or colon at start
+        return { text, displayText: withoutDate, repeat, priority, dueDate };
+    }
+
+    const category = withoutDate.substring(0, colonIndex).trim().toLowerCase();
+    const displayText = withoutDate.substring(colonIndex + 1).trim();
+
+    return {
+        text,
+        category: category || undefined,
+        displayText: displayText || withoutDate,
+        repeat,
+        priority,
+        dueDate,
+    };
+};
@@ -0,0 +1,174 @@
+/**
+ * CSV import and export for weight tracker entries
+ */
+import { WeightEntry } from '../types/sparkData';
+import { parseCsvRows } from './csv';
+import { toLocalDateString } from './dateUtils';
+import { WeightUnit, toKilograms, toDisplayWeight, parseWeightUnit } from './weightUnits';
+
+export interface WeightCsvParseResult {
+    entries: WeightEntry[]; // Weights in kilograms
+    errors: string[]; // One message per row that couldn't be read
+}
+
+export interface WeightMergeResult {
+    entries: WeightEntry[];
+    added: number;
+    duplicates: number;
+}
+
+// Same day and within this many kg counts as the same weigh-in
+const DUPLICATE_TOLERANCE_KG = 0.05;
+
+/**
+ * A local date, or null when any part is out of range rather than letting
+ * "2025-13-45" roll over into another month
+ */
+const toValidDate = (year: number, month: number, day: number, hours = 12, minutes = 0): Date | null => {
+    if (month < 1 || month > 12 || hours > 23 || minutes > 59) return null;
+    if (day < 1 || day > new Date(year, month, 0).getDate()) return null;
+    return new Date(year, month - 1, day, hours, minutes);
+};
+
+const SLASH_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/;
+
+/**
+ * Whether a file's slash dates are day first ("31/01/2025"), which shows as
+ * a first field above 12 on any row
+ */
+const isDayFirst = (values: string[]): boolean =>
+    values.some(value => Number(value.match(SLASH_DATE_PATTERN)?.[1]) > 12);
+
+/**
+ * Read dates as exported by common scales and apps:
+ * "2025-01-31", "2025-01-31 07:15:00", "01/31/2025", "31/01/2025", "Jan 31, 2025"
+ * @param dayFirst - Read slash dates as DD/MM/YYYY rather than MM/DD/YYYY
+ */
+const parseCsvDate = (value: string, dayFirst = false): Date | null => {
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?/);
+    if (iso) {
+        const [, year, month, day, hours, minutes] = iso;
+        // Date-only values are placed at noon so they stay on the same day in any time zone
+        return toValidDate(Number(year), Number(month), Number(day), hours ? Number(hours) : 12, minutes ? Number(minutes) : 0);
+    }
+
+    const slash = value.match(SLASH_DATE_PATTERN);
+    if (slash) {
+        const year = Number(slash[3]) < 100 ? 2000 + Number(slash[3]) : Number(slash[3]);
+        const [month, day] = dayFirst ? [slash[2], slash[1]] : [slash[1], slash[2]];
+        return toValidDate(year, Number(month), Number(day));
+    }
+
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+/**
+ * Read a weight cell such as "182.4", "82,5" or "182.4 lb"
+ */
+const parseCsvWeight = (value: string): { weight: number; unit: WeightUnit | null } | null => {
+    const match = value.match(/^(\d+(?:[.,]\d+)?)\s*([a-zA-Z]*)$/);
+    if (!match) return null;
+    const weight = parseFloat(match[1].replace(',', '.'));
+    if (!(weight > 0)) return null;
+    return { weight, unit: match[2] ? parseWeightUnit(match[2]) : null };
+};
+
+/**
+ * Parse a CSV of weigh-ins. Accepts a plain "date,weight,unit" file or a
+ * smart-scale export with headers like "Date,Weight (kg),BMI,Fat %".
+ * @param fallbackUnit - Unit for rows that don't state one
+ */
+export const parseWeightCsv = (text: string, fallbackUnit: WeightUnit): WeightCsvParseResult => {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+    const rows = parseCsvRows(text.replace(/^\uFEFF/, ''), delimiter);
+    if (rows.length === 0) return { entries: [], errors: ['File is empty'] };
+
+    // A header row is one whose cells aren't dates or numbers
+    const header = rows[0];
+    const hasHeader = !parseCsvDate(header[0]) && !header.some(cell => parseCsvWeight(cell));
+    let dateColumn = 0;
+    let weightColumn = 1;
+    let unitColumn: number | null = 2;
+    let headerUnit: WeightUnit | null = null;
+
+    if (hasHeader) {
+        const names = header.map(cell => cell.toLowerCase());
+        dateColumn = names.findIndex(name => /date|time/.test(name));
+        weightColumn = names.findIndex(name => /weight/.test(name));
+        const unitIndex = names.findIndex(name => /^unit/.test(name));
+        unitColumn = unitIndex === -1 ? null : unitIndex;
+        if (dateColumn === -1 || weightColumn === -1) {
+            return { entries: [], errors: ['Could not find date and weight columns'] };
+        }
+        headerUnit = parseWeightUnit(header[weightColumn]);
+    }
+
+    const entries: WeightEntry[] = [];
+    const errors: string[] = [];
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+    const firstRowNumber = hasHeader ? 2 : 1;
+    const dayFirst = isDayFirst(dataRows.map(row => row[dateColumn] || ''));
+
+    dataRows.forEach((row, index) => {
+        const rowNumber = index + firstRowNumber;
+        const date = parseCsvDate(row[dateColumn] || '', dayFirst);
+        const weight = parseCsvWeight(row[weightColumn] || '');
+        if (!date) {
+            errors.push(`Row ${rowNumber}: unrecognized date "${row[dateColumn] || ''}"`);
+            return;
+        }
+        if (!weight) {
+            errors.push(`Row ${rowNumber}: unrecognized weight "${row[weightColumn] || ''}"`);
+            return;
+        }
+
+        const unit = weight.unit
+            || (unitColumn !== null && row[unitColumn] ? parseWeightUnit(row[unitColumn]) : null)
+            || headerUnit
+            || fallbackUnit;
+
+        entries.push({
+            id: `import-${date.getTime()}-${index}`,
+            date: date.toISOString(),
+            weight: toKilograms(weight.weight, unit),
+        });
+    });
+
+    return { entries, errors };
+};
+
+const isDuplicate = (a: WeightEntry, b: WeightEntry): boolean =>
+    toLocalDateString(new Date(a.date)) === toLocalDateString(new Date(b.date))
+    && Math.abs(a.weight - b.weight) <= DUPLICATE_TOLERANCE_KG;
+
+/**
+ * Add imported entries, skipping any that match an existing weigh-in
+ * (or an earlier row of the same import) on the same day
+ */
+export const mergeWeightEntries = (existing: WeightEntry[], imported: WeightEntry[]): WeightMergeResult => {
+    const entries = [...existing];
+    let duplicates = 0;
+
+    imported.forEach(entry => {
+        if (entries.some(current => isDuplicate(current, entry))) {
+            duplicates++;
+            return;
+        }
+        entries.push(entry);
+    });
+
+    return { entries, added: entries.length - existing.length, duplicates };
+};
+
+/**
+ * Export entries as "date,weight,unit" rows, oldest first
+ * @param unit - Unit to write weights in
+ */
+export const exportWeightCsv = (entries: WeightEntry[], unit: WeightUnit): string => {
+    const rows = [...entries]
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .map(entry => `${toLocalDateString(new Date(entry.date))},${toDisplayWeight(entry.weight, unit)},${unit}`);
+    return ['date,weight,unit', ...rows].join('\n') + '\n';
+};
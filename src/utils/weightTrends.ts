@@ -0,0 +1,148 @@
+/**
+ * Trend analytics for the weight tracker, kept apart from the chart rendering
+ */
+import { WeightEntry } from '../types/sparkData';
+
+export type WeightRange = '30d' | '90d' | '1y' | 'all';
+
+export const WEIGHT_RANGES: { key: WeightRange; label: string; days: number | null }[] = [
+    { key: '30d', label: '30D', days: 30 },
+    { key: '90d', label: '90D', days: 90 },
+    { key: '1y', label: '1Y', days: 365 },
+    { key: 'all', label: 'All', days: null },
+];
+
+export interface WeightTrendPoint {
+    id: string;
+    date: Date;
+    weight: number;
+    trend: number; // Smoothed weight at this entry
+}
+
+export interface WeightAnalytics {
+    points: WeightTrendPoint[]; // Entries in the selected range, oldest first
+    currentTrend: number | null;
+    weeklyRate: number | null; // Trend change per week; negative when losing
+    projectedGoalDate: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How quickly the trend follows new weigh-ins: an entry's pull halves every 7 days
+export const DEFAULT_HALF_LIFE_DAYS = 7;
+
+// Weigh-ins closer together than this count as this far apart, so a second
+// entry on the same day still moves the trend
+const MIN_GAP_DAYS = 1;
+
+// Weekly rate is fitted over the trend from this many days before the last entry
+const RATE_WINDOW_DAYS = 28;
+
+// Projections further out than this aren't meaningful
+const MAX_PROJECTION_DAYS = 2 * 365;
+
+/**
+ * Entries sorted oldest first
+ */
+export const sortEntriesByDate = (entries: WeightEntry[]): WeightEntry[] =>
+    [...entries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+/**
+ * Exponentially weighted moving average that accounts for uneven gaps between
+ * weigh-ins: the longer since the last entry, the more a new entry counts
+ * @param entries - Weight entries in any order
+ * @param halfLifeDays - Days for an entry's weight in the average to halve
+ * @returns One point per entry, oldest first
+ */
+export const computeTrend = (
+    entries: WeightEntry[],
+    halfLifeDays: number = DEFAULT_HALF_LIFE_DAYS
+): WeightTrendPoint[] => {
+    const points: WeightTrendPoint[] = [];
+    let previous: WeightTrendPoint | null = null;
+
+    for (const entry of sortEntriesByDate(entries)) {
+        const date = new Date(entry.date);
+        let trend = entry.weight;
+        if (previous) {
+            const gapDays = Math.max(MIN_GAP_DAYS, (date.getTime() - previous.date.getTime()) / DAY_MS);
+            const alpha = 1 - Math.pow(0.5, gapDays / halfLifeDays);
+            trend = previous.trend + alpha * (entry.weight - previous.trend);
+        }
+        previous = { id: entry.id, date, weight: entry.weight, trend };
+        points.push(previous);
+    }
+
+    return points;
+};
+
+/**
+ * Least-squares slope of the trend over the last few weeks, as change per week
+ * @returns null with fewer than two points in the window
+ */
+export const getWeeklyRate = (points: WeightTrendPoint[]): number | null => {
+    if (points.length < 2) return null;
+
+    const end = points[points.length - 1].date.getTime();
+    const recent = points.filter(point => end - point.date.getTime() <= RATE_WINDOW_DAYS * DAY_MS);
+    if (recent.length < 2) return null;
+
+    const xs = recent.map(point => (point.date.getTime() - end) / DAY_MS);
+    const ys = recent.map(point => point.trend);
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+    const denominator = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    if (denominator === 0) return null;
+
+    const slopePerDay = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / denominator;
+    return slopePerDay * 7;
+};
+
+/**
+ * When the trend reaches the goal at the current weekly rate
+ * @returns null if there's no goal, the trend is moving away from it, or it's too far out
+ */
+export const projectGoalDate = (
+    currentTrend: number | null,
+    weeklyRate: number | null,
+    goalWeight: number | null,
+    from: Date
+): Date | null => {
+    if (currentTrend === null || weeklyRate === null || goalWeight === null || weeklyRate === 0) return null;
+
+    const remaining = goalWeight - currentTrend;
+    if (remaining === 0) return from;
+    if (Math.sign(remaining) !== Math.sign(weeklyRate)) return null;
+
+    const days = (remaining / weeklyRate) * 7;
+    if (days > MAX_PROJECTION_DAYS) return null;
+    return new Date(from.getTime() + days * DAY_MS);
+};
+
+/**
+ * Trend, weekly rate and goal projection for the chart and stats.
+ * The trend is smoothed over all history so the start of a range isn't cold.
+ */
+export const getWeightAnalytics = (
+    entries: WeightEntry[],
+    goalWeight: number | null,
+    range: WeightRange = 'all',
+    now: Date = new Date()
+): WeightAnalytics => {
+    const allPoints = computeTrend(entries);
+    const days = WEIGHT_RANGES.find(option => option.key === range)?.days ?? null;
+    const points = days === null
+        ? allPoints
+        : allPoints.filter(point => now.getTime() - point.date.getTime() <= days * DAY_MS);
+
+    const last = allPoints[allPoints.length - 1];
+    const currentTrend = last ? last.trend : null;
+    const weeklyRate = getWeeklyRate(allPoints);
+
+    return {
+        points,
+        currentTrend,
+        weeklyRate,
+        projectedGoalDate: projectGoalDate(currentTrend, weeklyRate, goalWeight, last ? last.date : now),
+    };
+};
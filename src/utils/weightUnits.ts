@@ -0,0 +1,37 @@
+/**
+ * Weight unit conversion. Weight tracker entries are stored in kilograms and
+ * converted to the user's display unit when shown.
+ */
+
+export type WeightUnit = 'lbs' | 'kg';
+
+export const KG_PER_LB = 0.45359237;
+
+/**
+ * Convert a weight in the given unit to kilograms
+ */
+export const toKilograms = (weight: number, unit: WeightUnit): number =>
+    unit === 'lbs' ? weight * KG_PER_LB : weight;
+
+/**
+ * Convert a weight in kilograms to the given unit
+ */
+export const fromKilograms = (kilograms: number, unit: WeightUnit): number =>
+    unit === 'lbs' ? kilograms / KG_PER_LB : kilograms;
+
+/**
+ * Convert kilograms for display, rounded to one decimal place
+ */
+export const toDisplayWeight = (kilograms: number, unit: WeightUnit): number =>
+    Math.round(fromKilograms(kilograms, unit) * 10) / 10;
+
+/**
+ * Read a unit from text such as "kg", "lb", "Pounds" or "Weight (lbs)"
+ * @returns The unit, or null if the text doesn't name one
+ */
+export const parseWeightUnit = (text: string): WeightUnit | null => {
+    const normalized = text.toLowerCase();
+    if (/\b(?:kgs?|kilos?|kilograms?)\b/.test(normalized)) return 'kg';
+    if (/\b(?:lbs?|pounds?)\b/.test(normalized)) return 'lbs';
+    return null;
+};